@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { registerBtrfsTools } from '../platforms/storage/btrfs-tools.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/btrfs/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('Btrfs Tools', () => {
+  let mockServer: any;
+  let mockSSHExecutor: any;
+  let registeredTools: Map<string, any>;
+
+  beforeEach(() => {
+    registeredTools = new Map();
+    mockServer = {
+      tool: vi.fn((name, description, schema, handler) => {
+        registeredTools.set(name, { name, description, schema, handler });
+      }),
+    };
+    mockSSHExecutor = vi.fn();
+    registerBtrfsTools(mockServer as any, mockSSHExecutor);
+  });
+
+  it('should register the btrfs tool', () => {
+    expect(mockServer.tool).toHaveBeenCalledTimes(1);
+    expect(registeredTools.has('btrfs')).toBe(true);
+  });
+
+  it('should return usage with allocation findings', async () => {
+    mockSSHExecutor.mockResolvedValue(fixture('usage.txt'));
+    const result = await registeredTools.get('btrfs').handler({ action: 'usage', mount: '/var/lib/docker' });
+    expect(mockSSHExecutor.mock.calls[0][0]).toMatch(/^echo \/var\/lib\/docker \|/);
+    expect(result.structuredContent.usage).toHaveLength(2);
+    expect(result.content[0].text).toContain('[CRITICAL] Metadata is 93% full');
+  });
+
+  it('should return device stats, scrubs and balances as structured content', async () => {
+    mockSSHExecutor
+      .mockResolvedValueOnce(fixture('device-stats.txt'))
+      .mockResolvedValueOnce(fixture('scrub.txt'))
+      .mockResolvedValueOnce(fixture('balance.txt'));
+    const stats = await registeredTools.get('btrfs').handler({ action: 'device_stats' });
+    expect(stats.structuredContent.deviceStats[0].counters.corruption_errs).toBe(14);
+    const scrubs = await registeredTools.get('btrfs').handler({ action: 'scrub_status' });
+    expect(scrubs.structuredContent.scrubs.map((s: any) => s.state)).toEqual(['finished', 'never', 'finished']);
+    const balances = await registeredTools.get('btrfs').handler({ action: 'balance_status' });
+    expect(balances.structuredContent.balances[0].state).toBe('running');
+  });
+
+  it('should reject relative mounts', async () => {
+    const result = await registeredTools.get('btrfs').handler({ action: 'usage', mount: 'cache' });
+    expect(result.isError).toBe(true);
+    expect(mockSSHExecutor).not.toHaveBeenCalled();
+  });
+});
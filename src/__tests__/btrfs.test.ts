@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import {
+  formatBalanceStatus,
+  formatDeviceStats,
+  formatScrubStatus,
+  formatUsage,
+  parseBalanceStatus,
+  parseDeviceStats,
+  parseScrubStatus,
+  parseUsage,
+  usageCommand,
+} from '../platforms/storage/btrfs.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/btrfs/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('btrfs', () => {
+  it('should run once per filesystem or for one validated mount', () => {
+    expect(usageCommand()).toContain("findmnt -rn -t btrfs -o UUID,TARGET | awk '!seen[$1]++ { print $2 }' | while read -r m;");
+    expect(usageCommand('/mnt/cache/')).toMatch(/^echo \/mnt\/cache \| while read -r m; .*btrfs filesystem usage -b "\$m" 2>&1; done; true$/);
+    expect(() => usageCommand('cache')).toThrow(/must be absolute/);
+  });
+
+  describe('parseUsage', () => {
+    const { usage, errors } = parseUsage(fixture('usage.txt'));
+
+    it('should parse overall figures and chunk profiles', () => {
+      expect(usage.map(u => u.mount)).toEqual(['/mnt/cache', '/var/lib/docker']);
+      expect(usage[0]).toMatchObject({
+        deviceSizeBytes: 500107862016,
+        unallocatedBytes: 20107862016,
+        usedBytes: 300000000000,
+        freeEstimatedBytes: 190000000000,
+        metadataRatio: 2,
+        multipleProfiles: false,
+      });
+      expect(usage[0].profiles).toEqual([
+        { type: 'Data', profile: 'single', sizeBytes: 470000000000, usedBytes: 290000000000 },
+        { type: 'Metadata', profile: 'DUP', sizeBytes: 5000000000, usedBytes: 4900000000 },
+        { type: 'System', profile: 'DUP', sizeBytes: 33554432, usedBytes: 81920 },
+      ]);
+      expect(errors).toEqual([{ mount: '/mnt/gone', message: 'not a btrfs filesystem: /mnt/gone' }]);
+    });
+
+    it('should warn when metadata is full while data chunks have space', () => {
+      expect(usage[1].findings).toEqual([{
+        severity: 'CRITICAL',
+        message: 'Metadata is 93% full with 0 B unallocated, while data chunks hold 8.69 GiB unused: writes can fail with ENOSPC. Free chunks with: btrfs balance start -dusage=50 /var/lib/docker',
+      }]);
+      expect(usage[0].findings).toEqual([{
+        severity: 'WARNING',
+        message: 'Only 18.73 GiB unallocated; 167.64 GiB in data chunks is unused and can be returned with: btrfs balance start -dusage=50 /mnt/cache',
+      }]);
+    });
+
+    it('should flag missing devices, mixed profiles and a full filesystem', () => {
+      const degraded = fixture('usage.txt').split('--- fs /var/lib/docker')[0]
+        .replace(/Device missing:\s+0/, 'Device missing:\t\t 1000204886016')
+        .replace(/Multiple profiles:\s+no/, 'Multiple profiles:\t\t yes')
+        .replace(/Free \(estimated\):\s+190000000000/, 'Free (estimated):\t\t 10000000000');
+      expect(parseUsage(degraded).usage[0].findings.map(f => f.severity + ' ' + f.message.split(';')[0])).toEqual([
+        'CRITICAL 931.51 GiB of devices missing',
+        'WARNING Only 18.73 GiB unallocated',
+        'WARNING Filesystem is 97% full',
+        'WARNING Multiple block group profiles in use (an interrupted conversion?)',
+      ]);
+    });
+
+    it('should format profiles with findings', () => {
+      const text = formatUsage(usage, errors);
+      expect(text).toContain('/mnt/cache: 279.40 GiB used of 465.76 GiB, 176.95 GiB free (estimated)');
+      expect(text).toContain('  Metadata (DUP): 4.56 GiB of 4.66 GiB (98%)');
+      expect(text).toContain('/mnt/gone: ERROR not a btrfs filesystem');
+      expect(formatUsage([], [])).toBe('No btrfs filesystems mounted\n');
+    });
+  });
+
+  describe('parseDeviceStats', () => {
+    it('should group counters per device and flag non-zero ones', () => {
+      const { stats, errors } = parseDeviceStats(fixture('device-stats.txt'));
+      expect(stats).toHaveLength(2);
+      expect(stats[0]).toEqual({
+        mount: '/mnt/cache',
+        device: '/dev/nvme0n1p1',
+        counters: { write_io_errs: 0, read_io_errs: 0, flush_io_errs: 0, corruption_errs: 14, generation_errs: 0 },
+      });
+      const text = formatDeviceStats(stats, errors);
+      expect(text).toContain('  [WARNING] /dev/nvme0n1p1: corruption_errs 14\n  /dev/nvme1n1p1: no errors\n');
+      expect(text).toContain('btrfs device stats -z');
+    });
+  });
+
+  describe('parseScrubStatus', () => {
+    const status = parseScrubStatus(fixture('scrub.txt'));
+
+    it('should read current, never-run and old-format scrubs', () => {
+      expect(status.now).toBe('2026-10-18T09:00:00');
+      expect(status.scrubs).toEqual([
+        { mount: '/mnt/cache', state: 'finished', startedAt: '2026-10-11T03:00:01', duration: '0:12:34', errors: 4, summary: 'read=1 csum=3 (uncorrectable: 1)' },
+        { mount: '/var/lib/docker', state: 'never', startedAt: null, duration: null, errors: null, summary: null },
+        { mount: '/mnt/old', state: 'finished', startedAt: '2026-08-01T02:00:01', duration: '00:05:10', errors: 0, summary: '0 errors' },
+      ]);
+    });
+
+    it('should flag errors and overdue scrubs', () => {
+      const text = formatScrubStatus(status);
+      expect(text).toContain('/mnt/cache: finished, started 2026-10-11 03:00:01, duration 0:12:34\n  Errors: read=1 csum=3 (uncorrectable: 1)\n  [WARNING] Scrub found 4 errors');
+      expect(text).toContain('/var/lib/docker: never scrubbed');
+      expect(text).toContain('/mnt/old: finished, started 2026-08-01 02:00:01, duration 00:05:10\n  Errors: 0 errors\n  [WARNING] Last scrub was 78 days ago');
+    });
+  });
+
+  describe('parseBalanceStatus', () => {
+    it('should read running balances and their progress', () => {
+      const { balances, errors } = parseBalanceStatus(fixture('balance.txt'));
+      expect(balances).toEqual([
+        { mount: '/mnt/cache', state: 'running', progress: '2 out of about 10 chunks balanced (3 considered), 80% left' },
+        { mount: '/var/lib/docker', state: 'none', progress: null },
+      ]);
+      expect(formatBalanceStatus(balances, errors)).toBe(
+        '/mnt/cache: balance running (2 out of about 10 chunks balanced (3 considered), 80% left)\n/var/lib/docker: no balance running\n'
+      );
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  composeDrift,
+  groupComposeProjects,
+  mergeTimestampedLogs,
+  parseComposeLabels,
+  registerComposeTools,
+} from '../tools/core/compose-tools.js';
+
+function composeContainer(name: string, service: string, overrides: any = {}) {
+  return {
+    Id: `${name}0123456789abcdef`,
+    Name: `/${name}`,
+    RestartCount: 0,
+    State: { Status: 'running', StartedAt: '2024-01-01T00:00:00Z' },
+    Config: {
+      Image: 'nginx:1.25',
+      Env: ['PATH=/usr/bin', 'TZ=UTC'],
+      Labels: {
+        'com.docker.compose.project': 'web',
+        'com.docker.compose.service': service,
+        'com.docker.compose.project.working_dir': '/mnt/user/appdata/web',
+        'com.docker.compose.project.config_files': '/mnt/user/appdata/web/docker-compose.yml',
+        'com.docker.compose.depends_on': service === 'app' ? 'db:service_started:false' : '',
+      },
+    },
+    HostConfig: {
+      RestartPolicy: { Name: 'unless-stopped', MaximumRetryCount: 0 },
+      PortBindings: service === 'app' ? { '80/tcp': [{ HostIp: '', HostPort: '8080' }] } : {},
+    },
+    ...overrides,
+  };
+}
+
+const inspectFixture = [
+  composeContainer('web-app-1', 'app'),
+  composeContainer('web-db-1', 'db', { Config: { Image: 'postgres:16', Env: ['POSTGRES_DB=web'], Labels: composeContainer('x', 'db').Config.Labels } }),
+];
+
+describe('Compose Tools', () => {
+  let mockServer: any;
+  let mockSSHExecutor: any;
+  let registeredTools: Map<string, any>;
+
+  beforeEach(() => {
+    registeredTools = new Map();
+    mockServer = {
+      tool: vi.fn((name, description, schema, handler) => {
+        registeredTools.set(name, { name, description, schema, handler });
+      }),
+    };
+    mockSSHExecutor = vi.fn();
+    registerComposeTools(mockServer as any, mockSSHExecutor);
+  });
+
+  describe('Tool Registration', () => {
+    it('should register 1 mega-tool', () => {
+      expect(mockServer.tool).toHaveBeenCalledTimes(1);
+      expect(registeredTools.has('compose')).toBe(true);
+    });
+  });
+
+  describe('parseComposeLabels', () => {
+    it('should read v2 depends_on and config files', () => {
+      const labels = parseComposeLabels({
+        'com.docker.compose.project': 'web',
+        'com.docker.compose.depends_on': 'db:service_started:false,redis:service_healthy:true',
+        'com.docker.compose.project.config_files': '/a/compose.yml,/a/compose.override.yml',
+      });
+      expect(labels.project).toBe('web');
+      expect(labels.dependsOn).toEqual(['db', 'redis']);
+      expect(labels.configFiles).toEqual(['/a/compose.yml', '/a/compose.override.yml']);
+    });
+
+    it('should read the older JSON depends_on format', () => {
+      expect(parseComposeLabels({ 'com.docker.compose.depends_on': '{"db":{"condition":"service_started"}}' }).dependsOn).toEqual(['db']);
+    });
+
+    it('should handle containers without labels', () => {
+      expect(parseComposeLabels(undefined)).toMatchObject({ project: undefined, configFiles: [], dependsOn: [] });
+    });
+  });
+
+  describe('groupComposeProjects', () => {
+    it('should group by project and skip non-compose and one-off containers', () => {
+      const oneoff = composeContainer('web-app-run-1', 'app');
+      oneoff.Config.Labels = { ...oneoff.Config.Labels, 'com.docker.compose.oneoff': 'True' };
+      const plain = { Id: 'plain', Name: '/plex', State: {}, Config: { Labels: {} }, HostConfig: {} };
+      const projects = groupComposeProjects([...inspectFixture, oneoff, plain]);
+      expect(projects).toHaveLength(1);
+      expect(projects[0].name).toBe('web');
+      expect(projects[0].workingDir).toBe('/mnt/user/appdata/web');
+      expect(projects[0].containers.map(c => c.service)).toEqual(['app', 'db']);
+      expect(projects[0].containers[0].ports).toEqual(['8080:80/tcp']);
+    });
+  });
+
+  describe('composeDrift', () => {
+    const project = () => groupComposeProjects(inspectFixture)[0];
+
+    it('should report no drift when the file matches', () => {
+      const config = {
+        services: {
+          app: { image: 'nginx:1.25', restart: 'unless-stopped', ports: [{ target: 80, published: '8080', protocol: 'tcp' }], environment: { TZ: 'UTC' } },
+          db: { image: 'postgres:16', environment: { POSTGRES_DB: 'web' } },
+        },
+      };
+      expect(composeDrift(project(), config)).toEqual([]);
+    });
+
+    it('should report changed image, ports, env, missing and orphaned services', () => {
+      const config = {
+        services: {
+          app: { image: 'nginx:1.27', ports: [{ target: 80, published: '9090', protocol: 'tcp' }], environment: { TZ: 'Europe/Oslo', NEW: '1' } },
+          cache: { image: 'redis:7' },
+        },
+      };
+      const drift = composeDrift(project(), config);
+      const fields = drift.map(d => `${d.service}:${d.field}`);
+      expect(fields).toEqual(['app:image', 'app:ports', 'app:env TZ', 'app:env NEW', 'cache:container', 'db:service']);
+      expect(drift[3]).toMatchObject({ expected: '1', actual: '(unset)' });
+    });
+  });
+
+  describe('mergeTimestampedLogs', () => {
+    it('should interleave containers in time order with uneven fractions', () => {
+      const merged = mergeTimestampedLogs([
+        { label: 'app', output: '2024-01-01T10:00:00.5Z app starting\n2024-01-01T10:00:02.000000001Z app ready\n' },
+        { label: 'db', output: '2024-01-01T10:00:00.25Z db starting\n    continued\n2024-01-01T10:00:01Z db ready\n' },
+      ]);
+      expect(merged.map(l => l.trim())).toEqual([
+        '2024-01-01T10:00:00.250 [db] db starting',
+        '[db]     continued',
+        '2024-01-01T10:00:00.500 [app] app starting',
+        '2024-01-01T10:00:01 [db] db ready',
+        '2024-01-01T10:00:02.000 [app] app ready',
+      ]);
+    });
+
+    it('should keep only the most recent lines', () => {
+      const merged = mergeTimestampedLogs([{ label: 'a', output: '2024-01-01T00:00:01Z one\n2024-01-01T00:00:02Z two\n' }], 1);
+      expect(merged).toHaveLength(1);
+      expect(merged[0]).toContain('two');
+    });
+  });
+
+  describe('action=projects', () => {
+    it('should list projects with working dir and running count', async () => {
+      mockSSHExecutor.mockResolvedValue(JSON.stringify(inspectFixture));
+      const result = await registeredTools.get('compose').handler({ action: 'projects' });
+      expect(mockSSHExecutor.mock.calls[0][0]).toContain('label=com.docker.compose.project');
+      expect(result.content[0].text).toContain('web: 2/2 running');
+      expect(result.content[0].text).toContain('Working dir: /mnt/user/appdata/web');
+      expect(result.content[0].text).toContain('Services: app, db');
+    });
+
+    it('should say when there are no projects', async () => {
+      mockSSHExecutor.mockResolvedValue('[]');
+      const result = await registeredTools.get('compose').handler({ action: 'projects' });
+      expect(result.content[0].text).toContain('No Compose projects found');
+    });
+  });
+
+  describe('action=status', () => {
+    it('should show each service', async () => {
+      mockSSHExecutor.mockResolvedValue(JSON.stringify(inspectFixture));
+      const result = await registeredTools.get('compose').handler({ action: 'status', project: 'web' });
+      expect(result.content[0].text).toContain('app: running');
+      expect(result.content[0].text).toContain('Depends on: db');
+    });
+
+    it('should list known projects when the project is unknown', async () => {
+      mockSSHExecutor.mockResolvedValue(JSON.stringify(inspectFixture));
+      const result = await registeredTools.get('compose').handler({ action: 'status', project: 'media' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Known projects: web');
+    });
+
+    it('should reject invalid project names', async () => {
+      mockSSHExecutor.mockResolvedValue(JSON.stringify(inspectFixture));
+      const result = await registeredTools.get('compose').handler({ action: 'status', project: 'web; reboot' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Invalid project name');
+    });
+  });
+
+  describe('action=drift', () => {
+    it('should resolve the compose file from the labels', async () => {
+      mockSSHExecutor
+        .mockResolvedValueOnce(JSON.stringify(inspectFixture))
+        .mockResolvedValueOnce(JSON.stringify({ services: { app: { image: 'nginx:1.27', ports: ['8080:80'] }, db: { image: 'postgres:16' } } }));
+      const result = await registeredTools.get('compose').handler({ action: 'drift', project: 'web' });
+      expect(mockSSHExecutor.mock.calls[1][0]).toBe(
+        'docker compose -p web --project-directory /mnt/user/appdata/web -f /mnt/user/appdata/web/docker-compose.yml config --format json'
+      );
+      expect(result.content[0].text).toContain('DRIFT (1)');
+      expect(result.content[0].text).toContain('compose file: nginx:1.27');
+    });
+  });
+
+  describe('action=logs', () => {
+    it('should fetch timestamped logs per container and merge them', async () => {
+      mockSSHExecutor
+        .mockResolvedValueOnce(JSON.stringify(inspectFixture))
+        .mockResolvedValueOnce('2024-01-01T10:00:02Z app ready\n')
+        .mockResolvedValueOnce('2024-01-01T10:00:01Z db ready\n');
+      const result = await registeredTools.get('compose').handler({ action: 'logs', project: 'web', lines: 50, since: '1h' });
+      expect(mockSSHExecutor.mock.calls[1][0]).toBe('docker logs --timestamps --tail 50 --since 1h web-app-1 2>&1');
+      const text = result.content[0].text;
+      expect(text.indexOf('[db] db ready')).toBeLessThan(text.indexOf('[app] app ready'));
+    });
+
+    it('should reject option-like since values', async () => {
+      mockSSHExecutor.mockResolvedValue(JSON.stringify(inspectFixture));
+      const result = await registeredTools.get('compose').handler({ action: 'logs', project: 'web', since: '--help' });
+      expect(result.isError).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { findCronEntry, fromNaiveTime, nextCronRun, toNaiveTime } from '../cron.js';
+
+describe('cron', () => {
+  describe('nextCronRun', () => {
+    it('should find the next monthly run', () => {
+      expect(nextCronRun('0 3 1 * *', '2023-04-15T12:00:00')).toBe('2023-05-01T03:00:00');
+      expect(nextCronRun('0 3 1 * *', '2023-05-01T02:59:00')).toBe('2023-05-01T03:00:00');
+    });
+
+    it('should handle weekdays, lists, ranges and steps', () => {
+      // 2024-01-03 is a Wednesday
+      expect(nextCronRun('30 1 * * 0', '2024-01-03T00:00:00')).toBe('2024-01-07T01:30:00');
+      expect(nextCronRun('0 0 1 1,4,7,10 *', '2024-02-10T00:00:00')).toBe('2024-04-01T00:00:00');
+      expect(nextCronRun('*/15 2-3 * * *', '2024-01-01T02:50:00')).toBe('2024-01-01T03:00:00');
+    });
+
+    it('should match either day field when both are restricted', () => {
+      expect(nextCronRun('0 0 15 * 1', '2024-01-03T00:00:00')).toBe('2024-01-08T00:00:00');
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(nextCronRun('0 25 * * *', '2024-01-01T00:00:00')).toBeNull();
+      expect(nextCronRun('@monthly', '2024-01-01T00:00:00')).toBeNull();
+    });
+  });
+
+  describe('findCronEntry', () => {
+    it('should return the first uncommented line whose command matches', () => {
+      const crontab = '# Generated mover schedule:\n# 0 0 * * * /usr/local/sbin/mover\n40 3 * * * /usr/local/sbin/mover &> /dev/null\n';
+      expect(findCronEntry(crontab, /mover/)).toEqual({ cron: '40 3 * * *', command: '/usr/local/sbin/mover &> /dev/null' });
+      expect(findCronEntry(crontab, /mdcmd/)).toBeNull();
+    });
+  });
+
+  describe('naive times', () => {
+    it('should round-trip without a zone', () => {
+      expect(toNaiveTime(fromNaiveTime('2024-02-29T23:59:00') + 60000)).toBe('2024-03-01T00:00:00');
+    });
+  });
+});
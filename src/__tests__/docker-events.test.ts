@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DockerEventWatcher,
+  loadEventWatcherOptions,
+  matchesEventFilter,
+  parseDockerEvents,
+  parseEventWindow,
+} from '../docker-events.js';
+
+function eventLine(time: number, type: string, action: string, id: string, attributes: Record<string, string> = {}): string {
+  return JSON.stringify({ Type: type, Action: action, Actor: { ID: id, Attributes: attributes }, time, timeNano: time * 1e9 });
+}
+
+describe('docker-events', () => {
+  afterEach(() => {
+    delete process.env.DOCKER_EVENTS_RETENTION_MINUTES;
+    delete process.env.DOCKER_EVENTS_POLL_SECONDS;
+  });
+
+  describe('parseDockerEvents', () => {
+    it('should parse actions, details and attributes', () => {
+      const output = [
+        'now 1700000100',
+        eventLine(1700000000, 'container', 'die', 'abc123def4567890', { name: 'plex', exitCode: '137' }),
+        eventLine(1700000001, 'container', 'health_status: unhealthy', 'abc123def4567890', { name: 'plex' }),
+        'not json',
+      ].join('\n');
+      const events = parseDockerEvents(output);
+      expect(events).toHaveLength(2);
+      expect(events[0]).toMatchObject({ type: 'container', action: 'die', name: 'plex', time: 1700000000 });
+      expect(events[0].attributes.exitCode).toBe('137');
+      expect(events[1]).toMatchObject({ action: 'health_status', detail: 'unhealthy' });
+    });
+  });
+
+  describe('matchesEventFilter', () => {
+    const [die, connect] = parseDockerEvents([
+      eventLine(100, 'container', 'die', 'abc123def456', { name: 'plex' }),
+      eventLine(200, 'network', 'connect', 'net1', { name: 'bridge', container: 'abc123def456' }),
+    ].join('\n'));
+
+    it('should filter by time, type and action', () => {
+      expect(matchesEventFilter(die, { since: 50 })).toBe(true);
+      expect(matchesEventFilter(die, { since: 150 })).toBe(false);
+      expect(matchesEventFilter(die, { since: 0, until: 99 })).toBe(false);
+      expect(matchesEventFilter(die, { since: 0, type: 'image' })).toBe(false);
+      expect(matchesEventFilter(die, { since: 0, actions: ['oom', 'die'] })).toBe(true);
+    });
+
+    it('should match containers by name, ID prefix and network attachment', () => {
+      expect(matchesEventFilter(die, { since: 0, container: 'plex' })).toBe(true);
+      expect(matchesEventFilter(die, { since: 0, container: 'abc123' })).toBe(true);
+      expect(matchesEventFilter(connect, { since: 0, container: 'abc123' })).toBe(true);
+      expect(matchesEventFilter(die, { since: 0, container: 'sonarr' })).toBe(false);
+    });
+  });
+
+  describe('parseEventWindow', () => {
+    it('should parse relative windows', () => {
+      expect(parseEventWindow('90s')).toBe(90);
+      expect(parseEventWindow('30m')).toBe(1800);
+      expect(parseEventWindow('2d')).toBe(172800);
+      expect(parseEventWindow('2024-01-01')).toBeNull();
+    });
+  });
+
+  describe('loadEventWatcherOptions', () => {
+    it('should default to a one hour buffer polled every 30 seconds', () => {
+      expect(loadEventWatcherOptions()).toEqual({ retentionSeconds: 3600, pollIntervalMs: 30000 });
+    });
+
+    it('should be disabled with a retention of 0', () => {
+      process.env.DOCKER_EVENTS_RETENTION_MINUTES = '0';
+      expect(loadEventWatcherOptions()).toBeNull();
+    });
+  });
+
+  describe('DockerEventWatcher', () => {
+    it('should backfill the retention window and then poll from the last remote time', async () => {
+      const executor = vi.fn()
+        .mockResolvedValueOnce(`now 1700003600\n${eventLine(1700003000, 'container', 'oom', 'abc', { name: 'plex' })}\n`)
+        .mockResolvedValueOnce(`now 1700003630\n${eventLine(1700003000, 'container', 'oom', 'abc', { name: 'plex' })}\n${eventLine(1700003620, 'container', 'die', 'abc', { name: 'plex' })}\n`);
+      const watcher = new DockerEventWatcher(executor, { retentionSeconds: 3600, pollIntervalMs: 30000 });
+
+      await watcher.poll();
+      expect(executor.mock.calls[0][0]).toContain('docker events --since 3600s --until "$now"');
+      expect(watcher.covers(1700000000)).toBe(true);
+      expect(watcher.covers(1699999999)).toBe(false);
+
+      await watcher.poll();
+      expect(executor.mock.calls[1][0]).toContain('--since 1700003600');
+      // The overlapping oom event is only stored once
+      expect(watcher.query({ since: 0 }).map(e => e.action)).toEqual(['oom', 'die']);
+    });
+
+    it('should drop events that leave the retention window', () => {
+      const watcher = new DockerEventWatcher(vi.fn(), { retentionSeconds: 60, pollIntervalMs: 1000 });
+      watcher.record(parseDockerEvents(eventLine(1000, 'container', 'start', 'a')), 1010);
+      watcher.record([], 1100);
+      expect(watcher.query({ since: 0 })).toHaveLength(0);
+      expect(watcher.covers(1040)).toBe(true);
+    });
+
+    it('should shrink coverage when the size cap trims events', () => {
+      const watcher = new DockerEventWatcher(vi.fn(), { retentionSeconds: 3600, pollIntervalMs: 1000, maxEvents: 2 });
+      const output = [1000, 1001, 1002].map(t => eventLine(t, 'container', 'start', `c${t}`)).join('\n');
+      watcher.record(parseDockerEvents(output), 1010);
+      expect(watcher.query({ since: 0 })).toHaveLength(2);
+      expect(watcher.covers(1000)).toBe(false);
+      expect(watcher.covers(1001)).toBe(true);
+    });
+
+    it('should keep polling after a failure', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const executor = vi.fn()
+        .mockRejectedValueOnce(new Error('docker: command not found'))
+        .mockResolvedValueOnce('now 1700000000\n');
+      const watcher = new DockerEventWatcher(executor, { retentionSeconds: 60, pollIntervalMs: 1000 });
+      await watcher.poll();
+      expect(watcher.refreshedAt).toBeNull();
+      await watcher.poll();
+      expect(watcher.refreshedAt).toBe(1700000000);
+      error.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import {
+  formatDockerTemplate,
+  formatTemplateDrift,
+  inspectContainersCommand,
+  normalizeImage,
+  parseDockerTemplate,
+  parseDockerTemplates,
+  templateDrift,
+  templatesCommand,
+} from '../platforms/unraid/docker-templates.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/templates/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('docker-templates', () => {
+  const plex = parseDockerTemplate(fixture('my-plex.xml'), 'my-plex.xml');
+  const pihole = parseDockerTemplate(fixture('my-pihole.xml'), 'my-pihole.xml');
+  const containers = JSON.parse(fixture('inspect.json'));
+
+  describe('parseDockerTemplate', () => {
+    it('should parse a version 2 template', () => {
+      expect(plex).toMatchObject({
+        file: 'my-plex.xml',
+        name: 'plex',
+        repository: 'plexinc/pms-docker',
+        network: 'bridge',
+        privileged: false,
+        extraParams: '--runtime=nvidia --memory=4g --restart unless-stopped',
+        postArgs: '',
+        cpuset: '2,3',
+        webUi: 'http://[IP]:[PORT:32400]/web',
+      });
+      expect(plex.fixedIp).toBeUndefined();
+      expect(plex.ports).toEqual([
+        { name: 'Web port', containerPort: '32400', hostPort: '32400', protocol: 'tcp' },
+        { name: 'DLNA', containerPort: '1900', hostPort: '1900', protocol: 'udp' },
+      ]);
+      expect(plex.paths.map(p => [p.containerPath, p.hostPath, p.mode])).toEqual([
+        ['/media', '/mnt/user/Media/', 'ro'],
+        ['/config', '/mnt/user/appdata/plex', 'rw'],
+        ['/transcode', '', 'rw'],
+      ]);
+      expect(plex.variables).toEqual([
+        { name: 'Timezone', key: 'TZ', value: 'Europe/Berlin', masked: false },
+        { name: 'Claim token', key: 'PLEX_CLAIM', value: 'claim-abc', masked: true },
+      ]);
+      expect(plex.devices).toEqual([{ name: 'GPU', hostPath: '/dev/dri' }]);
+      expect(plex.labels).toEqual([{ name: 'Backup', key: 'backup.exclude', value: 'transcode' }]);
+    });
+
+    it('should read the blocks of a version 1 template', () => {
+      expect(pihole).toMatchObject({
+        name: 'pihole',
+        network: 'br0',
+        fixedIp: '192.168.1.5',
+        privileged: true,
+        ports: [{ name: '', containerPort: '53', hostPort: '53', protocol: 'udp' }],
+        paths: [{ name: '', containerPath: '/etc/pihole', hostPath: '/mnt/user/appdata/pihole', mode: 'rw' }],
+        variables: [{ name: '', key: 'WEBPASSWORD', value: 'secret', masked: false }],
+      });
+    });
+
+    it('should skip files that are not container templates', () => {
+      const output = `--- template /t/my-plex.xml\n${fixture('my-plex.xml')}\n--- template /t/broken.xml\n<html></html>\n`;
+      expect(parseDockerTemplates(output).map(t => t.file)).toEqual(['my-plex.xml']);
+    });
+  });
+
+  describe('commands', () => {
+    it('should look a template up by container or file name', () => {
+      expect(templatesCommand('plex')).toContain(
+        'for f in /boot/config/plugins/dockerMan/templates-user/plex.xml /boot/config/plugins/dockerMan/templates-user/my-plex.xml;'
+      );
+      expect(templatesCommand('my-plex.xml')).toContain('for f in /boot/config/plugins/dockerMan/templates-user/my-plex.xml;');
+      expect(() => templatesCommand('../../go')).toThrow(/Invalid template name/);
+      expect(inspectContainersCommand('plex')).toBe('docker inspect plex 2>/dev/null; true');
+    });
+  });
+
+  describe('normalizeImage', () => {
+    it('should match how docker reports image references', () => {
+      expect(normalizeImage('docker.io/library/nginx')).toBe('nginx:latest');
+      expect(normalizeImage('ghcr.io/home-assistant/home-assistant:stable')).toBe('ghcr.io/home-assistant/home-assistant:stable');
+      expect(normalizeImage('localhost:5000/app')).toBe('localhost:5000/app:latest');
+    });
+  });
+
+  describe('templateDrift', () => {
+    it('should report fields changed by hand and dockerMan containers without a template', () => {
+      const { drift, missing } = templateDrift([pihole, plex], containers);
+      expect(drift).toEqual([
+        { container: 'plex', field: 'path /config', expected: '/mnt/user/appdata/plex (rw)', actual: '/mnt/user/appdata/plex-old (rw)' },
+        { container: 'plex', field: 'path /scratch', expected: '(not in template)', actual: '/mnt/disks/scratch (rw)' },
+        { container: 'plex', field: 'env TZ', expected: 'Europe/Berlin', actual: 'Europe/London' },
+        { container: 'plex', field: 'env PLEX_CLAIM', expected: '(masked)', actual: '(masked, different value)' },
+        { container: 'plex', field: 'restart', expected: 'unless-stopped', actual: 'no' },
+        { container: 'handmade', field: 'template', expected: 'my-handmade.xml', actual: '(no template)' },
+      ]);
+      expect(missing).toEqual([]);
+    });
+
+    it('should list templates without a container separately', () => {
+      const { drift, missing } = templateDrift([plex], []);
+      expect(drift).toEqual([]);
+      expect(missing).toEqual(['plex']);
+    });
+
+    it('should catch a changed image, network and fixed IP', () => {
+      const moved = JSON.parse(JSON.stringify(containers[1]));
+      moved.Config.Image = 'pihole/pihole:latest';
+      moved.HostConfig.NetworkMode = 'br0.10';
+      moved.NetworkSettings.Networks = { 'br0.10': { IPAMConfig: { IPv4Address: '10.0.0.5' } } };
+      expect(templateDrift([pihole], [moved]).drift.map(d => d.field)).toEqual(['image', 'network', 'fixed IP']);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should mask masked variables', () => {
+      const text = formatDockerTemplate(plex);
+      expect(text).toContain('PLEX_CLAIM=********  (Claim token)');
+      expect(text).toContain('32400 -> 32400/tcp  (Web port)');
+      expect(text).not.toContain('claim-abc');
+    });
+
+    it('should summarise drift', () => {
+      const { drift, missing } = templateDrift([plex], containers);
+      const text = formatTemplateDrift(drift, ['old-app'], 2);
+      expect(text).toContain('Templates: 2, drifted containers: 3');
+      expect(text).toContain('  plex env TZ\n    template:  Europe/Berlin\n    container: Europe/London\n');
+      expect(text).toContain('Templates without a container: old-app');
+      expect(formatTemplateDrift([], missing, 1)).toContain('No drift');
+    });
+  });
+});
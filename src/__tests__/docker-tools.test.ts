@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { registerDockerTools } from '../tools/core/docker-tools.js';
+import {
+  checkExecCommand,
+  loadExecPolicy,
+  matchProtectedContainer,
+  registerDockerTools,
+  splitExecCommand,
+} from '../tools/core/docker-tools.js';
+import { DockerEventWatcher, watchDockerEvents } from '../docker-events.js';
 
 describe('Docker Tools', () => {
   let mockServer: any;
@@ -69,6 +76,32 @@ describe('Docker Tools', () => {
       const result = await tool.handler({ action: 'logs', container: 'test', dockerTail: 100 });
       expect(mockSSHExecutor).toHaveBeenCalledWith('docker logs test --tail 100 2>&1');
     });
+
+    it('should reject container names with shell metacharacters', async () => {
+      const tool = registeredTools.get('docker');
+      const result = await tool.handler({ action: 'logs', container: 'test; rm -rf /' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Invalid container name');
+      expect(mockSSHExecutor).not.toHaveBeenCalled();
+    });
+
+    it('should quote since values', async () => {
+      mockSSHExecutor.mockResolvedValue('');
+      const tool = registeredTools.get('docker');
+      await tool.handler({ action: 'logs', container: 'test', dockerSince: '10m $(reboot)' });
+      expect(mockSSHExecutor).toHaveBeenCalledWith("docker logs test --since '10m $(reboot)' 2>&1");
+    });
+  });
+
+  describe('action=logs_aggregate', () => {
+    it('should pass the pattern to grep as a single quoted argument', async () => {
+      mockSSHExecutor.mockResolvedValueOnce('web\n').mockResolvedValueOnce('match');
+      const tool = registeredTools.get('docker');
+      await tool.handler({ action: 'logs_aggregate', pattern: "it's'; reboot; '" });
+      expect(mockSSHExecutor).toHaveBeenLastCalledWith(
+        "docker logs --tail 100 web 2>&1 | grep -i -e 'it'\\''s'\\''; reboot; '\\''' || true"
+      );
+    });
   });
 
   describe('action=stats', () => {
@@ -143,4 +176,272 @@ describe('Docker Tools', () => {
       expect(result.isError).toBe(true);
     });
   });
+
+  describe('action=events', () => {
+    const dieEvent = JSON.stringify({
+      Type: 'container', Action: 'die', time: 1700000000, timeNano: 1700000000000000000,
+      Actor: { ID: 'abc123def4567890', Attributes: { name: 'plex', exitCode: '137' } },
+    });
+
+    it('should query docker events with filters and parse the result', async () => {
+      mockSSHExecutor.mockResolvedValue(`${dieEvent}\n`);
+      const tool = registeredTools.get('docker');
+      const result = await tool.handler({ action: 'events', eventType: 'container', container: 'plex', eventAction: 'die,oom', dockerSince: '1h' });
+      expect(mockSSHExecutor).toHaveBeenCalledWith(
+        "docker events --since 3600s --until 0s --filter type=container --filter container=plex --filter event=die --filter event=oom --format '{{json .}}'"
+      );
+      expect(result.content[0].text).toContain('Summary (1 events): container die 1');
+      expect(result.content[0].text).toContain('2023-11-14 22:13:20  container die');
+      expect(result.content[0].text).toContain('plex (exit 137)');
+    });
+
+    it('should answer from the background buffer when it covers the window', async () => {
+      vi.useFakeTimers();
+      try {
+        const watcher: DockerEventWatcher = watchDockerEvents(mockSSHExecutor, { retentionSeconds: 3600, pollIntervalMs: 60000 });
+        watcher.stop();
+        watcher.record([{ time: 1700000000, type: 'container', action: 'oom', id: 'abc', name: 'plex', attributes: {} }], 1700000100);
+        const tool = registeredTools.get('docker');
+        const result = await tool.handler({ action: 'events', dockerSince: '30m' });
+        expect(mockSSHExecutor).not.toHaveBeenCalled();
+        expect(result.content[0].text).toContain('in-memory buffer');
+        expect(result.content[0].text).toContain('container oom');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should reject invalid event actions', async () => {
+      const tool = registeredTools.get('docker');
+      const result = await tool.handler({ action: 'events', eventAction: 'die;reboot' });
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe('action=image_updates', () => {
+    const containers = JSON.stringify([
+      { Name: '/plex', Image: 'sha256:old', Config: { Image: 'plexinc/pms-docker' } },
+      { Name: '/db', Image: 'sha256:db1', Config: { Image: 'postgres:16' } },
+    ]);
+    const images = JSON.stringify([
+      { Id: 'sha256:new', RepoTags: ['plexinc/pms-docker:latest'], RepoDigests: ['plexinc/pms-docker@sha256:bbb'], Created: new Date().toISOString() },
+      { Id: 'sha256:old', RepoTags: [], RepoDigests: ['plexinc/pms-docker@sha256:aaa'], Created: '2024-01-01T00:00:00Z' },
+      { Id: 'sha256:db1', RepoTags: ['postgres:16'], RepoDigests: ['postgres@sha256:ddd'], Created: new Date().toISOString() },
+    ]);
+
+    it('should flag containers running an older image than the local tag', async () => {
+      mockSSHExecutor
+        .mockResolvedValueOnce(containers)
+        .mockResolvedValueOnce(images)
+        .mockResolvedValueOnce('/boot/config/plugins/dockerMan/templates-user/my-plex.xml:<Repository>plexinc/pms-docker</Repository>')
+        .mockResolvedValueOnce('');
+      const tool = registeredTools.get('docker');
+      const result = await tool.handler({ action: 'image_updates' });
+      const text = result.content[0].text;
+      expect(mockSSHExecutor).toHaveBeenNthCalledWith(2, 'docker image inspect plexinc/pms-docker:latest sha256:old postgres:16 sha256:db1 2>/dev/null || true');
+      expect(text).toContain('OUTDATED (1)');
+      expect(text).toMatch(/plex\n  Image: plexinc\/pms-docker\n  Age: \d+d\n  Outdated: newer image pulled/);
+      expect(text).toContain('template: my-plex.xml');
+      expect(text).toContain('UP TO DATE (1)');
+    });
+
+    it('should compare with the registry when requested', async () => {
+      mockSSHExecutor.mockImplementation(async (cmd: string) => {
+        if (cmd.startsWith('ids=')) return JSON.stringify([{ Name: '/db', Image: 'sha256:db1', Config: { Image: 'postgres:16' } }]);
+        if (cmd.startsWith('docker image inspect')) return images;
+        if (cmd.includes('imagetools')) return 'sha256:eeeeeeeeeeeeeeeeeeee\n';
+        return '';
+      });
+      const tool = registeredTools.get('docker');
+      const result = await tool.handler({ action: 'image_updates', checkRegistry: true });
+      expect(result.content[0].text).toContain('Outdated: registry has sha256:eeeeeeeeeeee');
+    });
+
+    it('should report Unraid update status', async () => {
+      mockSSHExecutor.mockImplementation(async (cmd: string) => {
+        if (cmd.startsWith('ids=')) return JSON.stringify([{ Name: '/db', Image: 'sha256:db1', Config: { Image: 'postgres:16' } }]);
+        if (cmd.startsWith('docker image inspect')) return images;
+        if (cmd.includes('unraid-update-status.json')) return JSON.stringify({ 'postgres:16': { status: 'false' } });
+        return '';
+      });
+      const tool = registeredTools.get('docker');
+      const result = await tool.handler({ action: 'image_updates' });
+      expect(result.content[0].text).toContain('Outdated: Unraid reports an update available');
+    });
+  });
+
+  describe('action=exec', () => {
+    const running = JSON.stringify([{ Name: '/nginx', Id: 'abc123def4567890', State: { Status: 'running' }, HostConfig: {} }]);
+
+    it('should run an allow-listed command without a TTY and report the exit code', async () => {
+      mockSSHExecutor
+        .mockResolvedValueOnce(running)
+        .mockResolvedValueOnce('nginx: configuration file /etc/nginx/nginx.conf test is successful\n[exit 0]\n');
+      const tool = registeredTools.get('docker');
+      const result = await tool.handler({ action: 'exec', container: 'nginx', command: 'nginx -t' });
+      expect(mockSSHExecutor).toHaveBeenNthCalledWith(2, 'docker exec nginx nginx -t 2>&1; echo "[exit $?]"', { timeoutMs: 30000 });
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain('test is successful');
+      expect(result.content[0].text).toContain('Exit code: 0');
+    });
+
+    it('should quote arguments and flag non-zero exits', async () => {
+      mockSSHExecutor
+        .mockResolvedValueOnce(running)
+        .mockResolvedValueOnce('cat: /etc/my file: No such file or directory\n[exit 1]\n');
+      const tool = registeredTools.get('docker');
+      const result = await tool.handler({ action: 'exec', container: 'nginx', command: 'cat "/etc/my file"' });
+      expect(mockSSHExecutor.mock.calls[1][0]).toBe(`docker exec nginx cat '/etc/my file' 2>&1; echo "[exit $?]"`);
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Exit code: 1');
+    });
+
+    it('should refuse commands outside the allow-list', async () => {
+      mockSSHExecutor.mockResolvedValueOnce(running);
+      const tool = registeredTools.get('docker');
+      const result = await tool.handler({ action: 'exec', container: 'nginx', command: 'curl http://example.com' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('not in the exec allow-list');
+      expect(mockSSHExecutor).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse shell syntax', async () => {
+      mockSSHExecutor.mockResolvedValueOnce(running);
+      const tool = registeredTools.get('docker');
+      const result = await tool.handler({ action: 'exec', container: 'nginx', command: 'cat /etc/passwd; rm -rf /' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Shell syntax is not supported');
+    });
+
+    it('should refuse stopped containers', async () => {
+      mockSSHExecutor.mockResolvedValueOnce(JSON.stringify([{ Name: '/nginx', Id: 'abc', State: { Status: 'exited' }, HostConfig: {} }]));
+      const tool = registeredTools.get('docker');
+      const result = await tool.handler({ action: 'exec', container: 'nginx', command: 'ls' });
+      expect(result.content[0].text).toContain('is not running');
+    });
+
+    describe('checkExecCommand', () => {
+      const nginx = { name: 'nginx', id: 'abc123def4567890' };
+      const policy = { allow: [['cat'], ['nginx', '-t'], ['rm'], ['tail']], containers: [{ pattern: 'postgres*', allow: [['pg_isready']] }] };
+
+      it('should match allow-list entries exactly unless they end in *', () => {
+        expect(checkExecCommand(nginx, ['nginx', '-t'], policy)).toBeNull();
+        expect(checkExecCommand(nginx, ['nginx', '-t', '-c', '/tmp/x.conf'], policy)).toContain('not in the exec allow-list');
+        expect(checkExecCommand(nginx, ['nginx', '-s', 'reload'], policy)).toContain('not in the exec allow-list');
+        expect(checkExecCommand(nginx, ['ls', '-la', '/etc'], { allow: [['ls', '*']], containers: [] })).toBeNull();
+      });
+
+      it('should only allow the read-only forms of the default commands', () => {
+        const defaults = loadExecPolicy();
+        expect(checkExecCommand(nginx, ['ip', 'route'], defaults)).toBeNull();
+        expect(checkExecCommand(nginx, ['ip', 'route', 'del', 'default'], defaults)).toContain('not in the exec allow-list');
+        expect(checkExecCommand(nginx, ['ip', 'addr', 'flush', 'dev', 'eth0'], defaults)).toContain('not in the exec allow-list');
+        expect(checkExecCommand(nginx, ['date', '-s', '2020-01-01'], defaults)).toContain('not in the exec allow-list');
+        expect(checkExecCommand(nginx, ['hostname', 'newname'], defaults)).toContain('not in the exec allow-list');
+        expect(checkExecCommand(nginx, ['cat', '/etc/hosts'], defaults)).toBeNull();
+      });
+
+      it('should check the command a wrapper runs', () => {
+        const wrappers = { allow: [['env', '*'], ['nice', '*'], ['timeout', '*'], ['xargs', '*'], ['flock', '*']], containers: [] };
+        expect(checkExecCommand(nginx, ['env', 'sh', '-c', 'id'], wrappers)).toContain('"sh" is interactive or destructive');
+        expect(checkExecCommand(nginx, ['env', '-i', 'FOO=1', '-u', 'BAR', 'rm', '-rf', '/'], wrappers)).toContain('"rm"');
+        expect(checkExecCommand(nginx, ['env', '-S', 'sh -c id'], wrappers)).toContain('takes a command line');
+        expect(checkExecCommand(nginx, ['nice', '-n', '5', 'env', 'bash'], wrappers)).toContain('"bash"');
+        expect(checkExecCommand(nginx, ['timeout', '-s', 'KILL', '5', 'tail', '-f', '/var/log/x'], wrappers)).toContain('"tail -f"');
+        expect(checkExecCommand(nginx, ['xargs', '-n', '1', 'rm'], wrappers)).toContain('"rm"');
+        expect(checkExecCommand(nginx, ['flock', '/tmp/lock', 'rm', '-rf', '/'], wrappers)).toContain('"rm"');
+        expect(checkExecCommand(nginx, ['flock', '-c', 'rm -rf /', '/tmp/lock'], wrappers)).toContain('takes a command line');
+        expect(checkExecCommand(nginx, ['env'], wrappers)).toBeNull();
+        expect(checkExecCommand(nginx, ['timeout', '5', 'cat', '/etc/hosts'], wrappers)).toBeNull();
+        expect(checkExecCommand(nginx, ['env', 'sh', '-c', 'id'], loadExecPolicy())).toContain('never run by exec');
+      });
+
+      it('should not refuse reads that merely mention a refused program', () => {
+        const defaults = loadExecPolicy();
+        expect(checkExecCommand(nginx, ['ls', '/etc/init'], defaults)).toBeNull();
+        expect(checkExecCommand(nginx, ['cat', '/usr/bin/env'], defaults)).toBeNull();
+        expect(checkExecCommand(nginx, ['ps', '-o', 'pid,time'], defaults)).toBeNull();
+        expect(checkExecCommand(nginx, ['grep', 'kill', '/var/log/app.log'], { allow: [['grep', '*']], containers: [] })).toBeNull();
+      });
+
+      it('should add per-container entries for matching containers only', () => {
+        expect(checkExecCommand({ name: 'postgres-16', id: 'x' }, ['pg_isready'], policy)).toBeNull();
+        expect(checkExecCommand(nginx, ['pg_isready'], policy)).not.toBeNull();
+      });
+
+      it('should refuse interactive and destructive commands even when allow-listed', () => {
+        expect(checkExecCommand(nginx, ['rm', '-rf', '/'], policy)).toContain('never run by exec');
+        expect(checkExecCommand(nginx, ['/bin/rm', 'x'], policy)).toContain('never run by exec');
+        expect(checkExecCommand(nginx, ['tail', '-f', '/var/log/nginx/access.log'], policy)).toContain('never run by exec');
+      });
+    });
+
+    it('should split quoted commands', () => {
+      expect(splitExecCommand(`cat '/etc/a b' "c d"`)).toEqual(['cat', '/etc/a b', 'c d']);
+      expect(() => splitExecCommand('cat "unterminated')).toThrow('Unbalanced quote');
+      expect(() => splitExecCommand('echo $(id)')).toThrow('Shell syntax');
+    });
+  });
+
+  describe('lifecycle actions', () => {
+    const inspect = (status: string, policy = 'unless-stopped') => JSON.stringify([{
+      Name: '/web',
+      Id: 'abc123def4567890',
+      State: { Status: status },
+      HostConfig: { RestartPolicy: { Name: policy, MaximumRetryCount: 0 } },
+    }]);
+
+    it('should require confirm: true and report current state', async () => {
+      mockSSHExecutor.mockResolvedValueOnce(inspect('running'));
+      const tool = registeredTools.get('docker');
+      const result = await tool.handler({ action: 'stop', container: 'web' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('requires confirm: true');
+      expect(result.content[0].text).toContain('running');
+      expect(mockSSHExecutor).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run the action and report before/after state', async () => {
+      mockSSHExecutor
+        .mockResolvedValueOnce(inspect('running'))
+        .mockResolvedValueOnce('web')
+        .mockResolvedValueOnce(inspect('exited'));
+      const tool = registeredTools.get('docker');
+      const result = await tool.handler({ action: 'stop', container: 'web', confirm: true, timeoutSeconds: 30 });
+      expect(mockSSHExecutor).toHaveBeenNthCalledWith(2, 'docker stop -t 30 web', { timeoutMs: 60000 });
+      expect(result.content[0].text).toContain('Before: running, restart policy: unless-stopped');
+      expect(result.content[0].text).toContain('After:  exited, restart policy: unless-stopped');
+    });
+
+    it('should update the restart policy', async () => {
+      mockSSHExecutor
+        .mockResolvedValueOnce(inspect('running'))
+        .mockResolvedValueOnce('web')
+        .mockResolvedValueOnce(inspect('running', 'always'));
+      const tool = registeredTools.get('docker');
+      const result = await tool.handler({ action: 'update_restart', container: 'web', restartPolicy: 'always', confirm: true });
+      expect(mockSSHExecutor).toHaveBeenNthCalledWith(2, 'docker update --restart always web', expect.any(Object));
+      expect(result.content[0].text).toContain('After:  running, restart policy: always');
+    });
+
+    it('should refuse protected containers', async () => {
+      process.env.DOCKER_PROTECTED_CONTAINERS = 'swag, mcp-*';
+      registerDockerTools(mockServer as any, mockSSHExecutor);
+      delete process.env.DOCKER_PROTECTED_CONTAINERS;
+      mockSSHExecutor.mockResolvedValueOnce(inspect('running').replace('/web', '/mcp-ssh-sre'));
+      const tool = registeredTools.get('docker');
+      const result = await tool.handler({ action: 'kill', container: 'mcp-ssh-sre', confirm: true });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('is protected (matches "mcp-*"');
+      expect(mockSSHExecutor).toHaveBeenCalledTimes(1);
+    });
+
+    it('should match protected names, wildcards and ID prefixes', () => {
+      const container = { name: 'swag', id: 'abc123def4567890' };
+      expect(matchProtectedContainer(container, ['swag'])).toBe('swag');
+      expect(matchProtectedContainer(container, ['sw*'])).toBe('sw*');
+      expect(matchProtectedContainer(container, ['abc123def456'])).toBe('abc123def456');
+      expect(matchProtectedContainer(container, ['abc', 'plex'])).toBeNull();
+    });
+  });
 });
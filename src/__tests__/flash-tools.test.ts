@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { registerUnraidFlashTools } from '../platforms/unraid/flash-tools.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/flash/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('Flash Tools', () => {
+  let mockServer: any;
+  let mockSSHExecutor: any;
+  let registeredTools: Map<string, any>;
+
+  beforeEach(() => {
+    registeredTools = new Map();
+    mockServer = {
+      tool: vi.fn((name, description, schema, handler) => {
+        registeredTools.set(name, { name, description, schema, handler });
+      }),
+    };
+    mockSSHExecutor = vi.fn();
+    registerUnraidFlashTools(mockServer as any, mockSSHExecutor);
+  });
+
+  it('should register the flash tool', () => {
+    expect(mockServer.tool).toHaveBeenCalledTimes(1);
+    expect(registeredTools.has('flash')).toBe(true);
+  });
+
+  it('should report the written backup', async () => {
+    mockSSHExecutor.mockResolvedValue(`${'b'.repeat(64)}  /mnt/user/backups/flash/flash-config-Tower-20261018-090000.tar.gz\n2500000\n`);
+    const result = await registeredTools.get('flash').handler({ action: 'backup' });
+    expect(mockSSHExecutor.mock.calls[0][1]).toEqual({ timeoutMs: 120000 });
+    expect(result.content[0].text).toContain('Size: 2.38 MiB');
+  });
+
+  it('should stream the tarball back as a resource', async () => {
+    mockSSHExecutor.mockResolvedValue(Buffer.from('tarball').toString('base64'));
+    const result = await registeredTools.get('flash').handler({ action: 'export' });
+    expect(result.content[1].resource).toMatchObject({ mimeType: 'application/gzip', blob: 'dGFyYmFsbA==' });
+    expect(result.content[0].text).toContain('7 B, sha256 ');
+  });
+
+  it('should refuse a truncated export', async () => {
+    mockSSHExecutor.mockResolvedValue('dGFy\n[Output truncated at 10485760 bytes]');
+    const result = await registeredTools.get('flash').handler({ action: 'export' });
+    expect(result.isError).toBe(true);
+  });
+
+  it('should return the check as structured content', async () => {
+    mockSSHExecutor.mockResolvedValue(fixture('check.txt'));
+    const result = await registeredTools.get('flash').handler({ action: 'check' });
+    expect(result.structuredContent.check.device).toBe('/dev/sda1');
+    expect(result.content[0].text).toContain('[CRITICAL] 1 kernel I/O error line(s)');
+  });
+
+  it('should diff two backups from the backup directory', async () => {
+    mockSSHExecutor.mockResolvedValue(fixture('diff.txt'));
+    const result = await registeredTools.get('flash').handler({ action: 'diff', from: 'flash-config-a.tar.gz', to: 'flash-config-b.tar.gz' });
+    expect(mockSSHExecutor.mock.calls[0][0]).toContain('tar -xzf /mnt/user/backups/flash/flash-config-b.tar.gz');
+    expect(result.structuredContent.diff.to).toBe('/mnt/user/backups/flash/flash-config-b.tar.gz');
+    expect(result.content[0].text).toContain('Added: 1, removed: 2, changed: 5');
+  });
+
+  it('should require from and reject non-backup paths', async () => {
+    expect((await registeredTools.get('flash').handler({ action: 'diff' })).content[0].text).toBe('Error: from required');
+    const result = await registeredTools.get('flash').handler({ action: 'diff', from: '/etc/passwd' });
+    expect(result.isError).toBe(true);
+    expect(mockSSHExecutor).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import {
+  createFlashBackupCommand,
+  flashBackupPath,
+  flashDiffCommand,
+  formatFlashCheck,
+  formatFlashDiff,
+  parseFlashBackup,
+  parseFlashBackups,
+  parseFlashCheck,
+  parseFlashDiff,
+} from '../platforms/unraid/flash.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/flash/${name}`, import.meta.url), 'utf-8');
+}
+
+const NOW = Date.parse('2026-10-18T09:00:00Z');
+
+describe('flash', () => {
+  describe('backups', () => {
+    it('should write the tarball into the backup directory', () => {
+      const cmd = createFlashBackupCommand('/mnt/user/backups/my flash/');
+      expect(cmd).toContain("mkdir -p '/mnt/user/backups/my flash'");
+      expect(cmd).toContain('tar -czf "$f" -C /boot config');
+      expect(cmd).toMatch(/^umask 077 && /);
+      expect(() => createFlashBackupCommand('backups')).toThrow(/must be absolute/);
+    });
+
+    it('should parse the checksum, path and size', () => {
+      const sum = 'a'.repeat(64);
+      expect(parseFlashBackup(`${sum}  /mnt/user/backups/flash/flash-config-Tower-20261018-090000.tar.gz\n1048576\n`)).toEqual({
+        path: '/mnt/user/backups/flash/flash-config-Tower-20261018-090000.tar.gz',
+        sha256: sum,
+        bytes: 1048576,
+      });
+      expect(() => parseFlashBackup('tar: /boot/config: Cannot open')).toThrow(/Unexpected backup output/);
+    });
+
+    it('should list backups newest first as given', () => {
+      expect(parseFlashBackups('1792314000.1234 2048 /mnt/user/backups/flash/flash-config-Tower-20261018-090000.tar.gz\n')).toEqual([
+        { path: '/mnt/user/backups/flash/flash-config-Tower-20261018-090000.tar.gz', bytes: 2048, modifiedAt: '2026-10-18T09:00:00.000Z' },
+      ]);
+    });
+
+    it('should resolve backup names and reject other files', () => {
+      expect(flashBackupPath('flash-config-Tower-1.tar.gz')).toBe('/mnt/user/backups/flash/flash-config-Tower-1.tar.gz');
+      expect(flashBackupPath('/mnt/disk1/old/flash-config-a.tar.gz')).toBe('/mnt/disk1/old/flash-config-a.tar.gz');
+      expect(() => flashBackupPath('/etc/shadow')).toThrow(/expected a flash-config/);
+    });
+  });
+
+  describe('parseFlashCheck', () => {
+    const check = parseFlashCheck(fixture('check.txt'), NOW);
+
+    it('should read the device, mount, fsck and config checks', () => {
+      expect(check).toMatchObject({
+        device: '/dev/sda1',
+        vendor: 'SanDisk',
+        model: 'Cruzer Fit',
+        serial: '4C530001230918110432',
+        sizeBytes: 15376318464,
+        readOnly: false,
+        usedPercent: 8,
+        fsck: { ok: false, messages: ['Dirty bit is set. Fs was not properly unmounted and some data may be corrupt.', 'Automatically removing dirty bit.'] },
+        oldestConfigFile: { path: '/boot/config/go', modifiedAt: '2019-09-01T00:00:00.000Z', ageDays: 2604 },
+        missingFiles: ['*.key'],
+        malformedLines: [{ file: '/boot/config/network.cfg', line: 7, text: 'IPADDR[0 "192.168.1.10"' }],
+      });
+      expect(check.ioErrors).toHaveLength(1);
+    });
+
+    it('should derive findings', () => {
+      expect(check.findings).toEqual([
+        { severity: 'CRITICAL', message: '1 kernel I/O error line(s) for the flash device' },
+        { severity: 'WARNING', message: 'Filesystem check found problems: Dirty bit is set. Fs was not properly unmounted and some data may be corrupt.' },
+        { severity: 'WARNING', message: '/boot/config/*.key is missing' },
+        { severity: 'WARNING', message: '1 malformed line(s) in .cfg files' },
+        { severity: 'INFO', message: 'Flash appears to be in service for 7.1 years; keep a recent backup' },
+      ]);
+      expect(formatFlashCheck(check)).toContain('Device: /dev/sda1 (SanDisk Cruzer Fit, serial 4C530001230918110432, 14.32 GiB)');
+    });
+
+    it('should flag a read-only flash and a missing fsck', () => {
+      const output = fixture('check.txt')
+        .replace('vfat rw,', 'vfat ro,')
+        .replace(/--- fsck\n[\s\S]*?exit 1\n/, '--- fsck\nbash: fsck.vfat: command not found\nexit 127\n');
+      const ro = parseFlashCheck(output, NOW);
+      expect(ro.readOnly).toBe(true);
+      expect(ro.fsck).toBeNull();
+      expect(ro.findings.map(f => f.message)).toContain('fsck.vfat not available; filesystem not checked');
+      expect(ro.findings[0].message).toMatch(/^\/boot is mounted read-only/);
+    });
+  });
+
+  describe('diff', () => {
+    it('should compare against the live config when no second backup is given', () => {
+      const cmd = flashDiffCommand('/mnt/user/backups/flash/flash-config-a.tar.gz', null);
+      expect(cmd).toContain('ln -s /boot "$t/b"');
+      expect(cmd).toContain('diff -ru a/config b/config');
+      expect(cmd.endsWith('[ $rc -le 1 ]')).toBe(true);
+    });
+
+    const diff = parseFlashDiff(fixture('diff.txt'), 'a.tar.gz', 'b.tar.gz');
+
+    it('should list added, removed and changed files', () => {
+      expect(diff.added).toEqual(['plugins/unassigned.devices.plg']);
+      expect(diff.removed).toEqual(['plugins/old-plugin.plg', 'wireguard']);
+      expect(diff.changed.map(c => [c.path, c.kind])).toEqual([
+        ['ident.cfg', 'text'],
+        ['go', 'text'],
+        ['plugins/dynamix/dynamix.cfg', 'text'],
+        ['shadow', 'hidden'],
+        ['super.dat', 'binary'],
+      ]);
+    });
+
+    it('should compare settings by key and mask secrets', () => {
+      expect(diff.changed[0].settings).toEqual([
+        { key: 'USE_SSL', before: 'no', after: 'auto' },
+        { key: 'USE_SSH', before: null, after: 'yes' },
+      ]);
+      expect(diff.changed[1]).toMatchObject({ settings: [], addedLines: ['modprobe i915'] });
+      expect(diff.changed[2].settings).toEqual([{ key: 'smtpPassword', before: '(hidden)', after: '(hidden)' }]);
+      const text = formatFlashDiff(diff);
+      expect(text).toContain('  USE_SSL: no -> auto\n');
+      expect(text).toContain('~ shadow (contents hidden)');
+      expect(text).not.toMatch(/hunter2|\$6\$/);
+    });
+
+    it('should report identical configs', () => {
+      expect(formatFlashDiff(parseFlashDiff('', 'a', 'b'))).toContain('No configuration changes');
+    });
+  });
+});
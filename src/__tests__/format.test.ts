@@ -0,0 +1,9 @@
+import { describe, it, expect } from 'vitest';
+import { formatBytes } from '../format.js';
+
+describe('format', () => {
+  it('should format byte counts in binary units', () => {
+    expect([0, 512, 1536, 500107862016, 1.5 * 1024 ** 4, 2 * 1024 ** 6].map(formatBytes))
+      .toEqual(['0 B', '512 B', '1.50 KiB', '465.76 GiB', '1.50 TiB', '2048.00 PiB']);
+  });
+});
@@ -31,6 +31,31 @@ describe('Health Diagnostics Tools', () => {
       const result = await tool.handler({ action: 'comprehensive' });
       expect(result.content[0].text).toContain('Health');
     });
+
+    it('should return the checks as a structured report', async () => {
+      mockSSHExecutor.mockResolvedValue('mdState=STOPPED');
+      const tool = registeredTools.get('health');
+      const result = await tool.handler({ action: 'comprehensive' });
+      const { report } = result.structuredContent;
+      expect(report.overall).toBe('CRITICAL');
+      expect(report.checks.map((c: any) => c.category)).toEqual(['Array', 'Temps', 'Drives', 'Disk', 'Containers', 'Resources']);
+      expect(report.checks[0]).toEqual({ category: 'Array', status: 'CRITICAL', details: 'Array not started' });
+    });
+
+    it('should report temperatures and drive health from SMART', async () => {
+      const drive = (name: string, temp: number, pending: number) => JSON.stringify({
+        device: { name, type: 'sat', protocol: 'ATA' },
+        smart_status: { passed: true },
+        ata_smart_attributes: { table: [{ id: 197, name: 'Current_Pending_Sector', value: 100, worst: 100, thresh: 0, raw: { value: pending } }] },
+        temperature: { current: temp },
+      });
+      mockSSHExecutor.mockImplementation(async (cmd: string) =>
+        cmd.includes('smartctl --scan') ? `${drive('/dev/sda', 38, 0)}\n${drive('/dev/sdb', 55, 4)}\n` : '');
+      const result = await registeredTools.get('health').handler({ action: 'comprehensive' });
+      const checks = result.structuredContent.report.checks;
+      expect(checks[1]).toEqual({ category: 'Temps', status: 'WARNING', details: 'High: 55°C' });
+      expect(checks[2]).toEqual({ category: 'Drives', status: 'WARNING', details: 'sdb (score 70): 4 pending sectors' });
+    });
   });
 
   describe('action=common_issues', () => {
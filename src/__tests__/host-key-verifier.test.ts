@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  HostKeyVerifier,
+  entryMatchesHost,
+  fingerprint,
+  keyTypeOf,
+  parseKnownHosts,
+} from '../host-key-verifier.js';
+
+function makeKey(type: string, seed: string): Buffer {
+  const typeBuf = Buffer.from(type);
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(typeBuf.length);
+  return Buffer.concat([len, typeBuf, crypto.createHash('sha256').update(seed).digest()]);
+}
+
+describe('Host Key Verifier', () => {
+  const keyA = makeKey('ssh-ed25519', 'a');
+  const keyB = makeKey('ssh-ed25519', 'b');
+  let dir: string;
+  let knownHostsPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'known-hosts-'));
+    knownHostsPath = path.join(dir, 'known_hosts');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('helpers', () => {
+    it('should read key type from blob', () => {
+      expect(keyTypeOf(keyA)).toBe('ssh-ed25519');
+    });
+
+    it('should produce OpenSSH-style fingerprint', () => {
+      expect(fingerprint(keyA)).toMatch(/^SHA256:[A-Za-z0-9+/]+$/);
+    });
+
+    it('should parse known_hosts with markers and comments', () => {
+      const entries = parseKnownHosts(
+        `# comment\ntower,10.0.0.2 ssh-ed25519 ${keyA.toString('base64')} root@tower\n@revoked bad ssh-rsa ${keyB.toString('base64')}\n`
+      );
+      expect(entries).toHaveLength(2);
+      expect(entries[0].patterns).toEqual(['tower', '10.0.0.2']);
+      expect(entries[1].marker).toBe('revoked');
+    });
+
+    it('should match plain, port, wildcard, negated and hashed patterns', () => {
+      const salt = crypto.randomBytes(20);
+      const hash = crypto.createHmac('sha1', salt).update('tower').digest('base64');
+      const entry = (patterns: string[]) => ({ patterns, keyType: 'ssh-ed25519', key: keyA });
+      expect(entryMatchesHost(entry(['tower']), 'tower', 22)).toBe(true);
+      expect(entryMatchesHost(entry(['tower']), 'tower', 2222)).toBe(false);
+      expect(entryMatchesHost(entry(['[tower]:2222']), 'tower', 2222)).toBe(true);
+      expect(entryMatchesHost(entry(['*.lan']), 'nas.lan', 22)).toBe(true);
+      expect(entryMatchesHost(entry(['*.lan', '!nas.lan']), 'nas.lan', 22)).toBe(false);
+      expect(entryMatchesHost(entry([`|1|${salt.toString('base64')}|${hash}`]), 'tower', 22)).toBe(true);
+    });
+  });
+
+  describe('verify', () => {
+    it('should be disabled in off mode without a pin', () => {
+      const verifier = new HostKeyVerifier('tower', 22, { mode: 'off', knownHostsPath });
+      expect(verifier.isEnabled()).toBe(false);
+    });
+
+    it('should accept a known key in strict mode', () => {
+      fs.writeFileSync(knownHostsPath, `tower ssh-ed25519 ${keyA.toString('base64')}\n`);
+      const verifier = new HostKeyVerifier('tower', 22, { mode: 'strict', knownHostsPath });
+      expect(verifier.verify(keyA)).toBe(true);
+      expect(verifier.lastError).toBeNull();
+    });
+
+    it('should reject a changed key with a clear error', () => {
+      fs.writeFileSync(knownHostsPath, `tower ssh-ed25519 ${keyA.toString('base64')}\n`);
+      const verifier = new HostKeyVerifier('tower', 22, { mode: 'tofu', knownHostsPath });
+      expect(verifier.verify(keyB)).toBe(false);
+      expect(verifier.lastError).toContain('host key has changed');
+      expect(verifier.lastError).toContain(fingerprint(keyB));
+    });
+
+    it('should reject unknown hosts in strict mode', () => {
+      const verifier = new HostKeyVerifier('tower', 22, { mode: 'strict', knownHostsPath });
+      expect(verifier.verify(keyA)).toBe(false);
+      expect(verifier.lastError).toContain('no ssh-ed25519 key for this host');
+    });
+
+    it('should record unknown hosts in tofu mode', () => {
+      const nested = path.join(dir, 'ssh', 'known_hosts');
+      const verifier = new HostKeyVerifier('tower', 2222, { mode: 'tofu', knownHostsPath: nested });
+      expect(verifier.verify(keyA)).toBe(true);
+      expect(fs.readFileSync(nested, 'utf-8')).toBe(`[tower]:2222 ssh-ed25519 ${keyA.toString('base64')}\n`);
+      expect(verifier.verify(keyA)).toBe(true);
+      expect(verifier.verify(keyB)).toBe(false);
+    });
+
+    it('should reject revoked keys', () => {
+      fs.writeFileSync(knownHostsPath, `@revoked tower ssh-ed25519 ${keyA.toString('base64')}\n`);
+      const verifier = new HostKeyVerifier('tower', 22, { mode: 'tofu', knownHostsPath });
+      expect(verifier.verify(keyA)).toBe(false);
+      expect(verifier.lastError).toContain('@revoked');
+    });
+
+    it('should check a pinned fingerprint instead of known_hosts', () => {
+      const verifier = new HostKeyVerifier('tower', 22, { mode: 'off', knownHostsPath }, fingerprint(keyA));
+      expect(verifier.isEnabled()).toBe(true);
+      expect(verifier.verify(keyA)).toBe(true);
+      expect(verifier.verify(keyB)).toBe(false);
+      expect(verifier.lastError).toContain('does not match pinned fingerprint');
+    });
+  });
+});
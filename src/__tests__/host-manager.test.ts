@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NodeSSH } from 'node-ssh';
+
+vi.mock('node-ssh');
+vi.mock('dotenv/config', () => ({}));
+
+describe('Host Manager', () => {
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    delete process.env.SSH_HOSTS;
+    delete process.env.SSH_HOSTS_FILE;
+    delete process.env.SSH_DEFAULT_HOST;
+    process.env.SSH_HOST = 'test-host';
+    process.env.SSH_USERNAME = 'test-user';
+    process.env.SSH_PRIVATE_KEY_PATH = '/path/to/key';
+    delete process.env.SSH_PASSWORD;
+    vi.mocked(NodeSSH).mockImplementation(() => ({
+      connect: vi.fn().mockResolvedValue(undefined),
+      execCommand: vi.fn().mockResolvedValue({ stdout: 'ok', stderr: '', code: 0 }),
+      dispose: vi.fn(),
+    }) as any);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    vi.clearAllMocks();
+  });
+
+  describe('loadHostInventory', () => {
+    it('should fall back to single SSH_HOST as "default"', async () => {
+      const { loadHostInventory } = await import('../host-manager.js');
+      const inventory = loadHostInventory();
+      expect(inventory.defaultHost).toBe('default');
+      expect(inventory.hosts).toEqual([
+        expect.objectContaining({ name: 'default', host: 'test-host', port: 22, username: 'test-user' }),
+      ]);
+    });
+
+    it('should parse SSH_HOSTS list with shared credentials', async () => {
+      process.env.SSH_HOSTS = 'tower=root@10.0.0.2, nas=nas.local:2222';
+      const { loadHostInventory } = await import('../host-manager.js');
+      const inventory = loadHostInventory();
+      expect(inventory.defaultHost).toBe('tower');
+      expect(inventory.hosts).toEqual([
+        expect.objectContaining({ name: 'tower', host: '10.0.0.2', port: 22, username: 'root', privateKeyPath: '/path/to/key' }),
+        expect.objectContaining({ name: 'nas', host: 'nas.local', port: 2222, username: 'test-user' }),
+      ]);
+    });
+
+    it('should reject malformed SSH_HOSTS entries', async () => {
+      process.env.SSH_HOSTS = 'just-a-host';
+      const { loadHostInventory } = await import('../host-manager.js');
+      expect(() => loadHostInventory()).toThrow('Invalid SSH_HOSTS entry');
+    });
+
+    it('should reject duplicate host names', async () => {
+      process.env.SSH_HOSTS = 'a=h1,a=h2';
+      const { loadHostInventory } = await import('../host-manager.js');
+      expect(() => loadHostInventory()).toThrow('Duplicate host name');
+    });
+
+    it('should load SSH_HOSTS_FILE with default host', async () => {
+      const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'hosts-')), 'hosts.json');
+      fs.writeFileSync(file, JSON.stringify({
+        default: 'debian',
+        hosts: [
+          { name: 'tower', host: 'tower.local', username: 'root' },
+          { name: 'debian', host: 'debian.local', port: 2200, username: 'admin', password: 'secret' },
+        ],
+      }));
+      process.env.SSH_HOSTS_FILE = file;
+      const { loadHostInventory } = await import('../host-manager.js');
+      const inventory = loadHostInventory();
+      expect(inventory.defaultHost).toBe('debian');
+      expect(inventory.hosts[0]).toEqual(expect.objectContaining({ name: 'tower', privateKeyPath: '/path/to/key' }));
+      expect(inventory.hosts[1]).toEqual(expect.objectContaining({ name: 'debian', port: 2200, password: 'secret', privateKeyPath: undefined }));
+    });
+
+    it('should reject unknown SSH_DEFAULT_HOST', async () => {
+      process.env.SSH_HOSTS = 'tower=root@10.0.0.2';
+      process.env.SSH_DEFAULT_HOST = 'nope';
+      const { loadHostInventory } = await import('../host-manager.js');
+      expect(() => loadHostInventory()).toThrow('Default host "nope" is not in the inventory');
+    });
+  });
+
+  describe('HostManager', () => {
+    it('should create one connection per host and resolve by name', async () => {
+      process.env.SSH_HOSTS = 'tower=root@10.0.0.2,nas=admin@10.0.0.3';
+      const { HostManager } = await import('../host-manager.js');
+      const hosts = HostManager.fromEnv();
+      expect(hosts.names()).toEqual(['tower', 'nas']);
+      expect(hosts.get().name).toBe('tower');
+      expect(hosts.get('nas').manager.getHostAddress()).toBe('10.0.0.3');
+      expect(NodeSSH).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw for unknown host', async () => {
+      const { HostManager } = await import('../host-manager.js');
+      const hosts = HostManager.fromEnv();
+      expect(() => hosts.get('missing')).toThrow('Unknown host "missing"');
+    });
+
+    it('should give each host its own copy of the fallback platform', async () => {
+      process.env.SSH_HOSTS = 'tower=root@10.0.0.2,nas=admin@10.0.0.3';
+      const { HostManager } = await import('../host-manager.js');
+      const hosts = HostManager.fromEnv();
+      const linux = { id: 'linux', capabilities: { storage: 'ext4' } };
+      const registry = { detect: vi.fn().mockRejectedValue(new Error('unreachable')), get: () => linux } as any;
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      await hosts.detectPlatforms(registry);
+      const [tower, nas] = hosts.list();
+      expect(tower.platform).toEqual(linux);
+      tower.platform!.capabilities.storageSubsystems = ['zfs'];
+      expect(nas.platform!.capabilities.storageSubsystems).toBeUndefined();
+      expect(linux.capabilities).toEqual({ storage: 'ext4' });
+    });
+  });
+});
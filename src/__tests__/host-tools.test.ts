@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { registerHostTools } from '../tools/host-tools.js';
+
+describe('Host Tools', () => {
+  let mockServer: any;
+  let registeredTools: Map<string, any>;
+  let tower: any;
+  let nas: any;
+
+  function makeHost(name: string, state: string) {
+    return {
+      name,
+      platform: { displayName: 'Unraid' },
+      manager: {
+        getHostAddress: () => `${name}.local`,
+        isConnected: () => state === 'closed',
+        getCircuitBreakerStatus: vi.fn(() => ({
+          state,
+          consecutiveFailures: state === 'closed' ? 0 : 3,
+          failureThreshold: 3,
+          cooldownMs: 30000,
+          openedAt: state === 'closed' ? null : '2026-01-01T00:00:00.000Z',
+          nextRetryAt: state === 'open' ? '2026-01-01T00:00:30.000Z' : null,
+          lastError: state === 'closed' ? null : 'connection refused',
+        })),
+        resetCircuitBreaker: vi.fn().mockResolvedValue(undefined),
+      },
+    };
+  }
+
+  beforeEach(() => {
+    registeredTools = new Map();
+    mockServer = {
+      tool: vi.fn((name, description, schema, handler) => {
+        registeredTools.set(name, { name, description, schema, handler });
+      }),
+    };
+    tower = makeHost('tower', 'closed');
+    nas = makeHost('nas', 'open');
+    const list = [tower, nas];
+    registerHostTools(mockServer, {
+      defaultHost: 'tower',
+      list: () => list,
+      get: (name?: string) => {
+        const host = list.find(h => h.name === (name ?? 'tower'));
+        if (!host) throw new Error(`Unknown host "${name}"`);
+        return host;
+      },
+    } as any);
+  });
+
+  it('should register hosts tool', () => {
+    expect(registeredTools.has('hosts')).toBe(true);
+  });
+
+  it('should list hosts with default marker', async () => {
+    const result = await registeredTools.get('hosts').handler({ action: 'list' });
+    expect(result.content[0].text).toContain('tower (default)');
+    expect(result.content[0].text).toContain('Circuit: open');
+  });
+
+  it('should report circuit breaker state', async () => {
+    const result = await registeredTools.get('hosts').handler({ action: 'circuit_status', host: 'nas' });
+    expect(result.content[0].text).toContain('nas: OPEN');
+    expect(result.content[0].text).toContain('Next retry: 2026-01-01T00:00:30.000Z');
+    expect(result.content[0].text).not.toContain('tower');
+  });
+
+  it('should reset circuit breaker of selected host', async () => {
+    await registeredTools.get('hosts').handler({ action: 'circuit_reset', host: 'nas' });
+    expect(nas.manager.resetCircuitBreaker).toHaveBeenCalled();
+    expect(tower.manager.resetCircuitBreaker).not.toHaveBeenCalled();
+  });
+
+  it('should surface reset failures', async () => {
+    nas.manager.resetCircuitBreaker.mockRejectedValueOnce(new Error('Circuit breaker probe failed'));
+    const result = await registeredTools.get('hosts').handler({ action: 'circuit_reset', host: 'nas' });
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { registerLvmTools } from '../platforms/storage/lvm-tools.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/lvm/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('LVM Tools', () => {
+  let mockServer: any;
+  let mockSSHExecutor: any;
+  let registeredTools: Map<string, any>;
+
+  beforeEach(() => {
+    registeredTools = new Map();
+    mockServer = {
+      tool: vi.fn((name, description, schema, handler) => {
+        registeredTools.set(name, { name, description, schema, handler });
+      }),
+    };
+    mockSSHExecutor = vi.fn();
+    registerLvmTools(mockServer as any, mockSSHExecutor);
+  });
+
+  it('should register the lvm tool', () => {
+    expect(mockServer.tool).toHaveBeenCalledTimes(1);
+    expect(registeredTools.has('lvm')).toBe(true);
+  });
+
+  it('should return the full report and the thin pool view', async () => {
+    mockSSHExecutor.mockResolvedValue(fixture('report.txt'));
+    const status = await registeredTools.get('lvm').handler({ action: 'status' });
+    expect(mockSSHExecutor.mock.calls[0][0]).toContain('lvs --reportformat json --units b --nosuffix');
+    expect(status.structuredContent.report.logicalVolumes).toHaveLength(7);
+    expect(status.content[0].text).toContain('[CRITICAL] sys: Volume group is missing 1 of 2 physical volumes');
+    const thin = await registeredTools.get('lvm').handler({ action: 'thin_pools' });
+    expect(thin.structuredContent.report.logicalVolumes).toHaveLength(3);
+    expect(thin.content[0].text).toContain('[CRITICAL] data/pool: Thin pool metadata is 96.1% full');
+  });
+
+  it('should surface a missing report as an error', async () => {
+    mockSSHExecutor.mockResolvedValue('--- pvs\n--- vgs\n--- lvs\n');
+    const result = await registeredTools.get('lvm').handler({ action: 'status' });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('LVM tools need root');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { formatLvmReport, formatThinPools, parseLvmReport, thinPoolReport } from '../platforms/storage/lvm.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/lvm/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('lvm', () => {
+  const report = parseLvmReport(fixture('report.txt'));
+
+  it('should parse physical volumes, volume groups and logical volumes', () => {
+    expect(report.physicalVolumes).toHaveLength(4);
+    expect(report.volumeGroups[1]).toEqual({
+      name: 'sys',
+      sizeBytes: 997998985216,
+      freeBytes: 0,
+      pvCount: 2,
+      lvCount: 2,
+      missingPvCount: 1,
+      attr: 'wz-pn-',
+    });
+    expect(report.logicalVolumes[1]).toEqual({
+      name: 'media',
+      vg: 'data',
+      sizeBytes: 8796093022208,
+      attr: 'Vwi-aotz--',
+      type: 'thin',
+      pool: 'pool',
+      origin: null,
+      dataPercent: 92.4,
+      metadataPercent: null,
+      syncPercent: null,
+      health: null,
+    });
+  });
+
+  it('should flag full thin pools and snapshots, missing PVs and RAID state', () => {
+    expect(report.findings).toEqual([
+      { volume: 'sys', severity: 'CRITICAL', message: 'Volume group is missing 1 of 2 physical volumes' },
+      { volume: 'data/pool', severity: 'WARNING', message: 'Thin pool data is 88.25% full' },
+      { volume: 'data/pool', severity: 'CRITICAL', message: 'Thin pool metadata is 96.1% full' },
+      { volume: 'data/pool', severity: 'INFO', message: 'Thin pool is overprovisioned: 12.00 TiB of thin volumes on 10.00 TiB' },
+      { volume: 'data/home-snap', severity: 'WARNING', message: 'Snapshot is 83.5% full' },
+      { volume: 'sys/root', severity: 'WARNING', message: 'Health: partial' },
+      { volume: 'sys/var', severity: 'INFO', message: 'Syncing (42% done)' },
+    ]);
+  });
+
+  it('should report invalid snapshots', () => {
+    const invalid = fixture('report.txt').replace('"swi-a-s---"', '"Swi-I-s---"');
+    expect(parseLvmReport(invalid).findings).toContainEqual({ volume: 'data/home-snap', severity: 'CRITICAL', message: 'Snapshot is invalid (it overflowed and must be removed)' });
+  });
+
+  it('should narrow to thin pools', () => {
+    const thin = thinPoolReport(report);
+    expect(thin.logicalVolumes.map(lv => lv.name)).toEqual(['pool', 'media', 'backup']);
+    expect(thin.findings.every(f => f.volume === 'data/pool')).toBe(true);
+    expect(formatThinPools(thin)).toContain('data/pool: 10.00 TiB, data 88.25%, metadata 96.1%, 2 thin volumes\n  media  8.00 TiB  92.4% used\n');
+  });
+
+  it('should format volume groups and logical volumes', () => {
+    const text = formatLvmReport(report);
+    expect(text.indexOf('[CRITICAL] sys: Volume group is missing')).toBeLessThan(text.indexOf('data: 13.55 TiB of 14.55 TiB allocated, 1 PVs, 5 LVs'));
+    expect(text).toContain('  PV /dev/md2: 14.55 TiB, 1.00 TiB free\n');
+    expect(text).toContain('Unused PVs: /dev/sdm1 (931.51 GiB)\n');
+    expect(text).toContain('  data/home-snap  linear  100.00 GiB  origin home  data 83.5%\n');
+  });
+
+  it('should explain a missing report', () => {
+    expect(() => parseLvmReport("--- pvs\n--- vgs\n--- lvs\n")).toThrow(/pvs returned no JSON report/);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { arrayIssues, formatArrayStatus, parseMdcmd } from '../mdcmd.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/mdcmd/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('mdcmd', () => {
+  describe('Unraid 6.9.2, started with single parity', () => {
+    const status = parseMdcmd(fixture('unraid-6.9.2-started.txt'));
+
+    it('should parse array state and counts', () => {
+      expect(status.state).toBe('STARTED');
+      expect(status.numDisks).toBe(5);
+      expect(status.numDisabled).toBe(0);
+    });
+
+    it('should list assigned slots only, with roles', () => {
+      expect(status.disks.map(d => [d.slot, d.role, d.name, d.device])).toEqual([
+        [0, 'parity', '', 'sdb'],
+        [1, 'data', 'md1', 'sdc'],
+        [2, 'data', 'md2', 'sdd'],
+        [3, 'data', 'md3', 'sde'],
+      ]);
+      expect(status.disks[1]).toMatchObject({ status: 'DISK_OK', sizeKb: 3907018532, reads: 8834122, errors: 0 });
+    });
+
+    it('should report the last check and no running resync', () => {
+      expect(status.resync).toBeNull();
+      expect(status.lastSync).toEqual({ startedAt: 1699833600, finishedAt: 1699862400, errors: 0, exitCode: 0 });
+      expect(arrayIssues(status)).toEqual([]);
+    });
+  });
+
+  describe('Unraid 6.12.10, dual parity check running', () => {
+    const status = parseMdcmd(fixture('unraid-6.12.10-parity-check.txt'));
+
+    it('should place the second parity in slot 29 and read 6.12 md names', () => {
+      const parity = status.disks.filter(d => d.role !== 'data');
+      expect(parity.map(d => [d.slot, d.role, d.device])).toEqual([[0, 'parity', 'sdc'], [29, 'parity2', 'sdd']]);
+      expect(status.disks.find(d => d.slot === 1)?.name).toBe('md1p1');
+    });
+
+    it('should compute resync progress, speed and ETA', () => {
+      expect(status.resync).toEqual({
+        action: 'check P Q',
+        active: true,
+        paused: false,
+        correcting: false,
+        positionKb: 2345678912,
+        sizeKb: 7814026532,
+        percent: 30.02,
+        speedKbPerSec: 184533,
+        etaSeconds: 29633,
+      });
+      expect(formatArrayStatus(status)).toContain('Progress: 30.02%');
+      expect(formatArrayStatus(status)).toContain('ETA 8h 13m');
+    });
+
+    it('should warn about disk errors but not about the running check', () => {
+      expect(arrayIssues(status)).toEqual([{ severity: 'WARNING', message: 'Disk 4 (sdh): 2 errors' }]);
+    });
+  });
+
+  describe('Unraid 6.11.5, disabled disk', () => {
+    const status = parseMdcmd(fixture('unraid-6.11.5-disabled-disk.txt'));
+
+    it('should report the emulated disk and the aborted check', () => {
+      expect(status.numDisabled).toBe(1);
+      expect(status.disks.find(d => d.slot === 2)).toMatchObject({ status: 'DISK_DSBL', errors: 214 });
+      expect(arrayIssues(status)).toEqual([
+        { severity: 'CRITICAL', message: 'Disk 2 (sdd): disabled (emulated)' },
+        { severity: 'WARNING', message: 'Parity errors: 5' },
+        { severity: 'WARNING', message: 'Last parity check did not complete (exit -4)' },
+      ]);
+    });
+  });
+
+  describe('Unraid 6.12.4, stopped with a missing disk', () => {
+    const status = parseMdcmd(fixture('unraid-6.12.4-stopped.txt'));
+
+    it('should keep missing assigned disks and flag the stopped array', () => {
+      expect(status.state).toBe('STOPPED');
+      expect(status.disks.find(d => d.slot === 1)).toMatchObject({ status: 'DISK_NP_MISSING', device: '' });
+      expect(status.lastSync).toEqual({ errors: 0, exitCode: 0 });
+      expect(arrayIssues(status).map(i => i.severity)).toEqual(['CRITICAL', 'CRITICAL']);
+      expect(formatArrayStatus(status)).toContain('Last check: never');
+    });
+  });
+
+  it('should treat a paused operation as not active', () => {
+    const status = parseMdcmd('mdState=STARTED\nmdResyncAction=check P\nmdResyncSize=1000\nmdResync=0\nmdResyncPos=250\n');
+    expect(status.resync).toMatchObject({ active: false, paused: true, percent: 25 });
+  });
+
+  it('should return an empty model for non-mdcmd output', () => {
+    const status = parseMdcmd('cat: /proc/mdcmd: No such file or directory');
+    expect(status.state).toBeUndefined();
+    expect(status.disks).toEqual([]);
+    expect(status.lastSync).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { registerMdraidTools } from '../platforms/storage/mdraid-tools.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/mdraid/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('mdraid Tools', () => {
+  let mockServer: any;
+  let mockSSHExecutor: any;
+  let registeredTools: Map<string, any>;
+
+  beforeEach(() => {
+    registeredTools = new Map();
+    mockServer = {
+      tool: vi.fn((name, description, schema, handler) => {
+        registeredTools.set(name, { name, description, schema, handler });
+      }),
+    };
+    mockSSHExecutor = vi.fn();
+    registerMdraidTools(mockServer as any, mockSSHExecutor);
+  });
+
+  it('should register the mdraid tool', () => {
+    expect(mockServer.tool).toHaveBeenCalledTimes(1);
+    expect(registeredTools.has('mdraid')).toBe(true);
+  });
+
+  it('should return array status with findings', async () => {
+    mockSSHExecutor.mockResolvedValue(fixture('mdstat.txt'));
+    const result = await registeredTools.get('mdraid').handler({ action: 'status' });
+    expect(mockSSHExecutor.mock.calls[0][0]).toMatch(/^cat \/proc\/mdstat;/);
+    expect(result.structuredContent.status.arrays).toHaveLength(4);
+    expect(result.content[0].text).toContain('[CRITICAL] md2: Degraded: 2 of 3 devices working [_UU]');
+  });
+
+  it('should return mdadm details for one array', async () => {
+    mockSSHExecutor.mockResolvedValue(fixture('detail.txt'));
+    const result = await registeredTools.get('mdraid').handler({ action: 'detail', array: 'md2' });
+    expect(mockSSHExecutor.mock.calls[0][0]).toContain('mdadm --detail /dev/md2');
+    expect(result.structuredContent.details[0].fields['Raid Level']).toBe('raid5');
+  });
+
+  it('should reject invalid array names', async () => {
+    const result = await registeredTools.get('mdraid').handler({ action: 'detail', array: '$(reboot)' });
+    expect(result.isError).toBe(true);
+    expect(mockSSHExecutor).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { formatMdDetail, formatMdStatus, mdDetailCommand, parseMdDetail, parseMdstat } from '../platforms/storage/mdraid.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/mdraid/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('mdraid', () => {
+  describe('mdDetailCommand', () => {
+    it('should scope to a validated array or loop over /proc/mdstat', () => {
+      expect(mdDetailCommand('md0')).toBe("echo '--- array /dev/md0'; mdadm --detail /dev/md0 2>&1");
+      expect(mdDetailCommand('/dev/md127')).toContain('mdadm --detail /dev/md127');
+      expect(mdDetailCommand()).toContain("awk '/^md/ { print $1 }' /proc/mdstat");
+      expect(() => mdDetailCommand('md0; reboot')).toThrow(/Invalid device/);
+    });
+  });
+
+  describe('parseMdstat', () => {
+    const status = parseMdstat(fixture('mdstat.txt'));
+
+    it('should parse arrays, members and sync progress', () => {
+      expect(status.arrays.map(a => [a.name, a.state, a.level, a.memberStatus])).toEqual([
+        ['md2', 'active', 'raid5', '_UU'],
+        ['md1', 'active', 'raid6', 'UUUUU'],
+        ['md0', 'active', 'raid1', 'UU'],
+        ['md127', 'inactive', null, null],
+      ]);
+      expect(status.arrays[0]).toMatchObject({ blocks: 15627786240, raidDisks: 3, workingDisks: 2, mismatchCount: 0 });
+      expect(status.arrays[0].devices).toEqual([
+        { name: 'sdc1', role: 0, state: 'faulty' },
+        { name: 'sdd1', role: 1, state: 'active' },
+        { name: 'sde1', role: 3, state: 'active' },
+      ]);
+      expect(status.arrays[1].devices[5]).toEqual({ name: 'sdl1', role: 5, state: 'spare' });
+      expect(status.arrays[1].sync).toEqual({ action: 'check', percent: 21.4, finish: '512.3min', speed: '199788K/sec' });
+      expect(status.arrays[2]).toMatchObject({ readOnly: true, sync: { action: 'resync pending', percent: null } });
+    });
+
+    it('should flag degraded, failed, inactive and mismatched arrays', () => {
+      expect(status.findings).toEqual([
+        { array: 'md2', severity: 'CRITICAL', message: 'Degraded: 2 of 3 devices working [_UU]; no redundancy left' },
+        { array: 'md2', severity: 'CRITICAL', message: 'Member sdc1 has failed' },
+        { array: 'md1', severity: 'INFO', message: 'check 21.4% done, finish in 512.3min at 199788K/sec' },
+        { array: 'md1', severity: 'WARNING', message: 'mismatch_cnt is 128 after the last check or repair' },
+        { array: 'md0', severity: 'INFO', message: 'resync pending' },
+        { array: 'md0', severity: 'INFO', message: 'Array is read-only' },
+        { array: 'md127', severity: 'WARNING', message: 'Array is inactive (assembled but not started)' },
+      ]);
+    });
+
+    it('should keep redundancy for a raid6 missing one member', () => {
+      const raid6 = parseMdstat('md3 : active raid6 sdb1[1] sdc1[2] sdd1[3]\n      100 blocks super 1.2 level 6 [4/3] [_UUU]\n');
+      expect(raid6.findings).toEqual([{ array: 'md3', severity: 'WARNING', message: 'Degraded: 3 of 4 devices working [_UUU]' }]);
+    });
+
+    it('should format findings before the arrays', () => {
+      const text = formatMdStatus(status);
+      expect(text.indexOf('[CRITICAL] md2: Member sdc1 has failed')).toBeLessThan(text.indexOf('md2: active raid5, 14.55 TiB, 2/3 [_UU]'));
+      expect(text).toContain('  Members: sdc1 (faulty), sdd1, sde1\n');
+      expect(text).toContain('md0: active (read-only) raid1');
+      expect(formatMdStatus(parseMdstat('Personalities : \nunused devices: <none>\n'))).toBe('No md arrays\n');
+    });
+  });
+
+  describe('parseMdDetail', () => {
+    const details = parseMdDetail(fixture('detail.txt'));
+
+    it('should parse fields and the member table', () => {
+      expect(details.map(d => d.array)).toEqual(['/dev/md2', '/dev/md0']);
+      expect(details[0].fields).toMatchObject({ 'Raid Level': 'raid5', State: 'clean, degraded', 'Failed Devices': '1' });
+      expect(details[0].devices).toEqual([
+        { number: null, raidDevice: 0, state: 'removed', device: null },
+        { number: 1, raidDevice: 1, state: 'active sync', device: '/dev/sdd1' },
+        { number: 3, raidDevice: 2, state: 'active sync', device: '/dev/sde1' },
+        { number: 0, raidDevice: null, state: 'faulty', device: '/dev/sdc1' },
+      ]);
+    });
+
+    it('should note arrays mdadm could not read', () => {
+      const text = formatMdDetail(details);
+      expect(text).toContain('  State: clean, degraded\n');
+      expect(text).toContain('/dev/md0:\n  (no details; mdadm needs root)\n');
+    });
+  });
+});
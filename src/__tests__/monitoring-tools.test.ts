@@ -33,6 +33,21 @@ describe('Monitoring Tools', () => {
       expect(result.content[0].text).toContain('Process List');
     });
 
+    it('should parse processes into structured content', async () => {
+      mockSSHExecutor.mockResolvedValue(
+        'USER         PID %CPU %MEM    VSZ   RSS TTY      STAT START   TIME COMMAND\n' +
+        'root           1  0.1  0.5 168000 12000 ?        Ss   Jan01   0:05 /sbin/init splash\n' +
+        'nobody      4242 12.5  3.2 900000 65000 ?        Sl   10:15   1:02 /usr/lib/plexmediaserver/Plex Media Server\n'
+      );
+      const tool = registeredTools.get('monitoring');
+      const result = await tool.handler({ action: 'ps' });
+      expect(result.structuredContent.processes).toHaveLength(2);
+      expect(result.structuredContent.processes[1]).toEqual({
+        user: 'nobody', pid: 4242, cpuPercent: 12.5, memPercent: 3.2, vszKb: 900000, rssKb: 65000,
+        tty: '?', stat: 'Sl', start: '10:15', time: '1:02', command: '/usr/lib/plexmediaserver/Plex Media Server',
+      });
+    });
+
     it('should sort by cpu with count limit', async () => {
       mockSSHExecutor.mockResolvedValue('USER PID %CPU');
       const tool = registeredTools.get('monitoring');
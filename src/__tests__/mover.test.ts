@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import {
+  formatCacheProjection,
+  formatMoverRun,
+  formatPendingFiles,
+  parseMoverLog,
+  projectCacheFill,
+  readMoverSettings,
+  readPoolUsage,
+  scanPendingFiles,
+  sharesToMove,
+  sizeMoverRuns,
+} from '../platforms/unraid/mover.js';
+import { parseShareConfig, parseShareConfigs } from '../platforms/unraid/share-config.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/mover/${name}`, import.meta.url), 'utf-8');
+}
+
+const NOW = '2026-10-18T09:00:00';
+
+describe('mover', () => {
+  const runs = parseMoverLog(fixture('syslog.txt'), NOW);
+
+  describe('parseMoverLog', () => {
+    it('should split the log into runs with files and errors', () => {
+      expect(runs).toHaveLength(3);
+      expect(runs[0]).toEqual({
+        startedAt: '2026-10-16T03:40:01',
+        finishedAt: '2026-10-16T03:41:30',
+        filesMoved: 3,
+        files: [
+          '/mnt/cache/Media/Movies/Film (2024)/film.mkv',
+          '/mnt/cache/Media/Movies/Film (2024)/film.srt',
+          '/mnt/cache/Documents/scan-001.pdf',
+        ],
+        bytes: null,
+        errors: [],
+      });
+      expect(runs[1].errors).toEqual(['move: move_object: /mnt/cache/Media/TV/Show/S01E02.mkv No space left on device']);
+    });
+
+    it('should leave a run without a finish line open', () => {
+      expect(runs[2]).toMatchObject({ startedAt: '2026-10-18T03:40:01', finishedAt: null, filesMoved: 1 });
+    });
+
+    it('should place dates after the host clock in the previous year', () => {
+      const log = 'Dec 31 23:00:00 Tower root: mover: started\nJan  1 00:10:00 Tower root: mover: finished\n';
+      expect(parseMoverLog(log, '2027-01-01T08:00:00')[0]).toMatchObject({
+        startedAt: '2026-12-31T23:00:00',
+        finishedAt: '2027-01-01T00:10:00',
+      });
+    });
+
+    it('should read ISO timestamps and files logged before the start rotated out', () => {
+      const log = '2026-10-18T03:40:02.123+02:00 Tower move: move: file /mnt/cache/Media/a.mkv\n2026-10-18T03:40:05+02:00 Tower root: mover: finished\n';
+      expect(parseMoverLog(log, NOW)).toEqual([
+        { startedAt: '2026-10-18T03:40:02', finishedAt: '2026-10-18T03:40:05', filesMoved: 1, files: ['/mnt/cache/Media/a.mkv'], bytes: null, errors: [] },
+      ]);
+    });
+  });
+
+  describe('sizeMoverRuns', () => {
+    it('should total the current size of moved files under /mnt/user', async () => {
+      const copy = parseMoverLog(fixture('syslog.txt'), NOW);
+      const exec = vi.fn().mockResolvedValue(
+        "4000000000 /mnt/user/Media/Movies/Film (2024)/film.mkv\n50000 /mnt/user/Media/Movies/Film (2024)/film.srt\n1500000000 /mnt/user/Media/TV/Show/S01E02.mkv\n"
+      );
+      await sizeMoverRuns(exec, copy);
+      expect(exec.mock.calls[0][0]).toContain("'/mnt/user/Media/Movies/Film (2024)/film.mkv'");
+      expect(copy.map(r => r.bytes)).toEqual([4000050000, 0, 1500000000]);
+      expect(formatMoverRun(copy[0])).toContain('1m 29s');
+      expect(formatMoverRun(copy[0])).toContain('3 files, 3.73 GiB, 0 errors');
+    });
+  });
+
+  describe('readMoverSettings', () => {
+    it('should read the schedule and share settings in one call', async () => {
+      const exec = vi.fn().mockResolvedValue(`now ${NOW}\n--- cron\n${fixture('mover.cron')}${fixture('shares.txt')}`);
+      const settings = await readMoverSettings(exec);
+      expect(exec).toHaveBeenCalledTimes(1);
+      expect(settings.schedule).toEqual({ cron: '40 3 * * *', nextAt: '2026-10-19T03:40:00' });
+      expect(settings.shares).toHaveLength(4);
+    });
+
+    it('should report no schedule when mover.cron is missing', async () => {
+      const settings = await readMoverSettings(vi.fn().mockResolvedValue(`now ${NOW}\n--- cron\n`));
+      expect(settings).toEqual({ now: NOW, schedule: null, shares: [] });
+    });
+  });
+
+  describe('pending files and projection', () => {
+    const shares = parseShareConfigs(fixture('shares.txt'));
+    const scanOutput = [
+      '--- Documents cache',
+      'total 0 0 0',
+      '--- Media cache',
+      '1792220000.5 30000000000 /mnt/cache/Media/TV/Show/S01E03.mkv',
+      '1792200000.0 20000000000 /mnt/cache/Media/TV/Show/S01E04.mkv',
+      'total 12 80000000000 50000000000',
+    ].join('\n');
+
+    it('should scan only shares the mover moves off a pool', async () => {
+      const exec = vi.fn().mockResolvedValue(scanOutput);
+      const pending = await scanPendingFiles(exec, sharesToMove(shares), 2);
+      expect(exec.mock.calls[0][0]).toContain('find /mnt/cache/Media -type f');
+      expect(exec.mock.calls[0][0]).not.toContain('appdata');
+      expect(pending[1]).toEqual({
+        share: 'Media',
+        pool: 'cache',
+        count: 12,
+        bytes: 80000000000,
+        recentBytes: 50000000000,
+        files: [
+          { modified: 1792220000, bytes: 30000000000, path: '/mnt/cache/Media/TV/Show/S01E03.mkv' },
+          { modified: 1792200000, bytes: 20000000000, path: '/mnt/cache/Media/TV/Show/S01E04.mkv' },
+        ],
+      });
+      const text = formatPendingFiles(pending, shares, true);
+      expect(text).toContain('Media (cache -> array): 12 files, 74.51 GiB (showing newest 2)');
+      expect(text).toContain('S01E03.mkv');
+    });
+
+    it('should skip share names the shell helpers reject', async () => {
+      const exec = vi.fn();
+      expect(await scanPendingFiles(exec, [parseShareConfig('-rf', { shareUseCache: 'yes' })], 10)).toEqual([]);
+      expect(exec).not.toHaveBeenCalled();
+    });
+
+    it('should warn when a pool fills before the next mover run', async () => {
+      const pools = await readPoolUsage(vi.fn().mockResolvedValue(
+        'Mounted on 1B-blocks Used Avail\n/mnt/cache 500000000000 470000000000 30000000000\n/mnt/disk1 8000000000000 1 1\n/mnt/user 8000000000000 1 1\n/mnt/nvme 1000000000000 100000000000 900000000000\n'
+      ));
+      expect(pools.map(p => p.pool)).toEqual(['cache', 'nvme']);
+
+      const pending = await scanPendingFiles(vi.fn().mockResolvedValue(scanOutput), sharesToMove(shares), 0);
+      const settings = { now: NOW, schedule: { cron: '40 3 * * *', nextAt: '2026-10-19T03:40:00' }, shares };
+      const projections = projectCacheFill(pools, pending, settings);
+      expect(projections[0]).toMatchObject({ pool: 'cache', ratePerDay: 50000000000, daysToFull: 0.6, fillsBeforeMover: true });
+      expect(projections[1]).toMatchObject({ pool: 'nvme', ratePerDay: 0, daysToFull: null, fillsBeforeMover: false });
+
+      const text = formatCacheProjection(projections, settings);
+      expect(text).toContain('cache: 437.72 GiB of 465.66 GiB used (94%)');
+      expect(text).toContain('[WARNING] Fills before the next mover run (2026-10-19 03:40:00)');
+      expect(text).toContain('No new data for move shares in the last 24h');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { registerUnraidNotificationTools } from '../platforms/unraid/notification-tools.js';
+
+const listing = readFileSync(new URL('./fixtures/notifications/listing.txt', import.meta.url), 'utf-8');
+
+describe('Notification Tools', () => {
+  let mockServer: any;
+  let mockSSHExecutor: any;
+  let registeredTools: Map<string, any>;
+
+  beforeEach(() => {
+    registeredTools = new Map();
+    mockServer = {
+      tool: vi.fn((name, description, schema, handler) => {
+        registeredTools.set(name, { name, description, schema, handler });
+      }),
+    };
+    mockSSHExecutor = vi.fn();
+    registerUnraidNotificationTools(mockServer as any, mockSSHExecutor);
+  });
+
+  it('should register the notifications tool', () => {
+    expect(mockServer.tool).toHaveBeenCalledTimes(1);
+    expect(registeredTools.has('notifications')).toBe(true);
+  });
+
+  describe('action=list', () => {
+    it('should filter by importance and return structured notifications', async () => {
+      mockSSHExecutor.mockResolvedValue(listing);
+      const result = await registeredTools.get('notifications').handler({ action: 'list', state: 'all', importance: 'alert' });
+      expect(result.content[0].text).toContain('Notifications: 1 (alert 1, warning 0, normal 0)');
+      expect(result.structuredContent.notifications).toHaveLength(1);
+      expect(result.structuredContent.notifications[0].subject).toBe('Warning [TOWER] - array has errors');
+    });
+  });
+
+  describe('action=archive', () => {
+    it('should archive one notification by file name', async () => {
+      mockSSHExecutor.mockResolvedValue('');
+      const result = await registeredTools.get('notifications').handler({ action: 'archive', file: 'Unraid_Status_1760700000.notify' });
+      expect(mockSSHExecutor).toHaveBeenCalledWith('/usr/local/emhttp/webGui/scripts/notify archive Unraid_Status_1760700000.notify');
+      expect(result.content[0].text).toContain('Archived 1 notification:');
+    });
+
+    it('should archive all unread notifications of one importance', async () => {
+      mockSSHExecutor.mockResolvedValueOnce(listing).mockResolvedValueOnce('');
+      const result = await registeredTools.get('notifications').handler({ action: 'archive', all: true, importance: 'normal' });
+      expect(mockSSHExecutor.mock.calls[1][0]).toBe('/usr/local/emhttp/webGui/scripts/notify archive Unraid_Parity_check_1760760000.notify');
+      expect(result.content[0].text).toContain('Archived 1 notification:');
+    });
+
+    it('should require a file or all=true', async () => {
+      const result = await registeredTools.get('notifications').handler({ action: 'archive' });
+      expect(result.isError).toBe(true);
+      expect(mockSSHExecutor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('action=send', () => {
+    it('should raise a notification through the notify script', async () => {
+      mockSSHExecutor.mockResolvedValue('');
+      const result = await registeredTools.get('notifications').handler({
+        action: 'send', subject: 'Disk 3 pending sectors rising', description: '12 pending sectors', importance: 'warning',
+      });
+      expect(mockSSHExecutor.mock.calls[0][0]).toContain("-s 'Disk 3 pending sectors rising' -d '12 pending sectors' -i warning");
+      expect(result.content[0].text).toContain('Sent warning notification');
+    });
+
+    it('should send a multi-line message body', async () => {
+      mockSSHExecutor.mockResolvedValue('');
+      const result = await registeredTools.get('notifications').handler({
+        action: 'send', subject: 'Parity check finished', message: 'Duration: 11h 35m\nErrors: 0',
+      });
+      expect(result.isError).toBeUndefined();
+      expect(mockSSHExecutor.mock.calls[0][0]).toContain("-m 'Duration: 11h 35m\\nErrors: 0'");
+    });
+
+    it('should require a subject', async () => {
+      const result = await registeredTools.get('notifications').handler({ action: 'send' });
+      expect(result.isError).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import {
+  archiveNotificationsCommand,
+  formatNotifications,
+  notificationsCommand,
+  parseNotifications,
+  sendNotificationCommand,
+} from '../platforms/unraid/notifications.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/notifications/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('notifications', () => {
+  const notifications = parseNotifications(fixture('listing.txt'));
+
+  describe('parseNotifications', () => {
+    it('should parse each file, newest first', () => {
+      expect(notifications.map(n => n.file)).toEqual([
+        'Unraid_array_errors_1760770000.notify',
+        'Unraid_Parity_check_1760760000.notify',
+        'Unraid_Status_1760700000.notify',
+        'Docker_Auto_Update_1760600000.notify',
+      ]);
+      expect(notifications[1]).toEqual({
+        file: 'Unraid_Parity_check_1760760000.notify',
+        state: 'unread',
+        time: '2025-10-18T04:00:00.000Z',
+        event: 'Unraid Parity check',
+        subject: 'Notice [TOWER] - Parity check finished (0 errors)',
+        description: 'Duration: 12 hours, 4 minutes, 10 seconds. Average speed: 184.2 MB/s',
+        importance: 'normal',
+        link: '/Main',
+      });
+    });
+
+    it('should list a notification archived on both paths once', () => {
+      expect(notifications.filter(n => n.state === 'archive')).toHaveLength(1);
+    });
+
+    it('should default unknown importance to normal and tolerate a missing timestamp', () => {
+      expect(parseNotifications('--- unread /tmp/notifications/unread/x.notify\nimportance=urgent\n')[0]).toMatchObject({ importance: 'normal', time: null });
+    });
+  });
+
+  describe('commands', () => {
+    it('should read only the requested state', () => {
+      expect(notificationsCommand('unread')).toContain('/tmp/notifications/unread/*.notify');
+      expect(notificationsCommand('unread')).not.toContain('archive');
+      expect(notificationsCommand('all')).toContain('/boot/config/plugins/dynamix/notifications/archive/*.notify');
+    });
+
+    it('should archive through the notify script', () => {
+      expect(archiveNotificationsCommand(['a_1.notify', 'b_2.notify'])).toBe(
+        '/usr/local/emhttp/webGui/scripts/notify archive a_1.notify; /usr/local/emhttp/webGui/scripts/notify archive b_2.notify'
+      );
+      expect(() => archiveNotificationsCommand(['../../etc/passwd'])).toThrow(/Invalid notification file/);
+    });
+
+    it('should quote every field of a sent notification', () => {
+      expect(sendNotificationCommand({ subject: "Disk 3 isn't healthy", importance: 'warning', link: '/Main' })).toBe(
+        "/usr/local/emhttp/webGui/scripts/notify -e mcp-ssh-sre -s 'Disk 3 isn'\\''t healthy' -d '' -i warning -l /Main 2>&1"
+      );
+    });
+
+    it('should send multi-line messages as notify line breaks', () => {
+      expect(sendNotificationCommand({ subject: 'Backup', message: 'Backup finished\r\nCopied: 120 files\nErrors: 0\n' })).toBe(
+        "/usr/local/emhttp/webGui/scripts/notify -e mcp-ssh-sre -s Backup -d '' -i normal -m 'Backup finished\\nCopied: 120 files\\nErrors: 0' 2>&1"
+      );
+    });
+
+    it('should reject fields that would break the notification file', () => {
+      expect(sendNotificationCommand({ subject: 'ok', description: 'x\nimportance=alert' })).toContain("-d 'x importance=alert'");
+      expect(() => sendNotificationCommand({ subject: 'ok\nimportance=alert' })).toThrow(/control characters/);
+      expect(() => sendNotificationCommand({ subject: 'ok', message: 'bell\x07' })).toThrow(/control characters/);
+      expect(() => sendNotificationCommand({ subject: '-x' })).toThrow(/must not start with "-"/);
+    });
+  });
+
+  describe('formatNotifications', () => {
+    it('should count by importance and list unread before archived, most important first', () => {
+      const text = formatNotifications(notifications);
+      expect(text).toContain('Notifications: 4 (alert 1, warning 1, normal 2)');
+      expect(text.indexOf('[ALERT]')).toBeLessThan(text.indexOf('[WARNING]'));
+      expect(text.indexOf('[WARNING]')).toBeLessThan(text.indexOf('Parity check finished'));
+      expect(text.indexOf('Unread:')).toBeLessThan(text.indexOf('Archived:'));
+      expect(formatNotifications([])).toBe('No notifications\n');
+    });
+  });
+});
@@ -377,6 +377,68 @@ describe('OAuth Authentication Enforcement', () => {
 
       expect(mcpResponse.status).not.toBe(401);
     });
+
+    /**
+     * Helper: authorization code flow for a scope, returning the token response
+     */
+    async function issueTokens(scope: string): Promise<TokenResponse & { scope: string }> {
+      const authResponse = await fetch(
+        `${serverUrl}/authorize?client_id=${clientId}&redirect_uri=http://localhost:5000/callback&state=s&response_type=code&scope=${encodeURIComponent(scope)}`,
+        { redirect: 'manual' }
+      );
+      const code = new URL(authResponse.headers.get('location')!).searchParams.get('code');
+      const tokenResponse = await fetch(`${serverUrl}/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ grant_type: 'authorization_code', code, client_id: clientId, client_secret: clientSecret }),
+      });
+      return await tokenResponse.json() as TokenResponse & { scope: string };
+    }
+
+    async function refresh(body: Record<string, string>): Promise<Response> {
+      return fetch(`${serverUrl}/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ grant_type: 'refresh_token', client_id: clientId, client_secret: clientSecret, ...body }),
+      });
+    }
+
+    it('should reject unknown refresh tokens', async () => {
+      const response = await refresh({ refresh_token: 'never-issued-refresh-token' });
+      expect(response.status).toBe(400);
+      expect((await response.json() as { error: string }).error).toBe('invalid_grant');
+    });
+
+    it('should not widen the scope of a read-only grant on refresh', async () => {
+      const readOnly = await issueTokens('mcp:read');
+      expect(readOnly.scope).toBe('mcp:read');
+
+      const escalated = await refresh({ refresh_token: readOnly.refresh_token, scope: 'mcp:read mcp:admin' });
+      expect(escalated.status).toBe(400);
+      expect((await escalated.json() as { error: string }).error).toBe('invalid_scope');
+
+      const kept = await refresh({ refresh_token: readOnly.refresh_token });
+      expect(kept.status).toBe(200);
+      expect((await kept.json() as { scope: string }).scope).toBe('mcp:read');
+    });
+
+    it('should narrow the scope on request and rotate the refresh token', async () => {
+      const admin = await issueTokens('mcp:read mcp:admin');
+      const narrowed = await refresh({ refresh_token: admin.refresh_token, scope: 'mcp:read' });
+      expect(narrowed.status).toBe(200);
+      expect((await narrowed.json() as { scope: string }).scope).toBe('mcp:read');
+
+      const reused = await refresh({ refresh_token: admin.refresh_token });
+      expect(reused.status).toBe(400);
+      expect((await reused.json() as { error: string }).error).toBe('invalid_grant');
+    });
+
+    it('should reject refresh tokens presented by another client', async () => {
+      const tokens = await issueTokens('mcp:read');
+      const response = await refresh({ refresh_token: tokens.refresh_token, client_id: 'some-other-client' });
+      expect(response.status).toBe(400);
+      expect((await response.json() as { error: string }).error).toBe('invalid_grant');
+    });
   });
 
   describe('OAuth Discovery Endpoints', () => {
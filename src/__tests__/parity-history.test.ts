@@ -0,0 +1,135 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import {
+  analyzeParityHistory,
+  formatParityHistory,
+  loadParityCheckMaxAgeDays,
+  parseParityLog,
+  parseParitySchedule,
+} from '../platforms/unraid/parity-history.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/parity/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('parity-history', () => {
+  const records = parseParityLog(fixture('parity-checks.log'));
+
+  describe('parseParityLog', () => {
+    it('should parse the pre-6.10 five-field format', () => {
+      expect(records[0]).toEqual({ finishedAt: '2022-01-02T05:12:33', durationSeconds: 47553, speedMBps: 84.1, exitCode: 0, errors: 0 });
+      expect(records[2]).toMatchObject({ finishedAt: '2022-03-01T09:58:40', exitCode: -4 });
+    });
+
+    it('should parse action and size, deriving speed when it was not logged', () => {
+      expect(records[4]).toEqual({
+        finishedAt: '2023-01-01T10:21:34', durationSeconds: 38494, speedMBps: 207.8, exitCode: 0, errors: 0, action: 'check P', sizeKb: 7814026532,
+      });
+      expect(records[6].speedMBps).toBe(191.8);
+      expect(records[6].errors).toBe(3);
+    });
+
+    it('should skip lines that are not check records', () => {
+      expect(parseParityLog('garbage\n\n2023 Foo  1 00:00:00|1|1 MB/s|0|0\n')).toEqual([]);
+    });
+  });
+
+  describe('parseParitySchedule', () => {
+    it('should read the cron line and correction mode', () => {
+      expect(parseParitySchedule(fixture('parity-check.cron'), '2023-04-15T12:00:00')).toEqual({
+        cron: '0 3 1 * *',
+        nextAt: '2023-05-01T03:00:00',
+        correcting: false,
+      });
+    });
+
+    it('should return null without a schedule', () => {
+      expect(parseParitySchedule('', '2023-04-15T12:00:00')).toBeNull();
+    });
+  });
+
+  describe('analyzeParityHistory', () => {
+    it('should compute statistics over completed checks', () => {
+      const history = analyzeParityHistory(records, null, '2023-04-15T12:00:00', 35);
+      expect(history.stats).toEqual({
+        checks: 8,
+        completed: 7,
+        otherOperations: 0,
+        averageDurationSeconds: 45815,
+        averageSpeedMBps: 141.4,
+        lastSuccessAt: '2023-04-01T16:48:09',
+        lastSuccessAgeDays: 13,
+      });
+    });
+
+    it('should leave rebuilds and disk clears out of the statistics and findings', () => {
+      const withRebuild = [
+        ...records,
+        { finishedAt: '2023-04-10T08:00:00', durationSeconds: 30000, speedMBps: 260.5, exitCode: 0, errors: 0, action: 'recon P', sizeKb: 7814026532 },
+        { finishedAt: '2023-04-12T08:00:00', durationSeconds: 600, speedMBps: null, exitCode: -4, errors: 0, action: 'clear' },
+      ];
+      const history = analyzeParityHistory(withRebuild, null, '2023-04-15T12:00:00', 35);
+      expect(history.stats).toMatchObject({ checks: 8, completed: 7, otherOperations: 2, averageSpeedMBps: 141.4, lastSuccessAt: '2023-04-01T16:48:09' });
+      expect(history.findings.map(f => f.message)).not.toContainEqual(expect.stringContaining('did not complete'));
+      expect(formatParityHistory(history, 2)).toContain('Rebuilds and clears: 2 (not counted as checks)');
+    });
+
+    it('should flag a speed regression against previous checks of the same size', () => {
+      const history = analyzeParityHistory(records, null, '2023-04-15T12:00:00', 35);
+      expect(history.findings).toEqual([
+        { severity: 'WARNING', message: 'Latest check ran at 130.1 MB/s, 35% slower than the previous average of 200.5 MB/s' },
+      ]);
+    });
+
+    it('should warn when the last completed check is too old or the last check was cancelled', () => {
+      const cancelled = [...records, { finishedAt: '2023-05-01T05:00:00', durationSeconds: 3600, speedMBps: null, exitCode: -4, errors: 0 }];
+      const history = analyzeParityHistory(cancelled, null, '2023-06-01T00:00:00', 35);
+      expect(history.findings.map(f => f.message)).toEqual(expect.arrayContaining([
+        'Last completed parity check was 60 days ago (limit 35)',
+        'Last check on 2023-05-01 did not complete (cancelled)',
+      ]));
+    });
+
+    it('should report errors in the last check and rising errors', () => {
+      const rising = [1, 4, 9].map((errors, i) => ({
+        finishedAt: `2024-0${i + 1}-01T10:00:00`, durationSeconds: 40000, speedMBps: 200, exitCode: 0, errors,
+      }));
+      const history = analyzeParityHistory(rising, null, '2024-03-10T00:00:00', 35);
+      expect(history.findings).toEqual([
+        { severity: 'WARNING', message: 'Last completed check found 9 errors' },
+        { severity: 'CRITICAL', message: 'Parity errors rising over the last 3 checks: 1, 4, 9' },
+      ]);
+    });
+
+    it('should warn when nothing was ever recorded', () => {
+      expect(analyzeParityHistory([], null, '2024-03-10T00:00:00', 35).findings).toEqual([
+        { severity: 'WARNING', message: 'No parity checks recorded' },
+      ]);
+    });
+  });
+
+  describe('formatParityHistory', () => {
+    it('should show summary, schedule and the most recent checks first', () => {
+      const schedule = parseParitySchedule(fixture('parity-check.cron'), '2023-04-15T12:00:00');
+      const text = formatParityHistory(analyzeParityHistory(records, schedule, '2023-04-15T12:00:00', 35), 2);
+      expect(text).toContain('Checks: 8 (7 completed), average 12h 43m at 141.4 MB/s');
+      expect(text).toContain('Last completed: 2023-04-01 16:48:09 (13 days ago)');
+      expect(text).toContain('Next scheduled: 2023-05-01 03:00:00 (non-correcting, cron "0 3 1 * *")');
+      expect(text).toContain('Recent checks (last 2):');
+      expect(text.indexOf('2023-04-01 16:48:09  check P')).toBeLessThan(text.indexOf('2023-03-01 11:15:27'));
+      expect(text).not.toContain('2023-02-01');
+    });
+  });
+
+  describe('loadParityCheckMaxAgeDays', () => {
+    afterEach(() => {
+      delete process.env.PARITY_CHECK_MAX_AGE_DAYS;
+    });
+
+    it('should default to 35 days', () => {
+      expect(loadParityCheckMaxAgeDays()).toBe(35);
+      process.env.PARITY_CHECK_MAX_AGE_DAYS = '100';
+      expect(loadParityCheckMaxAgeDays()).toBe(100);
+    });
+  });
+});
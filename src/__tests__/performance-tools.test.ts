@@ -57,6 +57,28 @@ describe('Performance Tools', () => {
       expect(result.content[0].text).toContain('Metric: cpu');
     });
 
+    it('should derive timeout from duration', async () => {
+      mockSSHExecutor.mockResolvedValue('2024-01-01 10:00,50');
+      const tool = registeredTools.get('performance');
+      await tool.handler({ action: 'track_metric', metric: 'cpu', durationSeconds: 300, intervalSeconds: 10 });
+      expect(mockSSHExecutor).toHaveBeenCalledWith(expect.any(String), { timeoutMs: 325000 });
+    });
+
+    it('should stream samples as progress notifications', async () => {
+      mockSSHExecutor.mockImplementation(async (_cmd: string, options: any) => {
+        options.onOutput('2024-01-01 10:00,50\n');
+        return '2024-01-01 10:00,50';
+      });
+      const sendNotification = vi.fn().mockResolvedValue(undefined);
+      const extra = { signal: new AbortController().signal, sendNotification, _meta: { progressToken: 'p1' } };
+      const tool = registeredTools.get('performance');
+      await tool.handler({ action: 'track_metric', metric: 'cpu', durationSeconds: 10, intervalSeconds: 5 }, extra);
+      expect(sendNotification).toHaveBeenCalledWith({
+        method: 'notifications/progress',
+        params: { progressToken: 'p1', progress: 1, total: 2, message: '2024-01-01 10:00,50' },
+      });
+    });
+
     it('should track memory metric', async () => {
       mockSSHExecutor.mockResolvedValue('2024-01-01 10:00,75');
       const tool = registeredTools.get('performance');
@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { checkPermission, classifyAction, loadServerMode, scopeCeiling } from '../permissions.js';
+
+describe('Permissions', () => {
+  afterEach(() => {
+    delete process.env.SERVER_MODE;
+  });
+
+  describe('classifyAction', () => {
+    it('should treat unlisted actions as reads', () => {
+      expect(classifyAction('docker', 'logs')).toBe('read');
+      expect(classifyAction('docker', undefined)).toBe('read');
+    });
+
+    it('should use the classification table', () => {
+      expect(classifyAction('hosts', 'circuit_reset')).toBe('mutate');
+    });
+  });
+
+  describe('loadServerMode', () => {
+    it('should default to read-only', () => {
+      expect(loadServerMode()).toBe('read-only');
+    });
+
+    it('should reject unknown modes', () => {
+      process.env.SERVER_MODE = 'root';
+      expect(() => loadServerMode()).toThrow('Invalid SERVER_MODE "root"');
+    });
+  });
+
+  describe('scopeCeiling', () => {
+    it('should grant the highest tier among scopes', () => {
+      expect(scopeCeiling(['mcp:read'])).toBe('read');
+      expect(scopeCeiling(['mcp:read', 'mcp:write'])).toBe('mutate');
+      expect(scopeCeiling(['mcp:admin'])).toBe('destructive');
+      expect(scopeCeiling(['openid'])).toBeNull();
+    });
+  });
+
+  describe('checkPermission', () => {
+    const token = (scopes: string[]) => ({ token: 't', clientId: 'c', scopes });
+
+    it('should allow reads in every mode', () => {
+      expect(checkPermission('docker', 'logs', 'read-only')).toBeNull();
+      expect(checkPermission('docker', 'logs', 'read-only', token(['mcp:read']))).toBeNull();
+    });
+
+    it('should refuse mutating actions in read-only mode', () => {
+      expect(checkPermission('hosts', 'circuit_reset', 'read-only')).toContain('read-only mode');
+      expect(checkPermission('hosts', 'circuit_reset', 'operator')).toBeNull();
+    });
+
+    it('should refuse actions above the token scope', () => {
+      expect(checkPermission('hosts', 'circuit_reset', 'admin', token(['mcp:read']))).toContain('requires the mcp:write scope');
+      expect(checkPermission('hosts', 'circuit_reset', 'admin', token(['mcp:write']))).toBeNull();
+    });
+
+    it('should only export the flash config with admin rights', () => {
+      expect(classifyAction('flash', 'export')).toBe('destructive');
+      expect(checkPermission('flash', 'export', 'read-only')).toContain('read-only mode');
+      expect(checkPermission('flash', 'export', 'operator')).toContain('SERVER_MODE=admin required');
+      expect(checkPermission('flash', 'export', 'admin', token(['mcp:read']))).toContain('requires the mcp:admin scope');
+      expect(checkPermission('flash', 'export', 'admin', token(['mcp:admin']))).toBeNull();
+    });
+
+    it('should refuse tokens without any MCP scope', () => {
+      expect(checkPermission('docker', 'logs', 'admin', token([]))).toContain('requires the mcp:read scope');
+    });
+  });
+});
@@ -1,6 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
 import { registerUnraidPluginTools as registerPluginConfigTools } from '../platforms/unraid/plugin-tools.js';
 
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/templates/${name}`, import.meta.url), 'utf-8');
+}
+
 describe('Plugin Config Tools', () => {
   let mockServer: any;
   let mockSSHExecutor: any;
@@ -18,7 +23,7 @@ describe('Plugin Config Tools', () => {
   });
 
   describe('Tool Registration', () => {
-    it('should register 1 mega-tool with 7 actions', () => {
+    it('should register 1 mega-tool with 8 actions', () => {
       expect(mockServer.tool).toHaveBeenCalledTimes(1);
       expect(registeredTools.has('plugin')).toBe(true);
     });
@@ -49,11 +54,50 @@ describe('Plugin Config Tools', () => {
       expect(result.isError).toBe(true);
     });
 
-    it('should read template', async () => {
-      mockSSHExecutor.mockResolvedValue('<Container>...</Container>');
+    it('should parse the template', async () => {
+      mockSSHExecutor.mockResolvedValue(`--- template /boot/config/plugins/dockerMan/templates-user/my-plex.xml\n${fixture('my-plex.xml')}`);
+      const tool = registeredTools.get('plugin');
+      const result = await tool.handler({ action: 'template', template: 'plex' });
+      expect(result.content[0].text).toContain('Repository: plexinc/pms-docker');
+      expect(result.structuredContent.templates[0]).toMatchObject({ name: 'plex', file: 'my-plex.xml' });
+    });
+
+    it('should never return the values of masked variables', async () => {
+      mockSSHExecutor.mockResolvedValue(`--- template /boot/config/plugins/dockerMan/templates-user/my-plex.xml\n${fixture('my-plex.xml')}`);
       const tool = registeredTools.get('plugin');
       const result = await tool.handler({ action: 'template', template: 'plex' });
-      expect(result.content[0].text).toContain('Container');
+      expect(JSON.stringify(result)).not.toContain('claim-abc');
+      expect(result.structuredContent.templates[0].variables).toContainEqual(expect.objectContaining({ key: 'PLEX_CLAIM', value: '', masked: true }));
+    });
+
+    it('should list available templates when not found', async () => {
+      mockSSHExecutor.mockResolvedValueOnce('').mockResolvedValueOnce('my-plex.xml\n');
+      const tool = registeredTools.get('plugin');
+      const result = await tool.handler({ action: 'template', template: 'sonarr' });
+      expect(result.content[0].text).toBe('Template not found: sonarr. Available:\nmy-plex.xml\n');
+    });
+  });
+
+  describe('action=template_drift', () => {
+    it('should compare every template with docker inspect', async () => {
+      mockSSHExecutor
+        .mockResolvedValueOnce(`--- template /t/my-plex.xml\n${fixture('my-plex.xml')}\n--- template /t/my-pihole.xml\n${fixture('my-pihole.xml')}`)
+        .mockResolvedValueOnce(fixture('inspect.json'));
+      const tool = registeredTools.get('plugin');
+      const result = await tool.handler({ action: 'template_drift' });
+      expect(mockSSHExecutor.mock.calls[1][0]).toContain('docker ps -aq');
+      expect(result.content[0].text).toContain('Templates: 2, drifted containers: 2');
+      expect(result.structuredContent.templateDrift).toHaveLength(6);
+    });
+
+    it('should inspect only the container of one template', async () => {
+      mockSSHExecutor
+        .mockResolvedValueOnce(`--- template /t/my-pihole.xml\n${fixture('my-pihole.xml')}`)
+        .mockResolvedValueOnce('[]');
+      const tool = registeredTools.get('plugin');
+      const result = await tool.handler({ action: 'template_drift', template: 'pihole' });
+      expect(mockSSHExecutor.mock.calls[1][0]).toBe('docker inspect pihole 2>/dev/null; true');
+      expect(result.content[0].text).toContain('Templates without a container: pihole');
     });
   });
 
@@ -68,10 +112,18 @@ describe('Plugin Config Tools', () => {
 
   describe('action=share_config', () => {
     it('should check share config', async () => {
-      mockSSHExecutor.mockResolvedValue('=== media ===\nshareUseCache=yes\n---');
+      mockSSHExecutor.mockResolvedValue('--- share /boot/config/shares/media.cfg\nshareUseCache="yes"\n');
       const tool = registeredTools.get('plugin');
       const result = await tool.handler({ action: 'share_config' });
       expect(result.content[0].text).toContain('media');
+      expect(result.content[0].text).toContain('Cache: yes (cache -> array)');
+    });
+
+    it('should report a missing share', async () => {
+      mockSSHExecutor.mockResolvedValue('');
+      const tool = registeredTools.get('plugin');
+      const result = await tool.handler({ action: 'share_config', share: 'nope' });
+      expect(result.content[0].text).toBe('Share not found: nope');
     });
   });
 
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { streamingOptions } from '../progress.js';
+
+describe('streamingOptions', () => {
+  it('should pass options through without a handler context', () => {
+    expect(streamingOptions(undefined, { timeoutMs: 1000 })).toEqual({ timeoutMs: 1000, signal: undefined });
+  });
+
+  it('should pass the abort signal without streaming when no progress token was sent', () => {
+    const signal = new AbortController().signal;
+    const options = streamingOptions({ signal, sendNotification: vi.fn() } as any, { timeoutMs: 1000 });
+    expect(options.signal).toBe(signal);
+    expect(options.onOutput).toBeUndefined();
+  });
+
+  it('should send complete lines as progress notifications', () => {
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const extra = { signal: new AbortController().signal, sendNotification, _meta: { progressToken: 'tok' } };
+    const options = streamingOptions(extra as any, {}, 3);
+
+    options.onOutput!('2024-01-01 00:00:00,12\n2024-01-01 00:00:05');
+    options.onOutput!(',15\n');
+
+    expect(sendNotification).toHaveBeenCalledTimes(2);
+    expect(sendNotification).toHaveBeenNthCalledWith(1, {
+      method: 'notifications/progress',
+      params: { progressToken: 'tok', progress: 1, total: 3, message: '2024-01-01 00:00:00,12' },
+    });
+    expect(sendNotification).toHaveBeenNthCalledWith(2, {
+      method: 'notifications/progress',
+      params: { progressToken: 'tok', progress: 2, total: 3, message: '2024-01-01 00:00:05,15' },
+    });
+  });
+
+  it('should hold partial lines until they are complete', () => {
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const options = streamingOptions({ sendNotification, _meta: { progressToken: 1 } } as any);
+
+    options.onOutput!(' 1  gateway');
+
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+});
@@ -49,6 +49,13 @@ describe('Resource Management Tools', () => {
       const result = await tool.handler({ action: 'disk_analyzer', path: '/mnt/user' });
       expect(result.content[0].text).toContain('DISK ANALYSIS');
     });
+
+    it('should use long-running budget for du', async () => {
+      mockSSHExecutor.mockResolvedValue('100G\t/mnt/user');
+      const tool = registeredTools.get('resource');
+      await tool.handler({ action: 'disk_analyzer', path: '/mnt/user' });
+      expect(mockSSHExecutor).toHaveBeenCalledWith(expect.stringContaining('du -h'), { timeoutMs: 600000 });
+    });
   });
 
   describe('action=docker_df', () => {
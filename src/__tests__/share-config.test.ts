@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import {
+  classifyMount,
+  formatShareConfig,
+  formatShareReport,
+  moverDirection,
+  parseShareConfigs,
+  parseShareReport,
+  parseUnraidCfg,
+  shareConfigsCommand,
+} from '../platforms/unraid/share-config.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('share-config', () => {
+  describe('parseUnraidCfg', () => {
+    it('should read quoted and unquoted values and skip comments', () => {
+      expect(parseUnraidCfg('# comment\nshareUseCache="yes"\nshareFloor=0\nnot a field\n')).toEqual({ shareUseCache: 'yes', shareFloor: '0' });
+    });
+  });
+
+  describe('parseShareConfigs', () => {
+    const shares = parseShareConfigs(fixture('shares/report.txt'));
+
+    it('should parse allocation, cache and export settings', () => {
+      expect(shares.map(s => s.name)).toEqual(['appdata', 'backups', 'Media']);
+      const { fields, ...media } = shares[2];
+      expect(media).toEqual({
+        name: 'Media',
+        comment: 'Movies and TV',
+        allocator: 'highwater',
+        splitLevel: '1',
+        includeDisks: ['disk1', 'disk2', 'disk7'],
+        excludeDisks: ['disk2'],
+        floor: '50000000',
+        useCache: 'yes',
+        cachePool: 'cache',
+        smb: { export: 'yes', security: 'public' },
+        nfs: { export: 'no', security: 'public' },
+      });
+      expect(fields.shareExportNFS).toBe('-');
+    });
+
+    it('should fall back to the Unraid defaults', () => {
+      expect(shares[1]).toMatchObject({ allocator: 'highwater', splitLevel: '', includeDisks: [], smb: { export: 'hidden', security: 'private' }, nfs: { export: 'yes', security: 'secure' } });
+      expect(parseShareConfigs('--- share /boot/config/shares/empty.cfg\n')[0]).toMatchObject({ useCache: 'no', cachePool: 'cache', smb: { export: 'no' } });
+    });
+
+    it('should describe where the mover takes each share', () => {
+      expect(shares.map(moverDirection)).toEqual([null, null, 'cache -> array']);
+      expect(moverDirection({ ...shares[0], useCache: 'prefer', cachePool2: 'fast' })).toBe('fast -> nvme');
+    });
+
+    it('should format one share', () => {
+      expect(formatShareConfig(shares[2])).toBe(
+        'Media - Movies and TV\n' +
+        '  Allocator: highwater, split level: 1, minimum free: 50000000\n' +
+        '  Include: disk1,disk2,disk7, exclude: disk2\n' +
+        '  Cache: yes (cache -> array)\n' +
+        '  SMB: public, NFS: not exported\n'
+      );
+    });
+  });
+
+  describe('shareConfigsCommand', () => {
+    it('should read one share or all of them', () => {
+      expect(shareConfigsCommand('My Share')).toContain("for f in '/boot/config/shares/My Share.cfg';");
+      expect(shareConfigsCommand()).toContain('for f in /boot/config/shares/*.cfg;');
+      expect(() => shareConfigsCommand('../etc')).toThrow(/Invalid share name/);
+    });
+  });
+
+  describe('classifyMount', () => {
+    it('should tell array disks from pools', () => {
+      expect(['disk1', 'disk12', 'cache', 'nvme', 'user', 'user0', 'remotes'].map(classifyMount))
+        .toEqual(['disk', 'disk', 'pool', 'pool', null, null, null]);
+    });
+  });
+
+  describe('parseShareReport', () => {
+    const report = parseShareReport(fixture('shares/report.txt'));
+
+    it('should combine configs with the per-disk distribution', () => {
+      expect(report.disks).toEqual(['disk1', 'disk2', 'disk10']);
+      expect(report.pools).toEqual(['cache', 'nvme']);
+      expect(report.shares.map(s => s.name)).toEqual(['appdata', 'backups', 'Media', 'Old Stuff']);
+      expect(report.shares[2].distribution).toEqual([
+        { mount: 'disk1', bytes: 3000000000000 },
+        { mount: 'disk2', bytes: 500000000000 },
+        { mount: 'cache', bytes: 20000000000 },
+      ]);
+    });
+
+    it('should flag misconfigurations', () => {
+      expect(report.findings).toEqual([
+        { share: 'Old Stuff', severity: 'INFO', message: 'No .cfg file; Unraid defaults apply' },
+        { share: 'appdata', severity: 'WARNING', message: '953.67 MiB on disk1 will not be moved to nvme (shareUseCache=only)' },
+        { share: 'backups', severity: 'WARNING', message: '13.97 GiB on pool cache will not be moved (shareUseCache=no)' },
+        { share: 'Media', severity: 'WARNING', message: 'Included disk disk7 does not exist' },
+        { share: 'Media', severity: 'WARNING', message: 'disk2 is both included and excluded' },
+        { share: 'Media', severity: 'INFO', message: '465.66 GiB on disk2, which is excluded' },
+        { share: 'Media', severity: 'INFO', message: 'Exported over SMB with public access' },
+      ]);
+    });
+
+    it('should skip disk checks while the array is stopped', () => {
+      const stopped = parseShareReport(fixture('shares/report.txt').replace(/^\/mnt\/disk\d+\n/gm, ''));
+      expect(stopped.disks).toEqual([]);
+      expect(stopped.findings.some(f => /does not exist|both included/.test(f.message))).toBe(false);
+    });
+
+    it('should format findings before the shares', () => {
+      const text = formatShareReport(report);
+      expect(text).toContain('Shares: 4, disks: disk1, disk2, disk10, pools: cache, nvme');
+      expect(text.indexOf('[WARNING] Media: Included disk disk7 does not exist')).toBeLessThan(text.indexOf('Media - Movies and TV'));
+      expect(text).toContain('  Data: 3.20 TiB (disk1 2.73 TiB, disk2 465.66 GiB, cache 18.63 GiB)');
+      expect(text).toContain('Old Stuff\n');
+    });
+  });
+});
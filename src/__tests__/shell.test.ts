@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { execFileSync } from 'child_process';
+import {
+  deviceName,
+  dockerName,
+  fileName,
+  hostTarget,
+  plainArgument,
+  raw,
+  safePath,
+  sh,
+  shareName,
+  shellQuote,
+  vmName,
+  zfsName,
+} from '../shell.js';
+
+/** Run a command through a real POSIX shell and return what it printed */
+function runShell(command: string): string {
+  return execFileSync('/bin/sh', ['-c', command], { encoding: 'utf-8' });
+}
+
+const payloads = [
+  'a; echo INJECTED',
+  'a && echo INJECTED',
+  'a | echo INJECTED',
+  '$(echo INJECTED)',
+  '`echo INJECTED`',
+  "it's'; echo INJECTED; '",
+  '"; echo INJECTED; "',
+  '${PATH}',
+  'a\\\'b',
+  '*',
+  '> /tmp/should-not-exist',
+  '-n',
+  '',
+];
+
+describe('shell', () => {
+  describe('shellQuote', () => {
+    it('should leave safe words unquoted', () => {
+      expect(shellQuote('nginx')).toBe('nginx');
+      expect(shellQuote('/mnt/user/appdata')).toBe('/mnt/user/appdata');
+      expect(shellQuote(100)).toBe('100');
+    });
+
+    it('should single-quote anything else', () => {
+      expect(shellQuote('a b')).toBe("'a b'");
+      expect(shellQuote("it's")).toBe("'it'\\''s'");
+      expect(shellQuote('')).toBe("''");
+    });
+
+    it('should reject NUL bytes', () => {
+      expect(() => shellQuote('a\0b')).toThrow('NUL');
+    });
+
+    it.each(payloads)('should pass %j through a real shell as one literal argument', (payload) => {
+      const output = runShell(sh`printf '%s|' ${payload}`);
+      expect(output).toBe(`${payload}|`);
+      expect(output).not.toBe('INJECTED\n');
+    });
+  });
+
+  describe('sh', () => {
+    it('should quote interpolated values and keep the template as-is', () => {
+      expect(sh`docker logs --tail ${50} ${'my app'} 2>&1`).toBe("docker logs --tail 50 'my app' 2>&1");
+    });
+
+    it('should expand arrays into separate words', () => {
+      expect(runShell(sh`printf '%s|' ${['a b', 'c;d']}`)).toBe('a b|c;d|');
+    });
+
+    it('should insert raw fragments verbatim', () => {
+      expect(sh`grep ${raw('-i')} -e ${'x y'}`).toBe("grep -i -e 'x y'");
+    });
+
+    it('should keep nested commands intact for sh -c', () => {
+      const inner = sh`printf '%s' ${'$(echo INJECTED)'}`;
+      expect(runShell(sh`sh -c ${inner}`)).toBe('$(echo INJECTED)');
+    });
+  });
+
+  describe('validators', () => {
+    it('should accept normal Docker names and reject metacharacters', () => {
+      expect(dockerName('linuxserver-plex_1.2')).toBe('linuxserver-plex_1.2');
+      expect(() => dockerName('plex; rm -rf /')).toThrow('Invalid container name');
+      expect(() => dockerName('--privileged')).toThrow('Invalid container name');
+      expect(() => dockerName('a\nb')).toThrow('Invalid container name');
+    });
+
+    it('should allow spaces in VM names but not shell syntax', () => {
+      expect(vmName('Windows 11 (Gaming)')).toBe('Windows 11 (Gaming)');
+      expect(() => vmName('vm$(reboot)')).toThrow('Invalid VM name');
+      expect(() => vmName('../etc/passwd')).toThrow('Invalid VM name');
+    });
+
+    it('should keep share names to a single directory', () => {
+      expect(shareName('appdata')).toBe('appdata');
+      expect(() => shareName('..')).toThrow('Invalid share name');
+      expect(() => shareName('appdata/../../etc')).toThrow('Invalid share name');
+    });
+
+    it('should reject option-like hosts', () => {
+      expect(hostTarget('192.168.1.1')).toBe('192.168.1.1');
+      expect(hostTarget('fe80::1%eth0')).toBe('fe80::1%eth0');
+      expect(() => hostTarget('-f 8.8.8.8')).toThrow('Invalid host');
+    });
+
+    it('should accept device names and paths without traversal', () => {
+      expect(deviceName('sdb')).toBe('sdb');
+      expect(deviceName('/dev/nvme0n1')).toBe('/dev/nvme0n1');
+      expect(() => deviceName('../../etc/shadow')).toThrow('Invalid device');
+      expect(() => deviceName('sdb; reboot')).toThrow('Invalid device');
+    });
+
+    it('should accept ZFS dataset and snapshot names', () => {
+      expect(zfsName('tank/media@autosnap_2026-10-18')).toBe('tank/media@autosnap_2026-10-18');
+      expect(() => zfsName('-o tank')).toThrow('Invalid dataset');
+      expect(() => zfsName('tank/../boot', 'pool')).toThrow('Invalid pool');
+    });
+
+    it('should reject file names with directory separators', () => {
+      expect(fileName('my-Plex Media Server.xml')).toBe('my-Plex Media Server.xml');
+      expect(() => fileName('../../../etc/shadow')).toThrow('Invalid file name');
+    });
+
+    it('should reject free-form arguments that look like options', () => {
+      expect(plainArgument('error|warn', 'pattern')).toBe('error|warn');
+      expect(() => plainArgument('--help', 'pattern')).toThrow('must not start with "-"');
+      expect(() => plainArgument('a\nb', 'pattern')).toThrow('control characters');
+    });
+  });
+
+  describe('safePath', () => {
+    it('should normalize paths', () => {
+      expect(safePath('/mnt/user//appdata/')).toBe('/mnt/user/appdata');
+      expect(safePath('/mnt/user/../cache')).toBe('/mnt/cache');
+      expect(safePath('/')).toBe('/');
+    });
+
+    it('should require absolute paths', () => {
+      expect(() => safePath('-rf')).toThrow('must be absolute');
+      expect(() => safePath('etc/passwd')).toThrow('must be absolute');
+    });
+
+    it('should not let .. escape the allowed roots', () => {
+      expect(safePath('/mnt/user/appdata', ['/mnt/user'])).toBe('/mnt/user/appdata');
+      expect(() => safePath('/mnt/user/../../etc', ['/mnt/user'])).toThrow('outside the allowed locations');
+      expect(() => safePath('/mnt/username', ['/mnt/user'])).toThrow('outside the allowed locations');
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SmartHistory, SmartSample, formatSmartTrends, loadSmartHistoryOptions, smartTrend } from '../smart-history.js';
+import { SmartDrive } from '../structured.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const T0 = Date.parse('2024-03-01T00:00:00Z');
+
+function drive(overrides: Partial<SmartDrive> = {}): SmartDrive {
+  return {
+    device: '/dev/sdb',
+    type: 'sat',
+    protocol: 'ATA',
+    model: 'WDC WD40EFRX',
+    serial: 'WD-1234',
+    standby: false,
+    passed: true,
+    reallocatedSectors: 0,
+    crcErrors: 0,
+    failingAttributes: [],
+    messages: [],
+    health: { score: 100, status: 'OK', reasons: [] },
+    ...overrides,
+  };
+}
+
+function sample(day: number, values: Partial<SmartSample>): SmartSample {
+  return { time: T0 + day * DAY, device: '/dev/sdb', model: 'WDC WD40EFRX', ...values };
+}
+
+describe('smart-history', () => {
+  let dir: string;
+  let history: SmartHistory;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'smart-history-'));
+    history = new SmartHistory(dir, { retentionDays: 30, minIntervalMs: 60 * 60 * 1000, sampleIntervalMs: 0 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('SmartHistory', () => {
+    it('should store one JSON-lines file per serial', () => {
+      expect(history.record([drive(), drive({ device: '/dev/sdc', serial: 'ZA/99' })], 'tower', T0)).toBe(2);
+      expect(fs.readdirSync(dir).sort()).toEqual(['WD-1234.jsonl', 'ZA_99.jsonl']);
+      expect(history.samples('WD-1234')).toEqual([
+        expect.objectContaining({ time: T0, device: '/dev/sdb', reallocatedSectors: 0, score: 100 }),
+      ]);
+    });
+
+    it('should skip drives without a serial or score and samples within the minimum interval', () => {
+      history.record([drive()], 'tower', T0);
+      expect(history.record([drive()], 'tower', T0 + 30 * 60 * 1000)).toBe(0);
+      expect(history.record([drive({ serial: undefined }), drive({ serial: 'X', standby: true, health: null })], 'tower', T0)).toBe(0);
+      expect(history.record([drive()], 'tower', T0 + 2 * 60 * 60 * 1000)).toBe(1);
+      expect(history.samples('WD-1234')).toHaveLength(2);
+    });
+
+    it('should drop samples older than the retention when writing', () => {
+      history.record([drive()], 'tower', T0);
+      history.record([drive({ reallocatedSectors: 2 })], 'tower', T0 + 10 * DAY);
+      history.record([drive({ reallocatedSectors: 3 })], 'tower', T0 + 35 * DAY);
+      expect(history.samples('WD-1234').map(s => s.reallocatedSectors)).toEqual([2, 3]);
+    });
+
+    it('should filter samples by time and skip corrupt lines', () => {
+      history.record([drive()], 'tower', T0);
+      fs.appendFileSync(path.join(dir, 'WD-1234.jsonl'), '{not json\n');
+      history.record([drive()], 'tower', T0 + 2 * DAY);
+      expect(history.samples('WD-1234')).toHaveLength(2);
+      expect(history.samples('WD-1234', T0 + DAY)).toHaveLength(1);
+    });
+
+    it('should find the serial last sampled at a device', () => {
+      history.record([drive({ serial: 'OLD' })], 'tower', T0);
+      history.record([drive({ serial: 'NEW' })], 'tower', T0 + DAY);
+      expect(history.samples('NEW')[0].host).toBe('tower');
+      expect(history.serialForDevice('tower', '/dev/sdb')).toBe('NEW');
+      expect(history.serialForDevice('tower', '/dev/sdz')).toBeUndefined();
+    });
+
+    it('should keep device lookups to the host the drive was sampled on', () => {
+      history.record([drive({ serial: 'TOWER-SDB' })], 'tower', T0);
+      history.record([drive({ serial: 'BACKUP-SDB' })], 'backup', T0 + DAY);
+      expect(history.serialForDevice('tower', '/dev/sdb')).toBe('TOWER-SDB');
+      expect(history.serialForDevice('backup', '/dev/sdb')).toBe('BACKUP-SDB');
+      expect(history.serialForDevice('nas', '/dev/sdb')).toBeUndefined();
+    });
+  });
+
+  describe('smartTrend', () => {
+    it('should report rising reallocated sectors with a monthly rate', () => {
+      const trend = smartTrend('WD-1234', [
+        sample(0, { reallocatedSectors: 4, score: 90 }),
+        sample(10, { reallocatedSectors: 8, score: 90 }),
+        sample(20, { reallocatedSectors: 16, score: 75 }),
+      ])!;
+      expect(trend.changes).toEqual([
+        { metric: 'reallocatedSectors', from: 4, to: 16, delta: 12, lastIncreaseAt: '2024-03-21T00:00:00.000Z' },
+        { metric: 'score', from: 90, to: 75, delta: -15 },
+      ]);
+      expect(trend.findings).toEqual([
+        { severity: 'CRITICAL', message: 'Reallocated sectors rising: 4 -> 16 (+12 in 20 days) (~18/month)' },
+        { severity: 'WARNING', message: 'Health score fell from 90 to 75' },
+      ]);
+    });
+
+    it('should flag CRC errors only while they keep rising', () => {
+      const rising = smartTrend('A', [sample(0, { crcErrors: 3 }), sample(20, { crcErrors: 5 }), sample(25, { crcErrors: 9 })])!;
+      expect(rising.findings).toEqual([
+        { severity: 'WARNING', message: 'CRC errors still rising: 3 -> 9, last increase 2024-03-26 (check or replace the cable)' },
+      ]);
+
+      // Cable replaced on day 5: the count stays put afterwards
+      const fixed = smartTrend('A', [sample(0, { crcErrors: 3 }), sample(5, { crcErrors: 9 }), sample(25, { crcErrors: 9 })])!;
+      expect(fixed.findings).toEqual([]);
+      expect(fixed.changes[0]).toMatchObject({ metric: 'crcErrors', delta: 6, lastIncreaseAt: '2024-03-06T00:00:00.000Z' });
+    });
+
+    it('should project when NVMe endurance runs out', () => {
+      const trend = smartTrend('N', [sample(0, { percentageUsed: 80 }), sample(30, { percentageUsed: 86 })])!;
+      expect(trend.findings).toEqual([
+        { severity: 'CRITICAL', message: 'Endurance 86% used, rising 0.20%/day: reaches 100% in ~70 days' },
+      ]);
+    });
+
+    it('should not project endurance beyond a year', () => {
+      const trend = smartTrend('N', [sample(0, { percentageUsed: 10 }), sample(30, { percentageUsed: 11 })])!;
+      expect(trend.findings).toEqual([]);
+    });
+
+    it('should return null without samples', () => {
+      expect(smartTrend('X', [])).toBeNull();
+    });
+  });
+
+  describe('formatSmartTrends', () => {
+    it('should list drives needing attention first', () => {
+      const healthy = smartTrend('OK1', [sample(0, { reallocatedSectors: 0 }), sample(5, { reallocatedSectors: 0 })])!;
+      const failing = { ...smartTrend('BAD', [sample(0, { pendingSectors: 0 }), sample(5, { pendingSectors: 3 })])!, device: '/dev/sdc' };
+      const text = formatSmartTrends([healthy, failing], 30);
+      expect(text).toContain('Needs attention: sdc');
+      expect(text.indexOf('[BAD]')).toBeLessThan(text.indexOf('[OK1]'));
+      expect(text).toContain('[WARNING] Pending sectors rising: 0 -> 3');
+      expect(text).toContain('No change');
+    });
+
+    it('should explain an empty history', () => {
+      expect(formatSmartTrends([], 30)).toContain('No SMART history yet');
+    });
+  });
+
+  describe('loadSmartHistoryOptions', () => {
+    afterEach(() => {
+      delete process.env.SMART_HISTORY_INTERVAL_HOURS;
+      delete process.env.SMART_HISTORY_RETENTION_DAYS;
+    });
+
+    it('should default to 6-hourly samples kept for a year', () => {
+      expect(loadSmartHistoryOptions()).toMatchObject({ retentionDays: 365, sampleIntervalMs: 6 * 60 * 60 * 1000 });
+    });
+
+    it('should disable the sampler with an interval of 0', () => {
+      process.env.SMART_HISTORY_INTERVAL_HOURS = '0';
+      process.env.SMART_HISTORY_RETENTION_DAYS = '90';
+      expect(loadSmartHistoryOptions()).toMatchObject({ retentionDays: 90, sampleIntervalMs: 0 });
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs, { readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { registerSmartTools } from '../tools/core/smart-tools.js';
+
+function fixture(name: string): string {
+  return JSON.stringify(JSON.parse(readFileSync(new URL(`./fixtures/smart/${name}`, import.meta.url), 'utf-8')));
+}
+
+describe('SMART Tools', () => {
+  let mockServer: any;
+  let mockSSHExecutor: any;
+  let registeredTools: Map<string, any>;
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-data-'));
+    process.env.MCP_DATA_DIR = dataDir;
+    registeredTools = new Map();
+    mockServer = {
+      tool: vi.fn((name, description, schema, handler) => {
+        registeredTools.set(name, { name, description, schema, handler });
+      }),
+    };
+    mockSSHExecutor = vi.fn();
+    registerSmartTools(mockServer as any, mockSSHExecutor);
+  });
+
+  afterEach(() => {
+    delete process.env.MCP_DATA_DIR;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('Tool Registration', () => {
+    it('should register 1 mega-tool', () => {
+      expect(mockServer.tool).toHaveBeenCalledTimes(1);
+      expect(registeredTools.has('smart')).toBe(true);
+    });
+  });
+
+  describe('action=summary', () => {
+    it('should summarize every drive and return the typed model', async () => {
+      mockSSHExecutor.mockResolvedValue([fixture('sata-healthy.json'), fixture('sata-failing.json')].join('\n'));
+      const result = await registeredTools.get('smart').handler({ action: 'summary' });
+      expect(result.content[0].text).toContain('SMART Summary');
+      expect(result.content[0].text).toContain('Drives: 2 (OK 1, WARNING 0, CRITICAL 1)');
+      expect(result.structuredContent.drives.map((d: any) => d.health.status)).toEqual(['OK', 'CRITICAL']);
+    });
+
+    it('should record a history sample per drive serial in the data dir', async () => {
+      mockSSHExecutor.mockResolvedValue([fixture('sata-healthy.json'), fixture('sata-standby.json')].join('\n'));
+      await registeredTools.get('smart').handler({ action: 'summary' });
+      expect(fs.readdirSync(path.join(dataDir, 'smart-history'))).toEqual(['WD-WCC7K1234567.jsonl']);
+    });
+  });
+
+  describe('action=drive', () => {
+    it('should require device param', async () => {
+      const result = await registeredTools.get('smart').handler({ action: 'drive' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('device required');
+    });
+
+    it('should show one drive in detail', async () => {
+      mockSSHExecutor.mockResolvedValue(fixture('nvme-worn.json'));
+      const result = await registeredTools.get('smart').handler({ action: 'drive', device: 'nvme0' });
+      expect(result.content[0].text).toContain('Percentage used: 87%');
+      expect(result.content[0].text).toContain('Health: WARNING (score 85/100)');
+    });
+  });
+
+  describe('action=history', () => {
+    const earlier = (daysAgo: number, values: object) =>
+      JSON.stringify({ time: Date.now() - daysAgo * 24 * 60 * 60 * 1000, host: 'default', device: '/dev/sdd', model: 'ST8000VN004-2M2101', ...values }) + '\n';
+
+    it('should report degradation since earlier samples', async () => {
+      fs.mkdirSync(path.join(dataDir, 'smart-history'));
+      fs.writeFileSync(
+        path.join(dataDir, 'smart-history', 'WSD0ABCD.jsonl'),
+        earlier(20, { reallocatedSectors: 100, pendingSectors: 0, crcErrors: 3, score: 60 })
+      );
+      mockSSHExecutor.mockResolvedValue([fixture('sata-failing.json'), fixture('sata-healthy.json')].join('\n'));
+      const result = await registeredTools.get('smart').handler({ action: 'history', days: 30 });
+      const text = result.content[0].text;
+      expect(text).toContain('Needs attention: sdd');
+      expect(text).toContain('Reallocated sectors rising: 100 -> 152');
+      expect(text).toContain('Pending sectors rising: 0 -> 8');
+      const sdd = result.structuredContent.trends.find((t: any) => t.serial === 'WSD0ABCD');
+      expect(sdd.samples).toBe(2);
+    });
+
+    it('should use the last known serial for drives in standby', async () => {
+      fs.mkdirSync(path.join(dataDir, 'smart-history'));
+      fs.writeFileSync(
+        path.join(dataDir, 'smart-history', 'SLEEPY.jsonl'),
+        earlier(10, { reallocatedSectors: 0 }).replace('/dev/sdd', '/dev/sde') + earlier(2, { reallocatedSectors: 0 }).replace('/dev/sdd', '/dev/sde')
+      );
+      mockSSHExecutor.mockResolvedValue(fixture('sata-standby.json'));
+      const result = await registeredTools.get('smart').handler({ action: 'history', device: 'sde' });
+      expect(result.structuredContent.trends).toEqual([expect.objectContaining({ serial: 'SLEEPY', samples: 2, findings: [] })]);
+    });
+
+    it('should only use serials last seen at the device on the same host', async () => {
+      fs.mkdirSync(path.join(dataDir, 'smart-history'));
+      fs.writeFileSync(path.join(dataDir, 'smart-history', 'SLEEPY.jsonl'), earlier(3, {}).replace('/dev/sdd', '/dev/sde'));
+      fs.writeFileSync(path.join(dataDir, 'smart-history', 'OTHER-HOST.jsonl'), earlier(1, {}).replace('/dev/sdd', '/dev/sde').replace('"default"', '"backup"'));
+      mockSSHExecutor.mockResolvedValue(fixture('sata-standby.json'));
+      const tower = await registeredTools.get('smart').handler({ action: 'history', device: 'sde' });
+      expect(tower.structuredContent.trends.map((t: any) => t.serial)).toEqual(['SLEEPY']);
+
+      registerSmartTools(mockServer as any, mockSSHExecutor, 'backup');
+      const backup = await registeredTools.get('smart').handler({ action: 'history', device: 'sde' });
+      expect(backup.structuredContent.trends.map((t: any) => t.serial)).toEqual(['OTHER-HOST']);
+    });
+  });
+});
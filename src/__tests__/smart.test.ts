@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import {
+  formatSmartDrive,
+  formatSmartSummary,
+  parseSmartctl,
+  parseSmartctlOutput,
+  readSmartDrive,
+  readSmartDrives,
+} from '../smart.js';
+
+function fixture(name: string): any {
+  return JSON.parse(readFileSync(new URL(`./fixtures/smart/${name}`, import.meta.url), 'utf-8'));
+}
+
+describe('smart', () => {
+  describe('parseSmartctl', () => {
+    it('should read identity and ATA attributes of a healthy SATA drive', () => {
+      const drive = parseSmartctl(fixture('sata-healthy.json'));
+      expect(drive).toMatchObject({
+        device: '/dev/sdb',
+        type: 'sat',
+        protocol: 'ATA',
+        model: 'WDC WD40EFRX-68N32N0',
+        serial: 'WD-WCC7K1234567',
+        capacityBytes: 4000787030016,
+        standby: false,
+        passed: true,
+        temperatureC: 35,
+        powerOnHours: 34512,
+        reallocatedSectors: 0,
+        pendingSectors: 0,
+        offlineUncorrectable: 0,
+        crcErrors: 0,
+        failingAttributes: [],
+      });
+      expect(drive.health).toEqual({ score: 100, status: 'OK', reasons: [] });
+    });
+
+    it('should take the temperature from the summary rather than a packed raw value', () => {
+      expect(parseSmartctl(fixture('sata-failing.json')).temperatureC).toBe(41);
+    });
+
+    it('should score a drive with reallocated, pending and CRC errors as critical', () => {
+      const drive = parseSmartctl(fixture('sata-failing.json'));
+      expect(drive.health?.status).toBe('CRITICAL');
+      expect(drive.health?.score).toBe(0);
+      expect(drive.health?.reasons).toEqual([
+        '152 reallocated sectors',
+        '8 pending sectors',
+        '8 offline uncorrectable sectors',
+        '3 interface CRC errors (check the cable)',
+        '61022 power-on hours (~7.0 years)',
+      ]);
+    });
+
+    it('should read the NVMe health log and warn about endurance', () => {
+      const drive = parseSmartctl(fixture('nvme-worn.json'));
+      expect(drive).toMatchObject({
+        protocol: 'NVMe',
+        temperatureC: 48,
+        powerOnHours: 21870,
+        mediaErrors: 0,
+        percentageUsed: 87,
+        availableSpare: 100,
+        availableSpareThreshold: 10,
+        criticalWarning: 0,
+      });
+      expect(drive.reallocatedSectors).toBeUndefined();
+      expect(drive.health).toEqual({ score: 85, status: 'WARNING', reasons: ['87% of rated endurance used'] });
+    });
+
+    it('should not score a drive left in standby', () => {
+      const drive = parseSmartctl(fixture('sata-standby.json'));
+      expect(drive.standby).toBe(true);
+      expect(drive.passed).toBeNull();
+      expect(drive.health).toBeNull();
+      expect(formatSmartDrive(drive)).toContain('In standby');
+    });
+
+    it('should treat a failed self-assessment and a failing attribute as critical', () => {
+      const data = fixture('sata-healthy.json');
+      data.smart_status.passed = false;
+      data.ata_smart_attributes.table[1] = { id: 5, name: 'Reallocated_Sector_Ct', value: 100, worst: 100, thresh: 140, raw: { value: 3 } };
+      const drive = parseSmartctl(data);
+      expect(drive.failingAttributes).toEqual(['Reallocated_Sector_Ct']);
+      expect(drive.health?.status).toBe('CRITICAL');
+      expect(drive.health?.reasons[0]).toBe('SMART overall self-assessment FAILED');
+    });
+
+    it('should flag NVMe spare below threshold and critical warnings', () => {
+      const data = fixture('nvme-worn.json');
+      Object.assign(data.nvme_smart_health_information_log, { critical_warning: 1, available_spare: 5, media_errors: 2 });
+      const drive = parseSmartctl(data);
+      expect(drive.health?.status).toBe('CRITICAL');
+      expect(drive.health?.reasons).toEqual([
+        'NVMe critical warning 0x1',
+        '2 media errors',
+        'Available spare 5% below threshold 10%',
+        '87% of rated endurance used',
+      ]);
+    });
+  });
+
+  describe('parseSmartctlOutput', () => {
+    it('should read one compact document per line and skip noise', () => {
+      const output = ['sata-healthy.json', 'nvme-worn.json'].map(f => JSON.stringify(fixture(f))).join('\n\n') + '\nsmartctl: warning\n';
+      expect(parseSmartctlOutput(output).map(d => d.device)).toEqual(['/dev/sdb', '/dev/nvme0']);
+    });
+
+    it('should read a pretty-printed document', () => {
+      expect(parseSmartctlOutput(JSON.stringify(fixture('sata-healthy.json'), null, 2))).toHaveLength(1);
+    });
+  });
+
+  describe('readSmartDrives', () => {
+    it('should scan every device without waking sleeping drives', async () => {
+      const executor = vi.fn().mockResolvedValue(JSON.stringify(fixture('sata-healthy.json')));
+      const drives = await readSmartDrives(executor);
+      expect(executor.mock.calls[0][0]).toContain('smartctl --scan');
+      expect(executor.mock.calls[0][0]).toContain('-n standby');
+      expect(drives).toHaveLength(1);
+    });
+  });
+
+  describe('readSmartDrive', () => {
+    it('should pass -d nvme for NVMe devices', async () => {
+      const executor = vi.fn().mockResolvedValue(JSON.stringify(fixture('nvme-worn.json')));
+      await readSmartDrive(executor, 'nvme0n1');
+      expect(executor).toHaveBeenCalledWith('smartctl --json=c -a -n standby -d nvme /dev/nvme0n1', { timeoutMs: 60000 });
+    });
+
+    it('should reject invalid device names', async () => {
+      await expect(readSmartDrive(vi.fn(), 'sda; reboot')).rejects.toThrow('Invalid device');
+    });
+
+    it('should explain output that is not JSON', async () => {
+      const executor = vi.fn().mockResolvedValue('smartctl 6.6 ... unrecognized option --json');
+      await expect(readSmartDrive(executor, 'sda')).rejects.toThrow('smartmontools 7 or later');
+    });
+  });
+
+  describe('formatSmartSummary', () => {
+    it('should list the worst drives first with their reasons', () => {
+      const drives = ['sata-healthy.json', 'sata-failing.json', 'nvme-worn.json', 'sata-standby.json'].map(f => parseSmartctl(fixture(f)));
+      const text = formatSmartSummary(drives);
+      expect(text).toContain('Drives: 4 (OK 1, WARNING 1, CRITICAL 1, standby 1)');
+      const lines = text.split('\n');
+      expect(lines[2]).toMatch(/^sdd\s+CRITICAL 0/);
+      expect(lines[3]).toContain('- 152 reallocated sectors');
+      expect(text.indexOf('nvme0')).toBeLessThan(text.indexOf('sdb '));
+      expect(text).toMatch(/sde\s+STANDBY/);
+    });
+
+    it('should say when no drives were found', () => {
+      expect(formatSmartSummary([])).toContain('No SMART-capable drives found');
+    });
+  });
+});
@@ -124,6 +124,21 @@ describe('SSHConnectionManager', () => {
       expect(manager.isConnected()).toBe(false);
     });
 
+    it('should pass a host verifier and surface pinned fingerprint mismatches', async () => {
+      process.env.SSH_HOST_KEY_FINGERPRINT = 'SHA256:expected';
+      mockSSH.connect.mockImplementationOnce(async (config: any) => {
+        if (!config.hostVerifier(Buffer.from('presented-key'))) {
+          throw new Error('Host denied (verification failed)');
+        }
+      });
+
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+
+      await expect(manager.connect()).rejects.toThrow('does not match pinned fingerprint SHA256:expected');
+      expect(manager.isConnected()).toBe(false);
+    });
+
     it('should use custom port if provided', async () => {
       process.env.SSH_PORT = '2222';
 
@@ -146,11 +161,15 @@ describe('SSHConnectionManager', () => {
 
       const result = await manager.executeCommand('ls -la');
 
-      expect(mockSSH.execCommand).toHaveBeenCalledWith('ls -la');
+      expect(mockSSH.execCommand).toHaveBeenCalledWith(
+        `s=$(command -v bash 2>/dev/null || echo sh); if command -v timeout >/dev/null 2>&1; then exec timeout -k 5 15 "$s" -c 'ls -la'; else exec "$s" -c 'ls -la'; fi`,
+        expect.any(Object)
+      );
       expect(result).toEqual({
         stdout: 'test output',
         stderr: '',
         exitCode: 0,
+        truncated: false,
       });
     });
 
@@ -171,6 +190,7 @@ describe('SSHConnectionManager', () => {
         stdout: '',
         stderr: 'error message',
         exitCode: 1,
+        truncated: false,
       });
     });
 
@@ -181,7 +201,7 @@ describe('SSHConnectionManager', () => {
       const result = await manager.executeCommand('ls');
 
       expect(mockSSH.connect).toHaveBeenCalled();
-      expect(mockSSH.execCommand).toHaveBeenCalledWith('ls');
+      expect(mockSSH.execCommand).toHaveBeenCalledWith(expect.stringContaining("-c 'ls'"), expect.any(Object));
       expect(result.stdout).toBe('test output');
     });
 
@@ -202,6 +222,249 @@ describe('SSHConnectionManager', () => {
     });
   });
 
+  describe('per-call options', () => {
+    it('should apply per-call timeout to the remote wrapper', async () => {
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+
+      await manager.executeCommand('sleep 100', { timeoutMs: 120000 });
+
+      expect(mockSSH.execCommand).toHaveBeenCalledWith(expect.stringContaining('timeout -k 5 120 "$s" -c'), expect.any(Object));
+    });
+
+    it('should cap per-call timeout at MAX_COMMAND_TIMEOUT_MS', async () => {
+      process.env.MAX_COMMAND_TIMEOUT_MS = '60000';
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+
+      await manager.executeCommand('sleep 100', { timeoutMs: 600000 });
+
+      expect(mockSSH.execCommand).toHaveBeenCalledWith(expect.stringContaining('timeout -k 5 60 "$s" -c'), expect.any(Object));
+    });
+
+    it('should escape single quotes in wrapped commands', async () => {
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+
+      await manager.executeCommand("echo 'hi'");
+
+      expect(mockSSH.execCommand).toHaveBeenCalledWith(expect.stringContaining(`-c 'echo '\\''hi'\\'''`), expect.any(Object));
+    });
+
+    it('should report remote timeout as a timeout error', async () => {
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+      mockSSH.execCommand.mockImplementationOnce(async () => {
+        await new Promise(resolve => setTimeout(resolve, 1100));
+        return { stdout: '', stderr: '', code: 124 };
+      });
+
+      const error = await manager.executeCommand('sleep 5', { timeoutMs: 1000 }).catch(e => e);
+      expect(error.message).toContain('Command timed out after 1000ms and was terminated on the host');
+      expect(error.message).toContain("the tool's own budget");
+      expect(error.message).not.toContain('increasing COMMAND_TIMEOUT_MS');
+    });
+
+    it('should suggest COMMAND_TIMEOUT_MS only when the default budget expired', async () => {
+      process.env.COMMAND_TIMEOUT_MS = '1000';
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+      mockSSH.execCommand.mockImplementationOnce(async () => {
+        await new Promise(resolve => setTimeout(resolve, 1100));
+        return { stdout: '', stderr: '', code: 124 };
+      });
+
+      await expect(manager.executeCommand('sleep 5')).rejects.toThrow('consider increasing COMMAND_TIMEOUT_MS');
+    });
+
+    it('should kill the channel when the local deadline passes', async () => {
+      vi.useFakeTimers();
+      const channel = { signal: vi.fn(), close: vi.fn() };
+      mockSSH.execCommand.mockImplementationOnce((_cmd: string, opts: any) => {
+        opts.onChannel(channel);
+        return new Promise(() => {});
+      });
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+      await manager.connect();
+
+      const pending = manager.executeCommand('hang', { timeoutMs: 1000 });
+      const assertion = expect(pending).rejects.toThrow('timed out after 1000ms');
+      await vi.advanceTimersByTimeAsync(8000);
+      await assertion;
+
+      expect(channel.signal).toHaveBeenCalledWith('KILL');
+      expect(channel.close).toHaveBeenCalled();
+      vi.useRealTimers();
+    });
+
+    it('should stop and truncate output beyond maxOutputBytes', async () => {
+      const channel = { signal: vi.fn(), close: vi.fn() };
+      mockSSH.execCommand.mockImplementationOnce(async (_cmd: string, opts: any) => {
+        opts.onChannel(channel);
+        opts.onStdout(Buffer.from('0123456789'));
+        return { stdout: '0123456789', stderr: '', code: null };
+      });
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+
+      const result = await manager.executeCommand('cat big', { maxOutputBytes: 4 });
+
+      expect(channel.signal).toHaveBeenCalledWith('KILL');
+      expect(result.stdout).toBe('0123\n[Output truncated at 4 bytes]');
+      expect(result.exitCode).toBe(0);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('should keep the exit code of a failed command whose output was truncated', async () => {
+      mockSSH.execCommand.mockImplementationOnce(async (_cmd: string, opts: any) => {
+        opts.onStdout(Buffer.from('0123456789'));
+        return { stdout: '0123456789', stderr: 'disk full', code: 2 };
+      });
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+
+      const result = await manager.executeCommand('tar big', { maxOutputBytes: 4 });
+
+      expect(result).toMatchObject({ exitCode: 2, truncated: true, stderr: 'disk full' });
+    });
+
+    it('should run commands under bash so bashisms work where sh is dash', async () => {
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+      await manager.executeCommand(`set -o pipefail; [[ "a b" == a* ]] && cat <(echo "$(( 1 << 3 ))")`);
+      const wrapped = mockSSH.execCommand.mock.calls[0][0];
+
+      // Run the wrapper the way a POSIX login shell would
+      const { execFileSync } = await import('child_process');
+      expect(execFileSync('/bin/sh', ['-c', wrapped], { encoding: 'utf-8' })).toBe('8\n');
+    });
+  });
+
+  describe('streaming and cancellation', () => {
+    it('should forward stdout chunks to onOutput', async () => {
+      mockSSH.execCommand.mockImplementationOnce(async (_cmd: string, opts: any) => {
+        opts.onStdout(Buffer.from('line 1\n'));
+        opts.onStdout(Buffer.from('line 2\n'));
+        return { stdout: 'line 1\nline 2\n', stderr: '', code: 0 };
+      });
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+      const onOutput = vi.fn();
+
+      await manager.executeCommand('stream', { onOutput });
+
+      expect(onOutput).toHaveBeenNthCalledWith(1, 'line 1\n');
+      expect(onOutput).toHaveBeenNthCalledWith(2, 'line 2\n');
+    });
+
+    it('should kill the remote command when cancelled', async () => {
+      const channel = { signal: vi.fn(), close: vi.fn() };
+      mockSSH.execCommand.mockImplementationOnce((_cmd: string, opts: any) => {
+        opts.onChannel(channel);
+        return new Promise(() => {});
+      });
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+      await manager.connect();
+      const controller = new AbortController();
+
+      const pending = manager.executeCommand('hang', { signal: controller.signal });
+      await new Promise(resolve => setTimeout(resolve, 0));
+      controller.abort();
+
+      await expect(pending).rejects.toThrow('cancelled by client');
+      expect(channel.signal).toHaveBeenCalledWith('KILL');
+      expect(channel.close).toHaveBeenCalled();
+      expect(manager.getCircuitBreakerStatus().consecutiveFailures).toBe(0);
+    });
+
+    it('should not start a command that was already cancelled', async () => {
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(manager.executeCommand('ls', { signal: controller.signal })).rejects.toThrow('cancelled by client');
+      expect(mockSSH.execCommand).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('circuit breaker', () => {
+    beforeEach(() => {
+      process.env.MAX_CONSECUTIVE_FAILURES = '2';
+      process.env.CIRCUIT_BREAKER_COOLDOWN_MS = '1000';
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    async function openBreaker() {
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+      await manager.connect();
+      mockSSH.execCommand.mockRejectedValueOnce(new Error('boom')).mockRejectedValueOnce(new Error('boom'));
+      await expect(manager.executeCommand('a')).rejects.toThrow('boom');
+      await expect(manager.executeCommand('b')).rejects.toThrow('boom');
+      return manager;
+    }
+
+    it('should open after the failure threshold and fail fast', async () => {
+      vi.useFakeTimers();
+      const manager = await openBreaker();
+
+      const status = manager.getCircuitBreakerStatus();
+      expect(status.state).toBe('open');
+      expect(status.consecutiveFailures).toBe(2);
+      expect(status.openedAt).not.toBeNull();
+      expect(status.nextRetryAt).not.toBeNull();
+
+      mockSSH.execCommand.mockClear();
+      await expect(manager.executeCommand('c')).rejects.toThrow('Circuit breaker is open');
+      expect(mockSSH.execCommand).not.toHaveBeenCalled();
+    });
+
+    it('should probe after cooldown and close on success', async () => {
+      vi.useFakeTimers();
+      const manager = await openBreaker();
+      vi.advanceTimersByTime(1000);
+
+      mockSSH.execCommand.mockClear();
+      const result = await manager.executeCommand('ls');
+
+      expect(mockSSH.execCommand).toHaveBeenNthCalledWith(1, 'true');
+      expect(mockSSH.execCommand).toHaveBeenNthCalledWith(2, expect.stringContaining("-c 'ls'"), expect.any(Object));
+      expect(result.stdout).toBe('test output');
+      expect(manager.getCircuitBreakerStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0, openedAt: null });
+    });
+
+    it('should reopen with a new cooldown when the probe fails', async () => {
+      vi.useFakeTimers();
+      const manager = await openBreaker();
+      const firstOpenedAt = manager.getCircuitBreakerStatus().openedAt;
+      vi.advanceTimersByTime(1500);
+
+      mockSSH.execCommand.mockRejectedValueOnce(new Error('still down'));
+      await expect(manager.executeCommand('ls')).rejects.toThrow('Circuit breaker probe failed');
+
+      const status = manager.getCircuitBreakerStatus();
+      expect(status.state).toBe('open');
+      expect(status.openedAt).not.toBe(firstOpenedAt);
+      expect(status.lastError).toContain('still down');
+    });
+
+    it('should probe immediately on reset', async () => {
+      const manager = await openBreaker();
+
+      await manager.resetCircuitBreaker();
+
+      expect(mockSSH.execCommand).toHaveBeenLastCalledWith('true');
+      expect(manager.getCircuitBreakerStatus().state).toBe('closed');
+    });
+  });
+
   describe('disconnect', () => {
     it('should disconnect successfully', async () => {
       const { SSHConnectionManager } = await import('../ssh-manager.js');
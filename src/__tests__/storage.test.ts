@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { detectStorageSubsystems, getStorageToolModules, hasStorage } from '../platforms/storage/index.js';
+import { LinuxPlatform } from '../platforms/linux/index.js';
+import { UnraidPlatform } from '../platforms/unraid/index.js';
+
+/** Executor where only commands matching `present` succeed */
+function probeExecutor(present: RegExp) {
+  return vi.fn(async (command: string) => {
+    if (command.startsWith('uname')) return 'Linux';
+    if (present.test(command)) return '';
+    throw new Error('not found');
+  });
+}
+
+describe('storage subsystems', () => {
+  it('should detect every subsystem present', async () => {
+    expect(await detectStorageSubsystems(probeExecutor(/zpool|lvs/))).toEqual(['zfs', 'lvm']);
+    expect(await detectStorageSubsystems(probeExecutor(/^$/))).toEqual([]);
+  });
+
+  it('should fall back to the primary storage capability', () => {
+    const base = { virtualization: 'none', containerRuntime: 'none', initSystem: 'systemd' } as const;
+    expect(hasStorage({ ...base, storage: 'zfs' }, 'zfs')).toBe(true);
+    expect(hasStorage({ ...base, storage: 'mdraid', storageSubsystems: ['zfs'] }, 'mdraid')).toBe(false);
+    expect(getStorageToolModules({ ...base, storage: 'ext4' })).toEqual([]);
+    expect(getStorageToolModules({ ...base, storage: 'lvm', storageSubsystems: ['lvm', 'zfs'] }).map(m => m.name)).toEqual(['zfs', 'lvm']);
+    expect(getStorageToolModules({ ...base, storage: 'mdraid' }).map(m => m.name)).toEqual(['mdraid']);
+    expect(getStorageToolModules({ ...base, storage: 'btrfs' }).map(m => m.name)).toEqual(['btrfs']);
+  });
+
+  it('should register ZFS and LVM tools on a generic Linux host with pools', async () => {
+    const platform = { ...LinuxPlatform, capabilities: { ...LinuxPlatform.capabilities } };
+    await platform.detect(probeExecutor(/zpool|lvs/));
+    expect(platform.capabilities).toMatchObject({ storage: 'zfs', storageSubsystems: ['zfs', 'lvm'] });
+    expect(platform.getToolModules().map(m => m.name)).toEqual(['zfs', 'lvm']);
+  });
+
+  it('should register mdraid and LVM tools on a Debian NAS', async () => {
+    const platform = { ...LinuxPlatform, capabilities: { ...LinuxPlatform.capabilities } };
+    await platform.detect(probeExecutor(/mdstat|lvs/));
+    expect(platform.capabilities).toMatchObject({ storage: 'mdraid', storageSubsystems: ['mdraid', 'lvm'] });
+    expect(platform.getToolModules().map(m => m.name)).toEqual(['mdraid', 'lvm']);
+  });
+
+  it('should register ZFS and btrfs tools on Unraid pools', async () => {
+    const platform = { ...UnraidPlatform, capabilities: { ...UnraidPlatform.capabilities } };
+    const executor = vi.fn(async (command: string) => {
+      if (/ident\.cfg|mdcmd|zpool|btrfs|mdstat/.test(command)) return '';
+      if (command.includes('unraid-version')) return 'Unraid 6.12.10';
+      throw new Error('not found');
+    });
+    expect(await platform.detect(executor)).toBe(100);
+    expect(platform.capabilities.storageSubsystems).toEqual(['zfs', 'btrfs']);
+    expect(platform.getToolModules().map(m => m.name)).toEqual(['unraid', 'plugin', 'notifications', 'flash', 'zfs', 'btrfs']);
+    expect(UnraidPlatform.getToolModules().map(m => m.name)).not.toContain('zfs');
+    expect(UnraidPlatform.getToolModules().map(m => m.name)).not.toContain('mdraid');
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { formatToolResult } from '../structured.js';
+
+describe('structured', () => {
+  describe('formatToolResult', () => {
+    const text = { content: [{ type: 'text' as const, text: 'Array Status:\n\nmdState=STARTED' }] };
+
+    it('should leave errors unchanged', () => {
+      const error = { content: [{ type: 'text' as const, text: 'Error: boom' }], isError: true };
+      expect(formatToolResult('docker', 'logs', error, 'json')).toBe(error);
+    });
+
+    it('should leave text results of tools without a schema unchanged', () => {
+      expect(formatToolResult('system', 'disk_usage', text)).toBe(text);
+    });
+
+    it('should add the action to parsed structured content', () => {
+      const result = formatToolResult('unraid', 'array_status', { ...text, structuredContent: { array: { fields: {} } } }, 'json');
+      expect(result.structuredContent).toEqual({ action: 'array_status', array: { fields: {} } });
+      expect(JSON.parse((result.content[0] as any).text)).toEqual(result.structuredContent);
+    });
+
+    it('should fall back to the formatted text', () => {
+      const result = formatToolResult('unraid', 'temps', text);
+      expect(result.content).toBe(text.content);
+      expect(result.structuredContent).toEqual({ action: 'temps', text: 'Array Status:\n\nmdState=STARTED' });
+    });
+  });
+});
@@ -36,7 +36,7 @@ describe('System Tools', () => {
       mockSSHExecutor.mockResolvedValue('file1.txt\nfile2.txt');
       const tool = registeredTools.get('system');
       const result = await tool.handler({ action: 'list_files', path: '/tmp' });
-      expect(mockSSHExecutor).toHaveBeenCalledWith('ls "/tmp"');
+      expect(mockSSHExecutor).toHaveBeenCalledWith('ls /tmp');
       expect(result.content[0].text).toContain('file1.txt');
     });
 
@@ -44,7 +44,7 @@ describe('System Tools', () => {
       mockSSHExecutor.mockResolvedValue('-rw-r--r-- file1.txt');
       const tool = registeredTools.get('system');
       await tool.handler({ action: 'list_files', path: '/tmp', long: true });
-      expect(mockSSHExecutor).toHaveBeenCalledWith('ls -lah "/tmp"');
+      expect(mockSSHExecutor).toHaveBeenCalledWith('ls -lah /tmp');
     });
   });
 
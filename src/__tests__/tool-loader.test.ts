@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { loadTools } from '../tool-loader.js';
+import { LinuxPlatform } from '../platforms/linux/index.js';
+import { UnraidPlatform } from '../platforms/unraid/index.js';
+
+describe('Tool Loader', () => {
+  let mockServer: any;
+  let registeredTools: Map<string, any>;
+  let towerExecutor: any;
+  let debianExecutor: any;
+  let hosts: any;
+
+  beforeEach(() => {
+    registeredTools = new Map();
+    mockServer = {
+      registerTool: vi.fn((name, config, handler) => {
+        registeredTools.set(name, { name, description: config.description, schema: config.inputSchema, outputSchema: config.outputSchema, handler });
+      }),
+    };
+    towerExecutor = vi.fn().mockResolvedValue('tower output');
+    debianExecutor = vi.fn().mockResolvedValue('debian output');
+    const manager = { resetCircuitBreaker: vi.fn().mockResolvedValue(undefined), getCircuitBreakerStatus: () => ({ state: 'closed', consecutiveFailures: 0, failureThreshold: 3, cooldownMs: 30000, openedAt: null, nextRetryAt: null, lastError: null }) };
+    const list = [
+      { name: 'tower', executor: towerExecutor, platform: UnraidPlatform, manager },
+      { name: 'debian', executor: debianExecutor, platform: LinuxPlatform },
+    ];
+    hosts = {
+      defaultHost: 'tower',
+      list: () => list,
+      names: () => list.map(h => h.name),
+      get: (name?: string) => {
+        const host = list.find(h => h.name === (name ?? 'tower'));
+        if (!host) throw new Error(`Unknown host "${name}"`);
+        return host;
+      },
+    };
+    loadTools(mockServer, hosts);
+  });
+
+  it('should register each tool once with a host argument', () => {
+    expect(registeredTools.has('docker')).toBe(true);
+    expect(registeredTools.has('unraid')).toBe(true);
+    // 12 core + 4 Unraid + hosts
+    expect(mockServer.registerTool).toHaveBeenCalledTimes(17);
+    expect(registeredTools.get('docker').schema).toHaveProperty('host');
+  });
+
+  it('should add the output argument to every tool and output schemas where parsers exist', () => {
+    for (const tool of registeredTools.values()) {
+      expect(tool.schema).toHaveProperty('output');
+    }
+    expect(registeredTools.get('docker').outputSchema).toHaveProperty('containers');
+    expect(registeredTools.get('system').outputSchema).toBeUndefined();
+  });
+
+  it('should return parsed data as JSON when output is json', async () => {
+    towerExecutor.mockResolvedValue('{"ID":"abc","Names":"plex","Image":"plex:latest","State":"running","Status":"Up 2 hours","Ports":"32400/tcp"}\n');
+    const result = await registeredTools.get('docker').handler({ action: 'list_containers', output: 'json' }, {});
+    expect(result.structuredContent.containers[0]).toMatchObject({ name: 'plex', state: 'running', ports: ['32400/tcp'] });
+    expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+  });
+
+  it('should keep text output and attach structured content for tools with an output schema', async () => {
+    towerExecutor.mockResolvedValue('{"ID":"abc","Names":"plex","State":"running"}\n');
+    const result = await registeredTools.get('docker').handler({ action: 'list_containers' }, {});
+    expect(result.content[0].text).toContain('Name: plex');
+    expect(result.structuredContent.action).toBe('list_containers');
+
+    const logs = await registeredTools.get('docker').handler({ action: 'logs', container: 'plex' }, {});
+    expect(logs.structuredContent).toEqual({ action: 'logs', text: logs.content[0].text });
+  });
+
+  it('should wrap unparsed text as JSON for tools without an output schema', async () => {
+    const result = await registeredTools.get('system').handler({ action: 'system_info', output: 'json' }, {});
+    expect(result.structuredContent.action).toBe('system_info');
+    expect(result.structuredContent.text).toContain('tower output');
+
+    const text = await registeredTools.get('system').handler({ action: 'system_info' }, {});
+    expect(text.structuredContent).toBeUndefined();
+  });
+
+  it('should route to the default host when host is omitted', async () => {
+    await registeredTools.get('system').handler({ action: 'system_info' }, {});
+    expect(towerExecutor).toHaveBeenCalled();
+    expect(debianExecutor).not.toHaveBeenCalled();
+  });
+
+  it('should route to the selected host', async () => {
+    const result = await registeredTools.get('system').handler({ action: 'system_info', host: 'debian' }, {});
+    expect(debianExecutor).toHaveBeenCalled();
+    expect(towerExecutor).not.toHaveBeenCalled();
+    expect(result.content[0].text).toContain('debian output');
+  });
+
+  it('should refuse platform tools on hosts without them', async () => {
+    const result = await registeredTools.get('unraid').handler({ action: 'array_status', host: 'debian' }, {});
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('not available on host debian');
+    expect(debianExecutor).not.toHaveBeenCalled();
+  });
+
+  it('should refuse mutating actions in read-only mode', async () => {
+    const result = await registeredTools.get('hosts').handler({ action: 'circuit_reset' }, {});
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Permission denied');
+    expect(hosts.get().manager.resetCircuitBreaker).not.toHaveBeenCalled();
+  });
+
+  it('should allow mutating actions in operator mode unless the token scope is read-only', async () => {
+    registeredTools.clear();
+    loadTools(mockServer, hosts, 'operator');
+    const denied = await registeredTools.get('hosts').handler(
+      { action: 'circuit_reset' },
+      { authInfo: { token: 't', clientId: 'c', scopes: ['mcp:read'] } }
+    );
+    expect(denied.content[0].text).toContain('requires the mcp:write scope');
+
+    const allowed = await registeredTools.get('hosts').handler({ action: 'circuit_reset' }, {});
+    expect(allowed.isError).toBeUndefined();
+    expect(hosts.get().manager.resetCircuitBreaker).toHaveBeenCalled();
+  });
+
+  it('should return an error for unknown hosts', async () => {
+    const result = await registeredTools.get('system').handler({ action: 'system_info', host: 'nope' }, {});
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Unknown host');
+    expect(result.content[0].text).not.toContain('"target"');
+  });
+
+  it('should point old network_test calls passing the address as host to target', async () => {
+    const result = await registeredTools.get('container_topology').handler({ action: 'network_test', type: 'ping', host: '8.8.8.8' }, {});
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Unknown host "8.8.8.8"');
+    expect(result.content[0].text).toContain('pass the address to test as "target"');
+    expect(towerExecutor).not.toHaveBeenCalled();
+  });
+});
@@ -31,6 +31,7 @@ describe('Unraid Tools', () => {
       const result = await tool.handler({ action: 'array_status' });
       expect(mockSSHExecutor).toHaveBeenCalledWith('cat /proc/mdcmd');
       expect(result.content[0].text).toContain('Array Status');
+      expect(result.structuredContent.array).toMatchObject({ state: 'STARTED', disks: [], resync: null, fields: { mdState: 'STARTED', mdResync: '0' } });
     });
 
     it('should fallback to mdcmd status', async () => {
@@ -52,17 +53,25 @@ describe('Unraid Tools', () => {
     });
 
     it('should get SMART for SATA drive', async () => {
-      mockSSHExecutor.mockResolvedValue('SMART info');
+      mockSSHExecutor.mockResolvedValue(JSON.stringify({
+        device: { name: '/dev/sda', type: 'sat', protocol: 'ATA' },
+        model_name: 'WDC WD40EFRX',
+        smart_status: { passed: true },
+        ata_smart_attributes: { table: [{ id: 5, name: 'Reallocated_Sector_Ct', value: 200, worst: 200, thresh: 140, raw: { value: 0 } }] },
+        temperature: { current: 34 },
+      }));
       const tool = registeredTools.get('unraid');
       const result = await tool.handler({ action: 'smart', device: 'sda' });
-      expect(mockSSHExecutor).toHaveBeenCalledWith(expect.stringContaining('smartctl'));
+      expect(mockSSHExecutor).toHaveBeenCalledWith(expect.stringContaining('smartctl --json'), { timeoutMs: 60000 });
+      expect(result.content[0].text).toContain('Health: OK (score 100/100)');
+      expect(result.structuredContent.drive.temperatureC).toBe(34);
     });
 
     it('should get SMART for NVMe drive', async () => {
       mockSSHExecutor.mockResolvedValue('NVMe SMART');
       const tool = registeredTools.get('unraid');
       const result = await tool.handler({ action: 'smart', device: 'nvme0n1' });
-      expect(mockSSHExecutor).toHaveBeenCalledWith(expect.stringContaining('-d nvme'));
+      expect(mockSSHExecutor).toHaveBeenCalledWith(expect.stringContaining('-d nvme'), { timeoutMs: 60000 });
     });
   });
 
@@ -79,12 +88,16 @@ describe('Unraid Tools', () => {
   });
 
   describe('action=shares', () => {
-    it('should list shares', async () => {
-      mockSSHExecutor.mockResolvedValue('appdata\nmedia\nisos');
+    it('should report share settings with their distribution and findings', async () => {
+      mockSSHExecutor.mockResolvedValue(
+        '--- share /boot/config/shares/media.cfg\nshareUseCache="yes"\nshareInclude="disk3"\n--- mounts\n/mnt/disk1\n/mnt/cache\n--- usage\n2000\t/mnt/disk1/media/\n'
+      );
       const tool = registeredTools.get('unraid');
       const result = await tool.handler({ action: 'shares' });
-      expect(mockSSHExecutor).toHaveBeenCalledWith('ls -la /mnt/user/');
-      expect(result.content[0].text).toContain('Shares');
+      expect(mockSSHExecutor.mock.calls[0][0]).toContain('du -s -B1');
+      expect(result.content[0].text).toContain('[WARNING] media: Included disk disk3 does not exist');
+      expect(result.content[0].text).toContain('Data: 1.95 KiB (disk1 1.95 KiB)');
+      expect(result.structuredContent.shareReport.shares[0]).toMatchObject({ name: 'media', includeDisks: ['disk3'] });
     });
   });
 
@@ -111,6 +124,36 @@ describe('Unraid Tools', () => {
       const result = await tool.handler({ action: 'parity_status' });
       expect(result.content[0].text).toContain('Parity Status');
     });
+
+    it('should fall back to mdcmd status when /proc/mdcmd is unreadable', async () => {
+      mockSSHExecutor
+        .mockRejectedValueOnce(new Error('cat: /proc/mdcmd: Permission denied'))
+        .mockResolvedValueOnce('mdState=STARTED\nmdResync=0\n')
+        .mockResolvedValueOnce('No entries');
+      const tool = registeredTools.get('unraid');
+      const result = await tool.handler({ action: 'parity_status' });
+      expect(mockSSHExecutor).toHaveBeenNthCalledWith(2, 'mdcmd status');
+      expect(result.content[0].text).toContain('State: STARTED');
+    });
+  });
+
+  describe('action=parity_history', () => {
+    it('should parse the check log and schedule read in one command', async () => {
+      mockSSHExecutor.mockResolvedValue([
+        'now 2023-04-15T12:00:00',
+        '--- log',
+        '2023 Mar  1 11:15:27|41722|187.3 MB/s|0|0|check P|7814026532',
+        '2023 Apr  1 16:48:09|40510|197.5 MB/s|0|2|check P|7814026532',
+        '--- schedule',
+        '0 3 1 * * /usr/local/sbin/mdcmd check &> /dev/null || :',
+      ].join('\n'));
+      const tool = registeredTools.get('unraid');
+      const result = await tool.handler({ action: 'parity_history' });
+      expect(mockSSHExecutor.mock.calls[0][0]).toContain('/boot/config/parity-checks.log');
+      expect(result.content[0].text).toContain('Next scheduled: 2023-05-01 03:00:00 (correcting');
+      expect(result.content[0].text).toContain('[WARNING] Last completed check found 2 errors');
+      expect(result.structuredContent.parityHistory.stats.completed).toBe(2);
+    });
   });
 
   describe('action=mover_status', () => {
@@ -122,6 +165,43 @@ describe('Unraid Tools', () => {
     });
   });
 
+  describe('action=split_level', () => {
+    it('should read one share through the shared parser', async () => {
+      mockSSHExecutor.mockResolvedValue('--- share /boot/config/shares/media.cfg\nshareSplitLevel="2"\nshareAllocator="mostfree"\n');
+      const tool = registeredTools.get('unraid');
+      const result = await tool.handler({ action: 'split_level', share: 'media' });
+      expect(mockSSHExecutor.mock.calls[0][0]).toContain('/boot/config/shares/media.cfg');
+      expect(result.content[0].text).toContain('media: split level 2, allocator mostfree, include all, exclude none');
+    });
+  });
+
+  describe('action=mover_log', () => {
+    it('should list parsed runs newest first', async () => {
+      mockSSHExecutor
+        .mockResolvedValueOnce('now 2026-10-18T09:00:00\nOct 17 03:40:01 Tower root: mover: started\nOct 17 03:40:02 Tower move: move: file /mnt/cache/Media/a.mkv\nOct 17 03:41:00 Tower root: mover: finished\n')
+        .mockResolvedValueOnce('2000000000 /mnt/user/Media/a.mkv\n');
+      const tool = registeredTools.get('unraid');
+      const result = await tool.handler({ action: 'mover_log', limit: 5 });
+      expect(result.content[0].text).toContain('Mover Runs (last 1 of 1)');
+      expect(result.content[0].text).toMatch(/2026-10-17 03:40:01  59s\s+1 files/);
+      expect(result.content[0].text).toContain('1 files, 1.86 GiB, 0 errors');
+    });
+  });
+
+  describe('action=mover_pending', () => {
+    it('should list files waiting on cache for one share', async () => {
+      mockSSHExecutor
+        .mockResolvedValueOnce('now 2026-10-18T09:00:00\n--- cron\n--- share /boot/config/shares/Media.cfg\nshareUseCache="yes"\n--- share /boot/config/shares/TV.cfg\nshareUseCache="yes"\n')
+        .mockResolvedValueOnce('--- Media cache\n1792220000 1000 /mnt/cache/Media/a.mkv\ntotal 1 1000 1000\n');
+      const tool = registeredTools.get('unraid');
+      const result = await tool.handler({ action: 'mover_pending', share: 'Media', lines: 10 });
+      expect(mockSSHExecutor.mock.calls[1][0]).toContain('find /mnt/cache/Media');
+      expect(mockSSHExecutor.mock.calls[1][0]).not.toContain('/mnt/cache/TV');
+      expect(result.content[0].text).toContain('Schedule: none');
+      expect(result.content[0].text).toContain('Media (cache -> array): 1 files, 1000 B');
+    });
+  });
+
   describe('action=cache_usage', () => {
     it('should get cache usage', async () => {
       mockSSHExecutor.mockResolvedValue('/dev/nvme0n1 500G 200G 300G');
@@ -90,6 +90,15 @@ describe('VM Tools', () => {
       expect(mockSSHExecutor).toHaveBeenCalledWith('tail -n 50 /var/log/libvirt/qemu/Ubuntu-VM.log');
     });
 
+    it('should quote VM names with spaces and reject traversal', async () => {
+      mockSSHExecutor.mockResolvedValue('Log content');
+      const tool = registeredTools.get('vm');
+      await tool.handler({ action: 'logs', vm: 'Windows 11', lines: 10 });
+      expect(mockSSHExecutor).toHaveBeenCalledWith("tail -n 10 '/var/log/libvirt/qemu/Windows 11.log'");
+      const result = await tool.handler({ action: 'logs', vm: '../../../etc/shadow' });
+      expect(result.isError).toBe(true);
+    });
+
     it('should list log files when no VM specified', async () => {
       mockSSHExecutor.mockResolvedValue('Ubuntu-VM.log');
       const tool = registeredTools.get('vm');
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { registerZfsTools } from '../platforms/storage/zfs-tools.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/zfs/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('ZFS Tools', () => {
+  let mockServer: any;
+  let mockSSHExecutor: any;
+  let registeredTools: Map<string, any>;
+
+  beforeEach(() => {
+    registeredTools = new Map();
+    mockServer = {
+      tool: vi.fn((name, description, schema, handler) => {
+        registeredTools.set(name, { name, description, schema, handler });
+      }),
+    };
+    mockSSHExecutor = vi.fn();
+    registerZfsTools(mockServer as any, mockSSHExecutor);
+  });
+
+  it('should register the zfs tool', () => {
+    expect(mockServer.tool).toHaveBeenCalledTimes(1);
+    expect(registeredTools.has('zfs')).toBe(true);
+  });
+
+  it('should return the pool report as structured content', async () => {
+    mockSSHExecutor.mockResolvedValue(fixture('pool-status.txt'));
+    const result = await registeredTools.get('zfs').handler({ action: 'pool_status', pool: 'tank' });
+    expect(mockSSHExecutor.mock.calls[0][0]).toContain('zpool status -p tank');
+    expect(result.structuredContent.poolReport.pools).toHaveLength(2);
+    expect(result.content[0].text).toContain('[CRITICAL] tank: vdev 9876543210123456789 is UNAVAIL');
+  });
+
+  it('should limit scrub history', async () => {
+    mockSSHExecutor.mockResolvedValue(fixture('scrub.txt'));
+    const result = await registeredTools.get('zfs').handler({ action: 'scrub_status', limit: 1 });
+    expect(result.structuredContent.scrubs).toEqual([
+      { pool: 'fast', type: 'resilver', startedAt: '2026-10-18T08:00:01', finishedAt: null, errors: null, canceled: false },
+    ]);
+  });
+
+  it('should list datasets and snapshots', async () => {
+    mockSSHExecutor.mockResolvedValueOnce(fixture('datasets.txt')).mockResolvedValueOnce(fixture('snapshots.txt'));
+    const datasets = await registeredTools.get('zfs').handler({ action: 'datasets' });
+    expect(datasets.structuredContent.datasets).toHaveLength(4);
+    const snapshots = await registeredTools.get('zfs').handler({ action: 'snapshots', dataset: 'tank/appdata', limit: 5 });
+    expect(mockSSHExecutor.mock.calls[1][0]).toContain('-r tank/appdata');
+    expect(snapshots.structuredContent.snapshots).toHaveLength(3);
+  });
+
+  it('should report ARC statistics', async () => {
+    mockSSHExecutor.mockResolvedValue(fixture('arcstats.txt'));
+    const result = await registeredTools.get('zfs').handler({ action: 'arc' });
+    expect(result.structuredContent.arc.hitRatio).toBe(90);
+    expect(result.content[0].text).toContain('L2ARC: 186.26 GiB, hit ratio 30%');
+  });
+
+  it('should reject invalid pool names without running anything', async () => {
+    const result = await registeredTools.get('zfs').handler({ action: 'datasets', pool: '$(reboot)' });
+    expect(result.isError).toBe(true);
+    expect(mockSSHExecutor).not.toHaveBeenCalled();
+  });
+});
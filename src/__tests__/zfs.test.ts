@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import {
+  datasetsCommand,
+  formatArc,
+  formatDatasets,
+  formatPoolReport,
+  formatScrubStatus,
+  formatSnapshots,
+  parseArcStats,
+  parseDatasets,
+  parsePoolReport,
+  parseScan,
+  parseScrubStatus,
+  parseSnapshots,
+  poolStatusCommand,
+  scrubStatusCommand,
+  snapshotsCommand,
+} from '../platforms/storage/zfs.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/zfs/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('zfs', () => {
+  describe('commands', () => {
+    it('should scope commands to a validated pool or dataset', () => {
+      expect(poolStatusCommand()).toBe("zpool list -Hp -o name,size,allocated,free,fragmentation,capacity,health ; echo '--- status'; zpool status -p ");
+      expect(poolStatusCommand('tank')).toContain('zpool status -p tank');
+      expect(scrubStatusCommand('tank')).toContain("zpool history -i \"$p\" | grep -E '\\] scan (setup|done|aborted|cancelled)'");
+      expect(datasetsCommand('tank')).toMatch(/ -r tank$/);
+      expect(snapshotsCommand('tank/appdata')).toMatch(/-S creation -r tank\/appdata$/);
+      expect(() => poolStatusCommand('tank; reboot')).toThrow(/Invalid pool/);
+    });
+  });
+
+  describe('parsePoolReport', () => {
+    const report = parsePoolReport(fixture('pool-status.txt'));
+    const tank = report.pools[0];
+
+    it('should parse pool state, capacity and the multi-line status', () => {
+      expect(report.pools.map(p => p.name)).toEqual(['tank', 'fast']);
+      expect(tank).toMatchObject({
+        state: 'DEGRADED',
+        sizeBytes: 32000000000000,
+        allocatedBytes: 27000000000000,
+        fragmentationPercent: 12,
+        capacityPercent: 84,
+        action: "Replace the device using 'zpool replace'.",
+        errors: 'No known data errors',
+      });
+      expect(tank.status).toBe('One or more devices could not be used because the label is missing or invalid.  Sufficient replicas exist for the pool to continue functioning in a degraded state.');
+      expect(tank.scan).toEqual({
+        type: 'scrub',
+        state: 'finished',
+        at: '2026-10-11T03:36:45',
+        errors: 0,
+        percentDone: 100,
+        text: 'scrub repaired 0B in 03:12:44 with 0 errors on Sun Oct 11 03:36:45 2026',
+      });
+    });
+
+    it('should parse the vdev tree with groups and notes', () => {
+      expect(tank.vdevs.map(v => [v.name, v.group, v.depth, v.state])).toEqual([
+        ['tank', 'data', 0, 'DEGRADED'],
+        ['raidz2-0', 'data', 1, 'DEGRADED'],
+        ['ata-WDC_WD80EFAX-68KNBN0_VAH00001', 'data', 2, 'ONLINE'],
+        ['ata-WDC_WD80EFAX-68KNBN0_VAH00002', 'data', 2, 'ONLINE'],
+        ['9876543210123456789', 'data', 2, 'UNAVAIL'],
+        ['ata-WDC_WD80EFAX-68KNBN0_VAH00004', 'data', 2, 'ONLINE'],
+        ['nvme-Samsung_SSD_970_S4EWNX0001-part1', 'logs', 1, 'ONLINE'],
+        ['nvme-Samsung_SSD_970_S4EWNX0001-part2', 'cache', 1, 'ONLINE'],
+        ['ata-ST8000VN004_ZA100001', 'spares', 1, 'AVAIL'],
+      ]);
+      expect(tank.vdevs[3].checksum).toBe(12);
+      expect(tank.vdevs[4].note).toBe('was /dev/disk/by-id/ata-WDC_WD80EFAX-68KNBN0_VAH00003-part1');
+      expect(report.pools[1].vdevs[3].note).toBe('(resilvering)');
+    });
+
+    it('should warn about degraded vdevs, errors, capacity and resilvers', () => {
+      expect(report.findings).toEqual([
+        { pool: 'tank', severity: 'WARNING', message: 'Pool is DEGRADED' },
+        { pool: 'tank', severity: 'WARNING', message: 'vdev raidz2-0 is DEGRADED' },
+        { pool: 'tank', severity: 'WARNING', message: 'ata-WDC_WD80EFAX-68KNBN0_VAH00002: 0 read, 0 write, 12 checksum errors' },
+        { pool: 'tank', severity: 'CRITICAL', message: 'vdev 9876543210123456789 is UNAVAIL (was /dev/disk/by-id/ata-WDC_WD80EFAX-68KNBN0_VAH00003-part1)' },
+        { pool: 'tank', severity: 'WARNING', message: 'Pool is 84% full' },
+        { pool: 'fast', severity: 'INFO', message: 'Resilver in progress (40% done)' },
+      ]);
+    });
+
+    it('should format findings before the pools', () => {
+      const text = formatPoolReport(report);
+      expect(text.indexOf('[CRITICAL] tank: vdev 9876543210123456789 is UNAVAIL')).toBeLessThan(text.indexOf('tank: DEGRADED, 24.56 TiB of 29.10 TiB used (84%), 12% fragmented'));
+      expect(text).toContain('    ata-WDC_WD80EFAX-68KNBN0_VAH00002 ONLINE (errors: 0 read, 0 write, 12 checksum)\n');
+      expect(text).toContain('  spares:\n    ata-ST8000VN004_ZA100001 AVAIL\n');
+      expect(text).toContain('  Scan: resilver in progress, 40% done');
+      expect(formatPoolReport({ pools: [], findings: [] })).toBe('No ZFS pools\n');
+    });
+  });
+
+  describe('parseScan', () => {
+    it('should read canceled, paused and absent scans', () => {
+      expect(parseScan('none requested')).toBeNull();
+      expect(parseScan('scrub canceled on Thu Oct 15 01:05:00 2026')).toMatchObject({ state: 'canceled', at: '2026-10-15T01:05:00', percentDone: null });
+      expect(parseScan('scrub paused since Thu Oct 15 01:05:00 2026 scrub started on Thu Oct 15 01:00:00 2026 10.00% done')).toMatchObject({ state: 'paused', percentDone: 10 });
+    });
+  });
+
+  describe('parseScrubStatus', () => {
+    const status = parseScrubStatus(fixture('scrub.txt'));
+
+    it('should pair scan setup and done records from the pool history', () => {
+      expect(status.now).toBe('2026-11-30T12:00:00');
+      expect(status.runs).toEqual([
+        { pool: 'fast', type: 'resilver', startedAt: '2026-10-18T08:00:01', finishedAt: null, errors: null, canceled: false },
+        { pool: 'tank', type: 'scrub', startedAt: '2026-10-15T01:00:00', finishedAt: '2026-10-15T01:05:00', errors: null, canceled: true },
+        { pool: 'tank', type: 'scrub', startedAt: '2026-10-11T00:24:01', finishedAt: '2026-10-11T03:36:45', errors: 0, canceled: false },
+        { pool: 'tank', type: 'scrub', startedAt: '2026-09-13T00:00:01', finishedAt: '2026-09-13T03:10:01', errors: 0, canceled: false },
+      ]);
+    });
+
+    it('should flag an overdue scrub and list the history', () => {
+      const text = formatScrubStatus(status, 2);
+      expect(text).toContain('Last completed scrub: 2026-10-11 03:36:45 (50 days ago) [WARNING] more than 35 days');
+      expect(text).toContain('fast: resilver in progress, 40% done\n  No completed scrub in the pool history');
+      expect(text).toContain('2026-10-15 01:00:00  tank  scrub  canceled');
+      expect(text).not.toContain('2026-10-11 00:24:01');
+    });
+  });
+
+  describe('datasets and snapshots', () => {
+    it('should parse datasets and total compression savings', () => {
+      const datasets = parseDatasets(fixture('datasets.txt'));
+      expect(datasets[2]).toEqual({
+        name: 'tank/appdata',
+        type: 'filesystem',
+        usedBytes: 2000000000000,
+        availableBytes: 5000000000000,
+        referencedBytes: 1500000000000,
+        logicalUsedBytes: 4900000000000,
+        snapshotUsedBytes: 500000000000,
+        compressRatio: 2.45,
+        compression: 'zstd',
+        mountpoint: '/mnt/tank/appdata',
+      });
+      expect(datasets[3]).toMatchObject({ type: 'volume', mountpoint: null });
+      const text = formatDatasets(datasets);
+      expect(text).toContain('tank/appdata  1.82 TiB  4.55 TiB  1.36 TiB  2.45x  465.66 GiB  /mnt/tank/appdata');
+      expect(text).toContain('Compression saves 2.73 TiB across tank');
+    });
+
+    it('should total snapshot space per dataset', () => {
+      const snapshots = parseSnapshots(fixture('snapshots.txt'));
+      expect(snapshots[0]).toMatchObject({ dataset: 'tank/appdata', usedBytes: 200000000, createdAt: '2026-10-18T00:00:00.000Z' });
+      const text = formatSnapshots(snapshots, 2);
+      expect(text).toContain('  tank/appdata: 2 snapshots, 279.58 GiB unique\n  tank/media: 1 snapshots, 0 B unique');
+      expect(text).toContain('Newest 2:');
+      expect(text).not.toContain('2026-10-17_00:00:00');
+    });
+  });
+
+  describe('parseArcStats', () => {
+    it('should compute ARC and L2ARC hit ratios', () => {
+      const arc = parseArcStats(fixture('arcstats.txt'));
+      expect(arc).toMatchObject({ sizeBytes: 16000000000, maxBytes: 32000000000, hitRatio: 90, l2: { sizeBytes: 200000000000, hitRatio: 30 } });
+      expect(formatArc(arc)).toContain('ARC size: 14.90 GiB (target 15.37 GiB, min 953.67 MiB, max 29.80 GiB)');
+      expect(() => parseArcStats('cat: /proc/spl/kstat/zfs/arcstats: No such file or directory')).toThrow(/ARC statistics not available/);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Cron schedules read from hosts, evaluated in the host's local time
+ *
+ * Host schedules and logs carry local times without a zone. They are kept as
+ * naive YYYY-MM-DDTHH:MM:SS strings and computed on as if they were UTC, which
+ * keeps arithmetic between them right whatever zone this server runs in.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A schedule line: five cron fields and the command they run
+ */
+export interface CronEntry {
+  cron: string;
+  command: string;
+}
+
+/**
+ * Epoch milliseconds (as UTC) to a naive YYYY-MM-DDTHH:MM:SS time
+ */
+export function toNaiveTime(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 19);
+}
+
+/**
+ * Naive YYYY-MM-DDTHH:MM:SS time to epoch milliseconds (as UTC)
+ */
+export function fromNaiveTime(value: string): number {
+  return Date.parse(`${value}Z`);
+}
+
+function parseCronField(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/);
+    if (!match) return null;
+    const start = match[1] === "*" ? min : parseInt(match[1], 10);
+    const end = match[2] !== undefined ? parseInt(match[2], 10) : match[1] === "*" || match[3] ? max : start;
+    const step = match[3] ? parseInt(match[3], 10) : 1;
+    if (start < min || end > max || step < 1) return null;
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+/**
+ * Next time a five-field cron expression fires after `from` (naive local time)
+ * Day of month and day of week match either way when both are restricted, as in cron.
+ */
+export function nextCronRun(expression: string, from: string): string | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+  const minutes = parseCronField(fields[0], 0, 59);
+  const hours = parseCronField(fields[1], 0, 23);
+  const daysOfMonth = parseCronField(fields[2], 1, 31);
+  const months = parseCronField(fields[3], 1, 12);
+  const daysOfWeek = parseCronField(fields[4], 0, 7);
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) return null;
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+  const domAny = fields[2] === "*";
+  const dowAny = fields[4] === "*";
+  const start = fromNaiveTime(from);
+  const firstDay = Math.floor(start / DAY_MS) * DAY_MS;
+  const sortedHours = [...hours].sort((a, b) => a - b);
+  const sortedMinutes = [...minutes].sort((a, b) => a - b);
+
+  for (let day = 0; day <= 366 * 4; day++) {
+    const date = new Date(firstDay + day * DAY_MS);
+    if (!months.has(date.getUTCMonth() + 1)) continue;
+    const domMatch = daysOfMonth.has(date.getUTCDate());
+    const dowMatch = daysOfWeek.has(date.getUTCDay());
+    const dayMatches = domAny && dowAny ? true : domAny ? dowMatch : dowAny ? domMatch : domMatch || dowMatch;
+    if (!dayMatches) continue;
+    for (const hour of sortedHours) {
+      for (const minute of sortedMinutes) {
+        const at = date.getTime() + (hour * 60 + minute) * 60 * 1000;
+        if (at > start) return toNaiveTime(at);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * First uncommented line of a crontab whose command matches the pattern
+ */
+export function findCronEntry(content: string, pattern: RegExp): CronEntry | null {
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+    const fields = trimmed.split(/\s+/);
+    if (fields.length < 6) continue;
+    const command = fields.slice(5).join(" ");
+    if (pattern.test(command)) return { cron: fields.slice(0, 5).join(" "), command };
+  }
+  return null;
+}
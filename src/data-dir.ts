@@ -0,0 +1,12 @@
+import os from "os";
+import path from "path";
+
+/**
+ * Directory where the MCP server keeps its own state (history files and the like)
+ *
+ * MCP_DATA_DIR, defaulting to ~/.local/share/mcp-ssh-sre. This lives on the machine
+ * running the MCP server, never on the managed hosts.
+ */
+export function dataDir(): string {
+  return process.env.MCP_DATA_DIR || path.join(os.homedir(), ".local", "share", "mcp-ssh-sre");
+}
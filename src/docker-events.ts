@@ -0,0 +1,249 @@
+import { SSHExecutor } from "./platforms/types.js";
+import { sh } from "./shell.js";
+
+/**
+ * A parsed entry from `docker events --format '{{json .}}'`
+ */
+export interface DockerEvent {
+  /** Remote epoch seconds (fractional) */
+  time: number;
+  /** container, image, network, volume, daemon, plugin, ... */
+  type: string;
+  /** Event name without detail, e.g. die, oom, health_status, pull, connect */
+  action: string;
+  /** Text after the colon in actions like "health_status: unhealthy" */
+  detail?: string;
+  id: string;
+  /** Container, image or network name from the actor attributes */
+  name?: string;
+  attributes: Record<string, string>;
+}
+
+/**
+ * Which events to return
+ */
+export interface DockerEventFilter {
+  /** Remote epoch seconds */
+  since: number;
+  until?: number;
+  type?: string;
+  /** Container name or ID prefix */
+  container?: string;
+  actions?: string[];
+}
+
+export interface DockerEventWatcherOptions {
+  retentionSeconds: number;
+  pollIntervalMs: number;
+  maxEvents?: number;
+}
+
+/** Upper bound on buffered events per host, whatever the retention */
+const MAX_BUFFERED_EVENTS = 5000;
+
+/** Budget for a single `docker events --until` poll */
+const POLL_TIMEOUT_MS = 30000;
+
+const DOCKER_EVENT_FORMAT = "{{json .}}";
+
+/**
+ * Parse JSON-lines output of `docker events`, skipping lines that are not events
+ */
+export function parseDockerEvents(output: string): DockerEvent[] {
+  const events: DockerEvent[] = [];
+  for (const line of output.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("{")) continue;
+    let e: any;
+    try { e = JSON.parse(trimmed); } catch { continue; }
+
+    const rawAction: string = e.Action || e.status || "";
+    const colon = rawAction.indexOf(":");
+    const attributes: Record<string, string> = e.Actor?.Attributes || {};
+    events.push({
+      time: e.timeNano ? e.timeNano / 1e9 : e.time ?? 0,
+      type: e.Type || "container",
+      action: colon === -1 ? rawAction : rawAction.substring(0, colon),
+      detail: colon === -1 ? undefined : rawAction.substring(colon + 1).trim() || undefined,
+      id: e.Actor?.ID || e.id || "",
+      name: attributes.name,
+      attributes,
+    });
+  }
+  return events;
+}
+
+function eventKey(event: DockerEvent): string {
+  return `${event.time}|${event.id}|${event.action}|${event.detail ?? ""}`;
+}
+
+/**
+ * Whether an event matches a filter
+ * The container filter also matches network events that name the container.
+ */
+export function matchesEventFilter(event: DockerEvent, filter: DockerEventFilter): boolean {
+  if (event.time < filter.since) return false;
+  if (filter.until !== undefined && event.time > filter.until) return false;
+  if (filter.type && event.type !== filter.type) return false;
+  if (filter.actions?.length && !filter.actions.includes(event.action)) return false;
+  if (filter.container) {
+    const c = filter.container;
+    const isContainer = event.type === "container" && (event.name === c || event.id.startsWith(c));
+    const touchesContainer = event.type === "network" && Boolean(event.attributes.container?.startsWith(c));
+    if (!isContainer && !touchesContainer) return false;
+  }
+  return true;
+}
+
+/**
+ * Parse a relative window such as 90s, 30m, 1h or 2d into seconds
+ */
+export function parseEventWindow(value: string): number | null {
+  const match = value.trim().match(/^(\d+)\s*(s|m|h|d)$/);
+  if (!match) return null;
+  const unit = { s: 1, m: 60, h: 3600, d: 86400 }[match[2] as "s" | "m" | "h" | "d"];
+  return parseInt(match[1]) * unit;
+}
+
+/**
+ * Background watcher that keeps a rolling buffer of one host's Docker events
+ *
+ * Rather than holding a `docker events` stream open, it polls with
+ * `--since <last poll> --until <remote now>` so each command ends by itself and
+ * survives reconnects. Times come from the remote clock, so the buffer is
+ * consistent with the host even when the clocks disagree.
+ */
+export class DockerEventWatcher {
+  private events: DockerEvent[] = [];
+  private seen = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private failing = false;
+  private readonly maxEvents: number;
+
+  /** Remote epoch seconds from which the buffer is complete */
+  coveredFrom: number | null = null;
+  /** Remote epoch seconds of the last successful poll */
+  refreshedAt: number | null = null;
+
+  constructor(private readonly executor: SSHExecutor, private readonly options: DockerEventWatcherOptions) {
+    this.maxEvents = options.maxEvents ?? MAX_BUFFERED_EVENTS;
+  }
+
+  /**
+   * Start polling (the first poll backfills the retention window)
+   */
+  start(): void {
+    if (this.timer) return;
+    const loop = async () => {
+      await this.poll();
+      if (this.timer) {
+        this.timer = setTimeout(loop, this.options.pollIntervalMs);
+        this.timer.unref();
+      }
+    };
+    this.timer = setTimeout(loop, 0);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Fetch events since the previous poll; failures are logged once and retried on the next tick
+   */
+  async poll(): Promise<void> {
+    const since = this.refreshedAt ?? `${this.options.retentionSeconds}s`;
+    const cmd = sh`now=$(date +%s); echo "now $now"; docker events --since ${since} --until "$now" --format ${DOCKER_EVENT_FORMAT}`;
+    try {
+      const output = await this.executor(cmd, { timeoutMs: POLL_TIMEOUT_MS });
+      const now = Number(output.match(/^now (\d+)/m)?.[1]);
+      if (!Number.isFinite(now) || now === 0) throw new Error("could not read the remote clock");
+      this.record(parseDockerEvents(output), now);
+      if (this.failing) console.error("Docker event watcher recovered");
+      this.failing = false;
+    } catch (error) {
+      if (!this.failing) {
+        console.error(`Docker event watcher poll failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      this.failing = true;
+    }
+  }
+
+  /**
+   * Add polled events and drop what fell out of the retention window
+   */
+  record(events: DockerEvent[], remoteNow: number): void {
+    if (this.coveredFrom === null) this.coveredFrom = remoteNow - this.options.retentionSeconds;
+    this.refreshedAt = remoteNow;
+
+    for (const event of events) {
+      const key = eventKey(event);
+      if (this.seen.has(key)) continue;
+      this.seen.add(key);
+      this.events.push(event);
+    }
+    this.events.sort((a, b) => a.time - b.time);
+
+    const cutoff = remoteNow - this.options.retentionSeconds;
+    let complete = cutoff;
+    let drop = 0;
+    while (drop < this.events.length && this.events[drop].time < cutoff) drop++;
+    if (this.events.length - drop > this.maxEvents) {
+      // Events trimmed by the size cap shrink the window the buffer can answer for
+      drop = this.events.length - this.maxEvents;
+      complete = this.events[drop].time;
+    }
+    for (const event of this.events.slice(0, drop)) {
+      this.seen.delete(eventKey(event));
+    }
+    this.events = this.events.slice(drop);
+    this.coveredFrom = Math.max(this.coveredFrom, complete);
+  }
+
+  /**
+   * Whether the buffer holds every event since the given remote time
+   */
+  covers(since: number): boolean {
+    return this.coveredFrom !== null && this.coveredFrom <= since;
+  }
+
+  query(filter: DockerEventFilter): DockerEvent[] {
+    return this.events.filter(e => matchesEventFilter(e, filter));
+  }
+}
+
+const watchers = new WeakMap<SSHExecutor, DockerEventWatcher>();
+
+/**
+ * Read DOCKER_EVENTS_RETENTION_MINUTES (default 60, 0 disables the watcher)
+ * and DOCKER_EVENTS_POLL_SECONDS (default 30)
+ */
+export function loadEventWatcherOptions(): DockerEventWatcherOptions | null {
+  const retention = parseInt(process.env.DOCKER_EVENTS_RETENTION_MINUTES ?? "60");
+  const poll = parseInt(process.env.DOCKER_EVENTS_POLL_SECONDS ?? "30");
+  if (!Number.isFinite(retention) || retention <= 0) return null;
+  return {
+    retentionSeconds: retention * 60,
+    pollIntervalMs: (Number.isFinite(poll) && poll > 0 ? poll : 30) * 1000,
+  };
+}
+
+/**
+ * Start a watcher for a host's executor, replacing any previous one
+ */
+export function watchDockerEvents(executor: SSHExecutor, options: DockerEventWatcherOptions): DockerEventWatcher {
+  watchers.get(executor)?.stop();
+  const watcher = new DockerEventWatcher(executor, options);
+  watchers.set(executor, watcher);
+  watcher.start();
+  return watcher;
+}
+
+/**
+ * The watcher running for an executor, if any
+ */
+export function getEventWatcher(executor: SSHExecutor): DockerEventWatcher | undefined {
+  return watchers.get(executor);
+}
@@ -0,0 +1,211 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/**
+ * Host key checking modes
+ * - strict: only accept keys already present in known_hosts (or the pinned fingerprint)
+ * - tofu: trust on first use - record unknown keys, reject changed keys
+ * - off: accept any host key (legacy behaviour)
+ */
+export type HostKeyCheckingMode = "strict" | "tofu" | "off";
+
+/**
+ * Server-wide host key checking policy
+ */
+export interface HostKeyPolicy {
+  mode: HostKeyCheckingMode;
+  knownHostsPath: string;
+}
+
+/**
+ * A single key line from a known_hosts file
+ */
+export interface KnownHostEntry {
+  /** Host patterns (comma-separated field), may contain hashed |1|salt|hash entries */
+  patterns: string[];
+  keyType: string;
+  key: Buffer;
+  marker?: "revoked" | "cert-authority";
+}
+
+const validModes: HostKeyCheckingMode[] = ["strict", "tofu", "off"];
+
+/**
+ * Load the host key policy from SSH_HOST_KEY_CHECKING and SSH_KNOWN_HOSTS
+ */
+export function loadHostKeyPolicy(): HostKeyPolicy {
+  const mode = (process.env.SSH_HOST_KEY_CHECKING || "off") as HostKeyCheckingMode;
+  if (!validModes.includes(mode)) {
+    throw new Error(`Invalid SSH_HOST_KEY_CHECKING value "${mode}". Must be one of: ${validModes.join(", ")}`);
+  }
+  return {
+    mode,
+    knownHostsPath: process.env.SSH_KNOWN_HOSTS || path.join(os.homedir(), ".ssh", "known_hosts"),
+  };
+}
+
+/**
+ * OpenSSH-style SHA256 fingerprint of a raw public key blob
+ */
+export function fingerprint(key: Buffer): string {
+  return "SHA256:" + crypto.createHash("sha256").update(key).digest("base64").replace(/=+$/, "");
+}
+
+/**
+ * Read the key type (e.g. ssh-ed25519) from a raw public key blob
+ */
+export function keyTypeOf(key: Buffer): string {
+  if (key.length < 4) return "unknown";
+  const len = key.readUInt32BE(0);
+  return key.subarray(4, 4 + len).toString("ascii");
+}
+
+/**
+ * Parse known_hosts content, skipping comments and malformed lines
+ */
+export function parseKnownHosts(content: string): KnownHostEntry[] {
+  const entries: KnownHostEntry[] = [];
+  for (const raw of content.split("\n")) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+    const fields = line.split(/\s+/);
+    let marker: KnownHostEntry["marker"];
+    if (fields[0] === "@revoked" || fields[0] === "@cert-authority") {
+      marker = fields.shift()!.substring(1) as KnownHostEntry["marker"];
+    }
+    if (fields.length < 3) continue;
+    entries.push({
+      patterns: fields[0].split(","),
+      keyType: fields[1],
+      key: Buffer.from(fields[2], "base64"),
+      marker,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Name used for a host in known_hosts ([host]:port for non-default ports)
+ */
+export function knownHostsName(host: string, port: number): string {
+  return port === 22 ? host : `[${host}]:${port}`;
+}
+
+function matchesPattern(pattern: string, name: string): boolean {
+  if (pattern.startsWith("|1|")) {
+    const [, , salt, hash] = pattern.split("|");
+    if (!salt || !hash) return false;
+    const digest = crypto.createHmac("sha1", Buffer.from(salt, "base64")).update(name).digest("base64");
+    return digest === hash;
+  }
+  const regex = new RegExp("^" + pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".") + "$", "i");
+  return regex.test(name);
+}
+
+/**
+ * Check whether a known_hosts entry applies to the given host and port
+ * Negated patterns (!pattern) exclude the host even if another pattern matches
+ */
+export function entryMatchesHost(entry: KnownHostEntry, host: string, port: number): boolean {
+  const name = knownHostsName(host, port);
+  let matched = false;
+  for (const pattern of entry.patterns) {
+    if (pattern.startsWith("!")) {
+      if (matchesPattern(pattern.substring(1), name)) return false;
+    } else if (matchesPattern(pattern, name)) {
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Host Key Verifier
+ * Checks a server's host key against a pinned fingerprint or known_hosts file.
+ * Used as the synchronous ssh2 `hostVerifier`; the reason for a rejection is kept
+ * in `lastError` so the connection error can explain it.
+ */
+export class HostKeyVerifier {
+  lastError: string | null = null;
+
+  constructor(
+    private host: string,
+    private port: number,
+    private policy: HostKeyPolicy,
+    private pinnedFingerprint?: string
+  ) {}
+
+  /**
+   * Whether this verifier should be installed on the connection
+   */
+  isEnabled(): boolean {
+    return this.policy.mode !== "off" || Boolean(this.pinnedFingerprint);
+  }
+
+  /**
+   * Verify a raw host key blob
+   */
+  verify = (key: Buffer): boolean => {
+    this.lastError = null;
+    const presented = fingerprint(key);
+    const target = `${this.host}:${this.port}`;
+
+    // A pinned fingerprint takes precedence over known_hosts
+    if (this.pinnedFingerprint) {
+      const expected = this.pinnedFingerprint.startsWith("SHA256:") ? this.pinnedFingerprint : `SHA256:${this.pinnedFingerprint}`;
+      if (presented.replace(/=+$/, "") === expected.replace(/=+$/, "")) return true;
+      this.lastError =
+        `HOST KEY VERIFICATION FAILED for ${target}: presented key ${presented} does not match pinned fingerprint ${expected}. ` +
+        `If the host was reinstalled, update the pinned fingerprint.`;
+      return false;
+    }
+
+    const keyType = keyTypeOf(key);
+    let entries: KnownHostEntry[] = [];
+    try {
+      entries = parseKnownHosts(fs.readFileSync(this.policy.knownHostsPath, "utf-8"))
+        .filter(e => e.marker !== "cert-authority" && entryMatchesHost(e, this.host, this.port));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.lastError = `HOST KEY VERIFICATION FAILED for ${target}: could not read ${this.policy.knownHostsPath}: ${error instanceof Error ? error.message : String(error)}`;
+        return false;
+      }
+    }
+
+    if (entries.some(e => e.marker === "revoked" && e.key.equals(key))) {
+      this.lastError = `HOST KEY VERIFICATION FAILED for ${target}: host key ${presented} is marked @revoked in ${this.policy.knownHostsPath}.`;
+      return false;
+    }
+
+    const trusted = entries.filter(e => !e.marker);
+    if (trusted.some(e => e.key.equals(key))) return true;
+
+    const changed = trusted.find(e => e.keyType === keyType);
+    if (changed) {
+      this.lastError =
+        `HOST KEY VERIFICATION FAILED for ${target}: the ${keyType} host key has changed ` +
+        `(presented ${presented}, expected ${fingerprint(changed.key)} from ${this.policy.knownHostsPath}). ` +
+        `This could indicate a man-in-the-middle attack. If the host was reinstalled, remove the old entry from known_hosts.`;
+      return false;
+    }
+
+    if (this.policy.mode === "tofu") {
+      try {
+        fs.mkdirSync(path.dirname(this.policy.knownHostsPath), { recursive: true, mode: 0o700 });
+        fs.appendFileSync(this.policy.knownHostsPath, `${knownHostsName(this.host, this.port)} ${keyType} ${key.toString("base64")}\n`);
+        console.error(`Trusted new host key for ${target}: ${keyType} ${presented} (recorded in ${this.policy.knownHostsPath})`);
+        return true;
+      } catch (error) {
+        this.lastError = `HOST KEY VERIFICATION FAILED for ${target}: could not record new host key in ${this.policy.knownHostsPath}: ${error instanceof Error ? error.message : String(error)}`;
+        return false;
+      }
+    }
+
+    this.lastError =
+      `HOST KEY VERIFICATION FAILED for ${target}: no ${keyType} key for this host in ${this.policy.knownHostsPath} ` +
+      `(presented ${presented}). Add it with ssh-keyscan, pin it with SSH_HOST_KEY_FINGERPRINT, or use SSH_HOST_KEY_CHECKING=tofu.`;
+    return false;
+  };
+}
@@ -0,0 +1,280 @@
+import fs from "fs";
+import "dotenv/config";
+import { SSHConnectionManager, SSHHostConfig, loadHostConfigFromEnv } from "./ssh-manager.js";
+import { CommandOptions, Platform, SSHExecutor } from "./platforms/types.js";
+import { PlatformRegistry } from "./platforms/registry.js";
+import { DockerEventWatcher, loadEventWatcherOptions, watchDockerEvents } from "./docker-events.js";
+import { SmartSampler, loadSmartHistory, loadSmartHistoryOptions } from "./smart-history.js";
+
+/**
+ * A host from the inventory together with its connection and detected platform
+ */
+export interface ManagedHost {
+  name: string;
+  manager: SSHConnectionManager;
+  executor: SSHExecutor;
+  platform: Platform | null;
+  events?: DockerEventWatcher;
+  smart?: SmartSampler;
+}
+
+/**
+ * Parsed hosts inventory
+ */
+export interface HostInventory {
+  hosts: SSHHostConfig[];
+  defaultHost: string;
+}
+
+/**
+ * Convert SSHConnectionManager's full response to a simple stdout string
+ * Non-zero exits with stderr output are surfaced as errors
+ */
+export function createSSHExecutor(manager: SSHConnectionManager): SSHExecutor {
+  return async (command: string, options?: CommandOptions): Promise<string> => {
+    const result = await manager.executeCommand(command, options);
+    if (result.exitCode !== 0 && result.stderr) {
+      const cmdPreview = command.length > 100 ? command.substring(0, 100) + "..." : command;
+      throw new Error(`Command failed (exit ${result.exitCode}): ${cmdPreview}\n${result.stderr}`);
+    }
+    return result.stdout;
+  };
+}
+
+/**
+ * Parse one SSH_HOSTS entry of the form name=[user@]host[:port]
+ */
+function parseHostEntry(entry: string): SSHHostConfig {
+  const match = entry.match(/^([A-Za-z0-9_.-]+)=(?:([^@]+)@)?([^:]+)(?::(\d+))?$/);
+  if (!match) {
+    throw new Error(`Invalid SSH_HOSTS entry "${entry}". Expected name=[user@]host[:port]`);
+  }
+  const [, name, user, host, port] = match;
+  return {
+    name,
+    host,
+    port: port ? parseInt(port) : 22,
+    username: user ?? process.env.SSH_USERNAME ?? "",
+    privateKeyPath: process.env.SSH_PRIVATE_KEY_PATH,
+    password: process.env.SSH_PASSWORD,
+  };
+}
+
+/**
+ * Validate a host config loaded from the inventory
+ */
+function validateHostConfig(config: Partial<SSHHostConfig>, source: string): SSHHostConfig {
+  if (!config.name) {
+    throw new Error(`Host entry in ${source} is missing a name`);
+  }
+  if (!config.host) {
+    throw new Error(`Host "${config.name}" in ${source} is missing a host address`);
+  }
+  if (!config.username) {
+    throw new Error(`Host "${config.name}" in ${source} is missing a username (or set SSH_USERNAME)`);
+  }
+  if (!config.privateKeyPath && !config.password) {
+    throw new Error(`Host "${config.name}" in ${source} needs a privateKeyPath or password`);
+  }
+  return {
+    name: config.name,
+    host: config.host,
+    port: config.port ?? 22,
+    username: config.username,
+    privateKeyPath: config.privateKeyPath,
+    password: config.password,
+    hostKeyFingerprint: config.hostKeyFingerprint,
+  };
+}
+
+/**
+ * Load the hosts inventory from the environment
+ *
+ * Sources, in order of precedence:
+ * 1. SSH_HOSTS_FILE - JSON file: { "default": "tower", "hosts": [{ "name", "host", "port", "username", "privateKeyPath", "password", "hostKeyFingerprint" }] }
+ * 2. SSH_HOSTS - comma-separated list: "tower=root@10.0.0.2,nas=admin@nas.local:2222"
+ *    (credentials fall back to SSH_USERNAME / SSH_PRIVATE_KEY_PATH / SSH_PASSWORD)
+ * 3. SSH_HOST and friends - single host named "default"
+ *
+ * SSH_DEFAULT_HOST selects the host used when a tool call does not pass one.
+ */
+export function loadHostInventory(): HostInventory {
+  let hosts: SSHHostConfig[];
+  let defaultHost: string | undefined;
+
+  if (process.env.SSH_HOSTS_FILE) {
+    const file = process.env.SSH_HOSTS_FILE;
+    let parsed: any;
+    try {
+      parsed = JSON.parse(fs.readFileSync(file, "utf-8"));
+    } catch (error) {
+      throw new Error(`Failed to read SSH_HOSTS_FILE ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const entries: Partial<SSHHostConfig>[] = Array.isArray(parsed) ? parsed : parsed.hosts ?? [];
+    hosts = entries.map(e => {
+      // Entries without their own credentials inherit the shared env credentials
+      const hasCredentials = Boolean(e.privateKeyPath || e.password);
+      return validateHostConfig({
+        ...e,
+        username: e.username ?? process.env.SSH_USERNAME,
+        privateKeyPath: hasCredentials ? e.privateKeyPath : process.env.SSH_PRIVATE_KEY_PATH,
+        password: hasCredentials ? e.password : process.env.SSH_PASSWORD,
+      }, file);
+    });
+    defaultHost = Array.isArray(parsed) ? undefined : parsed.default;
+  } else if (process.env.SSH_HOSTS) {
+    hosts = process.env.SSH_HOSTS.split(",")
+      .map(e => e.trim())
+      .filter(e => e)
+      .map(e => validateHostConfig(parseHostEntry(e), "SSH_HOSTS"));
+  } else {
+    hosts = [loadHostConfigFromEnv()];
+  }
+
+  if (hosts.length === 0) {
+    throw new Error("Hosts inventory is empty");
+  }
+
+  const names = new Set<string>();
+  for (const h of hosts) {
+    if (names.has(h.name)) {
+      throw new Error(`Duplicate host name in inventory: ${h.name}`);
+    }
+    names.add(h.name);
+  }
+
+  defaultHost = process.env.SSH_DEFAULT_HOST ?? defaultHost ?? hosts[0].name;
+  if (!names.has(defaultHost)) {
+    throw new Error(`Default host "${defaultHost}" is not in the inventory (${[...names].join(", ")})`);
+  }
+
+  return { hosts, defaultHost };
+}
+
+/**
+ * Host Manager
+ * Owns one SSH connection (with its own circuit breaker) and platform per inventory host
+ */
+export class HostManager {
+  private hosts: Map<string, ManagedHost> = new Map();
+  readonly defaultHost: string;
+
+  constructor(inventory: HostInventory) {
+    for (const config of inventory.hosts) {
+      const manager = new SSHConnectionManager(config);
+      this.hosts.set(config.name, {
+        name: config.name,
+        manager,
+        executor: createSSHExecutor(manager),
+        platform: null,
+      });
+      if (!manager.isHostKeyVerificationEnabled()) {
+        console.error(`Warning: host key verification is disabled for ${config.name}. Set SSH_HOST_KEY_CHECKING=strict or tofu.`);
+      }
+    }
+    this.defaultHost = inventory.defaultHost;
+  }
+
+  /**
+   * Create a host manager from the environment inventory
+   */
+  static fromEnv(): HostManager {
+    return new HostManager(loadHostInventory());
+  }
+
+  /**
+   * Get a host by name, or the default host when no name is given
+   */
+  get(name?: string): ManagedHost {
+    const host = this.hosts.get(name ?? this.defaultHost);
+    if (!host) {
+      throw new Error(`Unknown host "${name}". Available hosts: ${this.names().join(", ")}`);
+    }
+    return host;
+  }
+
+  /**
+   * List all managed hosts
+   */
+  list(): ManagedHost[] {
+    return Array.from(this.hosts.values());
+  }
+
+  /**
+   * Get host names
+   */
+  names(): string[] {
+    return Array.from(this.hosts.keys());
+  }
+
+  /**
+   * Establish initial connections to all hosts
+   * Failures are logged; the connection is retried on the first command
+   */
+  async connectAll(): Promise<void> {
+    for (const host of this.hosts.values()) {
+      try {
+        await host.manager.connect();
+      } catch (error) {
+        console.error(`Warning: Could not establish initial SSH connection to ${host.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Detect the platform of every host, falling back to generic Linux
+   */
+  async detectPlatforms(registry: PlatformRegistry): Promise<void> {
+    for (const host of this.hosts.values()) {
+      try {
+        host.platform = await registry.detect(host.executor, host.name);
+      } catch (error) {
+        console.error(`Platform detection failed for ${host.name}: ${error instanceof Error ? error.message : String(error)}`);
+        console.error("Falling back to generic Linux platform");
+        const fallback = registry.get("linux");
+        if (!fallback) {
+          throw new Error("Platform detection failed and no fallback platform available");
+        }
+        host.platform = { ...fallback, capabilities: { ...fallback.capabilities } };
+      }
+    }
+  }
+
+  /**
+   * Start the background Docker event watcher of every host
+   * Disabled with DOCKER_EVENTS_RETENTION_MINUTES=0
+   */
+  startEventWatchers(): void {
+    const options = loadEventWatcherOptions();
+    if (!options) return;
+    for (const host of this.hosts.values()) {
+      host.events = watchDockerEvents(host.executor, options);
+    }
+  }
+
+  /**
+   * Start the background SMART history sampler of every host
+   * Disabled with SMART_HISTORY_INTERVAL_HOURS=0
+   */
+  startSmartSamplers(): void {
+    const { sampleIntervalMs } = loadSmartHistoryOptions();
+    if (!sampleIntervalMs) return;
+    const history = loadSmartHistory();
+    for (const host of this.hosts.values()) {
+      host.smart?.stop();
+      host.smart = new SmartSampler(host.executor, history, sampleIntervalMs, host.name);
+      host.smart.start();
+    }
+  }
+
+  /**
+   * Disconnect from all hosts
+   */
+  async disconnectAll(): Promise<void> {
+    for (const host of this.hosts.values()) {
+      host.events?.stop();
+      host.smart?.stop();
+      await host.manager.disconnect();
+    }
+  }
+}
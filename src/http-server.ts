@@ -3,11 +3,13 @@ import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/
 import express, { Request, Response, NextFunction } from "express";
 import cors from "cors";
 import "dotenv/config";
-import { SSHConnectionManager } from "./ssh-manager.js";
-import { initializePlatforms, platformRegistry, Platform } from "./platforms/index.js";
+import { HostManager } from "./host-manager.js";
+import { initializePlatforms, platformRegistry } from "./platforms/index.js";
 import { loadTools } from "./tool-loader.js";
 import { authenticateRequest } from './middleware/auth.js';
+import { loadServerMode } from "./permissions.js";
 import crypto from "crypto";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 
 // ANSI color codes for logging
 const colors = {
@@ -52,6 +54,9 @@ const log = {
 const oauthClients = new Map<string, any>();
 const oauthTokens = new Map<string, any>();
 const authorizationCodes = new Map<string, any>();
+// Refresh tokens are single-use: each refresh rotates them out
+const refreshTokens = new Map<string, { client_id: string; scope: string; expires_at: number }>();
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 3600000; // 30 days
 
 // OAuth mock implementation
 // OAUTH_SERVER_URL should be set in production - this default is for local testing only
@@ -72,6 +77,16 @@ const REQUIRE_AUTH = requireAuthValue === "true" ? true
                     : requireAuthValue === "false" ? false
                     : "development" as const;
 
+const SUPPORTED_SCOPES = ["mcp:read", "mcp:write", "mcp:admin"];
+
+/**
+ * Narrow a requested scope string to the supported scopes (default: all of them)
+ */
+function grantScopes(requested: unknown): string {
+  if (typeof requested !== "string" || !requested.trim()) return SUPPORTED_SCOPES.join(" ");
+  return requested.split(" ").filter(scope => SUPPORTED_SCOPES.includes(scope)).join(" ");
+}
+
 /**
  * HTTP MCP Server with OAuth Support
  * Serves MCP over HTTP using StreamableHTTPServerTransport
@@ -107,49 +122,37 @@ async function main() {
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
-  // Initialize SSH connection manager
-  const sshManager = new SSHConnectionManager();
-
-  try {
-    // Establish initial connection
-    log.ssh("Connecting to SSH server...");
-    await sshManager.connect();
-    log.success("SSH connection established");
-  } catch (error) {
-    log.warn(`Could not establish initial SSH connection: ${error instanceof Error ? error.message : String(error)}`);
-    log.warn("Server will attempt to connect when first command is executed");
+  // Initialize one SSH connection manager per inventory host
+  const hosts = HostManager.fromEnv();
+
+  // Establish initial connections
+  log.ssh(`Connecting to SSH hosts: ${hosts.names().join(", ")}...`);
+  await hosts.connectAll();
+  for (const host of hosts.list()) {
+    if (host.manager.isConnected()) {
+      log.success(`SSH connection established: ${host.name}`);
+    } else {
+      log.warn(`No initial SSH connection to ${host.name}; will retry when first command is executed`);
+    }
   }
 
   // Initialize platform registry
   log.info("Initializing platform registry...");
   initializePlatforms();
 
-  // Create SSH executor adapter for tool modules
-  const sshExecutor = async (command: string): Promise<string> => {
-    const result = await sshManager.executeCommand(command);
-    if (result.exitCode !== 0 && result.stderr) {
-      const cmdPreview = command.length > 100 ? command.substring(0, 100) + "..." : command;
-      throw new Error(`Command failed (exit ${result.exitCode}): ${cmdPreview}\n${result.stderr}`);
-    }
-    return result.stdout;
-  };
-
-  // Detect platform
-  log.info("Detecting platform...");
-  let detectedPlatform: Platform;
-  try {
-    detectedPlatform = await platformRegistry.detect(sshExecutor);
-    log.success(`Detected platform: ${detectedPlatform.displayName} (${detectedPlatform.id})`);
-  } catch (error) {
-    log.error(`Platform detection failed: ${error instanceof Error ? error.message : String(error)}`);
-    log.warn("Falling back to generic Linux platform");
-    const fallback = platformRegistry.get("linux");
-    if (!fallback) {
-      throw new Error("Platform detection failed and no fallback platform available");
-    }
-    detectedPlatform = fallback;
+  // Detect platform per host
+  log.info("Detecting platforms...");
+  await hosts.detectPlatforms(platformRegistry);
+  for (const host of hosts.list()) {
+    log.success(`Detected platform for ${host.name}: ${host.platform!.displayName} (${host.platform!.id})`);
   }
 
+  // Keep a rolling buffer of recent Docker events per host
+  hosts.startEventWatchers();
+
+  // Record SMART samples for drive degradation trends
+  hosts.startSmartSamplers();
+
   // Create MCP server (shared across all requests)
   log.info("Initializing MCP server...");
   const server = new McpServer({
@@ -157,9 +160,10 @@ async function main() {
     version: "2.0.2",
   });
 
-  // Load tools for detected platform
-  log.info("Loading tools for platform...");
-  loadTools(server, sshExecutor, detectedPlatform);
+  // Load tools for detected platforms
+  log.info("Loading tools for platforms...");
+  const serverMode = loadServerMode();
+  loadTools(server, hosts, serverMode);
   log.success("All MCP tools registered");
 
   // ==========================================================================
@@ -174,7 +178,7 @@ async function main() {
       authorization_endpoint: `${OAUTH_SERVER_URL}/authorize`,
       token_endpoint: `${OAUTH_SERVER_URL}/token`,
       registration_endpoint: `${OAUTH_SERVER_URL}/register`,
-      scopes_supported: ["mcp:read", "mcp:write", "mcp:admin"],
+      scopes_supported: SUPPORTED_SCOPES,
       response_types_supported: ["code"],
       grant_types_supported: ["authorization_code", "refresh_token"],
       code_challenge_methods_supported: ["S256", "plain"],
@@ -188,7 +192,7 @@ async function main() {
     res.json({
       resource: `${OAUTH_SERVER_URL}/mcp`,
       authorization_servers: [`${OAUTH_SERVER_URL}/mcp`],
-      scopes_supported: ["mcp:read", "mcp:write", "mcp:admin"],
+      scopes_supported: SUPPORTED_SCOPES,
     });
   });
 
@@ -219,7 +223,7 @@ async function main() {
 
   // Authorization Endpoint
   app.get("/authorize", (req: Request, res: Response) => {
-    const { client_id, redirect_uri, state, code_challenge, code_challenge_method } = req.query;
+    const { client_id, redirect_uri, state, code_challenge, code_challenge_method, scope } = req.query;
 
     log.oauth(`Authorization requested for client: ${client_id}`);
     log.oauth(`Redirect URI: ${redirect_uri}, State: ${state}`);
@@ -231,6 +235,7 @@ async function main() {
       redirect_uri,
       code_challenge,
       code_challenge_method,
+      scope: grantScopes(scope),
       expires_at: Date.now() + 600000, // 10 minutes
     });
 
@@ -267,10 +272,16 @@ async function main() {
 
       oauthTokens.set(accessToken, {
         client_id,
-        scope: "mcp:read mcp:write mcp:admin",
+        scope: authCodeData.scope,
         expires_at: Date.now() + 3600000, // 1 hour
       });
 
+      refreshTokens.set(refreshToken, {
+        client_id,
+        scope: authCodeData.scope,
+        expires_at: Date.now() + REFRESH_TOKEN_TTL_MS,
+      });
+
       authorizationCodes.delete(code);
       log.success(`Access token issued: ${accessToken.substring(0, 16)}...`);
 
@@ -279,20 +290,45 @@ async function main() {
         token_type: "Bearer",
         expires_in: 3600,
         refresh_token: refreshToken,
-        scope: "mcp:read mcp:write mcp:admin",
+        scope: authCodeData.scope,
       });
     }
 
     if (grant_type === "refresh_token") {
       log.oauth("Refreshing token");
+      const grant = refreshTokens.get(refresh_token);
+
+      if (!grant || grant.expires_at < Date.now() || grant.client_id !== client_id) {
+        log.error("Invalid, expired or mismatched refresh token");
+        if (grant && grant.expires_at < Date.now()) refreshTokens.delete(refresh_token);
+        return res.status(400).json({ error: "invalid_grant" });
+      }
+
+      // A refresh may keep or narrow the original grant, never widen it
+      const granted = grant.scope.split(" ");
+      const requested = typeof req.body.scope === "string" && req.body.scope.trim()
+        ? req.body.scope.trim().split(/\s+/)
+        : granted;
+      if (!requested.every((s: string) => granted.includes(s))) {
+        log.error(`Refresh requested scope beyond the original grant: ${requested.join(" ")}`);
+        return res.status(400).json({ error: "invalid_scope" });
+      }
+      const scope = requested.join(" ");
+
       const newAccessToken = crypto.randomBytes(32).toString("hex");
       const newRefreshToken = crypto.randomBytes(32).toString("hex");
 
       oauthTokens.set(newAccessToken, {
         client_id,
-        scope: "mcp:read mcp:write mcp:admin",
+        scope,
         expires_at: Date.now() + 3600000,
       });
+      refreshTokens.delete(refresh_token);
+      refreshTokens.set(newRefreshToken, {
+        client_id,
+        scope,
+        expires_at: Date.now() + REFRESH_TOKEN_TTL_MS,
+      });
 
       log.success(`New access token issued: ${newAccessToken.substring(0, 16)}...`);
 
@@ -301,7 +337,7 @@ async function main() {
         token_type: "Bearer",
         expires_in: 3600,
         refresh_token: newRefreshToken,
-        scope: "mcp:read mcp:write mcp:admin",
+        scope,
       });
     }
 
@@ -315,8 +351,10 @@ async function main() {
 
   // Health check endpoint
   app.get("/health", async (req: Request, res: Response) => {
-    const isSSHConnected = sshManager.isConnected();
-    const status = isSSHConnected ? "healthy" : "degraded";
+    const defaultHost = hosts.get();
+    const isSSHConnected = defaultHost.manager.isConnected();
+    const allConnected = hosts.list().every(h => h.manager.isConnected());
+    const status = allConnected ? "healthy" : "degraded";
     const httpCode = isSSHConnected ? 200 : 503;
 
     res.status(httpCode).json({
@@ -327,9 +365,17 @@ async function main() {
       transport: "http",
       oauth: "enabled",
       platform: {
-        id: detectedPlatform.id,
-        name: detectedPlatform.displayName,
+        id: defaultHost.platform!.id,
+        name: defaultHost.platform!.displayName,
       },
+      default_host: hosts.defaultHost,
+      hosts: hosts.list().map(h => ({
+        name: h.name,
+        address: h.manager.getHostAddress(),
+        ssh_connected: h.manager.isConnected(),
+        platform: h.platform?.id ?? null,
+        circuit_breaker: h.manager.getCircuitBreakerStatus(),
+      })),
     });
   });
 
@@ -355,7 +401,13 @@ async function main() {
 
       // Log authentication status
       if (authResult.authenticated) {
-        log.mcp(`✅ Authenticated MCP request from client: ${authResult.clientId}`);
+        log.mcp(`✅ Authenticated MCP request from client: ${authResult.clientId} (scopes: ${authResult.scopes!.join(" ") || "none"})`);
+        // Passed through to tool handlers as extra.authInfo for scope checks
+        (req as Request & { auth?: AuthInfo }).auth = {
+          token: authResult.token!,
+          clientId: authResult.clientId ?? "unknown",
+          scopes: authResult.scopes!,
+        };
       } else if (REQUIRE_AUTH === "development") {
         log.warn(`⚠️  DEVELOPMENT MODE: Allowing unauthenticated MCP request`);
       } else {
@@ -394,8 +446,8 @@ async function main() {
   // Handle graceful shutdown
   const shutdown = async () => {
     log.warn("\nShutting down gracefully...");
-    await sshManager.disconnect();
-    log.info("SSH connection closed");
+    await hosts.disconnectAll();
+    log.info("SSH connections closed");
     process.exit(0);
   };
 
@@ -405,7 +457,9 @@ async function main() {
   // Start the server
   app.listen(port, () => {
     log.success(`MCP SSH SRE Server (HTTP + OAuth) listening on port ${port}`);
-    log.info(`Platform: ${detectedPlatform.displayName} (${detectedPlatform.id})`);
+    for (const host of hosts.list()) {
+      log.info(`Host ${host.name}: ${host.platform!.displayName} (${host.platform!.id})`);
+    }
     log.info(`Health endpoint: http://localhost:${port}/health`);
     log.info(`MCP endpoint: http://localhost:${port}/mcp`);
     log.info(`OAuth discovery: http://localhost:${port}/.well-known/oauth-authorization-server/mcp`);
@@ -426,6 +480,11 @@ async function main() {
       log.warn("⚠️  DEVELOPMENT MODE: Authentication warnings enabled");
       log.warn("   Unauthenticated requests will be logged but allowed");
     }
+    if (serverMode === "read-only") {
+      log.info(`🔐 SERVER_MODE=read-only: state-changing actions are refused`);
+    } else {
+      log.warn(`🔐 SERVER_MODE=${serverMode}: state-changing actions allowed for tokens with mcp:write${serverMode === "admin" ? "/mcp:admin" : ""}`);
+    }
     console.log("=".repeat(80) + "\n");
   });
 }
@@ -0,0 +1,226 @@
+import { formatBytes } from "./format.js";
+import { ArrayDisk, ArrayResync, ArrayStatus } from "./structured.js";
+
+/**
+ * Parser for Unraid's md driver status
+ *
+ * `cat /proc/mdcmd`, `cat /proc/mdstat` and `mdcmd status` all print the same
+ * key=value list: superblock fields (sb*), array fields (md*) and per-slot disk
+ * fields suffixed with the slot number (diskName.1, rdevStatus.1, ...). Slot 0 is
+ * parity, slot 29 is the second parity, everything in between is a data disk.
+ */
+
+/** Slot of the second parity disk */
+const PARITY2_SLOT = 29;
+
+/** rdevStatus values and what they mean for the slot */
+const DISK_STATUS_DESCRIPTIONS: Record<string, string> = {
+  DISK_OK: "OK",
+  DISK_NP: "not present",
+  DISK_NP_MISSING: "missing",
+  DISK_INVALID: "invalid (contents not in sync with parity)",
+  DISK_WRONG: "wrong disk in slot",
+  DISK_DSBL: "disabled (emulated)",
+  DISK_NP_DSBL: "disabled and missing (emulated)",
+  DISK_DSBL_NEW: "disabled, replacement disk ready for rebuild",
+  DISK_NEW: "new disk",
+};
+
+/**
+ * A problem found in the array status
+ */
+export interface ArrayIssue {
+  severity: "WARNING" | "CRITICAL";
+  message: string;
+}
+
+function int(value: string | undefined): number {
+  const n = parseInt(value ?? "", 10);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/**
+ * Parse md status output into a typed model
+ * Unassigned slots (DISK_NP without a disk ID) are left out of `disks`.
+ */
+export function parseMdcmd(output: string): ArrayStatus {
+  const fields: Record<string, string> = {};
+  const slots = new Map<number, Record<string, string>>();
+
+  for (const line of output.split("\n")) {
+    const i = line.indexOf("=");
+    if (i <= 0) continue;
+    const key = line.substring(0, i).trim();
+    const value = line.substring(i + 1).trim();
+    fields[key] = value;
+
+    const slotMatch = key.match(/^(disk|rdev)(\w+)\.(\d+)$/);
+    if (slotMatch) {
+      const slot = parseInt(slotMatch[3], 10);
+      if (!slots.has(slot)) slots.set(slot, {});
+      slots.get(slot)![`${slotMatch[1]}${slotMatch[2]}`] = value;
+    }
+  }
+
+  const disks: ArrayDisk[] = [];
+  for (const [slot, d] of [...slots.entries()].sort((a, b) => a[0] - b[0])) {
+    const status = d.rdevStatus ?? "DISK_NP";
+    const id = d.rdevId || d.diskId || "";
+    if (status === "DISK_NP" && !id) continue;
+    disks.push({
+      slot,
+      role: slot === 0 ? "parity" : slot === PARITY2_SLOT ? "parity2" : "data",
+      name: d.diskName ?? "",
+      device: d.rdevName ?? "",
+      id,
+      status,
+      sizeKb: int(d.rdevSize || d.diskSize),
+      reads: int(d.rdevReads),
+      writes: int(d.rdevWrites),
+      errors: int(d.rdevNumErrors),
+    });
+  }
+
+  return {
+    ...(fields.mdState ? { state: fields.mdState } : {}),
+    numDisks: int(fields.mdNumDisks),
+    numDisabled: int(fields.mdNumDisabled),
+    numInvalid: int(fields.mdNumInvalid),
+    numMissing: int(fields.mdNumMissing),
+    numWrong: int(fields.mdNumWrong),
+    disks,
+    resync: parseResync(fields),
+    lastSync: fields.sbSynced !== undefined || fields.sbSyncErrs !== undefined
+      ? {
+          ...(int(fields.sbSynced) ? { startedAt: int(fields.sbSynced) } : {}),
+          ...(int(fields.sbSynced2) ? { finishedAt: int(fields.sbSynced2) } : {}),
+          errors: int(fields.sbSyncErrs),
+          exitCode: int(fields.sbSyncExit),
+        }
+      : null,
+    fields,
+  };
+}
+
+/**
+ * Resync (parity check, rebuild, clear) progress
+ *
+ * mdResync is the size being synced while the operation runs and 0 otherwise;
+ * a paused operation keeps its position. mdResyncDb blocks (1 KiB) were
+ * processed in the last mdResyncDt seconds, which gives the current speed.
+ */
+function parseResync(fields: Record<string, string>): ArrayResync | null {
+  const running = int(fields.mdResync);
+  const position = int(fields.mdResyncPos);
+  if (running === 0 && position === 0) return null;
+
+  const size = running || int(fields.mdResyncSize);
+  const resync: ArrayResync = {
+    action: fields.mdResyncAction || "unknown",
+    active: running > 0,
+    paused: running === 0,
+    correcting: fields.mdResyncCorr === "1",
+    positionKb: position,
+    sizeKb: size,
+    percent: size > 0 ? Math.round((position / size) * 10000) / 100 : 0,
+  };
+
+  const dt = int(fields.mdResyncDt);
+  const db = int(fields.mdResyncDb);
+  if (resync.active && dt > 0 && db > 0) {
+    resync.speedKbPerSec = Math.round(db / dt);
+    resync.etaSeconds = Math.round((size - position) / (db / dt));
+  }
+  return resync;
+}
+
+/**
+ * Human description of an rdevStatus value
+ */
+export function describeDiskStatus(status: string): string {
+  return DISK_STATUS_DESCRIPTIONS[status] ?? status;
+}
+
+/**
+ * Display name of a slot as shown in the Unraid UI
+ */
+export function diskLabel(disk: ArrayDisk): string {
+  if (disk.role === "parity") return "Parity";
+  if (disk.role === "parity2") return "Parity 2";
+  return `Disk ${disk.slot}`;
+}
+
+/**
+ * Problems worth reporting in health checks
+ */
+export function arrayIssues(status: ArrayStatus): ArrayIssue[] {
+  const issues: ArrayIssue[] = [];
+  if (status.state !== "STARTED") {
+    issues.push({ severity: "CRITICAL", message: `Array not started (${status.state ?? "unknown state"})` });
+  }
+  for (const disk of status.disks) {
+    if (disk.status !== "DISK_OK") {
+      issues.push({ severity: "CRITICAL", message: `${diskLabel(disk)}${disk.device ? ` (${disk.device})` : ""}: ${describeDiskStatus(disk.status)}` });
+    } else if (disk.errors > 0) {
+      issues.push({ severity: "WARNING", message: `${diskLabel(disk)} (${disk.device}): ${disk.errors} errors` });
+    }
+  }
+  if (status.lastSync && status.lastSync.errors > 0) {
+    issues.push({ severity: "WARNING", message: `Parity errors: ${status.lastSync.errors}` });
+  }
+  if (status.lastSync && status.lastSync.exitCode !== 0 && !status.resync?.active) {
+    issues.push({ severity: "WARNING", message: `Last parity check did not complete (exit ${status.lastSync.exitCode})` });
+  }
+  return issues;
+}
+
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+}
+
+/**
+ * Resync progress as text lines
+ */
+export function formatResync(resync: ArrayResync | null): string {
+  if (!resync) return "Resync: not running\n";
+  let text = `Resync: ${resync.action}${resync.correcting ? " (correcting)" : ""} - ${resync.active ? "running" : "paused"}\n`;
+  text += `Progress: ${resync.percent.toFixed(2)}% (${formatBytes(resync.positionKb * 1024)} of ${formatBytes(resync.sizeKb * 1024)})\n`;
+  if (resync.speedKbPerSec !== undefined) {
+    text += `Speed: ${(resync.speedKbPerSec * 1024 / 1e6).toFixed(1)} MB/s`;
+    text += resync.etaSeconds !== undefined ? `, ETA ${formatDuration(resync.etaSeconds)}\n` : "\n";
+  }
+  return text;
+}
+
+/**
+ * Last completed (or aborted) parity check
+ */
+export function formatLastSync(status: ArrayStatus): string {
+  const last = status.lastSync;
+  if (!last || !last.startedAt) return "Last check: never\n";
+  let text = `Last check: started ${new Date(last.startedAt * 1000).toISOString()}`;
+  if (last.finishedAt && last.finishedAt >= last.startedAt) {
+    text += `, took ${formatDuration(last.finishedAt - last.startedAt)}`;
+  }
+  text += `, ${last.errors} errors`;
+  text += last.exitCode === 0 ? "\n" : ` (exit ${last.exitCode}: not completed)\n`;
+  return text;
+}
+
+/**
+ * Full array status report
+ */
+export function formatArrayStatus(status: ArrayStatus): string {
+  let text = `State: ${status.state ?? "unknown"}\n`;
+  text += `Disks: ${status.numDisks} (disabled ${status.numDisabled}, invalid ${status.numInvalid}, missing ${status.numMissing}, wrong ${status.numWrong})\n\n`;
+  for (const disk of status.disks) {
+    const device = disk.device || "-";
+    text += `${diskLabel(disk).padEnd(9)} ${device.padEnd(8)} ${formatBytes(disk.sizeKb * 1024).padStart(10)}  ${describeDiskStatus(disk.status)}`;
+    text += disk.errors > 0 ? `, ${disk.errors} errors` : "";
+    text += disk.id ? `  ${disk.id}\n` : "\n";
+  }
+  text += "\n" + formatResync(status.resync) + formatLastSync(status);
+  return text;
+}
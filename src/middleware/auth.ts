@@ -4,6 +4,9 @@ export interface AuthResult {
   authenticated: boolean;
   error?: string;
   clientId?: string;
+  token?: string;
+  /** OAuth scopes granted to the token (mcp:read, mcp:write, mcp:admin) */
+  scopes?: string[];
 }
 
 /**
@@ -59,6 +62,8 @@ export function authenticateRequest(
   // Token is valid
   return {
     authenticated: true,
-    clientId: tokenData.client_id
+    clientId: tokenData.client_id,
+    token,
+    scopes: typeof tokenData.scope === "string" ? tokenData.scope.split(" ").filter(Boolean) : []
   };
 }
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+/**
+ * What an action does to the host
+ * - read: inspects state only
+ * - mutate: changes state in a recoverable way (start/stop a container, reset a breaker)
+ * - destructive: may lose data or availability (kill, remove, overwrite)
+ */
+export type ActionTier = "read" | "mutate" | "destructive";
+
+/**
+ * Server-wide ceiling on which actions may run, set with SERVER_MODE
+ */
+export type ServerMode = "read-only" | "operator" | "admin";
+
+export const SERVER_MODES: readonly ServerMode[] = ["read-only", "operator", "admin"];
+
+const TIER_RANK: Record<ActionTier, number> = { read: 0, mutate: 1, destructive: 2 };
+
+/** Highest tier each server mode allows */
+const MODE_CEILING: Record<ServerMode, ActionTier> = {
+  "read-only": "read",
+  operator: "mutate",
+  admin: "destructive",
+};
+
+/** Highest tier each OAuth scope grants; a token gets the highest of its scopes */
+const SCOPE_CEILING: Record<string, ActionTier> = {
+  "mcp:read": "read",
+  "mcp:write": "mutate",
+  "mcp:admin": "destructive",
+};
+
+/**
+ * Classification of every action that is not a plain read, keyed by tool then action
+ * Actions missing from this table are read actions.
+ */
+export const ACTION_TIERS: Record<string, Record<string, ActionTier>> = {
+  docker: {
+    start: "mutate",
+    stop: "mutate",
+    restart: "mutate",
+    pause: "mutate",
+    unpause: "mutate",
+    update_restart: "mutate",
+    kill: "destructive",
+    // Runs processes inside the container; the allow-list is operator-configurable
+    exec: "mutate",
+  },
+  hosts: {
+    circuit_reset: "mutate",
+  },
+  notifications: {
+    archive: "mutate",
+    send: "mutate",
+  },
+  flash: {
+    // Writes a tarball on the host
+    backup: "mutate",
+    // Streams password hashes, SSH/WireGuard private keys and the license key to the client
+    export: "destructive",
+  },
+};
+
+/**
+ * Tier of a tool action (read unless listed in ACTION_TIERS)
+ */
+export function classifyAction(tool: string, action: string | undefined): ActionTier {
+  if (!action) return "read";
+  return ACTION_TIERS[tool]?.[action] ?? "read";
+}
+
+/**
+ * Read SERVER_MODE (default: read-only)
+ */
+export function loadServerMode(): ServerMode {
+  const value = process.env.SERVER_MODE || "read-only";
+  if (!SERVER_MODES.includes(value as ServerMode)) {
+    throw new Error(`Invalid SERVER_MODE "${value}". Must be one of: ${SERVER_MODES.join(", ")}`);
+  }
+  return value as ServerMode;
+}
+
+/**
+ * Highest tier granted by a token's scopes, or null if it has no MCP scope at all
+ */
+export function scopeCeiling(scopes: string[]): ActionTier | null {
+  let ceiling: ActionTier | null = null;
+  for (const scope of scopes) {
+    const tier = SCOPE_CEILING[scope];
+    if (tier && (ceiling === null || TIER_RANK[tier] > TIER_RANK[ceiling])) {
+      ceiling = tier;
+    }
+  }
+  return ceiling;
+}
+
+/**
+ * Check whether an action may run under the server mode and, for authenticated
+ * HTTP requests, the token's scopes
+ *
+ * @returns null if allowed, otherwise the reason it was refused
+ */
+export function checkPermission(
+  tool: string,
+  action: string | undefined,
+  mode: ServerMode,
+  authInfo?: AuthInfo
+): string | null {
+  const tier = classifyAction(tool, action);
+  const label = action ? `${tool}.${action}` : tool;
+
+  if (TIER_RANK[tier] > TIER_RANK[MODE_CEILING[mode]]) {
+    const required = tier === "destructive" ? "admin" : "operator or admin";
+    return `${label} is a ${tier} action and the server is in ${mode} mode (SERVER_MODE=${required} required)`;
+  }
+
+  if (authInfo) {
+    const ceiling = scopeCeiling(authInfo.scopes);
+    if (ceiling === null || TIER_RANK[tier] > TIER_RANK[ceiling]) {
+      const required = Object.keys(SCOPE_CEILING).find(scope => SCOPE_CEILING[scope] === tier);
+      return `${label} is a ${tier} action and requires the ${required} scope (token has: ${authInfo.scopes.join(" ") || "none"})`;
+    }
+  }
+
+  return null;
+}
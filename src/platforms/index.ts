@@ -1,5 +1,5 @@
 // Platform abstraction layer exports
-export type { Platform, PlatformCapability, PlatformPaths, PlatformToolModule, SSHExecutor } from "./types.js";
+export type { CommandOptions, Platform, PlatformCapability, PlatformPaths, PlatformToolModule, SSHExecutor } from "./types.js";
 export { PlatformRegistry, platformRegistry } from "./registry.js";
 
 // Platform implementations
@@ -1,4 +1,5 @@
 import { Platform, PlatformCapability, SSHExecutor } from "../types.js";
+import { detectStorageSubsystems, getStorageToolModules } from "../storage/index.js";
 
 /**
  * Default capabilities - used as starting point for detection
@@ -56,28 +57,9 @@ async function detectCapabilities(executor: SSHExecutor): Promise<PlatformCapabi
     }
   }
 
-  // Detect storage subsystem
-  try {
-    await executor("command -v zpool >/dev/null 2>&1 && zpool list >/dev/null 2>&1");
-    capabilities.storage = "zfs";
-  } catch {
-    try {
-      await executor("test -f /proc/mdstat && grep -q md /proc/mdstat");
-      capabilities.storage = "mdraid";
-    } catch {
-      try {
-        await executor("command -v btrfs >/dev/null 2>&1 && btrfs filesystem show >/dev/null 2>&1");
-        capabilities.storage = "btrfs";
-      } catch {
-        try {
-          await executor("command -v lvs >/dev/null 2>&1 && lvs >/dev/null 2>&1");
-          capabilities.storage = "lvm";
-        } catch {
-          capabilities.storage = "ext4";
-        }
-      }
-    }
-  }
+  // Detect storage subsystems (the first found is the primary one)
+  capabilities.storageSubsystems = await detectStorageSubsystems(executor);
+  capabilities.storage = capabilities.storageSubsystems[0] ?? "ext4";
 
   return capabilities;
 }
@@ -125,10 +107,10 @@ export const LinuxPlatform: Platform = {
   },
 
   /**
-   * No platform-specific tools for generic Linux
+   * Storage tools for the detected subsystems
    * Core tools are always loaded separately
    */
   getToolModules() {
-    return [];
+    return getStorageToolModules(this.capabilities);
   },
 };
@@ -6,7 +6,7 @@ import { Platform, SSHExecutor } from "./types.js";
  */
 export class PlatformRegistry {
   private platforms: Map<string, Platform> = new Map();
-  private detectedPlatform: Platform | null = null;
+  private detectedPlatforms: Map<string, Platform> = new Map();
 
   /**
    * Register a platform
@@ -18,14 +18,18 @@ export class PlatformRegistry {
   /**
    * Auto-detect the platform by running detection on all registered platforms
    * Returns the platform with the highest confidence score
+   *
+   * Each host gets its own copy of the platform so capabilities detected on one
+   * host don't leak into another.
    */
-  async detect(executor: SSHExecutor): Promise<Platform> {
+  async detect(executor: SSHExecutor, hostName: string = "default"): Promise<Platform> {
     const results: Array<{ platform: Platform; score: number }> = [];
 
-    for (const platform of this.platforms.values()) {
+    for (const registered of this.platforms.values()) {
+      const platform: Platform = { ...registered, capabilities: { ...registered.capabilities } };
       try {
         const score = await platform.detect(executor);
-        console.error(`Platform ${platform.id}: score=${score}`);
+        console.error(`Platform ${platform.id} on ${hostName}: score=${score}`);
         if (score > 0) {
           results.push({ platform, score });
         }
@@ -45,13 +49,14 @@ export class PlatformRegistry {
       );
     }
 
-    this.detectedPlatform = results[0].platform;
+    const detected = results[0].platform;
+    this.detectedPlatforms.set(hostName, detected);
 
     console.error(
-      `Platform detected: ${this.detectedPlatform.displayName} (confidence: ${results[0].score}%)`
+      `Platform detected on ${hostName}: ${detected.displayName} (confidence: ${results[0].score}%)`
     );
 
-    return this.detectedPlatform;
+    return detected;
   }
 
   /**
@@ -62,10 +67,10 @@ export class PlatformRegistry {
   }
 
   /**
-   * Get the detected platform (after detect() has been called)
+   * Get the platform detected for a host (after detect() has been called)
    */
-  getDetected(): Platform | null {
-    return this.detectedPlatform;
+  getDetected(hostName: string = "default"): Platform | null {
+    return this.detectedPlatforms.get(hostName) ?? null;
   }
 
   /**
@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { SSHExecutor } from "../types.js";
+import {
+  balanceStatusCommand,
+  deviceStatsCommand,
+  formatBalanceStatus,
+  formatDeviceStats,
+  formatScrubStatus,
+  formatUsage,
+  parseBalanceStatus,
+  parseDeviceStats,
+  parseScrubStatus,
+  parseUsage,
+  scrubStatusCommand,
+  usageCommand,
+} from "./btrfs.js";
+
+const btrfsActions = ["usage", "device_stats", "scrub_status", "balance_status"] as const;
+
+/** `btrfs filesystem usage` walks every chunk; slow on large, busy pools */
+const BTRFS_TIMEOUT_MS = 60000;
+
+export function registerBtrfsTools(server: McpServer, sshExecutor: SSHExecutor): void {
+  server.tool(
+    "btrfs",
+    "Btrfs filesystems (Unraid cache pools, docker.img, generic Linux). Actions: usage (chunk allocation per profile, with warnings when metadata is full while data chunks have space, low unallocated space, missing devices, mixed profiles), device_stats (per-device error counters, non-zero flagged), scrub_status (last scrub, errors, age), balance_status (running/paused balance and progress). Every mounted btrfs filesystem unless mount is given.",
+    {
+      action: z.enum(btrfsActions).describe("Action"),
+      mount: z.string().optional().describe("Mount point of one filesystem, e.g. /mnt/cache (default all)"),
+      ...outputFiltersSchema.shape,
+    },
+    async (args) => {
+      try {
+        switch (args.action) {
+          case "usage": {
+            const { usage, errors } = parseUsage(await sshExecutor(usageCommand(args.mount), { timeoutMs: BTRFS_TIMEOUT_MS }));
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== Btrfs Usage ===\n\n${formatUsage(usage, errors)}`, args) }],
+              structuredContent: { usage },
+            };
+          }
+
+          case "device_stats": {
+            const { stats, errors } = parseDeviceStats(await sshExecutor(deviceStatsCommand(args.mount)));
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== Btrfs Device Stats ===\n\n${formatDeviceStats(stats, errors)}`, args) }],
+              structuredContent: { deviceStats: stats },
+            };
+          }
+
+          case "scrub_status": {
+            const status = parseScrubStatus(await sshExecutor(scrubStatusCommand(args.mount)));
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== Btrfs Scrub ===\n\n${formatScrubStatus(status)}`, args) }],
+              structuredContent: { scrubs: status.scrubs },
+            };
+          }
+
+          case "balance_status": {
+            const { balances, errors } = parseBalanceStatus(await sshExecutor(balanceStatusCommand(args.mount)));
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== Btrfs Balance ===\n\n${formatBalanceStatus(balances, errors)}`, args) }],
+              structuredContent: { balances },
+            };
+          }
+
+          default:
+            return { content: [{ type: "text", text: `Unknown action: ${args.action}` }], isError: true };
+        }
+      } catch (error) {
+        return { content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    }
+  );
+}
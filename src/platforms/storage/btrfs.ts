@@ -0,0 +1,305 @@
+import { BtrfsBalance, BtrfsDeviceStats, BtrfsScrub, BtrfsUsage } from "../../structured.js";
+import { formatBytes } from "../../format.js";
+import { safePath, sh } from "../../shell.js";
+
+/**
+ * Btrfs filesystems (Unraid cache pools, docker.img and libvirt.img loop mounts, generic Linux)
+ *
+ * Commands run once per mounted filesystem (the first mount of each UUID, so
+ * subvolume mounts are not repeated) and print a `--- fs <mount>` section each.
+ */
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const GIB = 1024 ** 3;
+
+/** Metadata chunks this full need a new chunk for the next large write */
+const METADATA_FULL_RATIO = 0.9;
+
+/** Same interval as ZFS: monthly scrubs plus slack */
+const SCRUB_OVERDUE_DAYS = 35;
+
+/**
+ * A filesystem whose btrfs command failed (not mounted, permission, missing device)
+ */
+export interface BtrfsError {
+  mount: string;
+  message: string;
+}
+
+/**
+ * Wrap `body` (which refers to the mount as "$m") in a loop over one mount or every btrfs filesystem
+ */
+function forEachFilesystem(mount: string | undefined, body: string): string {
+  const mounts = mount
+    ? sh`echo ${safePath(mount)}`
+    : "findmnt -rn -t btrfs -o UUID,TARGET | awk '!seen[$1]++ { print $2 }'";
+  return `${mounts} | while read -r m; do m=$(printf '%b' "$m"); echo "--- fs $m"; ${body}; done; true`;
+}
+
+export function usageCommand(mount?: string): string {
+  return forEachFilesystem(mount, 'btrfs filesystem usage -b "$m" 2>&1');
+}
+
+export function deviceStatsCommand(mount?: string): string {
+  return forEachFilesystem(mount, 'btrfs device stats "$m" 2>&1');
+}
+
+export function scrubStatusCommand(mount?: string): string {
+  return `echo "now $(date +%Y-%m-%dT%H:%M:%S)"; ${forEachFilesystem(mount, 'btrfs scrub status "$m" 2>&1')}`;
+}
+
+export function balanceStatusCommand(mount?: string): string {
+  return forEachFilesystem(mount, 'btrfs balance status "$m" 2>&1');
+}
+
+/**
+ * Split command output into per-filesystem sections, separating those that failed
+ */
+function splitFilesystems(output: string): { sections: { mount: string; body: string }[]; errors: BtrfsError[] } {
+  const sections: { mount: string; body: string }[] = [];
+  const errors: BtrfsError[] = [];
+  for (const section of output.split(/^--- fs /m).slice(1)) {
+    const newline = section.indexOf("\n");
+    const mount = (newline === -1 ? section : section.substring(0, newline)).trim();
+    const body = newline === -1 ? "" : section.substring(newline + 1);
+    const error = body.match(/^ERROR: (.+)$/m);
+    if (error) errors.push({ mount, message: error[1].trim() });
+    else sections.push({ mount, body });
+  }
+  return { sections, errors };
+}
+
+/**
+ * "Sun Oct 11 03:00:01 2026" as a host-local naive time
+ */
+function parseCtime(text: string): string | null {
+  const match = text.match(/\w{3} (\w{3})\s+(\d{1,2}) (\d{2}:\d{2}:\d{2}) (\d{4})/);
+  const month = match ? MONTHS.indexOf(match[1]) : -1;
+  if (!match || month === -1) return null;
+  return `${match[4]}-${String(month + 1).padStart(2, "0")}-${match[2].padStart(2, "0")}T${match[3]}`;
+}
+
+/**
+ * Parse `btrfs filesystem usage -b` for each filesystem and derive allocation findings
+ *
+ * Btrfs allocates space in chunks: once every byte is allocated to data chunks,
+ * metadata cannot grow even though data chunks are half empty, and writes fail
+ * with ENOSPC. A filtered balance returns the unused data chunks.
+ */
+export function parseUsage(output: string): { usage: BtrfsUsage[]; errors: BtrfsError[] } {
+  const { sections, errors } = splitFilesystems(output);
+  const usage: BtrfsUsage[] = [];
+  for (const { mount, body } of sections) {
+    const field = (name: string) => {
+      const match = body.match(new RegExp(`^\\s*${name}:\\s+([\\d.]+)`, "m"));
+      return match ? parseFloat(match[1]) : null;
+    };
+    const deviceSize = field("Device size");
+    if (deviceSize === null) {
+      errors.push({ mount, message: body.trim().split("\n")[0] || "no usage output" });
+      continue;
+    }
+    const profiles = [...body.matchAll(/^([A-Za-z+]+),([A-Za-z0-9]+): Size:(\d+), Used:(\d+)/gm)]
+      .map(m => ({ type: m[1], profile: m[2], sizeBytes: +m[3], usedBytes: +m[4] }));
+    const fs: BtrfsUsage = {
+      mount,
+      deviceSizeBytes: deviceSize,
+      allocatedBytes: field("Device allocated") ?? 0,
+      unallocatedBytes: field("Device unallocated") ?? 0,
+      missingBytes: field("Device missing") ?? 0,
+      usedBytes: field("Used") ?? 0,
+      freeEstimatedBytes: field("Free \\(estimated\\)"),
+      dataRatio: field("Data ratio") ?? 1,
+      metadataRatio: field("Metadata ratio") ?? 1,
+      multipleProfiles: /^\s*Multiple profiles:\s+yes/m.test(body),
+      profiles,
+      findings: [],
+    };
+    fs.findings = allocationFindings(fs);
+    usage.push(fs);
+  }
+  return { usage, errors };
+}
+
+function allocationFindings(fs: BtrfsUsage): BtrfsUsage["findings"] {
+  const findings: BtrfsUsage["findings"] = [];
+  const total = (type: string) => fs.profiles.filter(p => p.type === type || p.type === "Data+Metadata")
+    .reduce((sum, p) => ({ size: sum.size + p.sizeBytes, used: sum.used + p.usedBytes }), { size: 0, used: 0 });
+  const data = total("Data");
+  const metadata = total("Metadata");
+  const unusedData = data.size - data.used;
+  const noRoomForMetadata = fs.unallocatedBytes < GIB * fs.metadataRatio;
+  const balance = `btrfs balance start -dusage=50 ${fs.mount}`;
+
+  if (fs.missingBytes > 0) {
+    findings.push({ severity: "CRITICAL", message: `${formatBytes(fs.missingBytes)} of devices missing; the filesystem is degraded` });
+  }
+  if (metadata.size > 0 && metadata.used / metadata.size >= METADATA_FULL_RATIO && noRoomForMetadata && unusedData > GIB) {
+    findings.push({
+      severity: "CRITICAL",
+      message: `Metadata is ${percent(metadata.used, metadata.size)}% full with ${formatBytes(fs.unallocatedBytes)} unallocated, `
+        + `while data chunks hold ${formatBytes(unusedData)} unused: writes can fail with ENOSPC. Free chunks with: ${balance}`,
+    });
+  } else if (fs.unallocatedBytes < fs.deviceSizeBytes * 0.05 && unusedData > GIB && unusedData > data.size * 0.1) {
+    findings.push({
+      severity: "WARNING",
+      message: `Only ${formatBytes(fs.unallocatedBytes)} unallocated; ${formatBytes(unusedData)} in data chunks is unused and can be returned with: ${balance}`,
+    });
+  }
+  if (fs.freeEstimatedBytes !== null && fs.usedBytes + fs.freeEstimatedBytes > 0) {
+    const full = percent(fs.usedBytes, fs.usedBytes + fs.freeEstimatedBytes);
+    if (full >= 90) findings.push({ severity: "WARNING", message: `Filesystem is ${full}% full` });
+  }
+  if (fs.multipleProfiles) {
+    findings.push({ severity: "WARNING", message: "Multiple block group profiles in use (an interrupted conversion?); finish it with a convert balance" });
+  }
+  return findings;
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+/**
+ * Parse `btrfs device stats` lines such as `[/dev/sdb1].corruption_errs 14`
+ */
+export function parseDeviceStats(output: string): { stats: BtrfsDeviceStats[]; errors: BtrfsError[] } {
+  const { sections, errors } = splitFilesystems(output);
+  const stats: BtrfsDeviceStats[] = [];
+  for (const { mount, body } of sections) {
+    for (const match of body.matchAll(/^\[(.+)\]\.(\w+)\s+(\d+)$/gm)) {
+      let device = stats.find(s => s.mount === mount && s.device === match[1]);
+      if (!device) {
+        device = { mount, device: match[1], counters: {} };
+        stats.push(device);
+      }
+      device.counters[match[2]] = +match[3];
+    }
+  }
+  return { stats, errors };
+}
+
+/**
+ * Parse `btrfs scrub status` in both the btrfs-progs 5.x layout (Status:, Error summary:)
+ * and the older one-line form (scrub started at ... and finished after ...)
+ */
+export function parseScrubStatus(output: string): { now: string | null; scrubs: BtrfsScrub[]; errors: BtrfsError[] } {
+  const now = output.match(/^now (\S+)$/m)?.[1] ?? null;
+  const { sections, errors } = splitFilesystems(output);
+  const scrubs = sections.map(({ mount, body }): BtrfsScrub => {
+    const value = (name: string) => body.match(new RegExp(`^\\s*${name}:\\s+(.+)$`, "m"))?.[1].trim() ?? null;
+    if (/no stats available/.test(body)) {
+      return { mount, state: "never", startedAt: null, duration: null, errors: null, summary: null };
+    }
+
+    const status = value("Status");
+    if (status) {
+      const summary = value("Error summary");
+      const uncorrectable = value("Uncorrectable");
+      const errorCount = summary === null ? null
+        : /no errors found/.test(summary) ? 0
+          : [...summary.matchAll(/=(\d+)/g)].reduce((sum, m) => sum + +m[1], 0);
+      return {
+        mount,
+        state: (["finished", "running", "aborted", "interrupted"].includes(status) ? status : "interrupted") as BtrfsScrub["state"],
+        startedAt: parseCtime(value("Scrub started") ?? ""),
+        duration: value("Duration"),
+        errors: errorCount,
+        summary: summary && uncorrectable !== null && errorCount ? `${summary} (uncorrectable: ${uncorrectable})` : summary,
+      };
+    }
+
+    const started = body.match(/scrub (?:started at|in progress since) (.+?) (and finished after|and was aborted after|running for) ([\d:]+)/);
+    const total = body.match(/with (\d+) errors/);
+    return {
+      mount,
+      state: !started ? "never" : started[2].includes("finished") ? "finished" : started[2].includes("aborted") ? "aborted" : "running",
+      startedAt: started ? parseCtime(started[1]) : null,
+      duration: started ? started[3] : null,
+      errors: total ? +total[1] : null,
+      summary: body.match(/error details: (.+)$/m)?.[1].trim() ?? (total ? `${total[1]} errors` : null),
+    };
+  });
+  return { now, scrubs, errors };
+}
+
+export function parseBalanceStatus(output: string): { balances: BtrfsBalance[]; errors: BtrfsError[] } {
+  const { sections, errors } = splitFilesystems(output);
+  const balances = sections.map(({ mount, body }): BtrfsBalance => {
+    const state = /is paused/.test(body) ? "paused" : /is running/.test(body) ? "running" : "none";
+    const progress = body.match(/^\s*(\d+ out of about \d+ chunks balanced.*)$/m)?.[1].replace(/\s+/g, " ").trim() ?? null;
+    return { mount, state, progress };
+  });
+  return { balances, errors };
+}
+
+function formatErrors(errors: BtrfsError[]): string {
+  return errors.map(e => `${e.mount}: ERROR ${e.message}\n`).join("");
+}
+
+export function formatUsage(usage: BtrfsUsage[], errors: BtrfsError[]): string {
+  if (usage.length === 0 && errors.length === 0) return "No btrfs filesystems mounted\n";
+  let text = "";
+  for (const fs of usage) {
+    text += `${fs.mount}: ${formatBytes(fs.usedBytes)} used of ${formatBytes(fs.deviceSizeBytes)}`;
+    text += fs.freeEstimatedBytes !== null ? `, ${formatBytes(fs.freeEstimatedBytes)} free (estimated)\n` : "\n";
+    text += `  Allocated: ${formatBytes(fs.allocatedBytes)}, unallocated: ${formatBytes(fs.unallocatedBytes)}\n`;
+    for (const p of fs.profiles) {
+      text += `  ${p.type} (${p.profile}): ${formatBytes(p.usedBytes)} of ${formatBytes(p.sizeBytes)} (${percent(p.usedBytes, p.sizeBytes)}%)\n`;
+    }
+    for (const f of fs.findings) text += `  [${f.severity}] ${f.message}\n`;
+    text += "\n";
+  }
+  return text + formatErrors(errors);
+}
+
+/**
+ * Counters per device, flagging any that are not zero
+ * The counters are lifetime totals until reset with `btrfs device stats -z`.
+ */
+export function formatDeviceStats(stats: BtrfsDeviceStats[], errors: BtrfsError[]): string {
+  if (stats.length === 0 && errors.length === 0) return "No btrfs filesystems mounted\n";
+  let text = "";
+  let mount = "";
+  for (const device of stats) {
+    if (device.mount !== mount) {
+      mount = device.mount;
+      text += `${text ? "\n" : ""}${mount}:\n`;
+    }
+    const failing = Object.entries(device.counters).filter(([, count]) => count > 0);
+    text += failing.length
+      ? `  [WARNING] ${device.device}: ${failing.map(([name, count]) => `${name} ${count}`).join(", ")}\n`
+      : `  ${device.device}: no errors\n`;
+  }
+  if (stats.some(d => Object.values(d.counters).some(c => c > 0))) {
+    text += "\nCounters are lifetime totals; reset with `btrfs device stats -z <mount>` after dealing with the cause.\n";
+  }
+  return text + formatErrors(errors);
+}
+
+export function formatScrubStatus(status: ReturnType<typeof parseScrubStatus>): string {
+  if (status.scrubs.length === 0 && status.errors.length === 0) return "No btrfs filesystems mounted\n";
+  let text = "";
+  for (const scrub of status.scrubs) {
+    if (scrub.state === "never") {
+      text += `${scrub.mount}: never scrubbed\n`;
+      continue;
+    }
+    text += `${scrub.mount}: ${scrub.state}${scrub.startedAt ? `, started ${scrub.startedAt.replace("T", " ")}` : ""}`;
+    text += `${scrub.duration ? `, duration ${scrub.duration}` : ""}\n`;
+    if (scrub.summary) text += `  Errors: ${scrub.summary}\n`;
+    if (scrub.errors) text += `  [WARNING] Scrub found ${scrub.errors} errors; check device stats and the kernel log\n`;
+    if (scrub.startedAt && status.now) {
+      const days = Math.floor((Date.parse(`${status.now}Z`) - Date.parse(`${scrub.startedAt}Z`)) / 86400000);
+      if (days > SCRUB_OVERDUE_DAYS) text += `  [WARNING] Last scrub was ${days} days ago\n`;
+    }
+  }
+  return text + formatErrors(status.errors);
+}
+
+export function formatBalanceStatus(balances: BtrfsBalance[], errors: BtrfsError[]): string {
+  if (balances.length === 0 && errors.length === 0) return "No btrfs filesystems mounted\n";
+  return balances.map(b => `${b.mount}: ${b.state === "none" ? "no balance running" : `balance ${b.state}`}${b.progress ? ` (${b.progress})` : ""}\n`).join("")
+    + formatErrors(errors);
+}
@@ -0,0 +1,66 @@
+import { PlatformCapability, PlatformToolModule, SSHExecutor, StorageSubsystem } from "../types.js";
+import { registerZfsTools } from "./zfs-tools.js";
+import { registerBtrfsTools } from "./btrfs-tools.js";
+import { registerMdraidTools } from "./mdraid-tools.js";
+import { registerLvmTools } from "./lvm-tools.js";
+
+/**
+ * Storage subsystem tools shared by every platform
+ *
+ * Hosts often run more than one storage stack (an Unraid array with ZFS pools,
+ * LVM under ext4), so each subsystem is probed on its own and its tool module
+ * is registered whenever it is present.
+ */
+
+/** Probe commands, in order of precedence for the primary `storage` capability */
+const STORAGE_PROBES: Array<{ subsystem: StorageSubsystem; command: string }> = [
+  { subsystem: "zfs", command: "command -v zpool >/dev/null 2>&1 && zpool list >/dev/null 2>&1" },
+  { subsystem: "mdraid", command: "test -f /proc/mdstat && grep -q md /proc/mdstat" },
+  { subsystem: "btrfs", command: "command -v btrfs >/dev/null 2>&1 && btrfs filesystem show >/dev/null 2>&1" },
+  { subsystem: "lvm", command: "command -v lvs >/dev/null 2>&1 && lvs >/dev/null 2>&1" },
+];
+
+/**
+ * Every storage subsystem found on the host
+ */
+export async function detectStorageSubsystems(executor: SSHExecutor): Promise<StorageSubsystem[]> {
+  const found: StorageSubsystem[] = [];
+  for (const probe of STORAGE_PROBES) {
+    try {
+      await executor(probe.command);
+      found.push(probe.subsystem);
+    } catch {
+      // Not present
+    }
+  }
+  return found;
+}
+
+/**
+ * Whether a storage subsystem is present (falls back to the primary `storage` capability)
+ */
+export function hasStorage(capabilities: PlatformCapability, subsystem: StorageSubsystem): boolean {
+  return capabilities.storageSubsystems
+    ? capabilities.storageSubsystems.includes(subsystem)
+    : capabilities.storage === subsystem;
+}
+
+/**
+ * Tool modules for the storage subsystems present on the host
+ */
+export function getStorageToolModules(capabilities: PlatformCapability): PlatformToolModule[] {
+  const modules: PlatformToolModule[] = [];
+  if (hasStorage(capabilities, "zfs")) {
+    modules.push({ name: "zfs", register: registerZfsTools, priority: 50 });
+  }
+  if (hasStorage(capabilities, "btrfs")) {
+    modules.push({ name: "btrfs", register: registerBtrfsTools, priority: 40 });
+  }
+  if (hasStorage(capabilities, "mdraid")) {
+    modules.push({ name: "mdraid", register: registerMdraidTools, priority: 30 });
+  }
+  if (hasStorage(capabilities, "lvm")) {
+    modules.push({ name: "lvm", register: registerLvmTools, priority: 20 });
+  }
+  return modules;
+}
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { SSHExecutor } from "../types.js";
+import { formatLvmReport, formatThinPools, LVM_REPORT_COMMAND, parseLvmReport, thinPoolReport } from "./lvm.js";
+
+const lvmActions = ["status", "thin_pools"] as const;
+
+export function registerLvmTools(server: McpServer, sshExecutor: SSHExecutor): void {
+  server.tool(
+    "lvm",
+    "LVM volumes. Actions: status (volume groups with size, free space and physical volumes, logical volumes with type, thin pool, snapshot and RAID sync levels, findings for missing PVs, unhealthy LVs, full thin pools and snapshots), thin_pools (thin pool data and metadata fill levels, thin volumes per pool, overprovisioning).",
+    {
+      action: z.enum(lvmActions).describe("Action"),
+      ...outputFiltersSchema.shape,
+    },
+    async (args) => {
+      try {
+        switch (args.action) {
+          case "status": {
+            const report = parseLvmReport(await sshExecutor(LVM_REPORT_COMMAND));
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== LVM ===\n\n${formatLvmReport(report)}`, args) }],
+              structuredContent: { report },
+            };
+          }
+
+          case "thin_pools": {
+            const report = thinPoolReport(parseLvmReport(await sshExecutor(LVM_REPORT_COMMAND)));
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== LVM Thin Pools ===\n\n${formatThinPools(report)}`, args) }],
+              structuredContent: { report },
+            };
+          }
+
+          default:
+            return { content: [{ type: "text", text: `Unknown action: ${args.action}` }], isError: true };
+        }
+      } catch (error) {
+        return { content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    }
+  );
+}
@@ -0,0 +1,184 @@
+import { formatBytes } from "../../format.js";
+import { LvmReport } from "../../structured.js";
+
+/**
+ * LVM physical volumes, volume groups and logical volumes from the JSON reports of pvs/vgs/lvs
+ */
+
+type Finding = LvmReport["findings"][number];
+type LogicalVolume = LvmReport["logicalVolumes"][number];
+
+/** Thin pool and snapshot fill levels that raise a finding */
+const FILL_WARNING_PERCENT = 80;
+const FILL_CRITICAL_PERCENT = 95;
+
+const REPORT_OPTIONS = "--reportformat json --units b --nosuffix";
+
+/**
+ * pvs, vgs and lvs as `--- <command>` sections of JSON
+ */
+export const LVM_REPORT_COMMAND = [
+  "echo '--- pvs'",
+  `pvs ${REPORT_OPTIONS} -o pv_name,vg_name,pv_size,pv_free,pv_attr 2>/dev/null`,
+  "echo '--- vgs'",
+  `vgs ${REPORT_OPTIONS} -o vg_name,vg_size,vg_free,pv_count,lv_count,vg_missing_pv_count,vg_attr 2>/dev/null`,
+  "echo '--- lvs'",
+  `lvs ${REPORT_OPTIONS} -o lv_name,vg_name,lv_size,lv_attr,segtype,pool_lv,origin,data_percent,metadata_percent,copy_percent,lv_health_status 2>/dev/null`,
+  "true",
+].join("; ");
+
+function reportRows(output: string, command: "pvs" | "vgs" | "lvs", key: "pv" | "vg" | "lv"): Array<Record<string, string>> {
+  const section = output.split(/^--- /m).find(s => s.startsWith(`${command}\n`))?.substring(command.length + 1).trim();
+  let report: { report?: Array<Record<string, Array<Record<string, string>>>> };
+  try {
+    report = JSON.parse(section ?? "");
+  } catch {
+    throw new Error(`${command} returned no JSON report (LVM tools need root and LVM2 2.02.158 or later)`);
+  }
+  return (report.report ?? []).flatMap(r => r[key] ?? []);
+}
+
+function number(value: string | undefined): number {
+  return Number(value) || 0;
+}
+
+function percent(value: string | undefined): number | null {
+  return value === undefined || value.trim() === "" ? null : Number(value);
+}
+
+function optional(value: string | undefined): string | null {
+  return value?.trim() || null;
+}
+
+/**
+ * Parse the output of LVM_REPORT_COMMAND and derive findings
+ */
+export function parseLvmReport(output: string): LvmReport {
+  const physicalVolumes = reportRows(output, "pvs", "pv").map(pv => ({
+    name: pv.pv_name,
+    vg: pv.vg_name,
+    sizeBytes: number(pv.pv_size),
+    freeBytes: number(pv.pv_free),
+    attr: pv.pv_attr,
+  }));
+  const volumeGroups = reportRows(output, "vgs", "vg").map(vg => ({
+    name: vg.vg_name,
+    sizeBytes: number(vg.vg_size),
+    freeBytes: number(vg.vg_free),
+    pvCount: number(vg.pv_count),
+    lvCount: number(vg.lv_count),
+    missingPvCount: number(vg.vg_missing_pv_count),
+    attr: vg.vg_attr,
+  }));
+  const logicalVolumes: LogicalVolume[] = reportRows(output, "lvs", "lv").map(lv => ({
+    name: lv.lv_name,
+    vg: lv.vg_name,
+    sizeBytes: number(lv.lv_size),
+    attr: lv.lv_attr,
+    type: lv.segtype,
+    pool: optional(lv.pool_lv),
+    origin: optional(lv.origin),
+    dataPercent: percent(lv.data_percent),
+    metadataPercent: percent(lv.metadata_percent),
+    syncPercent: percent(lv.copy_percent),
+    health: optional(lv.lv_health_status),
+  }));
+
+  const findings: Finding[] = [];
+  for (const vg of volumeGroups) {
+    if (vg.missingPvCount > 0) {
+      findings.push({ volume: vg.name, severity: "CRITICAL", message: `Volume group is missing ${vg.missingPvCount} of ${vg.pvCount} physical volumes` });
+    }
+  }
+  for (const lv of logicalVolumes) {
+    const volume = `${lv.vg}/${lv.name}`;
+    const fill = (what: string, value: number | null) => {
+      if (value === null || value < FILL_WARNING_PERCENT) return;
+      findings.push({ volume, severity: value >= FILL_CRITICAL_PERCENT ? "CRITICAL" : "WARNING", message: `${what} is ${value}% full` });
+    };
+    if (lv.health) findings.push({ volume, severity: "WARNING", message: `Health: ${lv.health}` });
+    if (lv.type === "thin-pool") {
+      fill("Thin pool data", lv.dataPercent);
+      fill("Thin pool metadata", lv.metadataPercent);
+      const provisioned = logicalVolumes
+        .filter(thin => thin.type === "thin" && thin.vg === lv.vg && thin.pool === lv.name)
+        .reduce((sum, thin) => sum + thin.sizeBytes, 0);
+      if (provisioned > lv.sizeBytes) {
+        findings.push({ volume, severity: "INFO", message: `Thin pool is overprovisioned: ${formatBytes(provisioned)} of thin volumes on ${formatBytes(lv.sizeBytes)}` });
+      }
+    } else if (lv.attr.startsWith("S")) {
+      findings.push({ volume, severity: "CRITICAL", message: "Snapshot is invalid (it overflowed and must be removed)" });
+    } else if (lv.attr.startsWith("s")) {
+      fill("Snapshot", lv.dataPercent);
+    }
+    if (/^(raid|mirror)/.test(lv.type) && lv.syncPercent !== null && lv.syncPercent < 100) {
+      findings.push({ volume, severity: "INFO", message: `Syncing (${lv.syncPercent}% done)` });
+    }
+  }
+  return { physicalVolumes, volumeGroups, logicalVolumes, findings };
+}
+
+/**
+ * Thin pools, their thin volumes and the findings about them
+ */
+export function thinPoolReport(report: LvmReport): LvmReport {
+  const pools = new Set(report.logicalVolumes.filter(lv => lv.type === "thin-pool").map(lv => `${lv.vg}/${lv.name}`));
+  return {
+    ...report,
+    logicalVolumes: report.logicalVolumes.filter(lv => pools.has(`${lv.vg}/${lv.name}`) || (lv.pool && pools.has(`${lv.vg}/${lv.pool}`))),
+    findings: report.findings.filter(f => pools.has(f.volume)),
+  };
+}
+
+function formatFindings(findings: Finding[]): string {
+  if (findings.length === 0) return "";
+  return `Findings:\n${findings.map(f => `[${f.severity}] ${f.volume}: ${f.message}\n`).join("")}\n`;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "-" : `${value}%`;
+}
+
+/**
+ * Findings, volume groups with their PVs, then logical volumes
+ */
+export function formatLvmReport(report: LvmReport): string {
+  if (report.volumeGroups.length === 0 && report.physicalVolumes.length === 0) return "No LVM volume groups\n";
+  let text = formatFindings(report.findings);
+  for (const vg of report.volumeGroups) {
+    text += `${vg.name}: ${formatBytes(vg.sizeBytes - vg.freeBytes)} of ${formatBytes(vg.sizeBytes)} allocated, ${vg.pvCount} PVs, ${vg.lvCount} LVs\n`;
+    for (const pv of report.physicalVolumes.filter(pv => pv.vg === vg.name)) {
+      text += `  PV ${pv.name}: ${formatBytes(pv.sizeBytes)}, ${formatBytes(pv.freeBytes)} free\n`;
+    }
+  }
+  const orphans = report.physicalVolumes.filter(pv => !pv.vg);
+  if (orphans.length) text += `Unused PVs: ${orphans.map(pv => `${pv.name} (${formatBytes(pv.sizeBytes)})`).join(", ")}\n`;
+  if (report.logicalVolumes.length) {
+    text += "\nLogical volumes:\n";
+    for (const lv of report.logicalVolumes) {
+      text += `  ${lv.vg}/${lv.name}  ${lv.type}  ${formatBytes(lv.sizeBytes)}`;
+      if (lv.pool) text += `  pool ${lv.pool}`;
+      if (lv.origin) text += `  origin ${lv.origin}`;
+      if (lv.dataPercent !== null) text += `  data ${formatPercent(lv.dataPercent)}`;
+      if (lv.metadataPercent !== null) text += `  metadata ${formatPercent(lv.metadataPercent)}`;
+      if (lv.syncPercent !== null) text += `  sync ${formatPercent(lv.syncPercent)}`;
+      text += "\n";
+    }
+  }
+  return text;
+}
+
+/**
+ * One line per thin pool with its fill levels and thin volumes
+ */
+export function formatThinPools(report: LvmReport): string {
+  const pools = report.logicalVolumes.filter(lv => lv.type === "thin-pool");
+  if (pools.length === 0) return "No thin pools\n";
+  let text = formatFindings(report.findings);
+  for (const pool of pools) {
+    const thins = report.logicalVolumes.filter(lv => lv.vg === pool.vg && lv.pool === pool.name);
+    text += `${pool.vg}/${pool.name}: ${formatBytes(pool.sizeBytes)}, data ${formatPercent(pool.dataPercent)}, metadata ${formatPercent(pool.metadataPercent)}, ${thins.length} thin volumes\n`;
+    for (const thin of thins) text += `  ${thin.name}  ${formatBytes(thin.sizeBytes)}  ${formatPercent(thin.dataPercent)} used\n`;
+  }
+  return text;
+}
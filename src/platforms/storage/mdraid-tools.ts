@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { SSHExecutor } from "../types.js";
+import { formatMdDetail, formatMdStatus, MDSTAT_COMMAND, mdDetailCommand, parseMdDetail, parseMdstat } from "./mdraid.js";
+
+const mdraidActions = ["status", "detail"] as const;
+
+export function registerMdraidTools(server: McpServer, sshExecutor: SSHExecutor): void {
+  server.tool(
+    "mdraid",
+    "Linux software RAID (md) arrays. Actions: status (/proc/mdstat: level, member map, failed and spare members, resync/recovery/check progress, mismatch_cnt, findings for degraded or inactive arrays), detail (mdadm --detail: array state, device counts, rebuild status and member table; needs root).",
+    {
+      action: z.enum(mdraidActions).describe("Action"),
+      array: z.string().optional().describe("Array device, e.g. md0 or /dev/md0 (detail; default all)"),
+      ...outputFiltersSchema.shape,
+    },
+    async (args) => {
+      try {
+        switch (args.action) {
+          case "status": {
+            const status = parseMdstat(await sshExecutor(MDSTAT_COMMAND));
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== md Arrays ===\n\n${formatMdStatus(status)}`, args) }],
+              structuredContent: { status },
+            };
+          }
+
+          case "detail": {
+            const details = parseMdDetail(await sshExecutor(mdDetailCommand(args.array)));
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== mdadm --detail ===\n\n${formatMdDetail(details)}`, args) }],
+              structuredContent: { details },
+            };
+          }
+
+          default:
+            return { content: [{ type: "text", text: `Unknown action: ${args.action}` }], isError: true };
+        }
+      } catch (error) {
+        return { content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    }
+  );
+}
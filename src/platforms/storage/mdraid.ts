@@ -0,0 +1,201 @@
+import { formatBytes } from "../../format.js";
+import { MdArray, MdDetail, MdStatus } from "../../structured.js";
+import { deviceName, sh } from "../../shell.js";
+
+/**
+ * Linux software RAID (md) arrays from /proc/mdstat and `mdadm --detail`
+ *
+ * Not used on Unraid, whose array driver shares the md name but reports through /proc/mdcmd.
+ */
+
+/** Member failures each level survives; linear and raid0 have no redundancy */
+const REDUNDANCY: Record<string, (raidDisks: number) => number> = {
+  raid1: disks => disks - 1,
+  raid4: () => 1,
+  raid5: () => 1,
+  raid6: () => 2,
+  raid10: () => 1,
+};
+
+const DEVICE_FLAGS: Record<string, MdArray["devices"][number]["state"]> = {
+  F: "faulty",
+  S: "spare",
+  W: "write-mostly",
+  R: "replacement",
+};
+
+/**
+ * /proc/mdstat, then each array's mismatch_cnt from sysfs
+ */
+export const MDSTAT_COMMAND = [
+  "cat /proc/mdstat",
+  "echo '--- sysfs'",
+  'for f in /sys/block/md*/md/mismatch_cnt; do [ -f "$f" ] && echo "mismatch $f $(cat "$f")"; done',
+  "true",
+].join("; ");
+
+/**
+ * `mdadm --detail` for one array or every array in /proc/mdstat, as `--- array <device>` sections
+ */
+export function mdDetailCommand(array?: string): string {
+  if (array) {
+    const device = deviceName(array);
+    const path = device.startsWith("/dev/") ? device : `/dev/${device}`;
+    return sh`echo ${`--- array ${path}`}; mdadm --detail ${path} 2>&1`;
+  }
+  return `for md in $(awk '/^md/ { print $1 }' /proc/mdstat); do echo "--- array /dev/$md"; mdadm --detail "/dev/$md" 2>&1; done; true`;
+}
+
+/**
+ * Parse /proc/mdstat (and the sysfs section of MDSTAT_COMMAND) and derive findings
+ */
+export function parseMdstat(output: string): MdStatus {
+  const sysfsAt = output.indexOf("--- sysfs\n");
+  const mdstat = sysfsAt === -1 ? output : output.substring(0, sysfsAt);
+  const mismatches = new Map<string, number>();
+  for (const match of (sysfsAt === -1 ? "" : output.substring(sysfsAt)).matchAll(/^mismatch \/sys\/block\/(md\w+)\/md\/mismatch_cnt (\d+)$/gm)) {
+    mismatches.set(match[1], +match[2]);
+  }
+
+  const arrays: MdArray[] = [];
+  let current: MdArray | null = null;
+  for (const line of mdstat.split("\n")) {
+    const header = line.match(/^(md\w+) : (active|inactive)((?: \((?:auto-)?read-only\))*)(.*)$/);
+    if (header) {
+      const tokens = header[4].trim().split(/\s+/).filter(Boolean);
+      const level = tokens[0] && !tokens[0].includes("[") ? tokens.shift()! : null;
+      current = {
+        name: header[1],
+        state: header[2] as MdArray["state"],
+        readOnly: header[3].length > 0,
+        level,
+        blocks: null,
+        raidDisks: null,
+        workingDisks: null,
+        memberStatus: null,
+        devices: tokens.flatMap(token => {
+          const device = token.match(/^(\S+?)\[(\d+)\]((?:\(\w\))*)$/);
+          if (!device) return [];
+          const flag = device[3].match(/\((F)\)/)?.[1] ?? device[3].match(/\((\w)\)/)?.[1];
+          return [{ name: device[1], role: +device[2], state: (flag && DEVICE_FLAGS[flag]) || "active" }];
+        }).sort((a, b) => a.role - b.role),
+        sync: null,
+        mismatchCount: mismatches.get(header[1]) ?? null,
+      };
+      arrays.push(current);
+      continue;
+    }
+    if (!current) continue;
+    if (!line.trim()) {
+      current = null;
+      continue;
+    }
+    const blocks = line.match(/^\s+(\d+) blocks/);
+    if (blocks) current.blocks = +blocks[1];
+    const members = line.match(/\[(\d+)\/(\d+)\] \[([U_]+)\]/);
+    if (members) {
+      current.raidDisks = +members[1];
+      current.workingDisks = +members[2];
+      current.memberStatus = members[3];
+    }
+    const sync = line.match(/(resync|recovery|check|reshape|repair)\s*=\s*([\d.]+)%.*?finish=(\S+)\s+speed=(\S+)/);
+    const waiting = line.match(/(resync|recovery|check|reshape|repair)\s*=\s*(DELAYED|PENDING)/);
+    if (sync) current.sync = { action: sync[1], percent: +sync[2], finish: sync[3], speed: sync[4] };
+    else if (waiting) current.sync = { action: `${waiting[1]} ${waiting[2].toLowerCase()}`, percent: null, finish: null, speed: null };
+  }
+
+  const findings: MdStatus["findings"] = [];
+  for (const array of arrays) {
+    const add = (severity: MdStatus["findings"][number]["severity"], message: string) => findings.push({ array: array.name, severity, message });
+    if (array.state === "inactive") add("WARNING", "Array is inactive (assembled but not started)");
+    if (array.raidDisks !== null && array.workingDisks !== null && array.workingDisks < array.raidDisks) {
+      const missing = array.raidDisks - array.workingDisks;
+      const survives = REDUNDANCY[array.level ?? ""]?.(array.raidDisks) ?? 0;
+      add(
+        missing >= survives ? "CRITICAL" : "WARNING",
+        `Degraded: ${array.workingDisks} of ${array.raidDisks} devices working [${array.memberStatus}]${missing >= survives ? "; no redundancy left" : ""}`
+      );
+    }
+    for (const device of array.devices.filter(d => d.state === "faulty")) add("CRITICAL", `Member ${device.name} has failed`);
+    if (array.sync) {
+      const progress = array.sync.percent !== null ? ` ${array.sync.percent}% done, finish in ${array.sync.finish} at ${array.sync.speed}` : "";
+      add("INFO", `${array.sync.action}${progress}`);
+    }
+    if (array.readOnly) add("INFO", "Array is read-only");
+    if (array.mismatchCount) add("WARNING", `mismatch_cnt is ${array.mismatchCount} after the last check or repair`);
+  }
+  return { arrays, findings };
+}
+
+/**
+ * Parse the output of mdDetailCommand
+ */
+export function parseMdDetail(output: string): MdDetail[] {
+  const details: MdDetail[] = [];
+  for (const section of output.split(/^--- array /m).slice(1)) {
+    const [array, ...lines] = section.split("\n");
+    const detail: MdDetail = { array: array.trim(), fields: {}, devices: [] };
+    let table = false;
+    for (const line of lines) {
+      if (/^\s*Number\s+Major\s+Minor\s+RaidDevice\s+State/.test(line)) {
+        table = true;
+        continue;
+      }
+      if (table) {
+        const row = line.match(/^\s*(\d+|-)\s+\d+\s+\d+\s+(\d+|-)\s+(.*?)(?:\s+(\/dev\/\S+))?\s*$/);
+        if (row) {
+          detail.devices.push({
+            number: row[1] === "-" ? null : +row[1],
+            raidDevice: row[2] === "-" ? null : +row[2],
+            state: row[3].trim(),
+            device: row[4] ?? null,
+          });
+        }
+        continue;
+      }
+      const field = line.match(/^\s*([A-Za-z][A-Za-z ]*?) : (.*)$/);
+      if (field) detail.fields[field[1]] = field[2].trim();
+    }
+    details.push(detail);
+  }
+  return details;
+}
+
+/**
+ * Findings, then one line per array with its members
+ */
+export function formatMdStatus(status: MdStatus): string {
+  if (status.arrays.length === 0) return "No md arrays\n";
+  let text = "";
+  if (status.findings.length) {
+    text += "Findings:\n";
+    for (const f of status.findings) text += `[${f.severity}] ${f.array}: ${f.message}\n`;
+    text += "\n";
+  }
+  for (const array of status.arrays) {
+    text += `${array.name}: ${array.state}${array.readOnly ? " (read-only)" : ""}${array.level ? ` ${array.level}` : ""}`;
+    if (array.blocks !== null) text += `, ${formatBytes(array.blocks * 1024)}`;
+    if (array.memberStatus) text += `, ${array.workingDisks}/${array.raidDisks} [${array.memberStatus}]`;
+    text += "\n";
+    text += `  Members: ${array.devices.map(d => `${d.name}${d.state === "active" ? "" : ` (${d.state})`}`).join(", ") || "none"}\n`;
+    if (array.sync) text += `  ${array.sync.action}${array.sync.percent !== null ? `: ${array.sync.percent}%, finish ${array.sync.finish}` : ""}\n`;
+  }
+  return text;
+}
+
+export function formatMdDetail(details: MdDetail[]): string {
+  if (details.length === 0) return "No md arrays\n";
+  let text = "";
+  for (const detail of details) {
+    text += `${detail.array}:\n`;
+    for (const key of ["Raid Level", "Array Size", "State", "Active Devices", "Working Devices", "Failed Devices", "Spare Devices", "Rebuild Status", "Reshape Status", "UUID"]) {
+      if (detail.fields[key]) text += `  ${key}: ${detail.fields[key]}\n`;
+    }
+    for (const d of detail.devices) {
+      text += `  ${d.raidDevice ?? "-"}  ${(d.device ?? "-").padEnd(12)} ${d.state}\n`;
+    }
+    if (Object.keys(detail.fields).length === 0) text += "  (no details; mdadm needs root)\n";
+    text += "\n";
+  }
+  return text;
+}
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { SSHExecutor } from "../types.js";
+import {
+  ARC_STATS_COMMAND,
+  datasetsCommand,
+  formatArc,
+  formatDatasets,
+  formatPoolReport,
+  formatScrubStatus,
+  formatSnapshots,
+  parseArcStats,
+  parseDatasets,
+  parsePoolReport,
+  parseScrubStatus,
+  parseSnapshots,
+  poolStatusCommand,
+  scrubStatusCommand,
+  snapshotsCommand,
+} from "./zfs.js";
+
+const zfsActions = ["pool_status", "scrub_status", "datasets", "snapshots", "arc"] as const;
+
+/** zpool history and recursive listings grow with pool age and snapshot count */
+const ZFS_TIMEOUT_MS = 60000;
+
+export function registerZfsTools(server: McpServer, sshExecutor: SSHExecutor): void {
+  server.tool(
+    "zfs",
+    "ZFS pools and datasets. Actions: pool_status (state, capacity, fragmentation, vdev tree with read/write/checksum errors, findings for degraded or faulted vdevs), scrub_status (current scrub/resilver, last completed scrub and its age, scan history), datasets (used, available, compression ratio, space held by snapshots), snapshots (per-dataset totals and newest snapshots with unique space), arc (ARC and L2ARC size and hit ratios).",
+    {
+      action: z.enum(zfsActions).describe("Action"),
+      pool: z.string().optional().describe("Pool name (pool_status, scrub_status, datasets; default all)"),
+      dataset: z.string().optional().describe("Dataset, recursive (snapshots; default all)"),
+      limit: z.number().int().positive().optional().default(20).describe("Max history entries or snapshots listed (scrub_status, snapshots)"),
+      ...outputFiltersSchema.shape,
+    },
+    async (args) => {
+      try {
+        switch (args.action) {
+          case "pool_status": {
+            const poolReport = parsePoolReport(await sshExecutor(poolStatusCommand(args.pool), { timeoutMs: ZFS_TIMEOUT_MS }));
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== ZFS Pools ===\n\n${formatPoolReport(poolReport)}`, args) }],
+              structuredContent: { poolReport },
+            };
+          }
+
+          case "scrub_status": {
+            const status = parseScrubStatus(await sshExecutor(scrubStatusCommand(args.pool), { timeoutMs: ZFS_TIMEOUT_MS }));
+            const limit = args.limit ?? 20;
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== ZFS Scrubs ===\n\n${formatScrubStatus(status, limit)}`, args) }],
+              structuredContent: { scrubs: status.runs.slice(0, limit) },
+            };
+          }
+
+          case "datasets": {
+            const datasets = parseDatasets(await sshExecutor(datasetsCommand(args.pool), { timeoutMs: ZFS_TIMEOUT_MS }));
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== ZFS Datasets ===\n\n${formatDatasets(datasets)}`, args) }],
+              structuredContent: { datasets },
+            };
+          }
+
+          case "snapshots": {
+            const snapshots = parseSnapshots(await sshExecutor(snapshotsCommand(args.dataset), { timeoutMs: ZFS_TIMEOUT_MS }));
+            const limit = args.limit ?? 20;
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== ZFS Snapshots ===\n\n${formatSnapshots(snapshots, limit)}`, args) }],
+              structuredContent: { snapshots: snapshots.slice(0, limit) },
+            };
+          }
+
+          case "arc": {
+            const arc = parseArcStats(await sshExecutor(ARC_STATS_COMMAND));
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== ZFS ARC ===\n\n${formatArc(arc)}`, args) }],
+              structuredContent: { arc },
+            };
+          }
+
+          default:
+            return { content: [{ type: "text", text: `Unknown action: ${args.action}` }], isError: true };
+        }
+      } catch (error) {
+        return { content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    }
+  );
+}
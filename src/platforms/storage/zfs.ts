@@ -0,0 +1,425 @@
+import { ZfsArc, ZfsDataset, ZfsPool, ZfsPoolReport, ZfsScrubRun, ZfsSnapshot, ZfsVdev } from "../../structured.js";
+import { formatBytes } from "../../format.js";
+import { sh, zfsName } from "../../shell.js";
+
+/**
+ * ZFS pools and datasets (OpenZFS on Linux, including Unraid 6.12+ pools)
+ *
+ * Everything is read with the parsable (-H/-p) forms of zpool and zfs where they
+ * exist; `zpool status` has no tabular form and is parsed from its text layout.
+ */
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const VDEV_GROUPS = ["logs", "cache", "spares", "special", "dedup"] as const;
+
+/** Pools fuller than this get slow to allocate */
+const CAPACITY_WARNING_PERCENT = 80;
+const CAPACITY_CRITICAL_PERCENT = 90;
+
+/** Scrub interval most distributions schedule (monthly), plus slack */
+const SCRUB_OVERDUE_DAYS = 35;
+
+/**
+ * `zpool list` capacity columns, then `zpool status` for every pool or one
+ */
+export function poolStatusCommand(pool?: string): string {
+  const name = pool ? [zfsName(pool, "pool")] : [];
+  return [
+    sh`zpool list -Hp -o name,size,allocated,free,fragmentation,capacity,health ${name}`,
+    "echo '--- status'",
+    sh`zpool status -p ${name}`,
+  ].join("; ");
+}
+
+/**
+ * Host clock, `zpool status` and the scan records from each pool's internal history
+ */
+export function scrubStatusCommand(pool?: string): string {
+  const name = pool ? [zfsName(pool, "pool")] : [];
+  return [
+    "echo \"now $(date +%Y-%m-%dT%H:%M:%S)\"",
+    sh`zpool status -p ${name}`,
+    sh`for p in $(zpool list -H -o name ${name}); do echo "--- history $p"; zpool history -i "$p" | grep -E '\\] scan (setup|done|aborted|cancelled)'; done`,
+    "true",
+  ].join("; ");
+}
+
+export function datasetsCommand(pool?: string): string {
+  const name = pool ? ["-r", zfsName(pool)] : [];
+  return sh`zfs list -Hp -t filesystem,volume -o name,type,used,available,referenced,logicalused,usedbysnapshots,compressratio,compression,mountpoint ${name}`;
+}
+
+export function snapshotsCommand(dataset?: string): string {
+  const name = dataset ? ["-r", zfsName(dataset)] : [];
+  return sh`zfs list -Hp -t snapshot -o name,used,referenced,creation -S creation ${name}`;
+}
+
+export const ARC_STATS_COMMAND = "cat /proc/spl/kstat/zfs/arcstats";
+
+/**
+ * Parse a count from zpool status ("0", "12", or a scaled "1.2K" without -p)
+ */
+function parseCount(value: string): number {
+  const match = value.match(/^(\d+(?:\.\d+)?)([KMGTP])?$/);
+  if (!match) return 0;
+  const scale = match[2] ? 1000 ** ("KMGTP".indexOf(match[2]) + 1) : 1;
+  return Math.round(parseFloat(match[1]) * scale);
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined || value === "-" || value === "") return null;
+  const number = parseFloat(value.replace(/[%x]$/, ""));
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * "Sun Oct 11 03:36:45 2026" as a host-local naive time
+ */
+function parseStatusTime(text: string): string | null {
+  const match = text.match(/\w{3} (\w{3})\s+(\d{1,2}) (\d{2}:\d{2}:\d{2}) (\d{4})/);
+  const month = match ? MONTHS.indexOf(match[1]) : -1;
+  if (!match || month === -1) return null;
+  return `${match[4]}-${String(month + 1).padStart(2, "0")}-${match[2].padStart(2, "0")}T${match[3]}`;
+}
+
+/**
+ * Parse the scan: value of zpool status (may span several lines)
+ */
+export function parseScan(text: string): ZfsPool["scan"] {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (!flat || /^none requested/.test(flat)) return null;
+  const type = /^(scrub|resilver)/.test(flat) ? (flat.startsWith("scrub") ? "scrub" : "resilver") : null;
+  if (!type) return null;
+  const state = / in progress since /.test(flat) ? "in progress"
+    : / paused since /.test(flat) ? "paused"
+      : / canceled on /.test(flat) ? "canceled"
+        : "finished";
+  const errors = flat.match(/ with (\d+) errors/);
+  const percent = flat.match(/(\d+(?:\.\d+)?)% done/);
+  return {
+    type,
+    state,
+    at: parseStatusTime(flat),
+    errors: errors ? +errors[1] : null,
+    percentDone: percent ? +percent[1] : state === "finished" ? 100 : null,
+    text: flat,
+  };
+}
+
+function parseVdevs(config: string[], pool: string): ZfsVdev[] {
+  const vdevs: ZfsVdev[] = [];
+  let group: ZfsVdev["group"] = "data";
+  for (const line of config) {
+    const match = line.match(/^\t( *)(\S+)(?:\s+(\S+))?(?:\s+(\S+)\s+(\S+)\s+(\S+))?(?:\s+(.*))?$/);
+    if (!match || match[2] === "NAME") continue;
+    const depth = match[1].length / 2;
+    if (depth === 0 && (VDEV_GROUPS as readonly string[]).includes(match[2]) && !match[3]) {
+      group = match[2] as ZfsVdev["group"];
+      continue;
+    }
+    if (depth === 0 && match[2] === pool) group = "data";
+    vdevs.push({
+      name: match[2],
+      group,
+      depth,
+      state: match[3] ?? "",
+      read: parseCount(match[4] ?? "0"),
+      write: parseCount(match[5] ?? "0"),
+      checksum: parseCount(match[6] ?? "0"),
+      ...(match[7] ? { note: match[7].trim() } : {}),
+    });
+  }
+  return vdevs;
+}
+
+/**
+ * Parse `zpool status` output for one or more pools
+ */
+export function parseZpoolStatus(output: string): ZfsPool[] {
+  const pools: ZfsPool[] = [];
+  for (const block of output.split(/^(?=\s*pool: )/m)) {
+    const fields: Record<string, string> = {};
+    const config: string[] = [];
+    let key: string | null = null;
+    for (const line of block.split("\n")) {
+      const field = line.match(/^\s*(pool|state|status|action|see|scan|config|errors):\s?(.*)$/);
+      if (field) {
+        key = field[1];
+        fields[key] = field[2].trim();
+      } else if (key === "config") {
+        if (line.trim()) config.push(line);
+      } else if (key && line.trim()) {
+        fields[key] += ` ${line.trim()}`;
+      }
+    }
+    if (!fields.pool) continue;
+    pools.push({
+      name: fields.pool,
+      state: fields.state ?? "UNKNOWN",
+      sizeBytes: null,
+      allocatedBytes: null,
+      freeBytes: null,
+      fragmentationPercent: null,
+      capacityPercent: null,
+      ...(fields.status ? { status: fields.status } : {}),
+      ...(fields.action ? { action: fields.action } : {}),
+      scan: parseScan(fields.scan ?? ""),
+      errors: fields.errors ?? "",
+      vdevs: parseVdevs(config, fields.pool),
+    });
+  }
+  return pools;
+}
+
+/**
+ * Parse the output of poolStatusCommand and derive findings
+ */
+export function parsePoolReport(output: string): ZfsPoolReport {
+  const statusAt = output.indexOf("--- status\n");
+  const pools = parseZpoolStatus(statusAt === -1 ? output : output.substring(statusAt));
+  for (const line of (statusAt === -1 ? "" : output.substring(0, statusAt)).split("\n")) {
+    const [name, size, allocated, free, fragmentation, capacity] = line.split("\t");
+    const pool = pools.find(p => p.name === name);
+    if (!pool) continue;
+    pool.sizeBytes = parseNumber(size);
+    pool.allocatedBytes = parseNumber(allocated);
+    pool.freeBytes = parseNumber(free);
+    pool.fragmentationPercent = parseNumber(fragmentation);
+    pool.capacityPercent = parseNumber(capacity);
+  }
+
+  const findings: ZfsPoolReport["findings"] = [];
+  for (const pool of pools) {
+    const add = (severity: ZfsPoolReport["findings"][number]["severity"], message: string) => findings.push({ pool: pool.name, severity, message });
+    if (pool.state !== "ONLINE") add(pool.state === "DEGRADED" ? "WARNING" : "CRITICAL", `Pool is ${pool.state}`);
+    for (const vdev of pool.vdevs.filter(v => v.depth > 0)) {
+      const healthy = vdev.state === "ONLINE" || (vdev.group === "spares" && vdev.state === "AVAIL");
+      if (!healthy) {
+        const severity = vdev.state === "DEGRADED" || vdev.state === "OFFLINE" || vdev.state === "INUSE" ? "WARNING" : "CRITICAL";
+        add(severity, `${vdev.group === "data" ? "" : `${vdev.group} `}vdev ${vdev.name} is ${vdev.state}${vdev.note ? ` (${vdev.note})` : ""}`);
+      }
+      if (vdev.read || vdev.write || vdev.checksum) {
+        add("WARNING", `${vdev.name}: ${vdev.read} read, ${vdev.write} write, ${vdev.checksum} checksum errors`);
+      }
+    }
+    if (pool.errors && !/^No known data errors/.test(pool.errors)) add("CRITICAL", `Data errors: ${pool.errors}`);
+    if (pool.capacityPercent !== null && pool.capacityPercent >= CAPACITY_WARNING_PERCENT) {
+      add(pool.capacityPercent >= CAPACITY_CRITICAL_PERCENT ? "CRITICAL" : "WARNING", `Pool is ${pool.capacityPercent}% full`);
+    }
+    if (pool.scan?.state === "finished" && pool.scan.errors) add("WARNING", `Last ${pool.scan.type} found ${pool.scan.errors} errors`);
+    if (pool.scan?.type === "resilver" && pool.scan.state === "in progress") {
+      add("INFO", `Resilver in progress (${pool.scan.percentDone ?? "?"}% done)`);
+    }
+  }
+  return { pools, findings };
+}
+
+/**
+ * Parse the output of scrubStatusCommand: the host clock, pools and past scans (newest first)
+ * History lines look like `2026-10-11.00:24:01 [txg:123] scan setup func=1 mintxg=0 maxtxg=456`
+ * (func=1 is a scrub, func=2 a resilver).
+ */
+export function parseScrubStatus(output: string): { now: string | null; pools: ZfsPool[]; runs: ZfsScrubRun[] } {
+  const now = output.match(/^now (\S+)$/m)?.[1] ?? null;
+  const historyAt = output.search(/^--- history /m);
+  const pools = parseZpoolStatus(historyAt === -1 ? output : output.substring(0, historyAt));
+  const runs: ZfsScrubRun[] = [];
+  for (const section of historyAt === -1 ? [] : output.substring(historyAt).split(/^--- history /m).slice(1)) {
+    const [pool, ...lines] = section.split("\n");
+    let open: ZfsScrubRun | null = null;
+    for (const line of lines) {
+      const match = line.match(/^(\d{4}-\d{2}-\d{2})\.(\d{2}:\d{2}:\d{2}) \[txg:\d+\] scan (setup|done|aborted|cancelled)(.*)$/);
+      if (!match) continue;
+      const at = `${match[1]}T${match[2]}`;
+      if (match[3] === "setup") {
+        open = { pool: pool.trim(), type: /func=2/.test(match[4]) ? "resilver" : "scrub", startedAt: at, finishedAt: null, errors: null, canceled: false };
+        runs.push(open);
+      } else if (open) {
+        open.finishedAt = at;
+        if (match[3] === "done") open.errors = parseInt(match[4].match(/errors=(\d+)/)?.[1] ?? "0", 10);
+        else open.canceled = true;
+        open = null;
+      }
+    }
+  }
+  return { now, pools, runs: runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt)) };
+}
+
+export function parseDatasets(output: string): ZfsDataset[] {
+  const datasets: ZfsDataset[] = [];
+  for (const line of output.split("\n")) {
+    const [name, type, used, available, referenced, logicalUsed, snapshotUsed, ratio, compression, mountpoint] = line.split("\t");
+    if (mountpoint === undefined || (type !== "filesystem" && type !== "volume")) continue;
+    datasets.push({
+      name,
+      type,
+      usedBytes: parseNumber(used) ?? 0,
+      availableBytes: parseNumber(available) ?? 0,
+      referencedBytes: parseNumber(referenced) ?? 0,
+      logicalUsedBytes: parseNumber(logicalUsed) ?? 0,
+      snapshotUsedBytes: parseNumber(snapshotUsed) ?? 0,
+      compressRatio: parseNumber(ratio) ?? 1,
+      compression,
+      mountpoint: mountpoint === "-" || mountpoint === "none" || mountpoint === "legacy" ? null : mountpoint,
+    });
+  }
+  return datasets;
+}
+
+export function parseSnapshots(output: string): ZfsSnapshot[] {
+  const snapshots: ZfsSnapshot[] = [];
+  for (const line of output.split("\n")) {
+    const [name, used, referenced, creation] = line.split("\t");
+    if (creation === undefined || !name.includes("@")) continue;
+    snapshots.push({
+      name,
+      dataset: name.substring(0, name.indexOf("@")),
+      usedBytes: parseNumber(used) ?? 0,
+      referencedBytes: parseNumber(referenced) ?? 0,
+      createdAt: new Date(parseInt(creation, 10) * 1000).toISOString(),
+    });
+  }
+  return snapshots;
+}
+
+/**
+ * Parse /proc/spl/kstat/zfs/arcstats (`name type value` rows)
+ */
+export function parseArcStats(output: string): ZfsArc {
+  const stats: Record<string, number> = {};
+  for (const line of output.split("\n")) {
+    const match = line.match(/^(\w+)\s+\d+\s+(\d+)$/);
+    if (match) stats[match[1]] = +match[2];
+  }
+  if (stats.size === undefined) throw new Error("ARC statistics not available (is the zfs module loaded?)");
+  const ratio = (hits: number, misses: number) => (hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 10 : null);
+  const l2Size = stats.l2_size ?? 0;
+  return {
+    sizeBytes: stats.size,
+    targetBytes: stats.c ?? 0,
+    minBytes: stats.c_min ?? 0,
+    maxBytes: stats.c_max ?? 0,
+    mruBytes: stats.mru_size ?? 0,
+    mfuBytes: stats.mfu_size ?? 0,
+    hits: stats.hits ?? 0,
+    misses: stats.misses ?? 0,
+    hitRatio: ratio(stats.hits ?? 0, stats.misses ?? 0),
+    l2: l2Size > 0 || stats.l2_hits
+      ? { sizeBytes: l2Size, hits: stats.l2_hits ?? 0, misses: stats.l2_misses ?? 0, hitRatio: ratio(stats.l2_hits ?? 0, stats.l2_misses ?? 0) }
+      : null,
+  };
+}
+
+function formatScan(scan: ZfsPool["scan"]): string {
+  if (!scan) return "none";
+  if (scan.state === "finished") return `${scan.type} finished ${scan.at?.replace("T", " ") ?? ""} with ${scan.errors ?? "?"} errors`;
+  if (scan.state === "in progress") return `${scan.type} in progress, ${scan.percentDone ?? "?"}% done`;
+  return `${scan.type} ${scan.state} ${scan.at?.replace("T", " ") ?? ""}`.trimEnd();
+}
+
+/**
+ * Findings, then each pool with capacity, scan and its vdev tree
+ */
+export function formatPoolReport(report: ZfsPoolReport): string {
+  if (report.pools.length === 0) return "No ZFS pools\n";
+  let text = "";
+  if (report.findings.length) {
+    text += "Findings:\n";
+    for (const f of report.findings) text += `[${f.severity}] ${f.pool}: ${f.message}\n`;
+    text += "\n";
+  }
+  for (const pool of report.pools) {
+    text += `${pool.name}: ${pool.state}`;
+    if (pool.sizeBytes !== null) {
+      text += `, ${formatBytes(pool.allocatedBytes ?? 0)} of ${formatBytes(pool.sizeBytes)} used (${pool.capacityPercent ?? "?"}%)`;
+      if (pool.fragmentationPercent !== null) text += `, ${pool.fragmentationPercent}% fragmented`;
+    }
+    text += `\n  Scan: ${formatScan(pool.scan)}\n`;
+    if (pool.status) text += `  Status: ${pool.status}\n`;
+    if (pool.action) text += `  Action: ${pool.action}\n`;
+    let group = "data";
+    for (const vdev of pool.vdevs.filter(v => v.depth > 0)) {
+      if (vdev.group !== group) {
+        group = vdev.group;
+        text += `  ${group}:\n`;
+      }
+      const errors = vdev.read || vdev.write || vdev.checksum ? ` (errors: ${vdev.read} read, ${vdev.write} write, ${vdev.checksum} checksum)` : "";
+      text += `${"  ".repeat(vdev.depth + (group === "data" ? 0 : 1))}${vdev.name} ${vdev.state}${errors}${vdev.note ? ` ${vdev.note}` : ""}\n`;
+    }
+    text += `  Errors: ${pool.errors || "unknown"}\n\n`;
+  }
+  return text;
+}
+
+/**
+ * Current scan per pool with the age of the last completed scrub, then past scans
+ */
+export function formatScrubStatus(status: ReturnType<typeof parseScrubStatus>, limit: number): string {
+  let text = "";
+  for (const pool of status.pools) {
+    text += `${pool.name}: ${formatScan(pool.scan)}\n`;
+    const last = status.runs.find(r => r.pool === pool.name && r.type === "scrub" && r.finishedAt && !r.canceled);
+    if (last && status.now) {
+      const days = Math.floor((Date.parse(`${status.now}Z`) - Date.parse(`${last.finishedAt}Z`)) / 86400000);
+      text += `  Last completed scrub: ${last.finishedAt!.replace("T", " ")} (${days} days ago)`;
+      text += days > SCRUB_OVERDUE_DAYS ? ` [WARNING] more than ${SCRUB_OVERDUE_DAYS} days\n` : "\n";
+    } else if (!last) {
+      text += "  No completed scrub in the pool history\n";
+    }
+  }
+  const runs = status.runs.slice(0, limit);
+  if (runs.length) {
+    text += "\nHistory:\n";
+    for (const run of runs) {
+      const minutes = run.finishedAt ? Math.round((Date.parse(`${run.finishedAt}Z`) - Date.parse(`${run.startedAt}Z`)) / 60000) : null;
+      const outcome = run.canceled ? "canceled" : run.finishedAt ? `${run.errors ?? 0} errors, ${minutes} min` : "running or interrupted";
+      text += `${run.startedAt.replace("T", " ")}  ${run.pool}  ${run.type}  ${outcome}\n`;
+    }
+  }
+  return text || "No ZFS pools\n";
+}
+
+export function formatDatasets(datasets: ZfsDataset[]): string {
+  if (datasets.length === 0) return "No datasets\n";
+  let text = "NAME  USED  AVAIL  REFER  RATIO  SNAPSHOTS  MOUNTPOINT\n";
+  for (const d of datasets) {
+    text += `${d.name}  ${formatBytes(d.usedBytes)}  ${formatBytes(d.availableBytes)}  ${formatBytes(d.referencedBytes)}  `;
+    text += `${d.compressRatio.toFixed(2)}x  ${formatBytes(d.snapshotUsedBytes)}  ${d.mountpoint ?? "-"}\n`;
+  }
+  const roots = datasets.filter(d => !datasets.some(p => d.name.startsWith(`${p.name}/`)));
+  const saved = roots.reduce((sum, d) => sum + Math.max(0, d.logicalUsedBytes - d.usedBytes), 0);
+  text += `\nCompression saves ${formatBytes(saved)} across ${roots.map(d => d.name).join(", ")}\n`;
+  return text;
+}
+
+/**
+ * Space held by snapshots per dataset, then the newest snapshots
+ */
+export function formatSnapshots(snapshots: ZfsSnapshot[], limit: number): string {
+  if (snapshots.length === 0) return "No snapshots\n";
+  const perDataset = new Map<string, { count: number; bytes: number }>();
+  for (const s of snapshots) {
+    const entry = perDataset.get(s.dataset) ?? { count: 0, bytes: 0 };
+    perDataset.set(s.dataset, { count: entry.count + 1, bytes: entry.bytes + s.usedBytes });
+  }
+  let text = `Snapshots: ${snapshots.length}\n`;
+  for (const [dataset, { count, bytes }] of [...perDataset].sort((a, b) => b[1].bytes - a[1].bytes)) {
+    text += `  ${dataset}: ${count} snapshots, ${formatBytes(bytes)} unique\n`;
+  }
+  text += `\nNewest${snapshots.length > limit ? ` ${limit}` : ""}:\n`;
+  for (const s of snapshots.slice(0, limit)) {
+    text += `${s.createdAt.slice(0, 16).replace("T", " ")}  ${formatBytes(s.usedBytes).padStart(10)}  ${s.name}\n`;
+  }
+  return text;
+}
+
+export function formatArc(arc: ZfsArc): string {
+  let text = `ARC size: ${formatBytes(arc.sizeBytes)} (target ${formatBytes(arc.targetBytes)}, min ${formatBytes(arc.minBytes)}, max ${formatBytes(arc.maxBytes)})\n`;
+  text += `MRU: ${formatBytes(arc.mruBytes)}, MFU: ${formatBytes(arc.mfuBytes)}\n`;
+  text += `Hit ratio: ${arc.hitRatio ?? "n/a"}% (${arc.hits} hits, ${arc.misses} misses)\n`;
+  text += arc.l2
+    ? `L2ARC: ${formatBytes(arc.l2.sizeBytes)}, hit ratio ${arc.l2.hitRatio ?? "n/a"}% (${arc.l2.hits} hits, ${arc.l2.misses} misses)\n`
+    : "L2ARC: none\n";
+  return text;
+}
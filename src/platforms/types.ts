@@ -1,16 +1,38 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
+/**
+ * Per-call execution options
+ * Tools set these for commands whose runtime or output size depends on their arguments
+ */
+export interface CommandOptions {
+  /** Timeout for this command (default: COMMAND_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Maximum stdout bytes before the command is stopped and output truncated (default: MAX_OUTPUT_BYTES) */
+  maxOutputBytes?: number;
+  /** Receives stdout chunks as they arrive, for streaming progress to the client */
+  onOutput?: (chunk: string) => void;
+  /** Aborting stops the remote command and rejects with a cancellation error */
+  signal?: AbortSignal;
+}
+
 /**
  * Function type for executing SSH commands
  */
-export type SSHExecutor = (command: string) => Promise<string>;
+export type SSHExecutor = (command: string, options?: CommandOptions) => Promise<string>;
+
+/**
+ * Storage stacks that get their own tool module when present
+ */
+export type StorageSubsystem = "zfs" | "btrfs" | "mdraid" | "lvm";
 
 /**
  * Platform capabilities describing what features are available
  */
 export interface PlatformCapability {
-  /** Storage subsystem type */
-  storage: "zfs" | "btrfs" | "mdraid" | "lvm" | "ext4" | "none";
+  /** Primary storage subsystem type */
+  storage: StorageSubsystem | "ext4" | "none";
+  /** Every storage subsystem detected on the host, when probed (e.g. ZFS pools next to the Unraid array) */
+  storageSubsystems?: StorageSubsystem[];
   /** Virtualization technology */
   virtualization: "kvm" | "lxc" | "bhyve" | "none";
   /** Container runtime */
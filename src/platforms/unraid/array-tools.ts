@@ -2,20 +2,75 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFilters, applyFiltersToText, outputFiltersSchema } from "../../filters.js";
 import { SSHExecutor } from "../types.js";
+import { deviceName as validDevice, sh, shareName } from "../../shell.js";
+import { formatArrayStatus, formatLastSync, formatResync, parseMdcmd } from "../../mdcmd.js";
+import { formatSmartDrive, readSmartDrive } from "../../smart.js";
+import {
+  analyzeParityHistory,
+  formatParityHistory,
+  loadParityCheckMaxAgeDays,
+  parseParityLog,
+  parseParitySchedule,
+} from "./parity-history.js";
+import {
+  formatCacheProjection,
+  formatMoverRun,
+  formatMoverSchedule,
+  formatPendingFiles,
+  formatShareCacheSettings,
+  projectCacheFill,
+  readMoverLog,
+  readMoverSettings,
+  readPoolUsage,
+  scanPendingFiles,
+  sharesToMove,
+  sizeMoverRuns,
+} from "./mover.js";
+import {
+  SHARE_REPORT_COMMAND,
+  formatShareReport,
+  parseShareConfigs,
+  parseShareReport,
+  shareConfigsCommand,
+} from "./share-config.js";
+
+/** Budget for du walks over user shares */
+const DISK_SCAN_TIMEOUT_MS = 10 * 60 * 1000;
 
 const unraidActions = [
   "array_status", "smart", "temps", "shares", "share_usage",
   "parity_status", "parity_history", "sync_status", "spin_status",
-  "unclean_check", "mover_status", "mover_log", "cache_usage", "split_level"
+  "unclean_check", "mover_status", "mover_log", "mover_pending", "cache_usage", "split_level"
 ] as const;
 
+/** Host clock, parity check log and schedule, as sections of one command's output */
+const PARITY_HISTORY_COMMAND = [
+  "date '+now %Y-%m-%dT%H:%M:%S'",
+  "echo '--- log'",
+  "cat /boot/config/parity-checks.log 2>/dev/null",
+  "echo '--- schedule'",
+  "cat /boot/config/plugins/dynamix/parity-check.cron 2>/dev/null",
+  "true",
+].join("; ");
+
+/**
+ * Read md driver status, falling back to `mdcmd status` when /proc/mdcmd is unreadable
+ */
+async function readMdcmd(sshExecutor: SSHExecutor): Promise<string> {
+  try {
+    return await sshExecutor("cat /proc/mdcmd");
+  } catch {
+    return await sshExecutor("mdcmd status");
+  }
+}
+
 export function registerUnraidArrayTools(
   server: McpServer,
   sshExecutor: SSHExecutor
 ): void {
   server.tool(
     "unraid",
-    "Unraid array/storage ops. Actions: array_status (state), smart (drive diag), temps (all temps), shares (list), share_usage (disk usage), parity_status/parity_history (parity info), sync_status (rebuild), spin_status (spin state), unclean_check (shutdown), mover_status/mover_log (mover), cache_usage, split_level (share cfg).",
+    "Unraid array/storage ops. Actions: array_status (state), smart (drive diag), temps (all temps), shares (settings, per-disk distribution, misconfigurations), share_usage (disk usage), parity_status (parity info), parity_history (parsed check log, stats, next scheduled check), sync_status (rebuild), spin_status (spin state), unclean_check (shutdown), mover_status (running, schedule, share cache settings), mover_log (parsed runs: files, bytes, errors), mover_pending (files on cache waiting to move), cache_usage (pools and fill projection), split_level (share cfg).",
     {
       action: z.enum(unraidActions).describe("Action"),
       device: z.string().optional().describe("Device"),
@@ -28,27 +83,20 @@ export function registerUnraidArrayTools(
       try {
         switch (args.action) {
           case "array_status": {
-            let output: string;
-            try {
-              let cmd = applyFilters("cat /proc/mdcmd", args);
-              output = await sshExecutor(cmd);
-            } catch {
-              let cmd = applyFilters("mdcmd status", args);
-              output = await sshExecutor(cmd);
-            }
-            return { content: [{ type: "text", text: `Array Status:\n\n${output}` }] };
+            const array = parseMdcmd(await readMdcmd(sshExecutor));
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`Array Status:\n\n${formatArrayStatus(array)}`, args) }],
+              structuredContent: { array },
+            };
           }
 
           case "smart": {
             if (!args.device) return { content: [{ type: "text", text: "Error: device required" }], isError: true };
-            const isNvme = args.device.startsWith("nvme");
-            const devicePath = `/dev/${args.device}`;
-            let cmd = isNvme
-              ? `smartctl -a -d nvme ${devicePath}`
-              : `smartctl -a -d ata ${devicePath} || smartctl -a ${devicePath}`;
-            cmd = applyFilters(cmd, args);
-            const output = await sshExecutor(cmd);
-            return { content: [{ type: "text", text: `SMART - ${args.device}:\n\n${output}` }] };
+            const drive = await readSmartDrive(sshExecutor, args.device);
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`SMART - ${args.device}:\n\n${formatSmartDrive(drive)}`, args) }],
+              structuredContent: { drive },
+            };
           }
 
           case "temps": {
@@ -67,9 +115,10 @@ export function registerUnraidArrayTools(
                   const deviceName = devicePath.replace("/dev/", "");
                   try {
                     const isNvme = deviceName.startsWith("nvme");
+                    const device = validDevice(devicePath);
                     const smartCmd = isNvme
-                      ? `smartctl -A -d nvme ${devicePath} | grep -i temperature || smartctl -A ${devicePath} | grep -i temperature`
-                      : `smartctl -A -d ata ${devicePath} | grep -i temperature || smartctl -A ${devicePath} | grep -i temperature`;
+                      ? sh`smartctl -A -d nvme ${device} | grep -i temperature || smartctl -A ${device} | grep -i temperature`
+                      : sh`smartctl -A -d ata ${device} | grep -i temperature || smartctl -A ${device} | grep -i temperature`;
                     const temp = await sshExecutor(smartCmd);
                     output += `${deviceName}:\n${temp}\n\n`;
                   } catch { output += `${deviceName}: Unable to read\n\n`; }
@@ -80,46 +129,38 @@ export function registerUnraidArrayTools(
           }
 
           case "shares": {
-            let cmd = applyFilters("ls -la /mnt/user/", args);
-            const output = await sshExecutor(cmd);
-            return { content: [{ type: "text", text: `Shares:\n\n${output}` }] };
+            const shareReport = parseShareReport(await sshExecutor(SHARE_REPORT_COMMAND, { timeoutMs: DISK_SCAN_TIMEOUT_MS }));
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== Shares ===\n\n${formatShareReport(shareReport)}`, args) }],
+              structuredContent: { shareReport },
+            };
           }
 
           case "share_usage": {
             let cmd: string, title: string;
             if (args.share) {
-              await sshExecutor(`test -d /mnt/user/${args.share}`);
-              cmd = `du -sh /mnt/user/${args.share}`;
+              const sharePath = `/mnt/user/${shareName(args.share)}`;
+              await sshExecutor(sh`test -d ${sharePath}`);
+              cmd = sh`du -sh ${sharePath}`;
               title = `Share Usage - ${args.share}`;
             } else {
               cmd = "du -sh /mnt/user/*";
               title = "All Shares Usage";
             }
             cmd = applyFilters(cmd, args);
-            const output = await sshExecutor(cmd);
+            const output = await sshExecutor(cmd, { timeoutMs: DISK_SCAN_TIMEOUT_MS });
             return { content: [{ type: "text", text: `${title}:\n\n${output}` }] };
           }
 
           case "parity_status": {
             let output = "=== Parity Status ===\n\n";
             try {
-              const mdcmd = await sshExecutor("cat /proc/mdcmd");
-              const lines = mdcmd.split("\n");
-              const mdState = lines.find(l => l.startsWith("mdState="))?.split("=")[1];
-              const mdResync = lines.find(l => l.startsWith("mdResync="))?.split("=")[1];
-              const mdResyncPos = lines.find(l => l.startsWith("mdResyncPos="))?.split("=")[1];
-              const mdResyncSize = lines.find(l => l.startsWith("mdResyncSize="))?.split("=")[1];
-              const mdResyncAction = lines.find(l => l.startsWith("mdResyncAction="))?.split("=")[1];
-              output += `State: ${mdState || "Unknown"}\n`;
-              output += `Resync: ${mdResync === "0" ? "Not running" : "In progress"}\n`;
-              if (mdResync !== "0" && mdResyncPos && mdResyncSize) {
-                const pos = parseInt(mdResyncPos), size = parseInt(mdResyncSize);
-                if (size > 0) {
-                  output += `Action: ${mdResyncAction || "Parity Check"}\n`;
-                  output += `Progress: ${((pos / size) * 100).toFixed(2)}%\n`;
-                }
-              }
-            } catch { output += "Could not read /proc/mdcmd\n"; }
+              const array = parseMdcmd(await readMdcmd(sshExecutor));
+              const parity = array.disks.filter(d => d.role !== "data");
+              output += `State: ${array.state || "Unknown"}\n`;
+              output += `Parity disks: ${parity.length ? parity.map(d => `${d.device || "-"} (${d.status})`).join(", ") : "none"}\n`;
+              output += formatResync(array.resync) + formatLastSync(array);
+            } catch { output += "Could not read /proc/mdcmd or mdcmd status\n"; }
             try {
               const syslog = await sshExecutor("grep -i 'parity' /var/log/syslog | tail -n 20 || echo 'No entries'");
               output += "\n=== Recent Parity Logs ===\n\n" + syslog;
@@ -128,28 +169,33 @@ export function registerUnraidArrayTools(
           }
 
           case "parity_history": {
-            const limit = args.limit ?? 5;
-            let output = `=== Parity History (Last ${limit}) ===\n\n`;
-            try {
-              let cmd = applyFilters(`(cat /var/log/syslog; zcat /var/log/syslog.*.gz 2>/dev/null) | grep -i 'parity.*\\(finish\\|complete\\|done\\|error\\)' | tail -n ${limit * 3}`, args);
-              const logs = await sshExecutor(cmd);
-              output += logs.trim() ? logs : "No history found.\n";
-            } catch { output += "Could not retrieve history.\n"; }
-            return { content: [{ type: "text", text: output }] };
+            const output = await sshExecutor(PARITY_HISTORY_COMMAND);
+            const now = output.match(/^now (\S+)/m)?.[1];
+            if (!now) return { content: [{ type: "text", text: "Error: could not read the host clock" }], isError: true };
+            const logStart = output.indexOf("--- log\n") + "--- log\n".length;
+            const scheduleStart = output.indexOf("--- schedule\n");
+            const history = analyzeParityHistory(
+              parseParityLog(output.substring(logStart, scheduleStart)),
+              parseParitySchedule(output.substring(scheduleStart + "--- schedule\n".length), now),
+              now,
+              loadParityCheckMaxAgeDays()
+            );
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== Parity History ===\n\n${formatParityHistory(history, args.limit ?? 5)}`, args) }],
+              structuredContent: { parityHistory: history },
+            };
           }
 
           case "sync_status": {
             let output = "=== Sync/Rebuild Status ===\n\n";
-            let cmd = applyFilters("cat /proc/mdcmd | grep -E '(mdState|mdResyncPos|mdResync|mdResyncAction|mdResyncSize)'", args);
-            const mdcmd = await sshExecutor(cmd);
-            output += mdcmd.trim() ? `${mdcmd}\n\n` : "No sync info.\n\n";
-            const mdResync = mdcmd.split("\n").find(l => l.startsWith("mdResync="))?.split("=")[1];
-            output += mdResync === "0" ? "No sync in progress.\n" : "Sync in progress!\n";
-            try {
-              const mdstat = await sshExecutor("cat /proc/mdstat");
-              output += "\n=== MD Status ===\n\n" + mdstat;
-            } catch {}
-            return { content: [{ type: "text", text: output }] };
+            const array = parseMdcmd(await readMdcmd(sshExecutor));
+            output += `State: ${array.state || "Unknown"}\n`;
+            output += formatResync(array.resync);
+            // Slots a rebuild or clear is writing to
+            const targets = array.disks.filter(d => ["DISK_INVALID", "DISK_DSBL_NEW", "DISK_NEW"].includes(d.status));
+            for (const d of targets) output += `Target: ${d.name || `slot ${d.slot}`} (${d.device || "-"}) ${d.status}\n`;
+            output += array.resync?.active ? "Sync in progress!\n" : "No sync in progress.\n";
+            return { content: [{ type: "text", text: applyFiltersToText(output, args) }], structuredContent: { array } };
           }
 
           case "spin_status": {
@@ -161,7 +207,7 @@ export function registerUnraidArrayTools(
               for (const device of deviceList) {
                 const deviceName = device.replace("/dev/", "");
                 try {
-                  const status = await sshExecutor(`hdparm -C ${device} 2>/dev/null`);
+                  const status = await sshExecutor(sh`hdparm -C ${validDevice(device)} 2>/dev/null`);
                   const statusLine = status.split("\n").find(l => l.includes("drive state"));
                   output += `${deviceName}: ${statusLine ? statusLine.trim() : status.trim()}\n`;
                 } catch { output += `${deviceName}: Unable to check\n`; }
@@ -200,56 +246,54 @@ export function registerUnraidArrayTools(
               output += proc.trim() ? `Status: RUNNING\n\n${proc}\n` : "Status: Not running\n\n";
             } catch { output += "Could not check process\n\n"; }
             try {
-              const logs = await sshExecutor("grep -i 'mover' /var/log/syslog | tail -n 10 || echo 'No activity'");
-              output += "=== Recent Activity ===\n\n" + logs;
+              const settings = await readMoverSettings(sshExecutor);
+              output += formatMoverSchedule(settings);
+              const { runs } = await readMoverLog(sshExecutor);
+              const last = runs[runs.length - 1];
+              output += last ? `Last run: ${formatMoverRun(last)}` : "Last run: none in syslog\n";
+              output += "\n=== Share Cache Settings ===\n\n" + formatShareCacheSettings(settings.shares);
             } catch {}
             return { content: [{ type: "text", text: applyFiltersToText(output, args) }] };
           }
 
           case "mover_log": {
-            const lines = args.lines ?? 100;
-            let cmd = applyFilters(`grep -i 'mover' /var/log/syslog | tail -n ${lines}`, args);
-            const logs = await sshExecutor(cmd);
-            const output = logs.trim() ? logs : "No mover log entries.\n";
-            return { content: [{ type: "text", text: `Mover Log (${lines} lines):\n\n${output}` }] };
+            const limit = args.limit ?? 5;
+            const { runs } = await readMoverLog(sshExecutor);
+            const recent = runs.slice(-limit);
+            await sizeMoverRuns(sshExecutor, recent);
+            const output = recent.length
+              ? recent.reverse().map(formatMoverRun).join("")
+              : "No mover runs in syslog (enable Mover logging to see moved files)\n";
+            return { content: [{ type: "text", text: applyFiltersToText(`Mover Runs (last ${recent.length} of ${runs.length}):\n\n${output}`, args) }] };
+          }
+
+          case "mover_pending": {
+            const settings = await readMoverSettings(sshExecutor);
+            let shares = sharesToMove(settings.shares);
+            if (args.share) shares = shares.filter(s => s.name === shareName(args.share!));
+            const pending = await scanPendingFiles(sshExecutor, shares, args.lines ?? 100);
+            const output = `=== Mover Pending ===\n\n${formatMoverSchedule(settings)}\n${formatPendingFiles(pending, settings.shares, true)}`;
+            return { content: [{ type: "text", text: applyFiltersToText(output, args) }] };
           }
 
           case "cache_usage": {
             let output = "=== Cache Usage ===\n\n";
-            try {
-              output += await sshExecutor("df -h /mnt/cache 2>/dev/null || df -h /mnt/cache* 2>/dev/null || echo 'Cache not mounted'") + "\n\n";
-            } catch { output += "Could not get cache usage\n\n"; }
-            try {
-              const breakdown = await sshExecutor("du -sh /mnt/cache/* 2>/dev/null || echo 'No contents'");
-              output += "=== Cache Contents ===\n\n" + breakdown;
-            } catch {}
+            const pools = await readPoolUsage(sshExecutor);
+            const settings = await readMoverSettings(sshExecutor);
+            const pending = await scanPendingFiles(sshExecutor, sharesToMove(settings.shares), 0);
+            output += formatMoverSchedule(settings) + "\n";
+            output += formatCacheProjection(projectCacheFill(pools, pending, settings), settings);
+            output += "\n=== Waiting for Mover ===\n\n" + formatPendingFiles(pending, settings.shares, false);
             return { content: [{ type: "text", text: applyFiltersToText(output, args) }] };
           }
 
           case "split_level": {
-            let output = "";
-            if (args.share) {
-              output = `=== Split Level - ${args.share} ===\n\n`;
-              try {
-                const cfg = await sshExecutor(`cat /boot/config/shares/${args.share}.cfg 2>/dev/null || echo 'Not found'`);
-                output += cfg + "\n";
-              } catch { output += "Could not read config\n"; }
-            } else {
-              output = "=== Split Level - All Shares ===\n\n";
-              try {
-                const cfgs = await sshExecutor("ls -1 /boot/config/shares/*.cfg 2>/dev/null || echo 'No configs'");
-                const files = cfgs.trim().split("\n").filter(f => f.endsWith(".cfg"));
-                for (const file of files) {
-                  const name = file.split("/").pop()?.replace(".cfg", "") || "unknown";
-                  output += `--- ${name} ---\n`;
-                  try {
-                    const cfg = await sshExecutor(`cat "${file}"`);
-                    const splitLevel = cfg.split("\n").find(l => l.includes("splitLevel"));
-                    output += splitLevel ? `  ${splitLevel}\n` : "  splitLevel: not set\n";
-                  } catch { output += "  Could not read\n"; }
-                  output += "\n";
-                }
-              } catch { output += "Could not list configs\n"; }
+            const shares = parseShareConfigs(await sshExecutor(shareConfigsCommand(args.share)));
+            let output = `=== Split Level - ${args.share ?? "All Shares"} ===\n\n`;
+            if (shares.length === 0) output += args.share ? "Not found\n" : "No share configs\n";
+            for (const share of shares) {
+              output += `${share.name}: split level ${share.splitLevel || "any"}, allocator ${share.allocator}`;
+              output += `, include ${share.includeDisks.join(",") || "all"}, exclude ${share.excludeDisks.join(",") || "none"}\n`;
             }
             return { content: [{ type: "text", text: applyFiltersToText(output, args) }] };
           }
@@ -0,0 +1,377 @@
+import { DockerTemplate, TemplateDrift } from "../../structured.js";
+import { dockerName, fileName, sh } from "../../shell.js";
+
+/**
+ * Unraid dockerMan templates (/boot/config/plugins/dockerMan/templates-user/my-<name>.xml)
+ * and their drift from the containers created from them
+ *
+ * Version 2 templates describe ports, paths, variables, devices and labels as
+ * <Config Type="..."> elements; older ones use <Networking>, <Data> and
+ * <Environment> blocks, which are read when no <Config> elements are present.
+ */
+
+export const TEMPLATES_DIR = "/boot/config/plugins/dockerMan/templates-user";
+
+/** Networks on which Unraid does not publish ports (host, macvlan/ipvlan bridges, another container) */
+const UNPUBLISHED_NETWORK = /^(host|none|container:.*|br\d+(\.\d+)?|eth\d+(\.\d+)?|bond\d+(\.\d+)?|wg\d+)$/;
+
+/**
+ * Command printing template files as `--- template <path>` sections
+ * Reads every user template, or only `template` (name or file name) when given.
+ */
+export function templatesCommand(template?: string): string {
+  if (!template) {
+    return `for f in ${TEMPLATES_DIR}/*.xml; do [ -f "$f" ] || continue; echo "--- template $f"; cat "$f"; echo; done; true`;
+  }
+  return sh`for f in ${templatePaths(template)}; do [ -f "$f" ] || continue; echo "--- template $f"; cat "$f"; echo; break; done; true`;
+}
+
+/**
+ * Candidate files for a template given as plex, my-plex or my-plex.xml
+ */
+function templatePaths(template: string): string[] {
+  const name = fileName(template, "template name").replace(/\.xml$/, "");
+  const candidates = [name, ...(name.startsWith("my-") ? [] : [`my-${name}`])];
+  return candidates.map(c => `${TEMPLATES_DIR}/${c}.xml`);
+}
+
+/**
+ * docker inspect of every container, or of one (an empty list when it does not exist)
+ */
+export function inspectContainersCommand(container?: string): string {
+  if (container) return sh`docker inspect ${dockerName(container)} 2>/dev/null; true`;
+  return `ids=$(docker ps -aq); if [ -n "$ids" ]; then docker inspect $ids; else echo '[]'; fi`;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Text of the first <tag> in `xml` ("" when empty or self-closing, undefined when absent)
+ */
+function tagText(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</${tag}>)`));
+  return match ? decodeEntities(match[1] ?? "").trim() : undefined;
+}
+
+/**
+ * Every <tag>...</tag> block in `xml`
+ */
+function tagBlocks(xml: string, tag: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "g"))].map(m => m[1]);
+}
+
+function attributes(text: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g)) attrs[match[1]] = decodeEntities(match[2]);
+  return attrs;
+}
+
+/**
+ * Parse one dockerMan template
+ */
+export function parseDockerTemplate(xml: string, file = ""): DockerTemplate {
+  // <Config> values describe the container; drop them before reading top-level tags
+  const configs = [...xml.matchAll(/<Config\s([^>]*?)(?:\/>|>([\s\S]*?)<\/Config>)/g)].map(m => ({
+    attrs: attributes(m[1]),
+    value: decodeEntities(m[2] ?? "").trim(),
+  }));
+  const top = xml.replace(/<Config\s[^>]*?(?:\/>|>[\s\S]*?<\/Config>)/g, "");
+
+  const template: DockerTemplate = {
+    file,
+    name: tagText(top, "Name") ?? "",
+    repository: tagText(top, "Repository") ?? "",
+    network: tagText(top, "Network") || tagText(tagText(top, "Networking") ?? "", "Mode") || "bridge",
+    privileged: (tagText(top, "Privileged") ?? "").toLowerCase() === "true",
+    extraParams: tagText(top, "ExtraParams") ?? "",
+    postArgs: tagText(top, "PostArgs") ?? "",
+    ports: [],
+    paths: [],
+    variables: [],
+    devices: [],
+    labels: [],
+  };
+  const fixedIp = tagText(top, "MyIP");
+  if (fixedIp) template.fixedIp = fixedIp;
+  const cpuset = tagText(top, "CPUset");
+  if (cpuset) template.cpuset = cpuset;
+  const webUi = tagText(top, "WebUI");
+  if (webUi) template.webUi = webUi;
+
+  for (const { attrs, value } of configs) {
+    const name = attrs.Name ?? "";
+    // An empty value falls back to the default, as in the dockerMan UI
+    const setting = value || attrs.Default || "";
+    switch (attrs.Type) {
+      case "Port":
+        template.ports.push({ name, containerPort: attrs.Target ?? "", hostPort: setting, protocol: attrs.Mode || "tcp" });
+        break;
+      case "Path":
+        template.paths.push({ name, containerPath: attrs.Target ?? "", hostPath: setting, mode: attrs.Mode || "rw" });
+        break;
+      case "Variable":
+        template.variables.push({ name, key: attrs.Target ?? "", value: setting, masked: attrs.Mask === "true" });
+        break;
+      case "Device":
+        template.devices.push({ name, hostPath: setting });
+        break;
+      case "Label":
+        template.labels.push({ name, key: attrs.Target ?? "", value: setting });
+        break;
+    }
+  }
+
+  if (configs.length === 0) {
+    for (const port of tagBlocks(top, "Port")) {
+      template.ports.push({
+        name: "",
+        containerPort: tagText(port, "ContainerPort") ?? "",
+        hostPort: tagText(port, "HostPort") ?? "",
+        protocol: tagText(port, "Protocol") || "tcp",
+      });
+    }
+    for (const volume of tagBlocks(top, "Volume")) {
+      template.paths.push({
+        name: "",
+        containerPath: tagText(volume, "ContainerDir") ?? "",
+        hostPath: tagText(volume, "HostDir") ?? "",
+        mode: tagText(volume, "Mode") || "rw",
+      });
+    }
+    for (const variable of tagBlocks(top, "Variable")) {
+      template.variables.push({ name: "", key: tagText(variable, "Name") ?? "", value: tagText(variable, "Value") ?? "", masked: false });
+    }
+  }
+  return template;
+}
+
+/**
+ * Parse the output of templatesCommand, sorted by container name
+ * Files that are not container templates are skipped.
+ */
+export function parseDockerTemplates(output: string): DockerTemplate[] {
+  const templates: DockerTemplate[] = [];
+  for (const section of output.split(/^--- template /m).slice(1)) {
+    const newline = section.indexOf("\n");
+    const path = (newline === -1 ? section : section.substring(0, newline)).trim();
+    const xml = newline === -1 ? "" : section.substring(newline + 1);
+    if (!/<Container[\s>]/.test(xml)) continue;
+    templates.push(parseDockerTemplate(xml, path.split("/").pop()!));
+  }
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Image reference as docker reports it: no docker.io/library prefix, :latest when untagged
+ */
+export function normalizeImage(reference: string): string {
+  let image = reference.trim().replace(/^(docker\.io|index\.docker\.io|registry-1\.docker\.io)\//, "").replace(/^library\//, "");
+  if (image.includes("@")) return image;
+  if (!image.substring(image.lastIndexOf("/") + 1).includes(":")) image += ":latest";
+  return image;
+}
+
+function trimSlash(path: string): string {
+  return path.length > 1 ? path.replace(/\/+$/, "") : path;
+}
+
+/**
+ * Bytes from a docker memory size (512m, 4g, 1073741824)
+ */
+function parseMemory(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)([bkmgt]?)b?$/i);
+  if (!match) return null;
+  const power = "bkmgt".indexOf((match[2] || "b").toLowerCase());
+  return Math.round(parseFloat(match[1]) * 1024 ** power);
+}
+
+/**
+ * Options in ExtraParams that docker inspect reports back, as option -> value
+ */
+function extraOptions(extraParams: string): Map<string, string> {
+  const options = new Map<string, string>();
+  const words = extraParams.match(/(?:[^\s"']+|"[^"]*"|'[^']*')+/g) ?? [];
+  const aliases: Record<string, string> = { "-m": "--memory", "-h": "--hostname" };
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i].replace(/["']/g, "");
+    const [flag, inline] = word.includes("=") ? [word.substring(0, word.indexOf("=")), word.substring(word.indexOf("=") + 1)] : [word, undefined];
+    const option = aliases[flag] ?? flag;
+    if (!["--restart", "--memory", "--cpus", "--runtime", "--hostname"].includes(option)) continue;
+    const value = inline ?? words[++i]?.replace(/["']/g, "");
+    if (value !== undefined) options.set(option, value);
+  }
+  return options;
+}
+
+/**
+ * Compare templates with `docker inspect` of their containers
+ *
+ * Checks image, network (and fixed IP), published ports, path mappings,
+ * template variables, devices, labels, privileged mode, CPU pinning and the
+ * ExtraParams options inspect reports (--restart, --memory, --cpus, --runtime,
+ * --hostname). Variables and labels only present on the container are not
+ * reported: images and Unraid add their own. Templates whose container does
+ * not exist are returned in `missing` rather than as drift, since templates-user
+ * keeps templates of removed containers for reinstalling.
+ */
+export function templateDrift(templates: DockerTemplate[], containers: any[]): { drift: TemplateDrift[]; missing: string[] } {
+  const drift: TemplateDrift[] = [];
+  const missing: string[] = [];
+  const byName = new Map(containers.map(c => [String(c.Name ?? "").replace(/^\//, ""), c]));
+
+  for (const template of templates) {
+    const container = byName.get(template.name);
+    if (!container) {
+      missing.push(template.name);
+      continue;
+    }
+    const add = (field: string, expected: string, actual: string) => {
+      if (expected !== actual) drift.push({ container: template.name, field, expected, actual });
+    };
+    const hostConfig = container.HostConfig ?? {};
+    const config = container.Config ?? {};
+
+    add("image", normalizeImage(template.repository), normalizeImage(config.Image ?? ""));
+
+    const networkMode = hostConfig.NetworkMode === "default" ? "bridge" : hostConfig.NetworkMode ?? "";
+    add("network", template.network, networkMode);
+    if (template.fixedIp) {
+      add("fixed IP", template.fixedIp, container.NetworkSettings?.Networks?.[template.network]?.IPAMConfig?.IPv4Address || "(none)");
+    }
+
+    if (!UNPUBLISHED_NETWORK.test(template.network)) {
+      const expectedPorts = template.ports
+        .filter(p => p.hostPort && p.containerPort)
+        .map(p => `${p.hostPort}:${p.containerPort}/${p.protocol}`)
+        .sort();
+      const actualPorts = Object.entries(hostConfig.PortBindings ?? {})
+        .flatMap(([port, bindings]) => ((bindings as any[]) ?? []).map(b => `${b.HostPort}:${port}`))
+        .sort();
+      add("ports", expectedPorts.join(", ") || "none", actualPorts.join(", ") || "none");
+    }
+
+    const binds = new Map<string, string>();
+    for (const bind of (hostConfig.Binds ?? []) as string[]) {
+      const match = bind.match(/^(.*?):(\/[^:]*)(?::([\w,]+))?$/);
+      if (match) binds.set(trimSlash(match[2]), `${trimSlash(match[1])} (${match[3] || "rw"})`);
+    }
+    for (const path of template.paths.filter(p => p.hostPath && p.containerPath)) {
+      const target = trimSlash(path.containerPath);
+      add(`path ${target}`, `${trimSlash(path.hostPath)} (${path.mode})`, binds.get(target) ?? "(not mounted)");
+      binds.delete(target);
+    }
+    for (const [target, source] of binds) add(`path ${target}`, "(not in template)", source);
+
+    const env = new Map<string, string>();
+    for (const entry of (config.Env ?? []) as string[]) {
+      const i = entry.indexOf("=");
+      env.set(i === -1 ? entry : entry.substring(0, i), i === -1 ? "" : entry.substring(i + 1));
+    }
+    for (const variable of template.variables.filter(v => v.key)) {
+      const actual = env.get(variable.key);
+      if (variable.masked) {
+        add(`env ${variable.key}`, "(masked)", actual === undefined ? "(unset)" : actual === variable.value ? "(masked)" : "(masked, different value)");
+      } else {
+        add(`env ${variable.key}`, variable.value, actual ?? "(unset)");
+      }
+    }
+
+    const expectedDevices = template.devices.map(d => d.hostPath).filter(Boolean).sort();
+    const actualDevices = ((hostConfig.Devices ?? []) as any[]).map(d => d.PathOnHost).sort();
+    if (expectedDevices.length || actualDevices.length) {
+      add("devices", expectedDevices.join(", ") || "none", actualDevices.join(", ") || "none");
+    }
+
+    for (const label of template.labels.filter(l => l.key)) add(`label ${label.key}`, label.value, config.Labels?.[label.key] ?? "(unset)");
+    add("privileged", String(template.privileged), String(hostConfig.Privileged === true));
+    if (template.cpuset || hostConfig.CpusetCpus) add("cpuset", template.cpuset ?? "none", hostConfig.CpusetCpus || "none");
+
+    for (const [option, value] of extraOptions(template.extraParams)) {
+      switch (option) {
+        case "--restart":
+          add("restart", value.split(":")[0], hostConfig.RestartPolicy?.Name || "no");
+          break;
+        case "--memory": {
+          const bytes = parseMemory(value);
+          if (bytes !== null) add("memory", String(bytes), String(hostConfig.Memory ?? 0));
+          break;
+        }
+        case "--cpus":
+          add("cpus", String(parseFloat(value)), String((hostConfig.NanoCpus ?? 0) / 1e9));
+          break;
+        case "--runtime":
+          add("runtime", value, hostConfig.Runtime || "runc");
+          break;
+        case "--hostname":
+          add("hostname", value, config.Hostname ?? "");
+          break;
+      }
+    }
+  }
+
+  // Containers created by dockerMan whose template is gone
+  const names = new Set(templates.map(t => t.name));
+  for (const [name, container] of byName) {
+    if (!names.has(name) && container.Config?.Labels?.["net.unraid.docker.managed"] === "dockerman") {
+      drift.push({ container: name, field: "template", expected: `my-${name}.xml`, actual: "(no template)" });
+    }
+  }
+  return { drift, missing };
+}
+
+/**
+ * Template with the values of masked variables (passwords, tokens) blanked, for returning to clients
+ */
+export function redactTemplate(template: DockerTemplate): DockerTemplate {
+  return { ...template, variables: template.variables.map(v => (v.masked ? { ...v, value: "" } : v)) };
+}
+
+/**
+ * One template in detail
+ */
+export function formatDockerTemplate(template: DockerTemplate): string {
+  let text = `Name: ${template.name}\nFile: ${template.file}\nRepository: ${template.repository}\n`;
+  text += `Network: ${template.network}${template.fixedIp ? ` (IP ${template.fixedIp})` : ""}\n`;
+  if (template.privileged) text += "Privileged: yes\n";
+  if (template.cpuset) text += `CPU pinning: ${template.cpuset}\n`;
+  if (template.webUi) text += `Web UI: ${template.webUi}\n`;
+  if (template.extraParams) text += `Extra params: ${template.extraParams}\n`;
+  if (template.postArgs) text += `Post arguments: ${template.postArgs}\n`;
+
+  const section = (title: string, lines: string[]) => (lines.length ? `\n${title}:\n${lines.map(l => `  ${l}\n`).join("")}` : "");
+  const label = (name: string) => (name ? `  (${name})` : "");
+  text += section("Ports", template.ports.map(p => `${p.hostPort || "-"} -> ${p.containerPort}/${p.protocol}${label(p.name)}`));
+  text += section("Paths", template.paths.map(p => `${p.hostPath || "-"} -> ${p.containerPath} (${p.mode})${label(p.name)}`));
+  text += section("Variables", template.variables.map(v => `${v.key}=${v.masked ? "********" : v.value}${label(v.name)}`));
+  text += section("Devices", template.devices.map(d => `${d.hostPath || "-"}${label(d.name)}`));
+  text += section("Labels", template.labels.map(l => `${l.key}=${l.value}${label(l.name)}`));
+  return text;
+}
+
+/**
+ * Drift grouped by container, then templates without a container
+ */
+export function formatTemplateDrift(drift: TemplateDrift[], missing: string[], templates: number): string {
+  let text = `Templates: ${templates}, drifted containers: ${new Set(drift.map(d => d.container)).size}\n\n`;
+  if (drift.length === 0) {
+    text += "No drift: containers match their templates.\n";
+  } else {
+    text += `DRIFT (${drift.length}):\n` + "-".repeat(60) + "\n";
+    for (const d of drift) {
+      text += `  ${d.container} ${d.field}\n    template:  ${d.expected}\n    container: ${d.actual}\n`;
+    }
+    text += "\nEdit the container on the Docker tab and Apply to recreate it from its template.\n";
+  }
+  if (missing.length) text += `\nTemplates without a container: ${missing.join(", ")}\n`;
+  return text;
+}
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { createHash } from "crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { formatBytes } from "../../format.js";
+import { SSHExecutor } from "../types.js";
+import {
+  EXPORT_FLASH_COMMAND,
+  FLASH_CHECK_COMMAND,
+  createFlashBackupCommand,
+  flashBackupPath,
+  flashDiffCommand,
+  formatFlashCheck,
+  formatFlashDiff,
+  listFlashBackupsCommand,
+  parseFlashBackup,
+  parseFlashBackups,
+  parseFlashCheck,
+  parseFlashDiff,
+} from "./flash.js";
+
+const flashActions = ["backup", "export", "backups", "check", "diff"] as const;
+
+/** Budget for tar, fsck and diff on the flash */
+const FLASH_TIMEOUT_MS = 120000;
+
+export function registerUnraidFlashTools(server: McpServer, sshExecutor: SSHExecutor): void {
+  server.tool(
+    "flash",
+    "Unraid flash drive (/boot) backup and integrity. Actions: backup (tarball of /boot/config written on the host with mode 600, with sha256; it holds password hashes and private keys, so keep the directory off shares others can read), export (same tarball streamed back as a base64 resource, nothing written; includes credentials and keys, admin only), backups (list backups in a directory), check (read-only fsck, read-only mount, kernel I/O errors, usage, device identity, age estimate, required files and malformed .cfg lines), diff (added/removed/changed files and settings between two backups, or a backup and the live config; credentials are hidden).",
+    {
+      action: z.enum(flashActions).describe("Action"),
+      directory: z.string().optional().describe("Backup directory on the host (backup, backups, diff; default /mnt/user/backups/flash)"),
+      from: z.string().optional().describe("Older backup: file name in directory or absolute path (diff)"),
+      to: z.string().optional().describe("Newer backup (diff, default: live /boot/config)"),
+      ...outputFiltersSchema.shape,
+    },
+    async (args) => {
+      try {
+        switch (args.action) {
+          case "backup": {
+            const backup = parseFlashBackup(await sshExecutor(createFlashBackupCommand(args.directory), { timeoutMs: FLASH_TIMEOUT_MS }));
+            return {
+              content: [{ type: "text", text: `Backup written: ${backup.path}\nSize: ${formatBytes(backup.bytes)}\nsha256: ${backup.sha256}\n` }],
+            };
+          }
+
+          case "export": {
+            const output = (await sshExecutor(EXPORT_FLASH_COMMAND, { timeoutMs: FLASH_TIMEOUT_MS })).trim();
+            if (output.includes("[Output truncated")) {
+              return { content: [{ type: "text", text: "Error: backup is larger than MAX_OUTPUT_BYTES; use action=backup to write it on the host" }], isError: true };
+            }
+            const data = Buffer.from(output, "base64");
+            const name = `flash-config-${new Date().toISOString().slice(0, 19).replace(/[-:]/g, "").replace("T", "-")}.tar.gz`;
+            return {
+              content: [
+                { type: "text", text: `${name}: ${formatBytes(data.length)}, sha256 ${createHash("sha256").update(data).digest("hex")}\n` },
+                { type: "resource", resource: { uri: `unraid-flash:///${name}`, mimeType: "application/gzip", blob: output } },
+              ],
+            };
+          }
+
+          case "backups": {
+            const backups = parseFlashBackups(await sshExecutor(listFlashBackupsCommand(args.directory)));
+            let text = `=== Flash Backups ===\n\n`;
+            text += backups.length
+              ? backups.map(b => `${b.modifiedAt.slice(0, 19).replace("T", " ")}  ${formatBytes(b.bytes).padStart(10)}  ${b.path}`).join("\n") + "\n"
+              : "No backups found\n";
+            return { content: [{ type: "text", text: applyFiltersToText(text, args) }] };
+          }
+
+          case "check": {
+            const check = parseFlashCheck(await sshExecutor(FLASH_CHECK_COMMAND, { timeoutMs: FLASH_TIMEOUT_MS }));
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== Flash Check ===\n\n${formatFlashCheck(check)}`, args) }],
+              structuredContent: { check },
+            };
+          }
+
+          case "diff": {
+            if (!args.from) return { content: [{ type: "text", text: "Error: from required" }], isError: true };
+            const from = flashBackupPath(args.from, args.directory);
+            const to = args.to ? flashBackupPath(args.to, args.directory) : null;
+            const output = await sshExecutor(flashDiffCommand(from, to), { timeoutMs: FLASH_TIMEOUT_MS });
+            const diff = parseFlashDiff(output, from, to ?? "/boot/config");
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== Flash Config Diff ===\n\n${formatFlashDiff(diff)}`, args) }],
+              structuredContent: { diff },
+            };
+          }
+
+          default:
+            return { content: [{ type: "text", text: `Unknown action: ${args.action}` }], isError: true };
+        }
+      } catch (error) {
+        return { content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    }
+  );
+}
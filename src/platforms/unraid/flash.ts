@@ -0,0 +1,325 @@
+import { formatBytes } from "../../format.js";
+import { FlashCheck, FlashDiff } from "../../structured.js";
+import { raw, safePath, sh } from "../../shell.js";
+import { parseUnraidCfg } from "./share-config.js";
+
+/**
+ * Unraid flash drive: /boot (vfat) holds the OS and /boot/config the whole
+ * server configuration, so it is what needs backing up and watching.
+ *
+ * Backups are gzipped tarballs of /boot/config named flash-config-<host>-<time>.tar.gz.
+ */
+
+export const DEFAULT_FLASH_BACKUP_DIR = "/mnt/user/backups/flash";
+
+const BACKUP_NAME = /^flash-config-.+\.tar\.gz$/;
+
+/** Files every configured server has in /boot/config */
+const REQUIRED_FILES = ["ident.cfg", "super.dat", "disk.cfg", "*.key"];
+
+/** Files whose contents are never shown in a diff (password hashes, keys) */
+const SENSITIVE_FILE = /(^|\/)(shadow|passwd|smbpasswd|secrets\.tdb)$|\.(key|pem)$|(^|\/)(ssh|wireguard)\//;
+
+/** .cfg settings whose values are masked in a diff */
+const SENSITIVE_SETTING = /pass|secret|token|apikey|api_key|privatekey/i;
+
+/** Flash in service longer than this is worth a replacement plan */
+const OLD_FLASH_DAYS = 5 * 365;
+
+/**
+ * Directory backups are written to and read from
+ */
+export function flashBackupDir(dir?: string): string {
+  return safePath(dir ?? DEFAULT_FLASH_BACKUP_DIR);
+}
+
+/**
+ * Path of an existing backup, either absolute or a file name in the backup directory
+ */
+export function flashBackupPath(backup: string, dir?: string): string {
+  const path = backup.startsWith("/") ? safePath(backup) : `${flashBackupDir(dir)}/${backup}`;
+  if (!BACKUP_NAME.test(path.split("/").pop()!)) {
+    throw new Error(`Invalid backup "${backup}": expected a flash-config-*.tar.gz file`);
+  }
+  return path;
+}
+
+/**
+ * Command writing a new backup into `dir`, printing its sha256, path and size
+ *
+ * The tarball holds password hashes and private keys, so it is created readable by root only.
+ */
+export function createFlashBackupCommand(dir?: string): string {
+  const target = flashBackupDir(dir);
+  return [
+    "umask 077",
+    sh`mkdir -p ${target}`,
+    sh`f=${target}/flash-config-$(hostname)-$(date +%Y%m%d-%H%M%S).tar.gz`,
+    'tar -czf "$f" -C /boot config',
+    'sha256sum "$f"',
+    "stat -c %s \"$f\"",
+  ].join(" && ");
+}
+
+/**
+ * Parse the output of createFlashBackupCommand
+ */
+export function parseFlashBackup(output: string): { path: string; sha256: string; bytes: number } {
+  const [sumLine = "", sizeLine = ""] = output.trim().split("\n");
+  const match = sumLine.match(/^([0-9a-f]{64})\s+(.+)$/);
+  if (!match) throw new Error(`Unexpected backup output: ${output.trim()}`);
+  return { path: match[2], sha256: match[1], bytes: parseInt(sizeLine, 10) || 0 };
+}
+
+/**
+ * Command streaming a backup of /boot/config back as base64, without writing on the host
+ * The tarball includes every credential on the server, so export is an admin action.
+ */
+export const EXPORT_FLASH_COMMAND = "tar -czf - -C /boot config | base64 -w0";
+
+/**
+ * Command listing backups in `dir` as `<epoch> <bytes> <path>` lines
+ */
+export function listFlashBackupsCommand(dir?: string): string {
+  return sh`find ${flashBackupDir(dir)} -maxdepth 1 -type f -name 'flash-config-*.tar.gz' -printf '%T@ %s %p\\n' 2>/dev/null | sort -rn; true`;
+}
+
+export function parseFlashBackups(output: string): { path: string; bytes: number; modifiedAt: string }[] {
+  const backups: { path: string; bytes: number; modifiedAt: string }[] = [];
+  for (const line of output.split("\n")) {
+    const match = line.match(/^(\d+)(?:\.\d+)?\s+(\d+)\s+(\/.+)$/);
+    if (match) backups.push({ path: match[3], bytes: +match[2], modifiedAt: new Date(+match[1] * 1000).toISOString() });
+  }
+  return backups;
+}
+
+/**
+ * Device, mount, usage, read-only fsck, kernel I/O errors and config file checks in one call
+ */
+export const FLASH_CHECK_COMMAND = [
+  "dev=$(findmnt -no SOURCE /boot 2>/dev/null)",
+  "disk=$([ -n \"$dev\" ] && lsblk -no pkname \"$dev\" 2>/dev/null | head -1)",
+  "echo \"--- device $dev\"",
+  "echo '--- lsblk'",
+  "[ -n \"$disk\" ] && lsblk -dnbPo VENDOR,MODEL,SERIAL,SIZE \"/dev/$disk\" 2>/dev/null",
+  "echo '--- mount'",
+  "grep ' /boot ' /proc/mounts",
+  "echo '--- df'",
+  "df -B1 --output=size,used /boot 2>/dev/null | tail -n 1",
+  "echo '--- fsck'",
+  "if [ -n \"$dev\" ]; then fsck.vfat -n \"$dev\" 2>&1; echo \"exit $?\"; fi",
+  "echo '--- ioerrors'",
+  "[ -n \"$disk\" ] && dmesg 2>/dev/null | grep -E \"(I/O error|critical medium error|FAT-fs).*\\b$disk\" | tail -n 20",
+  "echo '--- oldest'",
+  "find /boot/config -maxdepth 1 -type f -printf '%T@ %p\\n' 2>/dev/null | sort -n | head -n 1",
+  "echo '--- files'",
+  `for f in ${REQUIRED_FILES.join(" ")}; do ls /boot/config/$f >/dev/null 2>&1 && echo "present $f" || echo "missing $f"; done`,
+  "echo '--- malformed'",
+  "grep -HnvE '^[[:space:]]*($|#|;|\\[.*\\]|[A-Za-z0-9_.-]+[[:space:]]*=)' /boot/config/*.cfg /boot/config/shares/*.cfg 2>/dev/null | head -n 50",
+  "true",
+].join("; ");
+
+function sections(output: string): Map<string, string[]> {
+  const result = new Map<string, string[]>();
+  let current: string[] | null = null;
+  for (const line of output.split("\n")) {
+    const header = line.match(/^--- (\w+)(?: (.*))?$/);
+    if (header) {
+      current = header[2] ? [header[2]] : [];
+      result.set(header[1], current);
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse the output of FLASH_CHECK_COMMAND and derive findings
+ *
+ * Flash drives have no SMART data; read-only remounts, fsck and kernel I/O
+ * errors are the health signals. The oldest file directly in /boot/config is
+ * used as an estimate of when the flash was set up.
+ */
+export function parseFlashCheck(output: string, nowMs: number = Date.now()): FlashCheck {
+  const parts = sections(output);
+  const lines = (name: string) => (parts.get(name) ?? []).map(l => l.trimEnd()).filter(Boolean);
+
+  const device = lines("device")[0] ?? null;
+  const identity: Record<string, string> = {};
+  for (const [, key, value] of (lines("lsblk")[0] ?? "").matchAll(/(\w+)="([^"]*)"/g)) identity[key] = value.trim();
+
+  const mount = lines("mount")[0]?.split(/\s+/);
+  const readOnly = !!mount && (mount[3] ?? "").split(",").includes("ro");
+
+  const [size, used] = (lines("df")[0] ?? "").trim().split(/\s+/).map(Number);
+  const usedPercent = size > 0 && Number.isFinite(used) ? Math.round((used / size) * 100) : null;
+
+  let fsck: FlashCheck["fsck"] = null;
+  const fsckLines = lines("fsck");
+  const exit = fsckLines.pop()?.match(/^exit (\d+)$/);
+  if (exit && exit[1] !== "127" && !fsckLines.some(l => /not found/.test(l))) {
+    const messages = fsckLines
+      .filter(l => !/^(fsck\.fat|dosfsck) \d/.test(l) && !/^Leaving filesystem unchanged/.test(l))
+      .filter(l => !/^\/dev\/\S+: \d+ files/.test(l))
+      .map(l => l.trim());
+    fsck = { ok: exit[1] === "0", messages };
+  }
+
+  let oldestConfigFile: FlashCheck["oldestConfigFile"] = null;
+  const oldest = lines("oldest")[0]?.match(/^(\d+)(?:\.\d+)?\s+(.+)$/);
+  if (oldest) {
+    const modifiedMs = +oldest[1] * 1000;
+    oldestConfigFile = {
+      path: oldest[2],
+      modifiedAt: new Date(modifiedMs).toISOString(),
+      ageDays: Math.max(0, Math.floor((nowMs - modifiedMs) / 86400000)),
+    };
+  }
+
+  const missingFiles = lines("files").filter(l => l.startsWith("missing ")).map(l => l.slice(8));
+  const malformedLines = lines("malformed").flatMap(l => {
+    const match = l.match(/^(\/[^:]+):(\d+):(.*)$/);
+    return match ? [{ file: match[1], line: +match[2], text: match[3].trim() }] : [];
+  });
+
+  const check: FlashCheck = {
+    device,
+    ...(identity.VENDOR ? { vendor: identity.VENDOR } : {}),
+    ...(identity.MODEL ? { model: identity.MODEL } : {}),
+    ...(identity.SERIAL ? { serial: identity.SERIAL } : {}),
+    ...(identity.SIZE && +identity.SIZE > 0 ? { sizeBytes: +identity.SIZE } : {}),
+    readOnly,
+    usedPercent,
+    fsck,
+    ioErrors: lines("ioerrors"),
+    oldestConfigFile,
+    missingFiles,
+    malformedLines,
+    findings: [],
+  };
+
+  const add = (severity: FlashCheck["findings"][number]["severity"], message: string) => check.findings.push({ severity, message });
+  if (!device) add("CRITICAL", "/boot is not mounted");
+  if (readOnly) add("CRITICAL", "/boot is mounted read-only, usually after I/O errors; back up the config and replace the flash");
+  if (check.ioErrors.length) add("CRITICAL", `${check.ioErrors.length} kernel I/O error line(s) for the flash device`);
+  if (fsck && !fsck.ok) add("WARNING", `Filesystem check found problems: ${fsck.messages[0] ?? "see fsck output"}`);
+  if (device && !fsck) add("INFO", "fsck.vfat not available; filesystem not checked");
+  if (usedPercent !== null && usedPercent >= 90) add("WARNING", `Flash is ${usedPercent}% full`);
+  for (const file of missingFiles) add("WARNING", `/boot/config/${file} is missing`);
+  if (malformedLines.length) add("WARNING", `${malformedLines.length} malformed line(s) in .cfg files`);
+  if (oldestConfigFile && oldestConfigFile.ageDays >= OLD_FLASH_DAYS) {
+    add("INFO", `Flash appears to be in service for ${(oldestConfigFile.ageDays / 365).toFixed(1)} years; keep a recent backup`);
+  }
+  return check;
+}
+
+export function formatFlashCheck(check: FlashCheck): string {
+  const identity = [check.vendor, check.model].filter(Boolean).join(" ") || "unknown model";
+  let text = `Device: ${check.device ?? "not mounted"} (${identity}${check.serial ? `, serial ${check.serial}` : ""}`;
+  text += `${check.sizeBytes ? `, ${formatBytes(check.sizeBytes)}` : ""})\n`;
+  text += `Mount: ${check.readOnly ? "read-only" : "read-write"}${check.usedPercent !== null ? `, ${check.usedPercent}% used` : ""}\n`;
+  text += `Filesystem check: ${check.fsck === null ? "not run" : check.fsck.ok ? "clean" : "problems found"}\n`;
+  for (const message of check.fsck?.messages ?? []) text += `  ${message}\n`;
+  text += `Kernel I/O errors: ${check.ioErrors.length}\n`;
+  for (const line of check.ioErrors) text += `  ${line}\n`;
+  if (check.oldestConfigFile) {
+    const { path, modifiedAt, ageDays } = check.oldestConfigFile;
+    text += `Oldest config file: ${path} (${modifiedAt.slice(0, 10)}, ${(ageDays / 365).toFixed(1)} years)\n`;
+  }
+  for (const m of check.malformedLines) text += `Malformed: ${m.file}:${m.line}: ${m.text}\n`;
+  text += check.findings.length ? "\nFindings:\n" : "\nNo problems found\n";
+  for (const f of check.findings) text += `[${f.severity}] ${f.message}\n`;
+  return text;
+}
+
+/**
+ * Command extracting backups into a temp dir and diffing them, or one backup against the live /boot/config
+ * Both trees appear as a/config and b/config; the temp dir is removed afterwards.
+ * Fails only when extraction fails (diff exits 1 when there are differences).
+ */
+export function flashDiffCommand(from: string, to: string | null): string {
+  const right = to === null ? 'ln -s /boot "$t/b"' : sh`mkdir "$t/b" && tar -xzf ${to} -C "$t/b"`;
+  return [
+    "t=$(mktemp -d)",
+    sh`mkdir "$t/a" && tar -xzf ${from} -C "$t/a" && ${raw(right)} && (cd "$t" && diff -ru a/config b/config)`,
+    "rc=$?",
+    'rm -rf "$t"',
+    "[ $rc -le 1 ]",
+  ].join("; ");
+}
+
+function relative(path: string): string {
+  return path.replace(/^[ab]\/config\/?/, "").replace(/\/$/, "");
+}
+
+/**
+ * Parse `diff -ru a/config b/config` into added, removed and changed files
+ *
+ * Settings in key="value" files are compared by key; credentials files are
+ * reported as changed without their contents and secret-looking settings are masked.
+ */
+export function parseFlashDiff(output: string, from: string, to: string): FlashDiff {
+  const diff: FlashDiff = { from, to, added: [], removed: [], changed: [] };
+  let current: { path: string; removed: string[]; added: string[] } | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    const { path, removed, added } = current;
+    current = null;
+    if (SENSITIVE_FILE.test(path)) {
+      diff.changed.push({ path, kind: "hidden", settings: [], removedLines: [], addedLines: [] });
+      return;
+    }
+    const before = parseUnraidCfg(removed.join("\n"));
+    const after = parseUnraidCfg(added.join("\n"));
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(k => before[k] !== after[k]);
+    const mask = (key: string, value: string | undefined) =>
+      value === undefined ? null : SENSITIVE_SETTING.test(key) ? "(hidden)" : value;
+    const isSetting = (line: string) => Object.keys(parseUnraidCfg(line)).length > 0;
+    diff.changed.push({
+      path,
+      kind: "text",
+      settings: keys.map(key => ({ key, before: mask(key, before[key]), after: mask(key, after[key]) })),
+      removedLines: removed.filter(l => !isSetting(l)),
+      addedLines: added.filter(l => !isSetting(l)),
+    });
+  };
+
+  for (const line of output.split("\n")) {
+    const only = line.match(/^Only in ([ab])\/config\/?(.*?): (.+)$/);
+    const binary = line.match(/^Binary files a\/config\/(.+) and b\/config\/.+ differ$/);
+    const header = line.match(/^diff -ru a\/config\/(.+) b\/config\/.+$/);
+    if (only || binary || header) finish();
+    if (only) {
+      const path = [only[2], only[3]].filter(Boolean).join("/");
+      (only[1] === "a" ? diff.removed : diff.added).push(relative(path));
+    } else if (binary) {
+      const path = relative(binary[1]);
+      diff.changed.push({ path, kind: SENSITIVE_FILE.test(path) ? "hidden" : "binary", settings: [], removedLines: [], addedLines: [] });
+    } else if (header) {
+      current = { path: relative(header[1]), removed: [], added: [] };
+    } else if (current && !line.startsWith("---") && !line.startsWith("+++")) {
+      if (line.startsWith("-")) current.removed.push(line.slice(1));
+      else if (line.startsWith("+")) current.added.push(line.slice(1));
+    }
+  }
+  finish();
+  return diff;
+}
+
+export function formatFlashDiff(diff: FlashDiff): string {
+  const total = diff.added.length + diff.removed.length + diff.changed.length;
+  let text = `${diff.from} -> ${diff.to}\n`;
+  if (total === 0) return `${text}\nNo configuration changes\n`;
+  text += `Added: ${diff.added.length}, removed: ${diff.removed.length}, changed: ${diff.changed.length}\n`;
+  for (const path of diff.added) text += `\n+ ${path}\n`;
+  for (const path of diff.removed) text += `\n- ${path}\n`;
+  for (const change of diff.changed) {
+    text += `\n~ ${change.path}${change.kind === "text" ? "" : ` (${change.kind === "hidden" ? "contents hidden" : "binary"})`}\n`;
+    for (const s of change.settings) text += `  ${s.key}: ${s.before ?? "(unset)"} -> ${s.after ?? "(unset)"}\n`;
+    for (const line of change.removedLines) text += `  - ${line}\n`;
+    for (const line of change.addedLines) text += `  + ${line}\n`;
+  }
+  return text;
+}
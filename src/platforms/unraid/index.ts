@@ -1,11 +1,14 @@
 import { Platform, PlatformToolModule, SSHExecutor } from "../types.js";
 import { registerUnraidArrayTools } from "./array-tools.js";
 import { registerUnraidPluginTools } from "./plugin-tools.js";
+import { registerUnraidNotificationTools } from "./notification-tools.js";
+import { registerUnraidFlashTools } from "./flash-tools.js";
+import { detectStorageSubsystems, getStorageToolModules } from "../storage/index.js";
 
 /**
  * Unraid Platform
  * Provides Unraid-specific tools for array management, parity operations,
- * cache/mover, plugins, and configuration.
+ * cache/mover, plugins, notifications, flash backups, and configuration.
  */
 export const UnraidPlatform: Platform = {
   id: "unraid",
@@ -13,6 +16,8 @@ export const UnraidPlatform: Platform = {
 
   capabilities: {
     storage: "mdraid",
+    // Pools found by detect()
+    storageSubsystems: [],
     virtualization: "kvm",
     containerRuntime: "docker",
     initSystem: "sysv",
@@ -66,6 +71,12 @@ export const UnraidPlatform: Platform = {
       // Not present
     }
 
+    // Pools next to the array (ZFS since 6.12). The array's md driver is Unraid's own,
+    // not Linux md, so it does not count as mdraid.
+    if (score >= 50) {
+      this.capabilities.storageSubsystems = (await detectStorageSubsystems(executor)).filter(s => s !== "mdraid");
+    }
+
     return Math.min(score, 100);
   },
 
@@ -84,6 +95,17 @@ export const UnraidPlatform: Platform = {
         register: registerUnraidPluginTools,
         priority: 90,
       },
+      {
+        name: "notifications",
+        register: registerUnraidNotificationTools,
+        priority: 80,
+      },
+      {
+        name: "flash",
+        register: registerUnraidFlashTools,
+        priority: 70,
+      },
+      ...getStorageToolModules(this.capabilities),
     ];
   },
 };
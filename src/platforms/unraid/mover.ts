@@ -0,0 +1,362 @@
+import { SSHExecutor } from "../types.js";
+import { formatBytes } from "../../format.js";
+import { findCronEntry, fromNaiveTime, nextCronRun, toNaiveTime } from "../../cron.js";
+import { identifier, sh, shareName } from "../../shell.js";
+import { ShareConfig } from "../../structured.js";
+import { classifyMount, moverDirection, parseShareConfigs, shareConfigsCommand } from "./share-config.js";
+
+/**
+ * Unraid mover analytics: runs parsed from syslog, the mover schedule, files
+ * waiting on cache pools and how fast the pools fill between runs
+ *
+ * File lines only appear in syslog with "Mover logging" enabled (Settings >
+ * Scheduler); without it runs show start and end only.
+ */
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Moved files looked up for sizes, across all reported runs */
+const MAX_SIZED_FILES = 500;
+
+/** Budget for walking the move shares on the pools */
+const PENDING_SCAN_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * One mover invocation
+ */
+export interface MoverRun {
+  /** Host-local naive time (see cron.ts) */
+  startedAt: string;
+  /** null while running, or when the end fell outside the log */
+  finishedAt: string | null;
+  filesMoved: number;
+  /** Source paths as logged */
+  files: string[];
+  /** Total size of the moved files that still exist, null until looked up */
+  bytes: number | null;
+  errors: string[];
+}
+
+/**
+ * Mover schedule and the share settings it acts on
+ */
+export interface MoverSettings {
+  /** Host clock (naive local time) */
+  now: string;
+  schedule: { cron: string; nextAt: string | null } | null;
+  shares: ShareConfig[];
+}
+
+/**
+ * Files on a pool that the mover will move off it
+ */
+export interface PendingShare {
+  share: string;
+  pool: string;
+  count: number;
+  bytes: number;
+  /** Bytes in files modified within the last 24 hours */
+  recentBytes: number;
+  /** Newest first, capped */
+  files: { path: string; bytes: number; modified: number }[];
+}
+
+export interface PoolUsage {
+  pool: string;
+  sizeBytes: number;
+  usedBytes: number;
+  availableBytes: number;
+}
+
+/**
+ * When a pool fills at the rate data arrives for move shares
+ */
+export interface CacheProjection extends PoolUsage {
+  /** Bytes per day written to move shares on this pool (last 24 hours) */
+  ratePerDay: number;
+  daysToFull: number | null;
+  fillsBeforeMover: boolean;
+}
+
+function parseSyslogTime(line: string, now: string): { time: string; rest: string } | null {
+  const iso = line.match(/^(\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d)\S*\s+(.*)$/);
+  if (iso) return { time: iso[1], rest: iso[2] };
+  const classic = line.match(/^([A-Za-z]{3})\s+(\d{1,2})\s+(\d\d):(\d\d):(\d\d)\s+(.*)$/);
+  if (!classic) return null;
+  const month = MONTHS.indexOf(classic[1].toLowerCase());
+  if (month === -1) return null;
+  // syslog has no year: anything later than the host clock belongs to last year
+  const nowMs = fromNaiveTime(now);
+  let year = new Date(nowMs).getUTCFullYear();
+  const at = (y: number) => Date.UTC(y, month, +classic[2], +classic[3], +classic[4], +classic[5]);
+  if (at(year) > nowMs + DAY_MS) year--;
+  return { time: toNaiveTime(at(year)), rest: classic[6] };
+}
+
+/**
+ * Parse mover lines from syslog into runs, oldest first
+ */
+export function parseMoverLog(syslog: string, now: string): MoverRun[] {
+  const runs: MoverRun[] = [];
+  let current: MoverRun | null = null;
+  const start = (time: string) => {
+    current = { startedAt: time, finishedAt: null, filesMoved: 0, files: [], bytes: null, errors: [] };
+    runs.push(current);
+    return current;
+  };
+
+  for (const line of syslog.split("\n")) {
+    const parsed = parseSyslogTime(line.trim(), now);
+    if (!parsed) continue;
+    const { time, rest } = parsed;
+    if (/\bmover: started\b/.test(rest)) {
+      start(time);
+    } else if (/\bmover: finished\b/.test(rest)) {
+      if (current) (current as MoverRun).finishedAt = time;
+      current = null;
+    } else {
+      // A run whose start rotated out of the log still gets its files and errors
+      const file = rest.match(/\bmove: (?:move: )?file:? (\/mnt\/.+)$/);
+      if (file) {
+        const run: MoverRun = current ?? start(time);
+        run.files.push(file[1]);
+        run.filesMoved++;
+      } else if (/\bmove: .*(error|move_object|No space left|Input\/output error|File exists)/i.test(rest)) {
+        const run: MoverRun = current ?? start(time);
+        run.errors.push(rest.substring(rest.indexOf("move: ")));
+      }
+    }
+  }
+  return runs;
+}
+
+/**
+ * Where a moved file can be found now, whichever side it went to
+ */
+function userSharePath(path: string): string | null {
+  const match = path.match(/^\/mnt\/[^/]+\/(.+)$/);
+  return match ? `/mnt/user/${match[1]}` : null;
+}
+
+/**
+ * Fill in `bytes` of the most recent runs from the current size of their files
+ */
+export async function sizeMoverRuns(sshExecutor: SSHExecutor, runs: MoverRun[]): Promise<void> {
+  const paths = new Map<string, MoverRun[]>();
+  let budget = MAX_SIZED_FILES;
+  for (const run of [...runs].reverse()) {
+    if (budget <= 0) break;
+    run.bytes = 0;
+    for (const file of run.files.slice(0, budget)) {
+      const path = userSharePath(file);
+      if (!path) continue;
+      paths.set(path, [...(paths.get(path) ?? []), run]);
+    }
+    budget -= run.files.length;
+  }
+  if (paths.size === 0) return;
+
+  const output = await sshExecutor(sh`stat -c '%s %n' -- ${[...paths.keys()]} 2>/dev/null; true`);
+  for (const line of output.split("\n")) {
+    const match = line.match(/^(\d+) (.+)$/);
+    if (!match) continue;
+    for (const run of paths.get(match[2]) ?? []) run.bytes = (run.bytes ?? 0) + parseInt(match[1], 10);
+  }
+}
+
+/**
+ * Host clock, mover schedule and share settings in one call
+ */
+export async function readMoverSettings(sshExecutor: SSHExecutor): Promise<MoverSettings> {
+  const output = await sshExecutor(
+    `date '+now %Y-%m-%dT%H:%M:%S'; echo '--- cron'; cat /boot/config/plugins/dynamix/mover.cron 2>/dev/null; ${shareConfigsCommand()}; true`
+  );
+  const now = output.match(/^now (\S+)/m)?.[1] ?? toNaiveTime(Date.now());
+  const cronStart = output.indexOf("--- cron\n");
+  const sharesStart = output.indexOf("--- share ");
+  const cron = cronStart === -1 ? "" : output.substring(cronStart, sharesStart === -1 ? undefined : sharesStart);
+  const entry = findCronEntry(cron, /\bmover\b/);
+  return {
+    now,
+    schedule: entry ? { cron: entry.cron, nextAt: nextCronRun(entry.cron, now) } : null,
+    shares: sharesStart === -1 ? [] : parseShareConfigs(output.substring(sharesStart)),
+  };
+}
+
+/**
+ * Mover lines from the current and previous syslog, with the host clock
+ */
+export async function readMoverLog(sshExecutor: SSHExecutor): Promise<{ now: string; runs: MoverRun[] }> {
+  const output = await sshExecutor(
+    "date '+now %Y-%m-%dT%H:%M:%S'; cat /var/log/syslog.1 /var/log/syslog 2>/dev/null | grep -E '(mover|move): ' ; true",
+    { timeoutMs: 60000 }
+  );
+  const now = output.match(/^now (\S+)/m)?.[1] ?? toNaiveTime(Date.now());
+  return { now, runs: parseMoverLog(output, now) };
+}
+
+/**
+ * Cache pools mounted under /mnt with their usage
+ */
+export async function readPoolUsage(sshExecutor: SSHExecutor): Promise<PoolUsage[]> {
+  const output = await sshExecutor("df -B1 --output=target,size,used,avail 2>/dev/null; true");
+  const pools: PoolUsage[] = [];
+  for (const line of output.split("\n")) {
+    const match = line.trim().match(/^\/mnt\/([^/\s]+)\s+(\d+)\s+(\d+)\s+(\d+)$/);
+    if (!match || classifyMount(match[1]) !== "pool") continue;
+    pools.push({ pool: match[1], sizeBytes: +match[2], usedBytes: +match[3], availableBytes: +match[4] });
+  }
+  return pools;
+}
+
+/**
+ * Shares whose files the mover moves off a pool (shareUseCache=yes)
+ */
+export function sharesToMove(shares: ShareConfig[]): ShareConfig[] {
+  return shares.filter(s => s.useCache === "yes");
+}
+
+/**
+ * Walk the pool directory of each share set to move
+ * Lists up to `maxFiles` files per share, newest first, and totals all of them.
+ */
+export async function scanPendingFiles(sshExecutor: SSHExecutor, shares: ShareConfig[], maxFiles: number): Promise<PendingShare[]> {
+  // Names come from file names on the flash; skip any the shell helpers would refuse
+  const valid = shares.filter(s => {
+    try {
+      shareName(s.name);
+      identifier(s.cachePool, "pool name");
+      return true;
+    } catch {
+      return false;
+    }
+  });
+  if (valid.length === 0) return [];
+  const scans = valid.map(s => {
+    const dir = `/mnt/${identifier(s.cachePool, "pool name")}/${shareName(s.name)}`;
+    return sh`echo ${`--- ${s.name} ${s.cachePool}`}; find ${dir} -type f -printf '%T@ %s %p\\n' 2>/dev/null | sort -rn | awk -v cutoff="$(( $(date +%s) - 86400 ))" -v max=${maxFiles} 'NR <= max { print } { n++; b += $2; if ($1 >= cutoff) r += $2 } END { printf "total %.0f %.0f %.0f\\n", n, b, r }'`;
+  });
+  const output = await sshExecutor(scans.join("; "), { timeoutMs: PENDING_SCAN_TIMEOUT_MS });
+
+  const pending: PendingShare[] = [];
+  let current: PendingShare | null = null;
+  for (const line of output.split("\n")) {
+    const header = line.match(/^--- (\S.*) (\S+)$/);
+    if (header) {
+      current = { share: header[1], pool: header[2], count: 0, bytes: 0, recentBytes: 0, files: [] };
+      pending.push(current);
+      continue;
+    }
+    if (!current) continue;
+    const total = line.match(/^total (\d+) (\d+) (\d+)$/);
+    if (total) {
+      current.count = +total[1];
+      current.bytes = +total[2];
+      current.recentBytes = +total[3];
+      continue;
+    }
+    const file = line.match(/^(\d+(?:\.\d+)?) (\d+) (.+)$/);
+    if (file) current.files.push({ modified: Math.floor(+file[1]), bytes: +file[2], path: file[3] });
+  }
+  return pending;
+}
+
+/**
+ * Project when each pool fills from what arrived for move shares in the last day
+ */
+export function projectCacheFill(pools: PoolUsage[], pending: PendingShare[], settings: MoverSettings): CacheProjection[] {
+  const nextMover = settings.schedule?.nextAt ? fromNaiveTime(settings.schedule.nextAt) : null;
+  const now = fromNaiveTime(settings.now);
+  return pools.map(pool => {
+    const ratePerDay = pending.filter(p => p.pool === pool.pool).reduce((sum, p) => sum + p.recentBytes, 0);
+    const daysToFull = ratePerDay > 0 ? pool.availableBytes / ratePerDay : null;
+    return {
+      ...pool,
+      ratePerDay,
+      daysToFull,
+      fillsBeforeMover: daysToFull !== null && nextMover !== null && now + daysToFull * DAY_MS < nextMover,
+    };
+  });
+}
+
+function formatElapsed(from: string, to: string): string {
+  const seconds = Math.round((fromNaiveTime(to) - fromNaiveTime(from)) / 1000);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return h > 0 ? `${h}h ${m}m` : m > 0 ? `${m}m ${s}s` : `${s}s`;
+}
+
+/**
+ * One run on one line, errors below it
+ */
+export function formatMoverRun(run: MoverRun): string {
+  const end = run.finishedAt ? formatElapsed(run.startedAt, run.finishedAt) : "no finish logged";
+  let text = `${run.startedAt.replace("T", " ")}  ${end.padEnd(16)} ${run.filesMoved} files`;
+  if (run.bytes !== null) text += `, ${formatBytes(run.bytes)}`;
+  text += `, ${run.errors.length} errors\n`;
+  for (const error of run.errors.slice(0, 10)) text += `  ! ${error}\n`;
+  if (run.errors.length > 10) text += `  ! ... ${run.errors.length - 10} more\n`;
+  return text;
+}
+
+/**
+ * Schedule line of mover_status and cache_usage
+ */
+export function formatMoverSchedule(settings: MoverSettings): string {
+  if (!settings.schedule) return "Schedule: none (mover is not scheduled)\n";
+  const next = settings.schedule.nextAt ? settings.schedule.nextAt.replace("T", " ") : "unknown";
+  return `Schedule: cron "${settings.schedule.cron}", next run ${next}\n`;
+}
+
+/**
+ * shareUseCache of every share and what the mover does with it
+ */
+export function formatShareCacheSettings(shares: ShareConfig[]): string {
+  if (shares.length === 0) return "No share configs found\n";
+  const width = Math.max(...shares.map(s => s.name.length));
+  return shares
+    .map(s => `  ${s.name.padEnd(width)}  ${s.useCache.padEnd(6)}  ${moverDirection(s) ?? "not moved"}\n`)
+    .join("");
+}
+
+/**
+ * Pool usage with the fill projection
+ */
+export function formatCacheProjection(projections: CacheProjection[], settings: MoverSettings): string {
+  if (projections.length === 0) return "No cache pools mounted\n";
+  let text = "";
+  for (const p of projections) {
+    const percent = p.sizeBytes ? Math.round((p.usedBytes / p.sizeBytes) * 100) : 0;
+    text += `${p.pool}: ${formatBytes(p.usedBytes)} of ${formatBytes(p.sizeBytes)} used (${percent}%), ${formatBytes(p.availableBytes)} free\n`;
+    if (p.daysToFull === null) {
+      text += "  No new data for move shares in the last 24h\n";
+    } else {
+      text += `  Incoming for move shares: ${formatBytes(p.ratePerDay)}/day, full in ~${p.daysToFull < 1 ? "<1" : Math.round(p.daysToFull)} days at this rate\n`;
+    }
+    if (p.fillsBeforeMover) {
+      text += `  [WARNING] Fills before the next mover run (${settings.schedule!.nextAt!.replace("T", " ")})\n`;
+    }
+  }
+  return text;
+}
+
+/**
+ * Files waiting for the mover, per share
+ */
+export function formatPendingFiles(pending: PendingShare[], shares: ShareConfig[], listFiles: boolean): string {
+  if (pending.length === 0) return "No shares are set to move from cache (shareUseCache=yes)\n";
+  let text = "";
+  for (const p of pending) {
+    const share = shares.find(s => s.name === p.share);
+    text += `${p.share} (${share ? moverDirection(share) : p.pool}): ${p.count} files, ${formatBytes(p.bytes)}`;
+    text += listFiles && p.count > p.files.length ? ` (showing newest ${p.files.length})\n` : "\n";
+    if (!listFiles) continue;
+    for (const f of p.files) {
+      text += `  ${new Date(f.modified * 1000).toISOString().slice(0, 16).replace("T", " ")}  ${formatBytes(f.bytes).padStart(10)}  ${f.path}\n`;
+    }
+  }
+  return text;
+}
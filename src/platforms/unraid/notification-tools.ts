@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { SSHExecutor } from "../types.js";
+import {
+  NOTIFICATION_IMPORTANCE,
+  archiveNotificationsCommand,
+  formatNotifications,
+  notificationsCommand,
+  parseNotifications,
+  sendNotificationCommand,
+} from "./notifications.js";
+
+const notificationActions = ["list", "archive", "send"] as const;
+
+export function registerUnraidNotificationTools(server: McpServer, sshExecutor: SSHExecutor): void {
+  server.tool(
+    "notifications",
+    "Unraid notifications (web UI bell). Actions: list (unread/archived by importance), archive (acknowledge one by file name, or all unread with all=true, optionally only one importance), send (raise a notification through Unraid's notify script, delivered to the web UI and configured agents).",
+    {
+      action: z.enum(notificationActions).describe("Action"),
+      state: z.enum(["unread", "archive", "all"]).optional().default("unread").describe("Which notifications (list)"),
+      importance: z.enum(NOTIFICATION_IMPORTANCE).optional().describe("Importance filter (list, archive) or level (send, default normal)"),
+      limit: z.number().int().positive().optional().default(50).describe("Max notifications (list)"),
+      file: z.string().optional().describe("Notification file name from list (archive)"),
+      all: z.boolean().optional().default(false).describe("Archive every unread notification (archive)"),
+      subject: z.string().optional().describe("Subject (send)"),
+      description: z.string().optional().describe("Description (send)"),
+      message: z.string().optional().describe("Longer message body, may span several lines (send)"),
+      event: z.string().optional().describe("Event name (send, default mcp-ssh-sre)"),
+      link: z.string().optional().describe("Web UI link, e.g. /Main (send)"),
+      ...outputFiltersSchema.shape,
+    },
+    async (args) => {
+      try {
+        switch (args.action) {
+          case "list": {
+            const state = args.state ?? "unread";
+            const notifications = parseNotifications(await sshExecutor(notificationsCommand(state)))
+              .filter(n => !args.importance || n.importance === args.importance)
+              .slice(0, args.limit ?? 50);
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== Notifications (${state}) ===\n\n${formatNotifications(notifications)}`, args) }],
+              structuredContent: { notifications },
+            };
+          }
+
+          case "archive": {
+            let files: string[];
+            if (args.file) {
+              files = [args.file];
+            } else if (args.all) {
+              files = parseNotifications(await sshExecutor(notificationsCommand("unread")))
+                .filter(n => n.state === "unread" && (!args.importance || n.importance === args.importance))
+                .map(n => n.file);
+            } else {
+              return { content: [{ type: "text", text: "Error: file or all=true required" }], isError: true };
+            }
+            if (files.length === 0) return { content: [{ type: "text", text: "No unread notifications to archive" }] };
+            await sshExecutor(archiveNotificationsCommand(files));
+            return { content: [{ type: "text", text: `Archived ${files.length} notification${files.length === 1 ? "" : "s"}:\n${files.join("\n")}\n` }] };
+          }
+
+          case "send": {
+            if (!args.subject) return { content: [{ type: "text", text: "Error: subject required" }], isError: true };
+            const output = await sshExecutor(sendNotificationCommand({
+              event: args.event,
+              subject: args.subject,
+              description: args.description,
+              importance: args.importance,
+              message: args.message,
+              link: args.link,
+            }));
+            return { content: [{ type: "text", text: `Sent ${args.importance ?? "normal"} notification: ${args.subject}\n${output}` }] };
+          }
+
+          default:
+            return { content: [{ type: "text", text: `Unknown action: ${args.action}` }], isError: true };
+        }
+      } catch (error) {
+        return { content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    }
+  );
+}
@@ -0,0 +1,138 @@
+import { Notification } from "../../structured.js";
+import { fileName, plainArgument, raw, sh } from "../../shell.js";
+import { parseUnraidCfg } from "./share-config.js";
+
+/**
+ * Unraid notifications: .notify files of key=value lines, unread under
+ * /tmp/notifications/unread and archived under /tmp/notifications/archive or,
+ * when kept on the flash, /boot/config/plugins/dynamix/notifications/archive
+ *
+ * Changes go through Unraid's own notify script so the web UI stays in step.
+ */
+
+export const NOTIFY_SCRIPT = "/usr/local/emhttp/webGui/scripts/notify";
+
+const UNREAD_DIR = "/tmp/notifications/unread";
+
+const ARCHIVE_DIRS = ["/tmp/notifications/archive", "/boot/config/plugins/dynamix/notifications/archive"];
+
+export const NOTIFICATION_IMPORTANCE = ["normal", "warning", "alert"] as const;
+
+export type NotificationImportance = (typeof NOTIFICATION_IMPORTANCE)[number];
+
+/** Event name notifications sent by this server are raised under */
+export const DEFAULT_NOTIFICATION_EVENT = "mcp-ssh-sre";
+
+const IMPORTANCE_RANK: Record<NotificationImportance, number> = { alert: 0, warning: 1, normal: 2 };
+
+/**
+ * Command printing each .notify file as a `--- <state> <path>` section
+ */
+export function notificationsCommand(state: "unread" | "archive" | "all"): string {
+  const sections: string[] = [];
+  if (state !== "archive") sections.push(listDirCommand("unread", [UNREAD_DIR]));
+  if (state !== "unread") sections.push(listDirCommand("archive", ARCHIVE_DIRS));
+  return [...sections, "true"].join("; ");
+}
+
+function listDirCommand(state: string, dirs: string[]): string {
+  const globs = raw(dirs.map(d => `${d}/*.notify`).join(" "));
+  return sh`for f in ${globs}; do [ -f "$f" ] || continue; echo ${`--- ${state}`} "$f"; cat "$f"; echo; done`;
+}
+
+/**
+ * Parse the output of notificationsCommand, newest first
+ * An archived copy on both archive paths is listed once.
+ */
+export function parseNotifications(output: string): Notification[] {
+  const notifications: Notification[] = [];
+  const seen = new Set<string>();
+  for (const section of output.split(/^--- (?=unread |archive )/m).slice(1)) {
+    const newline = section.indexOf("\n");
+    const header = newline === -1 ? section : section.substring(0, newline);
+    const [state, ...pathParts] = header.trim().split(" ");
+    const file = pathParts.join(" ").split("/").pop()!;
+    if (seen.has(`${state} ${file}`)) continue;
+    seen.add(`${state} ${file}`);
+
+    const fields = parseUnraidCfg(newline === -1 ? "" : section.substring(newline + 1));
+    const timestamp = parseInt(fields.timestamp ?? "", 10);
+    const importance = NOTIFICATION_IMPORTANCE.includes(fields.importance as NotificationImportance)
+      ? fields.importance as NotificationImportance
+      : "normal";
+    notifications.push({
+      file,
+      state: state as Notification["state"],
+      time: Number.isFinite(timestamp) ? new Date(timestamp * 1000).toISOString() : null,
+      event: fields.event ?? "",
+      subject: fields.subject ?? "",
+      description: fields.description ?? "",
+      importance,
+      ...(fields.link ? { link: fields.link } : {}),
+      ...(fields.message ? { message: fields.message } : {}),
+    });
+  }
+  return notifications.sort((a, b) => (b.time ?? "").localeCompare(a.time ?? ""));
+}
+
+/**
+ * Command archiving unread notifications by file name (marks them acknowledged in the web UI)
+ */
+export function archiveNotificationsCommand(files: string[]): string {
+  return files.map(f => sh`${raw(NOTIFY_SCRIPT)} archive ${fileName(f, "notification file")}`).join("; ");
+}
+
+/**
+ * Command raising a notification, shown in the web UI and sent to its configured agents
+ *
+ * Each field becomes one key=value line of the .notify file, so line breaks never reach
+ * the script: message lines are joined with a literal `\n`, which notify renders as a
+ * line break, and description lines with spaces.
+ */
+export function sendNotificationCommand(notification: {
+  event?: string;
+  subject: string;
+  description?: string;
+  importance?: NotificationImportance;
+  message?: string;
+  link?: string;
+}): string {
+  const args: string[] = [
+    "-e", plainArgument(notification.event ?? DEFAULT_NOTIFICATION_EVENT, "event"),
+    "-s", plainArgument(notification.subject, "subject"),
+    "-d", plainArgument(joinLines(notification.description ?? "", " "), "description"),
+    "-i", notification.importance ?? "normal",
+  ];
+  if (notification.message) args.push("-m", plainArgument(joinLines(notification.message, "\\n"), "message"));
+  if (notification.link) args.push("-l", plainArgument(notification.link, "link"));
+  return sh`${raw(NOTIFY_SCRIPT)} ${args} 2>&1`;
+}
+
+function joinLines(value: string, separator: string): string {
+  return value.trim().split(/\r?\n/).map(line => line.trimEnd()).join(separator);
+}
+
+/**
+ * Counts by importance, then one entry per notification (most important first within a state)
+ */
+export function formatNotifications(notifications: Notification[]): string {
+  if (notifications.length === 0) return "No notifications\n";
+  const count = (importance: NotificationImportance) => notifications.filter(n => n.importance === importance).length;
+  let text = `Notifications: ${notifications.length} (alert ${count("alert")}, warning ${count("warning")}, normal ${count("normal")})\n`;
+  const ordered = [...notifications].sort((a, b) =>
+    b.state.localeCompare(a.state) || IMPORTANCE_RANK[a.importance] - IMPORTANCE_RANK[b.importance]
+  );
+  let state = "";
+  for (const n of ordered) {
+    if (n.state !== state) {
+      state = n.state;
+      text += `\n${state === "unread" ? "Unread" : "Archived"}:\n`;
+    }
+    const time = n.time ? n.time.slice(0, 16).replace("T", " ") : "unknown time";
+    text += `[${n.importance.toUpperCase()}] ${time}  ${n.subject || n.event}\n`;
+    if (n.description) text += `  ${n.description}\n`;
+    if (n.message) text += `  ${n.message.replace(/\n/g, "\n  ")}\n`;
+    text += `  (${n.file})\n`;
+  }
+  return text;
+}
@@ -0,0 +1,217 @@
+import { ParityCheckRecord, ParityHistory } from "../../structured.js";
+import { findCronEntry, fromNaiveTime, nextCronRun, toNaiveTime } from "../../cron.js";
+
+/**
+ * Unraid parity check history (/boot/config/parity-checks.log) and schedule
+ * (/boot/config/plugins/dynamix/parity-check.cron)
+ *
+ * Each log line is `date|duration s|speed|exit code|errors`, with `|action|size KB`
+ * appended since Unraid 6.10. Dates are host-local naive times (see cron.ts).
+ */
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Checks compared against the latest when looking for a speed regression */
+const SPEED_BASELINE_CHECKS = 5;
+
+/** Latest speed below this share of the baseline is a regression */
+const SPEED_REGRESSION_RATIO = 0.8;
+
+/**
+ * Read PARITY_CHECK_MAX_AGE_DAYS (default 35: a monthly schedule plus slack)
+ */
+export function loadParityCheckMaxAgeDays(): number {
+  const days = parseFloat(process.env.PARITY_CHECK_MAX_AGE_DAYS ?? "35");
+  return Number.isFinite(days) && days > 0 ? days : 35;
+}
+
+function parseLogDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})\s+([A-Za-z]{3})\s+(\d{1,2})\s+(\d{1,2}):(\d{2}):(\d{2})$/);
+  if (!match) return null;
+  const month = MONTHS.indexOf(match[2].toLowerCase());
+  if (month === -1) return null;
+  return toNaiveTime(Date.UTC(+match[1], month, +match[3], +match[4], +match[5], +match[6]));
+}
+
+function parseSpeed(value: string | undefined): number | null {
+  const match = value?.match(/([\d.]+)\s*([KMG])B\/s/i);
+  if (!match) return null;
+  const factor = { K: 1 / 1000, M: 1, G: 1000 }[match[2].toUpperCase() as "K" | "M" | "G"];
+  return Math.round(parseFloat(match[1]) * factor * 10) / 10;
+}
+
+/**
+ * Parse parity-checks.log, oldest first (lines that do not parse are skipped)
+ */
+export function parseParityLog(content: string): ParityCheckRecord[] {
+  const records: ParityCheckRecord[] = [];
+  for (const line of content.split("\n")) {
+    const fields = line.split("|");
+    if (fields.length < 5) continue;
+    const finishedAt = parseLogDate(fields[0]);
+    if (!finishedAt) continue;
+
+    const durationSeconds = parseInt(fields[1], 10) || 0;
+    const sizeKb = parseInt(fields[6] ?? "", 10);
+    let speedMBps = parseSpeed(fields[2]);
+    if (speedMBps === null && sizeKb > 0 && durationSeconds > 0) {
+      speedMBps = Math.round((sizeKb * 1024 / 1e6 / durationSeconds) * 10) / 10;
+    }
+    records.push({
+      finishedAt,
+      durationSeconds,
+      speedMBps,
+      exitCode: parseInt(fields[3], 10) || 0,
+      errors: parseInt(fields[4], 10) || 0,
+      ...(fields[5]?.trim() ? { action: fields[5].trim() } : {}),
+      ...(sizeKb > 0 ? { sizeKb } : {}),
+    });
+  }
+  return records.sort((a, b) => a.finishedAt.localeCompare(b.finishedAt));
+}
+
+/**
+ * Read the parity check line of parity-check.cron
+ */
+export function parseParitySchedule(content: string, now: string): ParityHistory["schedule"] {
+  const entry = findCronEntry(content, /\bcheck\b/);
+  if (!entry) return null;
+  return {
+    cron: entry.cron,
+    nextAt: nextCronRun(entry.cron, now),
+    correcting: !/NOCORRECT/.test(entry.command),
+  };
+}
+
+/**
+ * Parity checks and syncs; rebuilds (`recon`) and disk clears share the log but not its statistics.
+ * Lines from before 6.10 carry no action and were all checks.
+ */
+function isParityCheck(record: ParityCheckRecord): boolean {
+  return !record.action || /^(check|sync)\b/i.test(record.action);
+}
+
+function average(values: number[]): number | null {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+/**
+ * Statistics and findings over the parity checks in the parsed history
+ *
+ * Findings: no completed check within maxAgeDays, the last check not
+ * completing, errors in the last completed check (or rising over the last
+ * three), and the latest check running well below the speed of the ones before
+ * it on the same parity size.
+ */
+export function analyzeParityHistory(
+  records: ParityCheckRecord[],
+  schedule: ParityHistory["schedule"],
+  now: string,
+  maxAgeDays: number
+): ParityHistory {
+  const checks = records.filter(isParityCheck);
+  const completed = checks.filter(r => r.exitCode === 0);
+  const last = checks[checks.length - 1];
+  const lastSuccess = completed[completed.length - 1];
+  const lastSuccessAgeDays = lastSuccess ? Math.floor((fromNaiveTime(now) - fromNaiveTime(lastSuccess.finishedAt)) / DAY_MS) : null;
+  const speeds = completed.map(r => r.speedMBps).filter((s): s is number => s !== null);
+  const averageDuration = average(completed.map(r => r.durationSeconds));
+  const averageSpeed = average(speeds);
+  const findings: ParityHistory["findings"] = [];
+
+  if (!lastSuccess) {
+    findings.push({ severity: "WARNING", message: checks.length ? "No completed parity check on record" : "No parity checks recorded" });
+  } else if (lastSuccessAgeDays! > maxAgeDays) {
+    findings.push({ severity: "WARNING", message: `Last completed parity check was ${lastSuccessAgeDays} days ago (limit ${maxAgeDays})` });
+  }
+  if (last && last.exitCode !== 0) {
+    findings.push({ severity: "WARNING", message: `Last check on ${last.finishedAt.slice(0, 10)} did not complete (${describeExitCode(last.exitCode)})` });
+  }
+
+  if (lastSuccess && lastSuccess.errors > 0) {
+    findings.push({ severity: "WARNING", message: `Last completed check found ${lastSuccess.errors} errors` });
+  }
+  const recentErrors = completed.slice(-3).map(r => r.errors);
+  if (recentErrors.length === 3 && recentErrors[0] > 0 && recentErrors[1] > recentErrors[0] && recentErrors[2] > recentErrors[1]) {
+    findings.push({ severity: "CRITICAL", message: `Parity errors rising over the last 3 checks: ${recentErrors.join(", ")}` });
+  }
+
+  if (lastSuccess?.speedMBps) {
+    // A different parity size means different drives, so only like-for-like checks count
+    const comparable = completed.slice(0, -1).filter(r => r.sizeKb === lastSuccess.sizeKb);
+    const baseline = average(
+      comparable.slice(-SPEED_BASELINE_CHECKS).map(r => r.speedMBps).filter((s): s is number => s !== null)
+    );
+    if (baseline && lastSuccess.speedMBps < baseline * SPEED_REGRESSION_RATIO) {
+      const slower = Math.round((1 - lastSuccess.speedMBps / baseline) * 100);
+      findings.push({
+        severity: "WARNING",
+        message: `Latest check ran at ${lastSuccess.speedMBps} MB/s, ${slower}% slower than the previous average of ${baseline.toFixed(1)} MB/s`,
+      });
+    }
+  }
+
+  return {
+    records,
+    stats: {
+      checks: checks.length,
+      completed: completed.length,
+      otherOperations: records.length - checks.length,
+      averageDurationSeconds: averageDuration === null ? null : Math.round(averageDuration),
+      averageSpeedMBps: averageSpeed === null ? null : Math.round(averageSpeed * 10) / 10,
+      lastSuccessAt: lastSuccess?.finishedAt ?? null,
+      lastSuccessAgeDays,
+    },
+    schedule,
+    findings,
+  };
+}
+
+function describeExitCode(code: number): string {
+  if (code === 0) return "OK";
+  if (code === -4) return "cancelled";
+  return `exit ${code}`;
+}
+
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+}
+
+/**
+ * Summary, findings and the most recent `limit` checks
+ */
+export function formatParityHistory(history: ParityHistory, limit: number): string {
+  const { stats, schedule } = history;
+  let text = `Checks: ${stats.checks} (${stats.completed} completed)`;
+  if (stats.averageDurationSeconds !== null) text += `, average ${formatDuration(stats.averageDurationSeconds)}`;
+  if (stats.averageSpeedMBps !== null) text += ` at ${stats.averageSpeedMBps} MB/s`;
+  text += "\n";
+  if (stats.otherOperations) text += `Rebuilds and clears: ${stats.otherOperations} (not counted as checks)\n`;
+  text += stats.lastSuccessAt
+    ? `Last completed: ${stats.lastSuccessAt.replace("T", " ")} (${stats.lastSuccessAgeDays} days ago)\n`
+    : "Last completed: never\n";
+  if (!schedule) text += "Next scheduled: none (no parity check schedule)\n";
+  else {
+    text += `Next scheduled: ${schedule.nextAt ? schedule.nextAt.replace("T", " ") : "unknown"}`;
+    text += ` (${schedule.correcting ? "correcting" : "non-correcting"}, cron "${schedule.cron}")\n`;
+  }
+
+  if (history.findings.length) {
+    text += "\nFindings:\n";
+    for (const finding of history.findings) text += `[${finding.severity}] ${finding.message}\n`;
+  }
+
+  const recent = history.records.slice(-limit).reverse();
+  if (recent.length) {
+    text += `\nRecent checks (last ${recent.length}):\n`;
+    for (const r of recent) {
+      const speed = r.speedMBps !== null ? `${r.speedMBps} MB/s` : "-";
+      text += `${r.finishedAt.replace("T", " ")}  ${(r.action ?? "check").padEnd(10)} ${formatDuration(r.durationSeconds).padStart(7)}  ${speed.padStart(11)}  ${r.errors} errors  ${describeExitCode(r.exitCode)}\n`;
+    }
+  }
+  return text;
+}
@@ -1,14 +1,28 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { applyFilters, outputFiltersSchema } from "../../filters.js";
+import { applyFilters, applyFiltersToText, outputFiltersSchema } from "../../filters.js";
 import { SSHExecutor } from "../types.js";
+import { safePath, sh } from "../../shell.js";
+import { formatShareConfig, parseShareConfigs, shareConfigsCommand } from "./share-config.js";
+import {
+  TEMPLATES_DIR,
+  formatDockerTemplate,
+  formatTemplateDrift,
+  inspectContainersCommand,
+  parseDockerTemplates,
+  redactTemplate,
+  templateDrift,
+  templatesCommand,
+} from "./docker-templates.js";
 
-const pluginActions = ["list", "updates", "template", "scripts", "share_config", "disk_assignments", "recent_changes"] as const;
+const pluginActions = [
+  "list", "updates", "template", "template_drift", "scripts", "share_config", "disk_assignments", "recent_changes",
+] as const;
 
 export function registerUnraidPluginTools(server: McpServer, sshExecutor: SSHExecutor): void {
   server.tool(
     "plugin",
-    "Plugin/config ops. Actions: list (installed plugins), updates (available updates), template (docker templates), scripts (user scripts), share_config (share settings), disk_assignments (disk IDs), recent_changes (modified config files).",
+    "Plugin/config ops. Actions: list (installed plugins), updates (available updates), template (parsed dockerMan template), template_drift (templates vs running containers; all, or one with template), scripts (user scripts), share_config (share settings), disk_assignments (disk IDs), recent_changes (modified config files).",
     {
       action: z.enum(pluginActions).describe("Action"),
       template: z.string().optional().describe("Template name"),
@@ -48,12 +62,28 @@ export function registerUnraidPluginTools(server: McpServer, sshExecutor: SSHExe
 
           case "template": {
             if (!args.template) return { content: [{ type: "text", text: "Error: template required" }], isError: true };
-            const templateName = args.template.endsWith(".xml") ? args.template : `${args.template}.xml`;
-            const templatePath = `/boot/config/plugins/dockerMan/templates-user/${templateName}`;
-            let cmd = `if [ -f "${templatePath}" ]; then cat "${templatePath}"; else echo "Not found. Available:"; ls -1 /boot/config/plugins/dockerMan/templates-user/*.xml 2>/dev/null | xargs -n 1 basename 2>/dev/null || echo "None"; fi`;
-            cmd = applyFilters(cmd, args);
-            const output = await sshExecutor(cmd);
-            return { content: [{ type: "text", text: output }] };
+            const templates = parseDockerTemplates(await sshExecutor(templatesCommand(args.template))).map(redactTemplate);
+            if (templates.length === 0) {
+              const available = await sshExecutor(`ls -1 ${TEMPLATES_DIR}/*.xml 2>/dev/null | xargs -n 1 basename 2>/dev/null || echo "None"`);
+              return { content: [{ type: "text", text: `Template not found: ${args.template}. Available:\n${available}` }] };
+            }
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`Docker Template:\n\n${formatDockerTemplate(templates[0])}`, args) }],
+              structuredContent: { templates },
+            };
+          }
+
+          case "template_drift": {
+            const templates = parseDockerTemplates(await sshExecutor(templatesCommand(args.template)));
+            if (args.template && templates.length === 0) {
+              return { content: [{ type: "text", text: `Template not found: ${args.template}` }], isError: true };
+            }
+            const inspect = (await sshExecutor(inspectContainersCommand(templates.length === 1 && args.template ? templates[0].name : undefined))).trim();
+            const { drift, missing } = templateDrift(templates, inspect ? JSON.parse(inspect) : []);
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`Template Drift:\n\n${formatTemplateDrift(drift, missing, templates.length)}`, args) }],
+              structuredContent: { templateDrift: drift },
+            };
           }
 
           case "scripts": {
@@ -70,12 +100,10 @@ export function registerUnraidPluginTools(server: McpServer, sshExecutor: SSHExe
           }
 
           case "share_config": {
-            const sharePattern = args.share ? `/boot/config/shares/${args.share}.cfg` : "/boot/config/shares/*.cfg";
-            let cmd = `for cfg_file in ${sharePattern}; do if [ ! -f "$cfg_file" ]; then echo "No configs"; exit 0; fi; share_name=$(basename "$cfg_file" .cfg); echo "=== $share_name ==="; cat "$cfg_file"; echo "---"; done`;
-            cmd = applyFilters(cmd, args);
-            const output = await sshExecutor(cmd);
-            if (output.includes("No configs")) return { content: [{ type: "text", text: args.share ? `Share not found: ${args.share}` : "No share configs" }] };
-            return { content: [{ type: "text", text: output }] };
+            const shares = parseShareConfigs(await sshExecutor(shareConfigsCommand(args.share)));
+            if (shares.length === 0) return { content: [{ type: "text", text: args.share ? `Share not found: ${args.share}` : "No share configs" }] };
+            const output = shares.map(formatShareConfig).join("\n");
+            return { content: [{ type: "text", text: applyFiltersToText(`Share Configs:\n\n${output}`, args) }] };
           }
 
           case "disk_assignments": {
@@ -86,10 +114,10 @@ export function registerUnraidPluginTools(server: McpServer, sshExecutor: SSHExe
           }
 
           case "recent_changes": {
-            const path = args.path ?? "/boot/config";
+            const path = safePath(args.path ?? "/boot/config");
             const hours = args.hours ?? 24;
             const days = hours / 24;
-            let cmd = `if [ ! -d "${path}" ]; then echo "Path not found: ${path}"; exit 1; fi; echo "=== Files modified in last ${hours}h ==="; find "${path}" -type f -mtime -${days} -exec ls -lh {} \\; 2>/dev/null | sort -k6,7; echo ""; count=$(find "${path}" -type f -mtime -${days} 2>/dev/null | wc -l); echo "Total: $count"`;
+            let cmd = sh`if [ ! -d ${path} ]; then echo ${`Path not found: ${path}`}; exit 1; fi; echo ${`=== Files modified in last ${hours}h ===`}; find ${path} -type f -mtime ${`-${days}`} -exec ls -lh {} \\; 2>/dev/null | sort -k6,7; echo ""; count=$(find ${path} -type f -mtime ${`-${days}`} 2>/dev/null | wc -l); echo "Total: $count"`;
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: output }] };
@@ -0,0 +1,218 @@
+import { formatBytes } from "../../format.js";
+import { ShareConfig, ShareReport } from "../../structured.js";
+import { raw, sh, shareName } from "../../shell.js";
+
+/**
+ * Unraid share settings from /boot/config/shares/<share>.cfg
+ *
+ * The .cfg files (like most of /boot/config) are lines of key="value". Shares
+ * without a .cfg use the defaults, which is what the parser falls back to.
+ */
+
+/** Mount points under /mnt that are neither array disks nor pools */
+const NON_STORAGE_MOUNTS = /^(user0?|disks|remotes|addons|rootshare)$/;
+
+/** Array disk mount points (disk1, disk2, ...) */
+const ARRAY_DISK = /^disk\d+$/;
+
+/**
+ * Command listing share configs as `--- share <path>` sections followed by their contents
+ * Reads every share, or only `share` when given.
+ */
+export function shareConfigsCommand(share?: string): string {
+  const files = share ? `/boot/config/shares/${shareName(share)}.cfg` : raw("/boot/config/shares/*.cfg");
+  return sh`for f in ${files}; do [ -f "$f" ] || continue; echo "--- share $f"; cat "$f"; echo; done`;
+}
+
+/**
+ * Share configs, then the mounted disks and pools, then `du` of each share directory on them
+ */
+export const SHARE_REPORT_COMMAND = [
+  shareConfigsCommand(),
+  "echo '--- mounts'",
+  "mounts=$(df --output=target 2>/dev/null | grep -E '^/mnt/[^/]+$')",
+  "echo \"$mounts\"",
+  "echo '--- usage'",
+  `for m in $mounts; do case "$m" in /mnt/user|/mnt/user0|/mnt/disks|/mnt/remotes|/mnt/addons|/mnt/rootshare) continue;; esac; du -s -B1 "$m"/*/ 2>/dev/null; done`,
+  "true",
+].join("; ");
+
+/**
+ * Whether a /mnt/<name> mount is an array disk, a pool, or neither
+ */
+export function classifyMount(name: string): "disk" | "pool" | null {
+  if (ARRAY_DISK.test(name)) return "disk";
+  if (NON_STORAGE_MOUNTS.test(name)) return null;
+  return "pool";
+}
+
+/**
+ * Parse key="value" lines (unquoted values and comments are tolerated)
+ */
+export function parseUnraidCfg(content: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of content.split("\n")) {
+    const match = line.match(/^\s*([A-Za-z0-9_.-]+)\s*=\s*"?(.*?)"?\s*$/);
+    if (match && !line.trim().startsWith("#")) fields[match[1]] = match[2];
+  }
+  return fields;
+}
+
+function diskList(value: string | undefined): string[] {
+  return (value ?? "").split(",").map(d => d.trim()).filter(Boolean);
+}
+
+/**
+ * Build the share model from the fields of one .cfg file
+ */
+export function parseShareConfig(name: string, fields: Record<string, string>): ShareConfig {
+  const smbExport = fields.shareExport === "e" ? "yes" : fields.shareExport === "eh" ? "hidden" : "no";
+  return {
+    name,
+    ...(fields.shareComment ? { comment: fields.shareComment } : {}),
+    allocator: fields.shareAllocator || "highwater",
+    splitLevel: fields.shareSplitLevel ?? "",
+    includeDisks: diskList(fields.shareInclude),
+    excludeDisks: diskList(fields.shareExclude),
+    ...(fields.shareFloor ? { floor: fields.shareFloor } : {}),
+    useCache: fields.shareUseCache || "no",
+    cachePool: fields.shareCachePool || "cache",
+    ...(fields.shareCachePool2 ? { cachePool2: fields.shareCachePool2 } : {}),
+    smb: { export: smbExport, security: fields.shareSecurity || "public" },
+    nfs: { export: fields.shareExportNFS === "e" ? "yes" : "no", security: fields.shareSecurityNFS || "public" },
+    fields,
+  };
+}
+
+/**
+ * Parse the output of shareConfigsCommand, sorted by name
+ */
+export function parseShareConfigs(output: string): ShareConfig[] {
+  const shares: ShareConfig[] = [];
+  for (const section of output.split(/^--- share /m).slice(1)) {
+    const newline = section.indexOf("\n");
+    const path = (newline === -1 ? section : section.substring(0, newline)).trim();
+    const name = path.split("/").pop()!.replace(/\.cfg$/, "");
+    shares.push(parseShareConfig(name, parseUnraidCfg(newline === -1 ? "" : section.substring(newline + 1))));
+  }
+  return shares.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Where the mover takes a share's files, or null when it leaves them alone
+ */
+export function moverDirection(share: ShareConfig): string | null {
+  if (share.useCache === "yes") return `${share.cachePool} -> ${share.cachePool2 ?? "array"}`;
+  if (share.useCache === "prefer") return `${share.cachePool2 ?? "array"} -> ${share.cachePool}`;
+  return null;
+}
+
+/**
+ * Combine configs with where each share's data actually is, and check them against the mounts
+ *
+ * Disk checks are skipped while no array disk is mounted (array stopped).
+ * Shares found on disk without a .cfg are reported with the defaults.
+ */
+export function parseShareReport(output: string): ShareReport {
+  const mountsAt = output.indexOf("--- mounts\n");
+  const usageAt = output.indexOf("--- usage\n");
+  const configs = parseShareConfigs(mountsAt === -1 ? output : output.substring(0, mountsAt));
+  const mountNames = mountsAt === -1 ? [] : output
+    .substring(mountsAt, usageAt === -1 ? undefined : usageAt)
+    .split("\n")
+    .map(line => line.match(/^\/mnt\/([^/\s]+)$/)?.[1])
+    .filter((m): m is string => !!m);
+  const disks = mountNames.filter(m => classifyMount(m) === "disk")
+    .sort((a, b) => parseInt(a.slice(4), 10) - parseInt(b.slice(4), 10));
+  const pools = mountNames.filter(m => classifyMount(m) === "pool").sort();
+
+  const usage = new Map<string, { mount: string; bytes: number }[]>();
+  for (const line of usageAt === -1 ? [] : output.substring(usageAt).split("\n")) {
+    const match = line.match(/^(\d+)\s+\/mnt\/([^/]+)\/(.+?)\/?$/);
+    if (!match || classifyMount(match[2]) === null) continue;
+    usage.set(match[3], [...(usage.get(match[3]) ?? []), { mount: match[2], bytes: +match[1] }]);
+  }
+
+  const findings: ShareReport["findings"] = [];
+  const names = new Set(configs.map(s => s.name));
+  for (const name of [...usage.keys()].filter(n => !names.has(n)).sort((a, b) => a.localeCompare(b))) {
+    configs.push(parseShareConfig(name, {}));
+    findings.push({ share: name, severity: "INFO", message: "No .cfg file; Unraid defaults apply" });
+  }
+
+  const shares = configs.map(share => {
+    const distribution = (usage.get(share.name) ?? []).sort((a, b) => b.bytes - a.bytes);
+    const add = (severity: "INFO" | "WARNING", message: string) => findings.push({ share: share.name, severity, message });
+
+    if (disks.length) {
+      for (const disk of share.includeDisks.filter(d => !disks.includes(d))) add("WARNING", `Included disk ${disk} does not exist`);
+      for (const disk of share.excludeDisks.filter(d => !disks.includes(d))) add("INFO", `Excluded disk ${disk} does not exist`);
+      for (const disk of share.includeDisks.filter(d => share.excludeDisks.includes(d))) add("WARNING", `${disk} is both included and excluded`);
+      if (share.includeDisks.length && share.includeDisks.every(d => !disks.includes(d)) && share.useCache !== "only") {
+        add("WARNING", "None of the included disks exist; new files cannot be written to the array");
+      }
+    }
+
+    const onArray = distribution.filter(d => classifyMount(d.mount) === "disk" && d.bytes > 0);
+    const onPools = distribution.filter(d => classifyMount(d.mount) === "pool" && d.bytes > 0);
+    for (const d of onArray) {
+      if (share.excludeDisks.includes(d.mount)) add("INFO", `${formatBytes(d.bytes)} on ${d.mount}, which is excluded`);
+      else if (share.includeDisks.length && !share.includeDisks.includes(d.mount)) {
+        add("INFO", `${formatBytes(d.bytes)} on ${d.mount}, which is not in the include list`);
+      }
+    }
+
+    if (share.useCache !== "no" && pools.length && !pools.includes(share.cachePool)) {
+      add("WARNING", `Pool ${share.cachePool} does not exist (shareUseCache=${share.useCache})`);
+    }
+    if (share.cachePool2 && pools.length && !pools.includes(share.cachePool2)) add("WARNING", `Secondary pool ${share.cachePool2} does not exist`);
+    if (share.useCache === "no") {
+      for (const d of onPools) add("WARNING", `${formatBytes(d.bytes)} on pool ${d.mount} will not be moved (shareUseCache=no)`);
+    }
+    if (share.useCache === "only") {
+      for (const d of onArray) add("WARNING", `${formatBytes(d.bytes)} on ${d.mount} will not be moved to ${share.cachePool} (shareUseCache=only)`);
+    }
+    for (const d of onPools.filter(p => p.mount !== share.cachePool && p.mount !== share.cachePool2)) {
+      add("INFO", `${formatBytes(d.bytes)} on pool ${d.mount}, which is not configured for this share`);
+    }
+
+    if (share.smb.export !== "no" && share.smb.security === "public") add("INFO", "Exported over SMB with public access");
+    if (share.nfs.export === "yes" && share.nfs.security === "public") add("INFO", "Exported over NFS with public access");
+    return { ...share, distribution };
+  });
+
+  return { shares, disks, pools, findings };
+}
+
+/**
+ * Allocation, cache and export settings of one share
+ */
+export function formatShareConfig(share: ShareConfig): string {
+  let text = `${share.name}${share.comment ? ` - ${share.comment}` : ""}\n`;
+  text += `  Allocator: ${share.allocator}, split level: ${share.splitLevel || "any"}`;
+  text += share.floor ? `, minimum free: ${share.floor}\n` : "\n";
+  text += `  Include: ${share.includeDisks.join(",") || "all"}, exclude: ${share.excludeDisks.join(",") || "none"}\n`;
+  text += `  Cache: ${share.useCache}${moverDirection(share) ? ` (${moverDirection(share)})` : share.useCache === "only" ? ` (${share.cachePool})` : ""}\n`;
+  text += `  SMB: ${share.smb.export === "no" ? "not exported" : `${share.smb.export === "hidden" ? "hidden, " : ""}${share.smb.security}`}`;
+  text += `, NFS: ${share.nfs.export === "no" ? "not exported" : share.nfs.security}\n`;
+  return text;
+}
+
+/**
+ * Settings, per-disk distribution and findings for every share
+ */
+export function formatShareReport(report: ShareReport): string {
+  let text = `Shares: ${report.shares.length}, disks: ${report.disks.join(", ") || "none mounted"}, pools: ${report.pools.join(", ") || "none"}\n`;
+  if (report.findings.length) {
+    text += "\nFindings:\n";
+    for (const f of report.findings) text += `[${f.severity}] ${f.share}: ${f.message}\n`;
+  }
+  for (const share of report.shares) {
+    text += `\n${formatShareConfig(share)}`;
+    const total = share.distribution.reduce((sum, d) => sum + d.bytes, 0);
+    text += share.distribution.length
+      ? `  Data: ${formatBytes(total)} (${share.distribution.map(d => `${d.mount} ${formatBytes(d.bytes)}`).join(", ")})\n`
+      : "  Data: none found\n";
+  }
+  return text;
+}
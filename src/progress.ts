@@ -0,0 +1,63 @@
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { CommandOptions } from "./platforms/types.js";
+
+/**
+ * Request context passed to tool handlers by the MCP server
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** Longest partial output sent in a single progress message */
+const MAX_PROGRESS_MESSAGE_CHARS = 2000;
+
+/**
+ * Build execution options that stream a long-running command back to the client
+ *
+ * Each complete line of stdout is reported as an MCP progress notification
+ * (progress = lines so far, message = the new lines) when the client sent a
+ * progressToken, and the request's abort signal is passed through so that a
+ * client cancellation stops the remote command.
+ *
+ * @param extra - Handler context; may be absent when a tool is called directly
+ * @param options - Base options such as timeoutMs
+ * @param total - Expected number of output lines, if known
+ */
+export function streamingOptions(extra: ToolExtra | undefined, options: CommandOptions = {}, total?: number): CommandOptions {
+  const progressToken = extra?._meta?.progressToken;
+  const streamed: CommandOptions = { ...options, signal: extra?.signal };
+  if (progressToken === undefined || !extra?.sendNotification) {
+    return streamed;
+  }
+
+  let pending = "";
+  let lines = 0;
+
+  streamed.onOutput = (chunk: string) => {
+    pending += chunk;
+    const end = pending.lastIndexOf("\n");
+    if (end === -1) return;
+
+    const complete = pending.slice(0, end);
+    pending = pending.slice(end + 1);
+    lines += complete.split("\n").length;
+
+    const message = complete.length > MAX_PROGRESS_MESSAGE_CHARS
+      ? complete.slice(-MAX_PROGRESS_MESSAGE_CHARS)
+      : complete;
+
+    extra.sendNotification({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: lines,
+        ...(total !== undefined ? { total } : {}),
+        message,
+      },
+    }).catch((error) => {
+      // Progress is best-effort; the final result still carries the full output
+      console.error(`Failed to send progress notification: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  };
+
+  return streamed;
+}
@@ -0,0 +1,253 @@
+import path from "path";
+
+/**
+ * Safe construction of remote shell commands
+ *
+ * Every value that originates from tool arguments (or from remote output that is
+ * fed back into a command) must reach the shell through this module: either
+ * interpolated with the `sh` template tag, which quotes each value as a single
+ * word, or validated by one of the identifier helpers first when the value also
+ * has to be a well-formed name, host or path.
+ */
+
+/** Words made only of these characters need no quoting */
+const SAFE_WORD = /^[A-Za-z0-9_@%+=:,./-]+$/;
+
+/** Control characters (including newline and NUL) are never valid in arguments */
+const CONTROL_CHARS = /[\x00-\x1f\x7f]/;
+
+/**
+ * A piece of shell syntax that is inserted verbatim by `sh`
+ * Only ever construct these from constants or from other `sh` results
+ */
+export class ShellFragment {
+  constructor(readonly text: string) {}
+
+  toString(): string {
+    return this.text;
+  }
+}
+
+export type ShellValue = string | number | ShellFragment | ReadonlyArray<string | number>;
+
+/**
+ * Quote a value as a single POSIX shell word
+ *
+ * Safe words are returned unchanged so that simple commands stay readable;
+ * anything else is wrapped in single quotes with embedded quotes escaped.
+ *
+ * @example
+ * shellQuote("nginx")          // nginx
+ * shellQuote("a b; rm -rf /")  // 'a b; rm -rf /'
+ * shellQuote("it's")           // 'it'\''s'
+ */
+export function shellQuote(value: string | number): string {
+  const text = String(value);
+  if (text.includes("\0")) {
+    throw new Error("Shell arguments cannot contain NUL bytes");
+  }
+  if (text !== "" && SAFE_WORD.test(text)) return text;
+  return `'${text.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Mark trusted shell syntax (pipes, redirects, constant flags) for verbatim use in `sh`
+ */
+export function raw(text: string): ShellFragment {
+  return new ShellFragment(text);
+}
+
+/**
+ * Template tag that quotes every interpolated value
+ *
+ * Strings and numbers become one quoted word, arrays become one word per element,
+ * and ShellFragments (from `raw` or nested `sh` calls via `raw`) are inserted as-is.
+ *
+ * @example
+ * sh`docker logs --tail ${lines} ${container} 2>&1`
+ */
+export function sh(strings: TemplateStringsArray, ...values: ShellValue[]): string {
+  let command = strings[0];
+  values.forEach((value, i) => {
+    if (value instanceof ShellFragment) {
+      command += value.text;
+    } else if (Array.isArray(value)) {
+      command += value.map(shellQuote).join(" ");
+    } else {
+      command += shellQuote(value as string | number);
+    }
+    command += strings[i + 1];
+  });
+  return command;
+}
+
+/**
+ * Reject values that could be read as an option or carry control characters
+ * Used for free-form arguments (search patterns, time specs) that are quoted afterwards
+ */
+export function plainArgument(value: string, label: string): string {
+  if (CONTROL_CHARS.test(value)) {
+    throw new Error(`Invalid ${label}: control characters are not allowed`);
+  }
+  if (value.startsWith("-")) {
+    throw new Error(`Invalid ${label} "${value}": must not start with "-"`);
+  }
+  return value;
+}
+
+function matchIdentifier(value: string, pattern: RegExp, label: string, expected: string): string {
+  if (!pattern.test(value)) {
+    throw new Error(`Invalid ${label} "${value.replace(CONTROL_CHARS, "?")}": ${expected}`);
+  }
+  return value;
+}
+
+/**
+ * Validate a simple name: letters, digits, '_', '.' or '-', not starting with a symbol
+ */
+export function identifier(value: string, label: string): string {
+  return matchIdentifier(
+    value,
+    /^[A-Za-z0-9][A-Za-z0-9_.-]{0,254}$/,
+    label,
+    "expected letters, digits, '_', '.' or '-'"
+  );
+}
+
+/**
+ * Validate a Docker container, network, volume name or ID
+ */
+export function dockerName(value: string, label = "container name"): string {
+  return identifier(value, label);
+}
+
+/**
+ * Validate a Docker image reference (registry/repo:tag or @digest)
+ */
+export function imageReference(value: string): string {
+  return matchIdentifier(
+    value,
+    /^[A-Za-z0-9][A-Za-z0-9_.\/:@-]{0,511}$/,
+    "image reference",
+    "expected [registry/]repository[:tag|@digest]"
+  );
+}
+
+/**
+ * Validate a single file name (no directory separators), e.g. a template file
+ */
+export function fileName(value: string, label = "file name"): string {
+  return matchIdentifier(
+    value,
+    /^[A-Za-z0-9][^\/\x00-\x1f\x7f]{0,254}$/,
+    label,
+    "expected a file name without '/' that starts with a letter or digit"
+  );
+}
+
+/**
+ * Validate a libvirt domain name (Unraid VM names commonly contain spaces)
+ */
+export function vmName(value: string): string {
+  return matchIdentifier(
+    value,
+    /^[A-Za-z0-9][A-Za-z0-9 _.+()-]{0,127}$/,
+    "VM name",
+    "expected letters, digits, spaces or _.+()-"
+  );
+}
+
+/**
+ * Validate an Unraid user share name (a single directory under /mnt/user)
+ */
+export function shareName(value: string): string {
+  if (value === "." || value === "..") {
+    throw new Error(`Invalid share name "${value}"`);
+  }
+  return matchIdentifier(
+    value,
+    /^[A-Za-z0-9][A-Za-z0-9 _.-]{0,127}$/,
+    "share name",
+    "expected letters, digits, spaces, '_', '.' or '-'"
+  );
+}
+
+/**
+ * Validate a hostname, IPv4 or IPv6 address used as a network test target
+ */
+export function hostTarget(value: string): string {
+  return matchIdentifier(
+    value,
+    /^[A-Za-z0-9][A-Za-z0-9.:%_-]{0,252}$/,
+    "host",
+    "expected a hostname or IP address"
+  );
+}
+
+/**
+ * Validate a system service or unit name (e.g. nginx, docker.service, getty@tty1)
+ */
+export function serviceName(value: string): string {
+  return matchIdentifier(
+    value,
+    /^[A-Za-z0-9][A-Za-z0-9_.@:-]{0,255}$/,
+    "service name",
+    "expected letters, digits or _.@:-"
+  );
+}
+
+/**
+ * Validate a block device name or path (sdb, nvme0n1, /dev/sdb)
+ */
+export function deviceName(value: string): string {
+  matchIdentifier(
+    value,
+    /^(\/dev\/)?[A-Za-z0-9][A-Za-z0-9_.:\/-]{0,127}$/,
+    "device",
+    "expected a device name such as sdb or /dev/nvme0n1"
+  );
+  if (value.split("/").includes("..")) {
+    throw new Error(`Invalid device "${value}": must not contain ".."`);
+  }
+  return value;
+}
+
+/**
+ * Validate a ZFS pool, dataset or snapshot name (tank, tank/media, tank/media@daily)
+ */
+export function zfsName(value: string, label = "dataset"): string {
+  matchIdentifier(
+    value,
+    /^[A-Za-z0-9][A-Za-z0-9_.:\/@-]{0,255}$/,
+    label,
+    "expected a pool or dataset name such as tank/media"
+  );
+  if (value.split("/").includes("..")) {
+    throw new Error(`Invalid ${label} "${value}": must not contain ".."`);
+  }
+  return value;
+}
+
+/**
+ * Normalize an absolute remote path
+ *
+ * `..` segments are resolved before any root check, so a path cannot climb out of
+ * the allowed roots; the result never starts with "-" and contains no control characters.
+ *
+ * @param value - Path supplied by the caller
+ * @param roots - If given, the normalized path must be one of these or inside one
+ */
+export function safePath(value: string, roots?: string[]): string {
+  if (CONTROL_CHARS.test(value)) {
+    throw new Error("Invalid path: control characters are not allowed");
+  }
+  if (!value.startsWith("/")) {
+    throw new Error(`Invalid path "${value}": must be absolute`);
+  }
+  const normalized = path.posix.normalize(value);
+  const trimmed = normalized.length > 1 ? normalized.replace(/\/+$/, "") : normalized;
+  if (roots && !roots.some(root => trimmed === root || trimmed.startsWith(root.endsWith("/") ? root : `${root}/`))) {
+    throw new Error(`Path "${trimmed}" is outside the allowed locations (${roots.join(", ")})`);
+  }
+  return trimmed;
+}
@@ -0,0 +1,368 @@
+import fs from "fs";
+import path from "path";
+import { SSHExecutor } from "./platforms/types.js";
+import { dataDir } from "./data-dir.js";
+import { readSmartDrives } from "./smart.js";
+import { SmartDrive, SmartTrend } from "./structured.js";
+
+/**
+ * SMART history: periodic samples per drive serial, stored as JSON lines in the
+ * MCP server's data dir (one file per serial), and trends computed from them
+ *
+ * Every sample records the host it was taken on, since device paths such as
+ * /dev/sdb only identify a drive within one host.
+ */
+
+/**
+ * The counters and gauges of one drive at one point in time
+ */
+export interface SmartSample {
+  /** Epoch milliseconds */
+  time: number;
+  /** Host the drive was sampled on (missing in samples written before hosts were recorded) */
+  host?: string;
+  device: string;
+  model?: string;
+  temperatureC?: number;
+  powerOnHours?: number;
+  reallocatedSectors?: number;
+  pendingSectors?: number;
+  offlineUncorrectable?: number;
+  crcErrors?: number;
+  mediaErrors?: number;
+  percentageUsed?: number;
+  availableSpare?: number;
+  score?: number;
+}
+
+export interface SmartHistoryOptions {
+  retentionDays: number;
+  /** Samples closer together than this are not recorded */
+  minIntervalMs: number;
+  /** Background sampling interval (0 disables the sampler) */
+  sampleIntervalMs: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Minimum spacing of samples, so frequent `smart` calls do not bloat the history */
+const MIN_SAMPLE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** CRC errors that rose within this window are still being caused by something */
+const CRC_RECENT_MS = 7 * DAY_MS;
+
+/** Endurance projections further out than this are not worth reporting */
+const ENDURANCE_HORIZON_DAYS = 365;
+
+/** Counters whose increase means the drive is degrading */
+const DEGRADATION_METRICS: { metric: keyof SmartSample; label: string; criticalDelta: number }[] = [
+  { metric: "reallocatedSectors", label: "Reallocated sectors", criticalDelta: 10 },
+  { metric: "pendingSectors", label: "Pending sectors", criticalDelta: 10 },
+  { metric: "offlineUncorrectable", label: "Offline uncorrectable sectors", criticalDelta: 1 },
+  { metric: "mediaErrors", label: "NVMe media errors", criticalDelta: 1 },
+];
+
+/** Everything reported as a change between the first and last sample */
+const TRACKED_METRICS: (keyof SmartSample)[] = [
+  "reallocatedSectors", "pendingSectors", "offlineUncorrectable", "crcErrors",
+  "mediaErrors", "percentageUsed", "availableSpare", "score",
+];
+
+/**
+ * Read SMART_HISTORY_RETENTION_DAYS (default 365) and SMART_HISTORY_INTERVAL_HOURS
+ * (default 6, 0 disables background sampling)
+ */
+export function loadSmartHistoryOptions(): SmartHistoryOptions {
+  const retention = parseFloat(process.env.SMART_HISTORY_RETENTION_DAYS ?? "365");
+  const interval = parseFloat(process.env.SMART_HISTORY_INTERVAL_HOURS ?? "6");
+  return {
+    retentionDays: Number.isFinite(retention) && retention > 0 ? retention : 365,
+    minIntervalMs: MIN_SAMPLE_INTERVAL_MS,
+    sampleIntervalMs: Number.isFinite(interval) && interval > 0 ? interval * 60 * 60 * 1000 : 0,
+  };
+}
+
+/**
+ * SMART history in the data dir (MCP_DATA_DIR/smart-history)
+ */
+export function loadSmartHistory(): SmartHistory {
+  return new SmartHistory(path.join(dataDir(), "smart-history"), loadSmartHistoryOptions());
+}
+
+function sampleFrom(drive: SmartDrive, host: string, time: number): SmartSample {
+  return {
+    time,
+    host,
+    device: drive.device,
+    model: drive.model,
+    temperatureC: drive.temperatureC,
+    powerOnHours: drive.powerOnHours,
+    reallocatedSectors: drive.reallocatedSectors,
+    pendingSectors: drive.pendingSectors,
+    offlineUncorrectable: drive.offlineUncorrectable,
+    crcErrors: drive.crcErrors,
+    mediaErrors: drive.mediaErrors,
+    percentageUsed: drive.percentageUsed,
+    availableSpare: drive.availableSpare,
+    score: drive.health?.score,
+  };
+}
+
+/**
+ * Per-serial JSON-lines files of SMART samples
+ */
+export class SmartHistory {
+  constructor(readonly dir: string, private readonly options: SmartHistoryOptions) {}
+
+  private file(serial: string): string {
+    return path.join(this.dir, `${serial.replace(/[^A-Za-z0-9._-]/g, "_")}.jsonl`);
+  }
+
+  /**
+   * Append a sample for every scored drive with a serial number on a host
+   * Drives sampled within the minimum interval, or in standby, are skipped.
+   * Returns the number of samples written.
+   */
+  record(drives: SmartDrive[], host: string, now = Date.now()): number {
+    fs.mkdirSync(this.dir, { recursive: true });
+    let written = 0;
+    for (const drive of drives) {
+      if (!drive.serial || !drive.health) continue;
+      const existing = this.samples(drive.serial);
+      const last = existing[existing.length - 1];
+      if (last && now - last.time < this.options.minIntervalMs) continue;
+
+      const cutoff = now - this.options.retentionDays * DAY_MS;
+      const file = this.file(drive.serial);
+      const sample = JSON.stringify(sampleFrom(drive, host, now)) + "\n";
+      if (existing.length && existing[0].time < cutoff) {
+        const kept = existing.filter(s => s.time >= cutoff).map(s => JSON.stringify(s) + "\n");
+        fs.writeFileSync(file, kept.join("") + sample);
+      } else {
+        fs.appendFileSync(file, sample);
+      }
+      written++;
+    }
+    return written;
+  }
+
+  /**
+   * Samples of one drive, oldest first (unreadable lines are skipped)
+   */
+  samples(serial: string, since = 0): SmartSample[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.file(serial), "utf-8");
+    } catch {
+      return [];
+    }
+    const samples: SmartSample[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const sample = JSON.parse(line) as SmartSample;
+        if (sample.time >= since) samples.push(sample);
+      } catch {}
+    }
+    return samples.sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Serial numbers with a history file
+   */
+  serials(): string[] {
+    try {
+      return fs.readdirSync(this.dir).filter(f => f.endsWith(".jsonl")).map(f => f.slice(0, -".jsonl".length));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Serial of the drive last sampled at a device path on a host, for drives that are now in standby
+   */
+  serialForDevice(host: string, device: string): string | undefined {
+    let best: { serial: string; time: number } | undefined;
+    for (const serial of this.serials()) {
+      const samples = this.samples(serial);
+      const last = samples[samples.length - 1];
+      if (last?.host === host && last.device === device && (!best || last.time > best.time)) best = { serial, time: last.time };
+    }
+    return best?.serial;
+  }
+}
+
+function iso(time: number): string {
+  return new Date(time).toISOString();
+}
+
+function days(ms: number): number {
+  return ms / DAY_MS;
+}
+
+/**
+ * Changes between the first and last sample, with findings for degradation
+ *
+ * Rising reallocated, pending, uncorrectable or media-error counts are reported
+ * with their monthly rate. CRC errors only count while they are still rising
+ * (so a fixed cable clears the finding), and endurance use is projected forward.
+ */
+export function smartTrend(serial: string, samples: SmartSample[]): SmartTrend | null {
+  if (samples.length === 0) return null;
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const spanDays = days(last.time - first.time);
+  const trend: SmartTrend = {
+    serial,
+    device: last.device,
+    model: last.model,
+    samples: samples.length,
+    from: iso(first.time),
+    to: iso(last.time),
+    changes: [],
+    findings: [],
+  };
+
+  const lastIncrease = (metric: keyof SmartSample): number | undefined => {
+    let at: number | undefined;
+    for (let i = 1; i < samples.length; i++) {
+      const before = samples[i - 1][metric] as number | undefined;
+      const after = samples[i][metric] as number | undefined;
+      if (before !== undefined && after !== undefined && after > before) at = samples[i].time;
+    }
+    return at;
+  };
+
+  for (const metric of TRACKED_METRICS) {
+    const values = samples.map(s => s[metric] as number | undefined);
+    const from = values.find(v => v !== undefined);
+    const to = [...values].reverse().find(v => v !== undefined);
+    if (from === undefined || to === undefined || from === to) continue;
+    const increasedAt = lastIncrease(metric);
+    trend.changes.push({
+      metric,
+      from,
+      to,
+      delta: to - from,
+      ...(increasedAt !== undefined ? { lastIncreaseAt: iso(increasedAt) } : {}),
+    });
+  }
+  const change = (metric: string) => trend.changes.find(c => c.metric === metric);
+  const perMonth = (delta: number) => (spanDays > 0 ? ` (~${Math.ceil((delta / spanDays) * 30)}/month)` : "");
+
+  for (const { metric, label, criticalDelta } of DEGRADATION_METRICS) {
+    const c = change(metric);
+    if (!c || c.delta <= 0) continue;
+    trend.findings.push({
+      severity: c.delta >= criticalDelta ? "CRITICAL" : "WARNING",
+      message: `${label} rising: ${c.from} -> ${c.to} (+${c.delta} in ${spanDays.toFixed(0)} days)${perMonth(c.delta)}`,
+    });
+  }
+
+  const crc = change("crcErrors");
+  if (crc && crc.delta > 0 && crc.lastIncreaseAt && last.time - Date.parse(crc.lastIncreaseAt) <= CRC_RECENT_MS) {
+    trend.findings.push({
+      severity: "WARNING",
+      message: `CRC errors still rising: ${crc.from} -> ${crc.to}, last increase ${crc.lastIncreaseAt.slice(0, 10)} (check or replace the cable)`,
+    });
+  }
+
+  const used = change("percentageUsed");
+  if (used && used.delta > 0 && spanDays > 0) {
+    const perDay = used.delta / spanDays;
+    const remaining = Math.max(0, (100 - used.to) / perDay);
+    if (remaining <= ENDURANCE_HORIZON_DAYS) {
+      trend.findings.push({
+        severity: remaining <= 90 ? "CRITICAL" : "WARNING",
+        message: `Endurance ${used.to}% used, rising ${perDay.toFixed(2)}%/day: reaches 100% in ~${Math.round(remaining)} days`,
+      });
+    }
+  }
+
+  const spare = change("availableSpare");
+  if (spare && spare.delta < 0) {
+    trend.findings.push({ severity: "WARNING", message: `Available spare falling: ${spare.from}% -> ${spare.to}%` });
+  }
+
+  const score = change("score");
+  if (score && score.delta <= -10) {
+    trend.findings.push({ severity: "WARNING", message: `Health score fell from ${score.from} to ${score.to}` });
+  }
+  return trend;
+}
+
+/**
+ * Trends for the drives on a host, worst first
+ */
+export function formatSmartTrends(trends: SmartTrend[], windowDays: number): string {
+  if (trends.length === 0) return "No SMART history yet. Samples are recorded by the background sampler and each `smart` call.\n";
+  const rank = (t: SmartTrend) =>
+    t.findings.some(f => f.severity === "CRITICAL") ? 0 : t.findings.length ? 1 : 2;
+  const sorted = [...trends].sort((a, b) => rank(a) - rank(b) || a.device.localeCompare(b.device));
+  const attention = sorted.filter(t => t.findings.length);
+
+  let text = `Window: last ${windowDays} days\n`;
+  text += attention.length
+    ? `Needs attention: ${attention.map(t => t.device.replace("/dev/", "")).join(", ")}\n\n`
+    : "Needs attention: none\n\n";
+  for (const trend of sorted) {
+    text += `${trend.device} ${trend.model ?? ""} [${trend.serial}]\n`;
+    text += `  ${trend.samples} samples, ${trend.from.slice(0, 10)} to ${trend.to.slice(0, 10)}\n`;
+    for (const finding of trend.findings) text += `  [${finding.severity}] ${finding.message}\n`;
+    for (const c of trend.changes) {
+      text += `  ${c.metric}: ${c.from} -> ${c.to} (${c.delta > 0 ? "+" : ""}${c.delta})\n`;
+    }
+    if (!trend.findings.length && !trend.changes.length) text += "  No change\n";
+    text += "\n";
+  }
+  return text;
+}
+
+/**
+ * Background sampler recording one host's drives into the history
+ */
+export class SmartSampler {
+  private timer: NodeJS.Timeout | null = null;
+  private failing = false;
+
+  constructor(
+    private readonly executor: SSHExecutor,
+    private readonly history: SmartHistory,
+    private readonly intervalMs: number,
+    private readonly host: string
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    const loop = async () => {
+      await this.sample();
+      if (this.timer) {
+        this.timer = setTimeout(loop, this.intervalMs);
+        this.timer.unref();
+      }
+    };
+    this.timer = setTimeout(loop, 0);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Record one sample per drive; failures are logged once and retried on the next tick
+   */
+  async sample(): Promise<void> {
+    try {
+      this.history.record(await readSmartDrives(this.executor), this.host);
+      if (this.failing) console.error("SMART history sampler recovered");
+      this.failing = false;
+    } catch (error) {
+      if (!this.failing) {
+        console.error(`SMART history sample failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      this.failing = true;
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import { SSHExecutor } from "./platforms/types.js";
+import { deviceName, sh } from "./shell.js";
+import { SmartDrive, SmartHealth } from "./structured.js";
+
+/**
+ * Parser and health scoring for `smartctl --json` output (smartmontools 7+)
+ *
+ * Drives are read with `-n standby` so a health check never spins up a sleeping
+ * disk; those come back with `standby: true` and no score.
+ */
+
+/** Budget for reading every drive on a host */
+const SMART_SCAN_TIMEOUT_MS = 120000;
+
+/** Budget for a single drive */
+const SMART_DRIVE_TIMEOUT_MS = 60000;
+
+/** One compact JSON document per drive, for every device smartctl can find */
+const SMART_SCAN_COMMAND =
+  `smartctl --scan | while read -r dev _ type _; do smartctl --json=c -a -n standby -d "$type" "$dev" 2>/dev/null; echo; done`;
+
+/** ATA attributes the model picks out by ID */
+const ATA_ATTRIBUTES = { reallocated: 5, pending: 197, offlineUncorrectable: 198, crc: 199 };
+
+function num(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Build the drive model from one parsed smartctl JSON document
+ */
+export function parseSmartctl(data: any): SmartDrive {
+  const messages: any[] = data.smartctl?.messages ?? [];
+  const attributes: any[] = data.ata_smart_attributes?.table ?? [];
+  const nvme = data.nvme_smart_health_information_log;
+  const rawAttribute = (id: number) => num(attributes.find(a => a.id === id)?.raw?.value);
+
+  const drive: SmartDrive = {
+    device: data.device?.name ?? "",
+    type: data.device?.type ?? "",
+    protocol: data.device?.protocol ?? "",
+    model: data.model_name ?? data.scsi_model_name,
+    serial: data.serial_number,
+    firmware: data.firmware_version ?? data.scsi_revision,
+    capacityBytes: num(data.user_capacity?.bytes),
+    standby: messages.some(m => /standby|sleep/i.test(m.string ?? "")),
+    passed: typeof data.smart_status?.passed === "boolean" ? data.smart_status.passed : null,
+    temperatureC: num(data.temperature?.current) ?? num(nvme?.temperature),
+    powerOnHours: num(data.power_on_time?.hours) ?? num(nvme?.power_on_hours),
+    reallocatedSectors: rawAttribute(ATA_ATTRIBUTES.reallocated) ?? num(data.scsi_grown_defect_list),
+    pendingSectors: rawAttribute(ATA_ATTRIBUTES.pending),
+    offlineUncorrectable: rawAttribute(ATA_ATTRIBUTES.offlineUncorrectable),
+    crcErrors: rawAttribute(ATA_ATTRIBUTES.crc),
+    mediaErrors: num(nvme?.media_errors),
+    percentageUsed: num(nvme?.percentage_used),
+    availableSpare: num(nvme?.available_spare),
+    availableSpareThreshold: num(nvme?.available_spare_threshold),
+    criticalWarning: num(nvme?.critical_warning),
+    failingAttributes: attributes
+      .filter(a => a.thresh > 0 && a.value <= a.thresh)
+      .map(a => a.name),
+    messages: messages.filter(m => m.severity === "error").map(m => m.string),
+    health: null,
+  };
+  drive.health = scoreSmartDrive(drive);
+  return drive;
+}
+
+/**
+ * Parse one or more smartctl JSON documents (compact output is one per line)
+ */
+export function parseSmartctlOutput(output: string): SmartDrive[] {
+  const drives: SmartDrive[] = [];
+  for (const line of output.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("{")) continue;
+    try {
+      drives.push(parseSmartctl(JSON.parse(trimmed)));
+    } catch {}
+  }
+  if (drives.length === 0 && output.trim().startsWith("{")) {
+    // Pretty-printed single document
+    try { drives.push(parseSmartctl(JSON.parse(output))); } catch {}
+  }
+  return drives;
+}
+
+/**
+ * Score a drive from 100 down, with one reason per finding
+ *
+ * CRITICAL when the drive fails its self-assessment, an attribute is past its
+ * threshold, the NVMe controller raises a critical warning or the score drops
+ * below 50; WARNING below 90. Returns null when there is nothing to score.
+ */
+export function scoreSmartDrive(drive: SmartDrive): SmartHealth | null {
+  const hasData = drive.passed !== null || drive.reallocatedSectors !== undefined || drive.mediaErrors !== undefined;
+  if (drive.standby || !hasData) return null;
+
+  let score = 100;
+  let critical = false;
+  const reasons: string[] = [];
+  const deduct = (points: number, reason: string, isCritical = false) => {
+    score -= points;
+    reasons.push(reason);
+    if (isCritical) critical = true;
+  };
+
+  if (drive.passed === false) deduct(100, "SMART overall self-assessment FAILED", true);
+  for (const name of drive.failingAttributes) deduct(40, `${name} at or below its failure threshold`, true);
+
+  const reallocated = drive.reallocatedSectors ?? 0;
+  if (reallocated > 0) deduct(reallocated >= 100 ? 40 : reallocated >= 10 ? 25 : 10, `${reallocated} reallocated sectors`);
+  if ((drive.pendingSectors ?? 0) > 0) deduct(30, `${drive.pendingSectors} pending sectors`);
+  if ((drive.offlineUncorrectable ?? 0) > 0) deduct(30, `${drive.offlineUncorrectable} offline uncorrectable sectors`);
+  if ((drive.crcErrors ?? 0) > 0) deduct(10, `${drive.crcErrors} interface CRC errors (check the cable)`);
+
+  if ((drive.criticalWarning ?? 0) > 0) deduct(50, `NVMe critical warning 0x${drive.criticalWarning!.toString(16)}`, true);
+  if ((drive.mediaErrors ?? 0) > 0) deduct(30, `${drive.mediaErrors} media errors`);
+  if (drive.availableSpare !== undefined && drive.availableSpareThreshold !== undefined
+      && drive.availableSpare < drive.availableSpareThreshold) {
+    deduct(50, `Available spare ${drive.availableSpare}% below threshold ${drive.availableSpareThreshold}%`, true);
+  }
+  const used = drive.percentageUsed ?? 0;
+  if (used >= 100) deduct(40, `Rated endurance exhausted (${used}% used)`);
+  else if (used >= 80) deduct(15, `${used}% of rated endurance used`);
+
+  if ((drive.temperatureC ?? 0) >= 60) deduct(10, `Running hot at ${drive.temperatureC}°C`);
+  if ((drive.powerOnHours ?? 0) >= 50000) {
+    deduct(5, `${drive.powerOnHours} power-on hours (~${(drive.powerOnHours! / 8766).toFixed(1)} years)`);
+  }
+
+  score = Math.max(0, score);
+  const status = critical || score < 50 ? "CRITICAL" : score < 90 ? "WARNING" : "OK";
+  return { score, status, reasons };
+}
+
+/**
+ * Read every drive smartctl can find (works on any Linux host with smartmontools)
+ */
+export async function readSmartDrives(sshExecutor: SSHExecutor): Promise<SmartDrive[]> {
+  const output = await sshExecutor(SMART_SCAN_COMMAND, { timeoutMs: SMART_SCAN_TIMEOUT_MS });
+  return parseSmartctlOutput(output);
+}
+
+/**
+ * Read one drive, e.g. sda, nvme0n1 or /dev/sdb
+ */
+export async function readSmartDrive(sshExecutor: SSHExecutor, device: string): Promise<SmartDrive> {
+  const name = deviceName(device).replace(/^\/dev\//, "");
+  const path = `/dev/${name}`;
+  const cmd = name.startsWith("nvme")
+    ? sh`smartctl --json=c -a -n standby -d nvme ${path}`
+    : sh`smartctl --json=c -a -n standby ${path}`;
+  const drives = parseSmartctlOutput(await sshExecutor(cmd, { timeoutMs: SMART_DRIVE_TIMEOUT_MS }));
+  if (drives.length === 0) throw new Error(`smartctl returned no JSON for ${path} (smartmontools 7 or later is required)`);
+  return drives[0];
+}
+
+function shortDevice(drive: SmartDrive): string {
+  return drive.device.replace(/^\/dev\//, "");
+}
+
+function formatCapacity(bytes: number | undefined): string {
+  if (bytes === undefined) return "";
+  return bytes >= 1e12 ? `${(bytes / 1e12).toFixed(1)} TB` : `${(bytes / 1e9).toFixed(0)} GB`;
+}
+
+/**
+ * One drive in detail
+ */
+export function formatSmartDrive(drive: SmartDrive): string {
+  let text = `Device: ${drive.device} (${drive.protocol || drive.type || "unknown"})\n`;
+  if (drive.model) text += `Model: ${drive.model}${drive.capacityBytes !== undefined ? `, ${formatCapacity(drive.capacityBytes)}` : ""}\n`;
+  if (drive.serial) text += `Serial: ${drive.serial}${drive.firmware ? `, firmware ${drive.firmware}` : ""}\n`;
+  if (drive.standby) return text + "\nIn standby; not woken to read SMART data.\n";
+  for (const message of drive.messages) text += `smartctl: ${message}\n`;
+
+  text += `\nSelf-assessment: ${drive.passed === null ? "unknown" : drive.passed ? "PASSED" : "FAILED"}\n`;
+  const rows: [string, number | undefined, string?][] = [
+    ["Temperature", drive.temperatureC, "°C"],
+    ["Power-on hours", drive.powerOnHours],
+    ["Reallocated sectors", drive.reallocatedSectors],
+    ["Pending sectors", drive.pendingSectors],
+    ["Offline uncorrectable", drive.offlineUncorrectable],
+    ["CRC errors", drive.crcErrors],
+    ["Media errors", drive.mediaErrors],
+    ["Percentage used", drive.percentageUsed, "%"],
+    ["Available spare", drive.availableSpare, "%"],
+  ];
+  for (const [label, value, unit] of rows) {
+    if (value !== undefined) text += `${label}: ${value}${unit ?? ""}\n`;
+  }
+
+  if (drive.health) {
+    text += `\nHealth: ${drive.health.status} (score ${drive.health.score}/100)\n`;
+    for (const reason of drive.health.reasons) text += `  - ${reason}\n`;
+  }
+  return text;
+}
+
+/**
+ * One line per drive plus its findings, worst first
+ */
+export function formatSmartSummary(drives: SmartDrive[]): string {
+  if (drives.length === 0) return "No SMART-capable drives found (is smartmontools installed?)\n";
+  const rank = (d: SmartDrive) => (d.health ? d.health.score : 101);
+  const sorted = [...drives].sort((a, b) => rank(a) - rank(b) || a.device.localeCompare(b.device));
+  const count = (status: string) => drives.filter(d => d.health?.status === status).length;
+  const standby = drives.filter(d => d.standby).length;
+
+  let text = `Drives: ${drives.length} (OK ${count("OK")}, WARNING ${count("WARNING")}, CRITICAL ${count("CRITICAL")}`;
+  text += standby ? `, standby ${standby})\n\n` : ")\n\n";
+  for (const drive of sorted) {
+    const status = drive.standby ? "STANDBY" : drive.health ? `${drive.health.status} ${drive.health.score}` : "UNKNOWN";
+    const temp = drive.temperatureC !== undefined ? `${drive.temperatureC}°C` : "-";
+    const hours = drive.powerOnHours !== undefined ? `${drive.powerOnHours}h` : "-";
+    text += `${shortDevice(drive).padEnd(8)} ${status.padEnd(12)} ${temp.padStart(5)} ${hours.padStart(7)}  ${drive.model ?? ""}\n`;
+    for (const reason of drive.health?.reasons ?? []) text += `           - ${reason}\n`;
+  }
+  return text;
+}
@@ -1,69 +1,143 @@
 import { NodeSSH } from "node-ssh";
+import type { ClientChannel } from "ssh2";
 import "dotenv/config";
+import { HostKeyVerifier, loadHostKeyPolicy } from "./host-key-verifier.js";
+import { CommandOptions } from "./platforms/types.js";
+
+/** Seconds the remote `timeout` waits after TERM before sending KILL */
+const REMOTE_KILL_GRACE_S = 5;
+
+/**
+ * Connection settings for a single SSH target
+ */
+export interface SSHHostConfig {
+  /** Inventory name used to select the host from tools (e.g., 'tower') */
+  name: string;
+  host: string;
+  port: number;
+  username: string;
+  privateKeyPath?: string;
+  password?: string;
+  /** Pinned host key fingerprint (SHA256:...), checked instead of known_hosts */
+  hostKeyFingerprint?: string;
+}
+
+/**
+ * Build a host config from the single-host SSH_* environment variables
+ */
+export function loadHostConfigFromEnv(name: string = "default"): SSHHostConfig {
+  const host = process.env.SSH_HOST;
+  const port = process.env.SSH_PORT ? parseInt(process.env.SSH_PORT) : 22;
+  const username = process.env.SSH_USERNAME;
+  const privateKeyPath = process.env.SSH_PRIVATE_KEY_PATH;
+  const password = process.env.SSH_PASSWORD;
+  const hostKeyFingerprint = process.env.SSH_HOST_KEY_FINGERPRINT;
+
+  if (!host) {
+    throw new Error("SSH_HOST environment variable is required");
+  }
+  if (!username) {
+    throw new Error("SSH_USERNAME environment variable is required");
+  }
+  if (!privateKeyPath && !password) {
+    throw new Error("Either SSH_PRIVATE_KEY_PATH or SSH_PASSWORD environment variable is required");
+  }
+
+  return {
+    name,
+    host,
+    port,
+    username,
+    privateKeyPath,
+    password,
+    hostKeyFingerprint,
+  };
+}
+
+/**
+ * Circuit breaker states
+ * - closed: commands run normally
+ * - open: commands fail immediately until the cooldown elapses
+ * - half-open: a probe command is running to decide whether to close again
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Snapshot of a host's circuit breaker for health reporting
+ */
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  cooldownMs: number;
+  openedAt: string | null;
+  nextRetryAt: string | null;
+  lastError: string | null;
+}
 
 /**
  * SSH Connection Manager
- * Handles SSH connections to Unraid server with auto-reconnect functionality
+ * Handles the SSH connection to a single host with auto-reconnect functionality
  */
 export class SSHConnectionManager {
   private ssh: NodeSSH;
-  private config: {
-    host: string;
-    port: number;
-    username: string;
-    privateKeyPath?: string;
-    password?: string;
-  };
+  private config: SSHHostConfig;
+  private hostKeyVerifier: HostKeyVerifier;
   private connected: boolean = false;
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
   private baseBackoffMs: number = 1000;
   private commandTimeoutMs: number;
+  private maxCommandTimeoutMs: number;
+  private maxOutputBytes: number;
   private maxConsecutiveFailures: number;
   private consecutiveFailures: number = 0;
-  private circuitBreakerOpen: boolean = false;
+  private circuitState: CircuitState = "closed";
+  private circuitOpenedAt: number | null = null;
+  private circuitCooldownMs: number;
+  private circuitProbeCommand: string;
+  private circuitProbe: Promise<void> | null = null;
+  private lastError: string | null = null;
 
-  constructor() {
+  /**
+   * @param config Host to connect to. Defaults to the SSH_* environment variables.
+   */
+  constructor(config?: SSHHostConfig) {
     this.ssh = new NodeSSH();
 
-    // Load SSH configuration from environment variables
-    const host = process.env.SSH_HOST;
-    const port = process.env.SSH_PORT ? parseInt(process.env.SSH_PORT) : 22;
-    const username = process.env.SSH_USERNAME;
-    const privateKeyPath = process.env.SSH_PRIVATE_KEY_PATH;
-    const password = process.env.SSH_PASSWORD;
-
-    if (!host) {
-      throw new Error("SSH_HOST environment variable is required");
-    }
-    if (!username) {
-      throw new Error("SSH_USERNAME environment variable is required");
-    }
-    if (!privateKeyPath && !password) {
-      throw new Error("Either SSH_PRIVATE_KEY_PATH or SSH_PASSWORD environment variable is required");
-    }
-
-    this.config = {
-      host,
-      port,
-      username,
-      privateKeyPath,
-      password,
-    };
+    // Fall back to single-host configuration from environment variables
+    this.config = config ?? loadHostConfigFromEnv();
+    this.hostKeyVerifier = new HostKeyVerifier(
+      this.config.host,
+      this.config.port,
+      loadHostKeyPolicy(),
+      this.config.hostKeyFingerprint
+    );
 
     // Load timeout and circuit breaker configuration
     this.commandTimeoutMs = process.env.COMMAND_TIMEOUT_MS
       ? parseInt(process.env.COMMAND_TIMEOUT_MS)
       : 15000; // Default: 15 seconds
+    this.maxCommandTimeoutMs = process.env.MAX_COMMAND_TIMEOUT_MS
+      ? parseInt(process.env.MAX_COMMAND_TIMEOUT_MS)
+      : 900000; // Default: 15 minutes ceiling for per-call timeouts
+    this.maxOutputBytes = process.env.MAX_OUTPUT_BYTES
+      ? parseInt(process.env.MAX_OUTPUT_BYTES)
+      : 10 * 1024 * 1024; // Default: 10 MiB
     this.maxConsecutiveFailures = process.env.MAX_CONSECUTIVE_FAILURES
       ? parseInt(process.env.MAX_CONSECUTIVE_FAILURES)
       : 3; // Default: 3 consecutive failures
+    this.circuitCooldownMs = process.env.CIRCUIT_BREAKER_COOLDOWN_MS
+      ? parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MS)
+      : 30000; // Default: 30 seconds
+    this.circuitProbeCommand = process.env.CIRCUIT_BREAKER_PROBE_COMMAND || "true";
   }
 
   /**
    * Establish SSH connection
    */
   async connect(): Promise<void> {
+    this.hostKeyVerifier.lastError = null;
     try {
       const connectionConfig: any = {
         host: this.config.host,
@@ -77,13 +151,19 @@ export class SSHConnectionManager {
         connectionConfig.password = this.config.password;
       }
 
+      if (this.hostKeyVerifier.isEnabled()) {
+        connectionConfig.hostVerifier = this.hostKeyVerifier.verify;
+      }
+
       await this.ssh.connect(connectionConfig);
       this.connected = true;
       this.reconnectAttempts = 0;
       console.error(`Successfully connected to ${this.config.host}`);
     } catch (error) {
       this.connected = false;
-      throw new Error(`Failed to connect to SSH server: ${error instanceof Error ? error.message : String(error)}`);
+      // Prefer the host key verifier's explanation over ssh2's generic "Host denied"
+      const reason = this.hostKeyVerifier.lastError ?? (error instanceof Error ? error.message : String(error));
+      throw new Error(`Failed to connect to SSH server: ${reason}`);
     }
   }
 
@@ -105,76 +185,242 @@ export class SSHConnectionManager {
   }
 
   /**
-   * Execute command via SSH with timeout and circuit breaker protection
+   * Race a promise against a timeout
    */
-  async executeCommand(command: string): Promise<{ stdout: string; stderr: string; exitCode: number }> {
-    // Check circuit breaker
-    if (this.circuitBreakerOpen) {
+  private async withTimeout<T>(promise: Promise<T>, timeoutMs: number, onTimeout?: () => void): Promise<T> {
+    let timeoutId: NodeJS.Timeout | null = null;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        onTimeout?.();
+        reject(new Error(`TIMEOUT: Command timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
+    try {
+      return await Promise.race([promise, timeoutPromise]);
+    } finally {
+      if (timeoutId) clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Time at which an open circuit breaker may be probed again
+   */
+  private nextRetryAt(): number | null {
+    return this.circuitOpenedAt === null ? null : this.circuitOpenedAt + this.circuitCooldownMs;
+  }
+
+  /**
+   * Open the circuit breaker, restarting the cooldown
+   */
+  private openCircuit(): void {
+    this.circuitState = "open";
+    this.circuitOpenedAt = Date.now();
+    console.error(
+      `Circuit breaker opened for ${this.config.name} after ${this.consecutiveFailures} consecutive failures. ` +
+      `Next probe at ${new Date(this.nextRetryAt()!).toISOString()}.`
+    );
+  }
+
+  /**
+   * Fail fast while the breaker is open; once the cooldown has elapsed,
+   * probe the host (half-open) and close the breaker if the probe succeeds
+   */
+  private async checkCircuitBreaker(): Promise<void> {
+    if (this.circuitState === "closed") return;
+
+    const nextRetryAt = this.nextRetryAt()!;
+    if (this.circuitState === "open" && Date.now() < nextRetryAt) {
       throw new Error(
-        `Circuit breaker is open after ${this.consecutiveFailures} consecutive failures. ` +
-        `Please check server health or restart the MCP server to reset.`
+        `Circuit breaker is open after ${this.consecutiveFailures} consecutive failures ` +
+        `(last error: ${this.lastError ?? "unknown"}). ` +
+        `Next retry in ${Math.ceil((nextRetryAt - Date.now()) / 1000)}s at ${new Date(nextRetryAt).toISOString()}.`
       );
     }
 
-    // Timeout ID for cleanup
-    let timeoutId: NodeJS.Timeout | null = null;
+    // Share a single probe between concurrent callers
+    if (!this.circuitProbe) {
+      this.circuitProbe = this.probe().finally(() => {
+        this.circuitProbe = null;
+      });
+    }
+    await this.circuitProbe;
+  }
+
+  /**
+   * Run the probe command in half-open state
+   */
+  private async probe(): Promise<void> {
+    this.circuitState = "half-open";
+    console.error(`Circuit breaker half-open for ${this.config.name}: probing with "${this.circuitProbeCommand}"`);
 
     try {
       if (!this.connected) {
         await this.connect();
       }
+      const result = await this.withTimeout(this.ssh.execCommand(this.circuitProbeCommand), this.commandTimeoutMs);
+      if ((result.code ?? 0) !== 0) {
+        throw new Error(`probe exited with code ${result.code}${result.stderr ? `: ${result.stderr}` : ""}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.toLowerCase().includes("connect")) {
+        this.connected = false;
+      }
+      this.lastError = errorMessage;
+      this.openCircuit();
+      throw new Error(
+        `Circuit breaker probe failed for ${this.config.name}: ${errorMessage}. ` +
+        `Next retry at ${new Date(this.nextRetryAt()!).toISOString()}.`
+      );
+    }
 
-      // Create a timeout promise
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        timeoutId = setTimeout(() => {
-          reject(new Error(`TIMEOUT: Command timed out after ${this.commandTimeoutMs}ms`));
-        }, this.commandTimeoutMs);
+    console.error(`Circuit breaker closed for ${this.config.name}: probe succeeded`);
+    this.circuitState = "closed";
+    this.circuitOpenedAt = null;
+    this.consecutiveFailures = 0;
+  }
+
+  /**
+   * Wrap a command so the remote host enforces the timeout itself: the process
+   * gets TERM at the deadline and KILL shortly after, even if our channel is gone.
+   * Hosts without coreutils `timeout` run the command unwrapped.
+   *
+   * The command runs under bash where installed (as it did in the login shell before
+   * it was wrapped), so bashisms keep working on hosts whose sh is dash or busybox.
+   */
+  private wrapWithRemoteTimeout(command: string, timeoutMs: number): string {
+    const seconds = Math.ceil(timeoutMs / 1000);
+    const quoted = `'${command.replace(/'/g, "'\\''")}'`;
+    return `s=$(command -v bash 2>/dev/null || echo sh); ` +
+      `if command -v timeout >/dev/null 2>&1; then exec timeout -k ${REMOTE_KILL_GRACE_S} ${seconds} "$s" -c ${quoted}; else exec "$s" -c ${quoted}; fi`;
+  }
+
+  /**
+   * Stop a running remote command by signalling and closing its channel
+   */
+  private killChannel(channel: ClientChannel | null): void {
+    if (!channel) return;
+    try {
+      channel.signal("KILL");
+    } catch {
+      // Server may not support signal requests; closing the channel still hangs up the session
+    }
+    channel.close();
+  }
+
+  /**
+   * Execute command via SSH with timeout and circuit breaker protection
+   */
+  async executeCommand(command: string, options: CommandOptions = {}): Promise<{ stdout: string; stderr: string; exitCode: number; truncated: boolean }> {
+    // Check circuit breaker (may probe the host after cooldown)
+    await this.checkCircuitBreaker();
+
+    const timeoutMs = Math.min(options.timeoutMs ?? this.commandTimeoutMs, this.maxCommandTimeoutMs);
+    const maxOutputBytes = options.maxOutputBytes ?? this.maxOutputBytes;
+    const { signal, onOutput } = options;
+    let channel: ClientChannel | null = null;
+    let outputBytes = 0;
+    let truncated = false;
+    let onAbort: (() => void) | null = null;
+    const startedAt = Date.now();
+
+    if (signal?.aborted) {
+      throw new Error("Command cancelled by client before it started");
+    }
+
+    try {
+      if (!this.connected) {
+        await this.connect();
+      }
+
+      const execution = this.ssh.execCommand(this.wrapWithRemoteTimeout(command, timeoutMs), {
+        onChannel: (ch) => {
+          channel = ch;
+        },
+        onStdout: (chunk) => {
+          if (truncated) return;
+          outputBytes += chunk.length;
+          if (outputBytes > maxOutputBytes) {
+            truncated = true;
+            this.killChannel(channel);
+          }
+          onOutput?.(chunk.toString());
+        },
       });
 
-      // Race between command execution and timeout
-      const result = await Promise.race([
-        this.ssh.execCommand(command),
-        timeoutPromise,
-      ]);
+      // Client cancellation kills the remote command instead of leaving it running
+      const cancellation = new Promise<never>((_, reject) => {
+        if (!signal) return;
+        onAbort = () => {
+          this.killChannel(channel);
+          reject(new Error("CANCELLED: Command cancelled by client"));
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+      });
 
-      // Clear timeout on success
-      if (timeoutId) clearTimeout(timeoutId);
+      // Local deadline leaves room for the remote timeout to fire and report first
+      const result = await this.withTimeout(
+        Promise.race([execution, cancellation]),
+        timeoutMs + (REMOTE_KILL_GRACE_S + 2) * 1000,
+        () => this.killChannel(channel)
+      );
+
+      // Exit 124 (TERM) / 137 (KILL) at the deadline means the remote timeout fired
+      if ((result.code === 124 || result.code === 137) && Date.now() - startedAt >= timeoutMs) {
+        throw new Error(`TIMEOUT: Command timed out after ${timeoutMs}ms`);
+      }
 
       // Reset circuit breaker on successful command
       this.consecutiveFailures = 0;
-      this.circuitBreakerOpen = false;
+      this.lastError = null;
+
+      let stdout = result.stdout;
+      if (truncated) {
+        stdout = Buffer.from(stdout).subarray(0, maxOutputBytes).toString() +
+          `\n[Output truncated at ${maxOutputBytes} bytes]`;
+      }
 
+      // A command stopped for its output size has no exit code of its own (null), so it reads as 0;
+      // one that had already failed keeps its code
       return {
-        stdout: result.stdout,
+        stdout,
         stderr: result.stderr,
         exitCode: result.code ?? 0,
+        truncated,
       };
     } catch (error) {
-      // Clear timeout on error
-      if (timeoutId) clearTimeout(timeoutId);
+      // Determine error type for better error messages
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      // A cancelled command says nothing about host health
+      if (errorMessage.includes("CANCELLED:")) {
+        throw new Error("Command cancelled by client; the remote process was terminated");
+      }
 
       // Increment failure counter
       this.consecutiveFailures++;
 
-      // Open circuit breaker if threshold reached
-      if (this.consecutiveFailures >= this.maxConsecutiveFailures) {
-        this.circuitBreakerOpen = true;
-        console.error(
-          `Circuit breaker opened after ${this.consecutiveFailures} consecutive failures. ` +
-          `Future commands will fail immediately until the MCP server is restarted.`
-        );
-      }
-
-      // Determine error type for better error messages
-      const errorMessage = error instanceof Error ? error.message : String(error);
       const isTimeout = errorMessage.includes("TIMEOUT:");
       const isConnection = errorMessage.toLowerCase().includes("connection");
+      this.lastError = errorMessage;
+
+      // Open circuit breaker if threshold reached
+      if (this.consecutiveFailures >= this.maxConsecutiveFailures && this.circuitState === "closed") {
+        this.openCircuit();
+      }
 
       if (isTimeout) {
+        let budget: string;
+        if (options.timeoutMs === undefined) {
+          budget = `This is the default budget; consider increasing COMMAND_TIMEOUT_MS if this is a long-running operation.`;
+        } else if (options.timeoutMs > this.maxCommandTimeoutMs) {
+          budget = `The tool asked for ${options.timeoutMs}ms, capped by MAX_COMMAND_TIMEOUT_MS.`;
+        } else {
+          budget = `This is the tool's own budget for this operation; COMMAND_TIMEOUT_MS does not apply.`;
+        }
         throw new Error(
-          `Command timed out after ${this.commandTimeoutMs}ms. ` +
-          `The command may be hung or taking too long. ` +
-          `Consider increasing COMMAND_TIMEOUT_MS if this is a long-running operation.`
+          `Command timed out after ${timeoutMs}ms and was terminated on the host. ` +
+          `The command may be hung or taking too long. ${budget}`
         );
       }
 
@@ -188,9 +434,60 @@ export class SSHConnectionManager {
       }
 
       throw new Error(`Failed to execute command: ${errorMessage}`);
+    } finally {
+      if (signal && onAbort) signal.removeEventListener("abort", onAbort);
     }
   }
 
+  /**
+   * Get the current circuit breaker state
+   */
+  getCircuitBreakerStatus(): CircuitBreakerStatus {
+    const nextRetryAt = this.circuitState === "open" ? this.nextRetryAt() : null;
+    return {
+      state: this.circuitState,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.maxConsecutiveFailures,
+      cooldownMs: this.circuitCooldownMs,
+      openedAt: this.circuitOpenedAt === null ? null : new Date(this.circuitOpenedAt).toISOString(),
+      nextRetryAt: nextRetryAt === null ? null : new Date(nextRetryAt).toISOString(),
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Probe the host immediately instead of waiting for the cooldown
+   * Resolves once the breaker is closed; rejects if the probe fails
+   */
+  async resetCircuitBreaker(): Promise<void> {
+    if (this.circuitState === "closed") return;
+    if (this.circuitState === "open") {
+      this.circuitOpenedAt = Date.now() - this.circuitCooldownMs;
+    }
+    await this.checkCircuitBreaker();
+  }
+
+  /**
+   * Get the inventory name of the managed host
+   */
+  getHostName(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Get the address of the managed host
+   */
+  getHostAddress(): string {
+    return this.config.host;
+  }
+
+  /**
+   * Whether host key verification is active for this host
+   */
+  isHostKeyVerificationEnabled(): boolean {
+    return this.hostKeyVerifier.isEnabled();
+  }
+
   /**
    * Check if connected
    */
@@ -205,7 +502,7 @@ export class SSHConnectionManager {
     if (this.connected) {
       this.ssh.dispose();
       this.connected = false;
-      console.error("Disconnected from SSH server");
+      console.error(`Disconnected from ${this.config.host}`);
     }
   }
 }
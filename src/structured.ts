@@ -0,0 +1,655 @@
+import { z } from "zod";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Structured (JSON) tool output
+ *
+ * Every tool accepts `output: "text" | "json"`. Actions backed by a typed parser
+ * return `structuredContent` matching their tool's output schema below; all other
+ * actions fall back to `{ action, text }`. In json mode the structured result is
+ * also serialized as the text content so clients without structured-content
+ * support can still read it.
+ */
+
+export type OutputFormat = "text" | "json";
+
+export const outputFormatSchema = z.enum(["text", "json"]).optional()
+  .describe("Result format: text (default) or json (structured; text filters do not apply)");
+
+export const containerSummarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  image: z.string(),
+  state: z.string(),
+  status: z.string(),
+  ports: z.array(z.string()),
+  networks: z.array(z.string()),
+  createdAt: z.string().optional(),
+});
+export type ContainerSummary = z.infer<typeof containerSummarySchema>;
+
+export const processInfoSchema = z.object({
+  user: z.string(),
+  pid: z.number(),
+  cpuPercent: z.number(),
+  memPercent: z.number(),
+  vszKb: z.number(),
+  rssKb: z.number(),
+  tty: z.string(),
+  stat: z.string(),
+  start: z.string(),
+  time: z.string(),
+  command: z.string(),
+});
+export type ProcessInfo = z.infer<typeof processInfoSchema>;
+
+export const healthCheckSchema = z.object({
+  category: z.string(),
+  status: z.enum(["OK", "WARNING", "CRITICAL"]),
+  details: z.string(),
+});
+
+export const healthReportSchema = z.object({
+  overall: z.enum(["OK", "WARNING", "CRITICAL"]),
+  checks: z.array(healthCheckSchema),
+});
+export type HealthReport = z.infer<typeof healthReportSchema>;
+
+export const arrayDiskSchema = z.object({
+  slot: z.number(),
+  role: z.enum(["parity", "parity2", "data"]),
+  /** md device name, e.g. md1 or md1p1 (empty for parity) */
+  name: z.string(),
+  /** Kernel device, e.g. sdb */
+  device: z.string(),
+  id: z.string(),
+  /** rdevStatus, e.g. DISK_OK, DISK_DSBL, DISK_NP_MISSING */
+  status: z.string(),
+  sizeKb: z.number(),
+  reads: z.number(),
+  writes: z.number(),
+  errors: z.number(),
+});
+export type ArrayDisk = z.infer<typeof arrayDiskSchema>;
+
+export const arrayResyncSchema = z.object({
+  /** mdResyncAction, e.g. "check P", "check P Q", "recon D1", "clear" */
+  action: z.string(),
+  active: z.boolean(),
+  paused: z.boolean(),
+  correcting: z.boolean(),
+  positionKb: z.number(),
+  sizeKb: z.number(),
+  percent: z.number(),
+  speedKbPerSec: z.number().optional(),
+  etaSeconds: z.number().optional(),
+});
+export type ArrayResync = z.infer<typeof arrayResyncSchema>;
+
+export const arrayLastSyncSchema = z.object({
+  /** Epoch seconds */
+  startedAt: z.number().optional(),
+  finishedAt: z.number().optional(),
+  errors: z.number(),
+  /** sbSyncExit: 0 = completed, negative = aborted or failed */
+  exitCode: z.number(),
+});
+
+export const arrayStatusSchema = z.object({
+  state: z.string().optional(),
+  numDisks: z.number(),
+  numDisabled: z.number(),
+  numInvalid: z.number(),
+  numMissing: z.number(),
+  numWrong: z.number(),
+  disks: z.array(arrayDiskSchema),
+  resync: arrayResyncSchema.nullable(),
+  lastSync: arrayLastSyncSchema.nullable(),
+  /** Every raw key=value field, for anything not modelled above */
+  fields: z.record(z.string()),
+});
+export type ArrayStatus = z.infer<typeof arrayStatusSchema>;
+
+export const parityCheckRecordSchema = z.object({
+  /** Host-local time the check ended, as YYYY-MM-DDTHH:MM:SS */
+  finishedAt: z.string(),
+  durationSeconds: z.number(),
+  /** Average speed in MB/s (null when Unraid logged it as unavailable) */
+  speedMBps: z.number().nullable(),
+  /** 0 = completed, -4 = cancelled, anything else = stopped by an error */
+  exitCode: z.number(),
+  errors: z.number(),
+  /** e.g. "check P", "recon P" (Unraid 6.10+) */
+  action: z.string().optional(),
+  sizeKb: z.number().optional(),
+});
+export type ParityCheckRecord = z.infer<typeof parityCheckRecordSchema>;
+
+export const parityHistorySchema = z.object({
+  records: z.array(parityCheckRecordSchema),
+  stats: z.object({
+    checks: z.number(),
+    completed: z.number(),
+    /** Rebuilds and disk clears logged alongside the checks */
+    otherOperations: z.number(),
+    averageDurationSeconds: z.number().nullable(),
+    averageSpeedMBps: z.number().nullable(),
+    lastSuccessAt: z.string().nullable(),
+    lastSuccessAgeDays: z.number().nullable(),
+  }),
+  schedule: z.object({
+    cron: z.string(),
+    /** Host-local time of the next run, null when the expression never matches */
+    nextAt: z.string().nullable(),
+    correcting: z.boolean(),
+  }).nullable(),
+  findings: z.array(z.object({
+    severity: z.enum(["WARNING", "CRITICAL"]),
+    message: z.string(),
+  })),
+});
+export type ParityHistory = z.infer<typeof parityHistorySchema>;
+
+export const smartHealthSchema = z.object({
+  /** 100 for a clean drive, lowered by each finding */
+  score: z.number(),
+  status: z.enum(["OK", "WARNING", "CRITICAL"]),
+  reasons: z.array(z.string()),
+});
+export type SmartHealth = z.infer<typeof smartHealthSchema>;
+
+export const smartDriveSchema = z.object({
+  /** Device path as passed to smartctl, e.g. /dev/sda or /dev/nvme0 */
+  device: z.string(),
+  /** smartctl device type, e.g. sat, nvme, scsi */
+  type: z.string(),
+  /** ATA, NVMe or SCSI */
+  protocol: z.string(),
+  model: z.string().optional(),
+  serial: z.string().optional(),
+  firmware: z.string().optional(),
+  capacityBytes: z.number().optional(),
+  /** Spun down; smartctl skipped it rather than waking it */
+  standby: z.boolean(),
+  /** Overall self-assessment (null when smartctl could not read it) */
+  passed: z.boolean().nullable(),
+  temperatureC: z.number().optional(),
+  powerOnHours: z.number().optional(),
+  reallocatedSectors: z.number().optional(),
+  pendingSectors: z.number().optional(),
+  offlineUncorrectable: z.number().optional(),
+  crcErrors: z.number().optional(),
+  mediaErrors: z.number().optional(),
+  percentageUsed: z.number().optional(),
+  availableSpare: z.number().optional(),
+  availableSpareThreshold: z.number().optional(),
+  criticalWarning: z.number().optional(),
+  /** ATA attributes at or below their failure threshold */
+  failingAttributes: z.array(z.string()),
+  /** smartctl error messages */
+  messages: z.array(z.string()),
+  /** null when there is no SMART data to score (standby or unreadable) */
+  health: smartHealthSchema.nullable(),
+});
+export type SmartDrive = z.infer<typeof smartDriveSchema>;
+
+export const smartChangeSchema = z.object({
+  /** SmartDrive field, e.g. reallocatedSectors */
+  metric: z.string(),
+  from: z.number(),
+  to: z.number(),
+  delta: z.number(),
+  /** ISO time of the last sample where the value rose */
+  lastIncreaseAt: z.string().optional(),
+});
+
+export const smartTrendSchema = z.object({
+  serial: z.string(),
+  device: z.string(),
+  model: z.string().optional(),
+  samples: z.number(),
+  /** ISO times of the first and last sample in the window */
+  from: z.string(),
+  to: z.string(),
+  changes: z.array(smartChangeSchema),
+  findings: z.array(z.object({
+    severity: z.enum(["WARNING", "CRITICAL"]),
+    message: z.string(),
+  })),
+});
+export type SmartTrend = z.infer<typeof smartTrendSchema>;
+
+export const shareConfigSchema = z.object({
+  name: z.string(),
+  comment: z.string().optional(),
+  /** highwater, mostfree or fillup */
+  allocator: z.string(),
+  /** Empty when any directory may be split */
+  splitLevel: z.string(),
+  includeDisks: z.array(z.string()),
+  excludeDisks: z.array(z.string()),
+  floor: z.string().optional(),
+  /** shareUseCache: yes (cache, moved to array), prefer (moved to cache), only, no */
+  useCache: z.string(),
+  /** Primary pool (shareCachePool, "cache" when unset) */
+  cachePool: z.string(),
+  /** Secondary pool the mover moves to instead of the array (Unraid 6.12+) */
+  cachePool2: z.string().optional(),
+  smb: z.object({ export: z.enum(["yes", "hidden", "no"]), security: z.string() }),
+  nfs: z.object({ export: z.enum(["yes", "no"]), security: z.string() }),
+  /** Every key in the .cfg file */
+  fields: z.record(z.string()),
+});
+export type ShareConfig = z.infer<typeof shareConfigSchema>;
+
+export const shareReportSchema = z.object({
+  shares: z.array(shareConfigSchema.extend({
+    /** Bytes of the share on each mounted disk and pool, largest first */
+    distribution: z.array(z.object({ mount: z.string(), bytes: z.number() })),
+  })),
+  disks: z.array(z.string()),
+  pools: z.array(z.string()),
+  findings: z.array(z.object({
+    share: z.string(),
+    severity: z.enum(["INFO", "WARNING"]),
+    message: z.string(),
+  })),
+});
+export type ShareReport = z.infer<typeof shareReportSchema>;
+
+export const notificationSchema = z.object({
+  /** File name, used to archive it */
+  file: z.string(),
+  state: z.enum(["unread", "archive"]),
+  /** ISO time the notification was raised, null when the file has no timestamp */
+  time: z.string().nullable(),
+  event: z.string(),
+  subject: z.string(),
+  description: z.string(),
+  importance: z.enum(["normal", "warning", "alert"]),
+  link: z.string().optional(),
+  message: z.string().optional(),
+});
+export type Notification = z.infer<typeof notificationSchema>;
+
+export const dockerTemplateSchema = z.object({
+  /** Template file name under templates-user */
+  file: z.string(),
+  /** Container name */
+  name: z.string(),
+  repository: z.string(),
+  network: z.string(),
+  /** Fixed IP on a custom network (br0 etc.) */
+  fixedIp: z.string().optional(),
+  privileged: z.boolean(),
+  extraParams: z.string(),
+  postArgs: z.string(),
+  cpuset: z.string().optional(),
+  webUi: z.string().optional(),
+  ports: z.array(z.object({ name: z.string(), containerPort: z.string(), hostPort: z.string(), protocol: z.string() })),
+  paths: z.array(z.object({ name: z.string(), containerPath: z.string(), hostPath: z.string(), mode: z.string() })),
+  variables: z.array(z.object({ name: z.string(), key: z.string(), value: z.string(), masked: z.boolean() })),
+  devices: z.array(z.object({ name: z.string(), hostPath: z.string() })),
+  labels: z.array(z.object({ name: z.string(), key: z.string(), value: z.string() })),
+});
+export type DockerTemplate = z.infer<typeof dockerTemplateSchema>;
+
+export const templateDriftSchema = z.object({
+  container: z.string(),
+  field: z.string(),
+  /** Value in the template */
+  expected: z.string(),
+  /** Value on the container (docker inspect) */
+  actual: z.string(),
+});
+export type TemplateDrift = z.infer<typeof templateDriftSchema>;
+
+export const flashCheckSchema = z.object({
+  /** Partition mounted at /boot, e.g. /dev/sda1 */
+  device: z.string().nullable(),
+  vendor: z.string().optional(),
+  model: z.string().optional(),
+  serial: z.string().optional(),
+  sizeBytes: z.number().optional(),
+  readOnly: z.boolean(),
+  usedPercent: z.number().nullable(),
+  /** null when fsck.vfat could not run */
+  fsck: z.object({ ok: z.boolean(), messages: z.array(z.string()) }).nullable(),
+  ioErrors: z.array(z.string()),
+  /** Oldest file directly in /boot/config, an estimate of when the flash was set up */
+  oldestConfigFile: z.object({ path: z.string(), modifiedAt: z.string(), ageDays: z.number() }).nullable(),
+  missingFiles: z.array(z.string()),
+  malformedLines: z.array(z.object({ file: z.string(), line: z.number(), text: z.string() })),
+  findings: z.array(z.object({
+    severity: z.enum(["INFO", "WARNING", "CRITICAL"]),
+    message: z.string(),
+  })),
+});
+export type FlashCheck = z.infer<typeof flashCheckSchema>;
+
+export const flashDiffSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  added: z.array(z.string()),
+  removed: z.array(z.string()),
+  changed: z.array(z.object({
+    /** Path relative to /boot/config */
+    path: z.string(),
+    /** hidden: credentials, shown as changed without contents */
+    kind: z.enum(["text", "binary", "hidden"]),
+    /** key="value" settings that changed, for .cfg-style files */
+    settings: z.array(z.object({ key: z.string(), before: z.string().nullable(), after: z.string().nullable() })),
+    /** Other removed and added lines */
+    removedLines: z.array(z.string()),
+    addedLines: z.array(z.string()),
+  })),
+});
+export type FlashDiff = z.infer<typeof flashDiffSchema>;
+
+export const zfsVdevSchema = z.object({
+  name: z.string(),
+  /** Pool section the vdev belongs to */
+  group: z.enum(["data", "logs", "cache", "spares", "special", "dedup"]),
+  /** 0 = pool, 1 = top-level vdev (mirror-0, raidz2-0 or a single disk), 2 = disk in a top-level vdev */
+  depth: z.number(),
+  state: z.string(),
+  read: z.number(),
+  write: z.number(),
+  checksum: z.number(),
+  /** Trailing text such as "was /dev/sdc1" or "(resilvering)" */
+  note: z.string().optional(),
+});
+export type ZfsVdev = z.infer<typeof zfsVdevSchema>;
+
+export const zfsScanSchema = z.object({
+  type: z.enum(["scrub", "resilver"]),
+  state: z.enum(["finished", "in progress", "paused", "canceled"]),
+  /** Host-local time the scan finished, was canceled or started (in progress) */
+  at: z.string().nullable(),
+  errors: z.number().nullable(),
+  percentDone: z.number().nullable(),
+  text: z.string(),
+});
+
+export const zfsPoolSchema = z.object({
+  name: z.string(),
+  state: z.string(),
+  sizeBytes: z.number().nullable(),
+  allocatedBytes: z.number().nullable(),
+  freeBytes: z.number().nullable(),
+  fragmentationPercent: z.number().nullable(),
+  capacityPercent: z.number().nullable(),
+  status: z.string().optional(),
+  action: z.string().optional(),
+  scan: zfsScanSchema.nullable(),
+  errors: z.string(),
+  vdevs: z.array(zfsVdevSchema),
+});
+export type ZfsPool = z.infer<typeof zfsPoolSchema>;
+
+export const zfsPoolReportSchema = z.object({
+  pools: z.array(zfsPoolSchema),
+  findings: z.array(z.object({
+    pool: z.string(),
+    severity: z.enum(["INFO", "WARNING", "CRITICAL"]),
+    message: z.string(),
+  })),
+});
+export type ZfsPoolReport = z.infer<typeof zfsPoolReportSchema>;
+
+export const zfsScrubRunSchema = z.object({
+  pool: z.string(),
+  type: z.enum(["scrub", "resilver"]),
+  /** Host-local times from zpool history */
+  startedAt: z.string(),
+  finishedAt: z.string().nullable(),
+  errors: z.number().nullable(),
+  canceled: z.boolean(),
+});
+export type ZfsScrubRun = z.infer<typeof zfsScrubRunSchema>;
+
+export const zfsDatasetSchema = z.object({
+  name: z.string(),
+  type: z.enum(["filesystem", "volume"]),
+  usedBytes: z.number(),
+  availableBytes: z.number(),
+  referencedBytes: z.number(),
+  /** Size before compression */
+  logicalUsedBytes: z.number(),
+  snapshotUsedBytes: z.number(),
+  compressRatio: z.number(),
+  compression: z.string(),
+  mountpoint: z.string().nullable(),
+});
+export type ZfsDataset = z.infer<typeof zfsDatasetSchema>;
+
+export const zfsSnapshotSchema = z.object({
+  name: z.string(),
+  dataset: z.string(),
+  /** Space only this snapshot holds (freed when it is destroyed) */
+  usedBytes: z.number(),
+  referencedBytes: z.number(),
+  createdAt: z.string(),
+});
+export type ZfsSnapshot = z.infer<typeof zfsSnapshotSchema>;
+
+export const zfsArcSchema = z.object({
+  sizeBytes: z.number(),
+  targetBytes: z.number(),
+  minBytes: z.number(),
+  maxBytes: z.number(),
+  mruBytes: z.number(),
+  mfuBytes: z.number(),
+  hits: z.number(),
+  misses: z.number(),
+  hitRatio: z.number().nullable(),
+  l2: z.object({ sizeBytes: z.number(), hits: z.number(), misses: z.number(), hitRatio: z.number().nullable() }).nullable(),
+});
+export type ZfsArc = z.infer<typeof zfsArcSchema>;
+
+export const btrfsUsageSchema = z.object({
+  mount: z.string(),
+  deviceSizeBytes: z.number(),
+  allocatedBytes: z.number(),
+  unallocatedBytes: z.number(),
+  missingBytes: z.number(),
+  usedBytes: z.number(),
+  freeEstimatedBytes: z.number().nullable(),
+  dataRatio: z.number(),
+  metadataRatio: z.number(),
+  multipleProfiles: z.boolean(),
+  /** Chunk allocation per block group type (Data, Metadata, System) and profile */
+  profiles: z.array(z.object({ type: z.string(), profile: z.string(), sizeBytes: z.number(), usedBytes: z.number() })),
+  findings: z.array(z.object({
+    severity: z.enum(["INFO", "WARNING", "CRITICAL"]),
+    message: z.string(),
+  })),
+});
+export type BtrfsUsage = z.infer<typeof btrfsUsageSchema>;
+
+export const btrfsDeviceStatsSchema = z.object({
+  mount: z.string(),
+  device: z.string(),
+  /** Lifetime error counters (write_io_errs, read_io_errs, flush_io_errs, corruption_errs, generation_errs) */
+  counters: z.record(z.number()),
+});
+export type BtrfsDeviceStats = z.infer<typeof btrfsDeviceStatsSchema>;
+
+export const btrfsScrubSchema = z.object({
+  mount: z.string(),
+  state: z.enum(["finished", "running", "aborted", "interrupted", "never"]),
+  /** Host-local time */
+  startedAt: z.string().nullable(),
+  duration: z.string().nullable(),
+  errors: z.number().nullable(),
+  summary: z.string().nullable(),
+});
+export type BtrfsScrub = z.infer<typeof btrfsScrubSchema>;
+
+export const btrfsBalanceSchema = z.object({
+  mount: z.string(),
+  state: z.enum(["none", "running", "paused"]),
+  /** "2 out of about 10 chunks balanced (3 considered), 80% left" */
+  progress: z.string().nullable(),
+});
+export type BtrfsBalance = z.infer<typeof btrfsBalanceSchema>;
+
+const storageFindingSchema = z.object({
+  severity: z.enum(["INFO", "WARNING", "CRITICAL"]),
+  message: z.string(),
+});
+
+export const mdArraySchema = z.object({
+  /** md0, md127 */
+  name: z.string(),
+  state: z.enum(["active", "inactive"]),
+  readOnly: z.boolean(),
+  level: z.string().nullable(),
+  /** Size in 1K blocks as reported by /proc/mdstat */
+  blocks: z.number().nullable(),
+  raidDisks: z.number().nullable(),
+  workingDisks: z.number().nullable(),
+  /** Member map such as "U_U" (U = in sync, _ = missing) */
+  memberStatus: z.string().nullable(),
+  devices: z.array(z.object({
+    name: z.string(),
+    role: z.number(),
+    state: z.enum(["active", "faulty", "spare", "write-mostly", "replacement"]),
+  })),
+  sync: z.object({
+    action: z.string(),
+    /** null while the action is DELAYED or PENDING */
+    percent: z.number().nullable(),
+    finish: z.string().nullable(),
+    speed: z.string().nullable(),
+  }).nullable(),
+  mismatchCount: z.number().nullable(),
+});
+export type MdArray = z.infer<typeof mdArraySchema>;
+
+export const mdStatusSchema = z.object({
+  arrays: z.array(mdArraySchema),
+  findings: z.array(storageFindingSchema.extend({ array: z.string() })),
+});
+export type MdStatus = z.infer<typeof mdStatusSchema>;
+
+export const mdDetailSchema = z.object({
+  array: z.string(),
+  /** Every "Key : Value" line, e.g. "Raid Level", "State", "Failed Devices" */
+  fields: z.record(z.string()),
+  devices: z.array(z.object({
+    number: z.number().nullable(),
+    raidDevice: z.number().nullable(),
+    state: z.string(),
+    device: z.string().nullable(),
+  })),
+});
+export type MdDetail = z.infer<typeof mdDetailSchema>;
+
+export const lvmReportSchema = z.object({
+  physicalVolumes: z.array(z.object({
+    name: z.string(),
+    vg: z.string(),
+    sizeBytes: z.number(),
+    freeBytes: z.number(),
+    attr: z.string(),
+  })),
+  volumeGroups: z.array(z.object({
+    name: z.string(),
+    sizeBytes: z.number(),
+    freeBytes: z.number(),
+    pvCount: z.number(),
+    lvCount: z.number(),
+    missingPvCount: z.number(),
+    attr: z.string(),
+  })),
+  logicalVolumes: z.array(z.object({
+    name: z.string(),
+    vg: z.string(),
+    sizeBytes: z.number(),
+    attr: z.string(),
+    /** Segment type: linear, striped, raid1, thin-pool, thin, ... */
+    type: z.string(),
+    pool: z.string().nullable(),
+    origin: z.string().nullable(),
+    dataPercent: z.number().nullable(),
+    metadataPercent: z.number().nullable(),
+    syncPercent: z.number().nullable(),
+    health: z.string().nullable(),
+  })),
+  /** `volume` is a VG name or vg/lv */
+  findings: z.array(storageFindingSchema.extend({ volume: z.string() })),
+});
+export type LvmReport = z.infer<typeof lvmReportSchema>;
+
+/** Fields every structured result carries */
+const baseOutputShape = {
+  action: z.string(),
+  /** Formatted output of actions without a typed parser */
+  text: z.string().optional(),
+};
+
+/**
+ * Output schema per tool, advertised as the tool's MCP outputSchema
+ * Tools missing from this table return `{ action, text }` in json mode only.
+ */
+export const TOOL_OUTPUT_SCHEMAS: Record<string, z.ZodRawShape> = {
+  docker: { ...baseOutputShape, containers: z.array(containerSummarySchema).optional() },
+  monitoring: { ...baseOutputShape, processes: z.array(processInfoSchema).optional() },
+  health: { ...baseOutputShape, report: healthReportSchema.optional() },
+  unraid: {
+    ...baseOutputShape,
+    array: arrayStatusSchema.optional(),
+    drive: smartDriveSchema.optional(),
+    parityHistory: parityHistorySchema.optional(),
+    shareReport: shareReportSchema.optional(),
+  },
+  smart: { ...baseOutputShape, drives: z.array(smartDriveSchema).optional(), trends: z.array(smartTrendSchema).optional() },
+  notifications: { ...baseOutputShape, notifications: z.array(notificationSchema).optional() },
+  flash: { ...baseOutputShape, check: flashCheckSchema.optional(), diff: flashDiffSchema.optional() },
+  zfs: {
+    ...baseOutputShape,
+    poolReport: zfsPoolReportSchema.optional(),
+    scrubs: z.array(zfsScrubRunSchema).optional(),
+    datasets: z.array(zfsDatasetSchema).optional(),
+    snapshots: z.array(zfsSnapshotSchema).optional(),
+    arc: zfsArcSchema.optional(),
+  },
+  btrfs: {
+    ...baseOutputShape,
+    usage: z.array(btrfsUsageSchema).optional(),
+    deviceStats: z.array(btrfsDeviceStatsSchema).optional(),
+    scrubs: z.array(btrfsScrubSchema).optional(),
+    balances: z.array(btrfsBalanceSchema).optional(),
+  },
+  mdraid: { ...baseOutputShape, status: mdStatusSchema.optional(), details: z.array(mdDetailSchema).optional() },
+  lvm: { ...baseOutputShape, report: lvmReportSchema.optional() },
+  plugin: {
+    ...baseOutputShape,
+    templates: z.array(dockerTemplateSchema).optional(),
+    templateDrift: z.array(templateDriftSchema).optional(),
+  },
+};
+
+/**
+ * Shape a handler's result for the requested output format
+ *
+ * Errors are returned unchanged. Tools with an output schema always carry
+ * structuredContent (the MCP server requires it once a schema is advertised).
+ */
+export function formatToolResult(tool: string, action: string | undefined, result: CallToolResult, output: OutputFormat = "text"): CallToolResult {
+  if (result.isError) return result;
+  if (output === "text" && !TOOL_OUTPUT_SCHEMAS[tool]) return result;
+
+  const structured = result.structuredContent
+    ? { action: action ?? tool, ...result.structuredContent }
+    : {
+        action: action ?? tool,
+        text: result.content.map(c => (c.type === "text" ? c.text : "")).filter(Boolean).join("\n"),
+      };
+
+  if (output === "json") {
+    return { content: [{ type: "text", text: JSON.stringify(structured, null, 2) }], structuredContent: structured };
+  }
+  return { ...result, structuredContent: structured };
+}
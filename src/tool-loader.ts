@@ -1,5 +1,10 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
 import { Platform, SSHExecutor } from "./platforms/types.js";
+import { HostManager } from "./host-manager.js";
+import { registerHostTools } from "./tools/host-tools.js";
+import { ServerMode, checkPermission, loadServerMode } from "./permissions.js";
+import { TOOL_OUTPUT_SCHEMAS, formatToolResult, outputFormatSchema } from "./structured.js";
 
 // Core tools - always loaded regardless of platform
 import {
@@ -13,30 +18,47 @@ import {
   registerVMTools,
   registerContainerTopologyTools,
   registerHealthDiagnosticsTools,
+  registerComposeTools,
+  registerSmartTools,
 } from "./tools/core/index.js";
 
 /**
- * Load all tools for a given platform
+ * A tool as registered by a tool module, captured before it is exposed on the MCP server
+ */
+interface ToolDefinition {
+  name: string;
+  description: string;
+  schema: z.ZodRawShape;
+  handler: (args: any, extra: any) => any;
+}
+
+/**
+ * Run all tool registrations for one host and capture the resulting tools
  *
  * 1. Load core tools (always loaded, work on any Linux system)
- * 2. Load platform-specific tools based on detected platform
+ * 2. Load platform-specific tools based on the host's detected platform
  */
-export function loadTools(
-  server: McpServer,
-  executor: SSHExecutor,
-  platform: Platform
-): void {
+function collectHostTools(executor: SSHExecutor, platform: Platform, hostName: string): Map<string, ToolDefinition> {
+  const tools = new Map<string, ToolDefinition>();
+  const collector = {
+    tool: (name: string, description: string, schema: z.ZodRawShape, handler: ToolDefinition["handler"]) => {
+      tools.set(name, { name, description, schema, handler });
+    },
+  } as unknown as McpServer;
+
   // 1. Register core tools (always loaded)
-  registerDockerTools(server, executor);
-  registerSystemTools(server, executor);
-  registerMonitoringTools(server, executor);
-  registerSecurityTools(server, executor);
-  registerLogAnalysisTools(server, executor);
-  registerResourceManagementTools(server, executor);
-  registerPerformanceTools(server, executor);
-  registerVMTools(server, executor);
-  registerContainerTopologyTools(server, executor);
-  registerHealthDiagnosticsTools(server, executor);
+  registerDockerTools(collector, executor);
+  registerSystemTools(collector, executor);
+  registerMonitoringTools(collector, executor);
+  registerSecurityTools(collector, executor);
+  registerLogAnalysisTools(collector, executor);
+  registerResourceManagementTools(collector, executor);
+  registerPerformanceTools(collector, executor);
+  registerVMTools(collector, executor);
+  registerContainerTopologyTools(collector, executor);
+  registerHealthDiagnosticsTools(collector, executor);
+  registerComposeTools(collector, executor);
+  registerSmartTools(collector, executor, hostName);
 
   // 2. Register platform-specific tools
   const platformModules = platform.getToolModules();
@@ -46,18 +68,135 @@ export function loadTools(
 
   for (const module of platformModules) {
     console.error(`Loading platform tool module: ${module.name}`);
-    module.register(server, executor);
+    module.register(collector, executor);
   }
 
-  console.error(`Loaded tools for platform: ${platform.displayName}`);
+  return tools;
+}
+
+/**
+ * Wrap a tool handler so each call is checked against the action's permission tier
+ * before it runs (server mode, plus OAuth scopes when the request carries a token)
+ */
+function withPermissionCheck(name: string, mode: ServerMode, handler: ToolDefinition["handler"]): ToolDefinition["handler"] {
+  return async (args: any, extra: any) => {
+    const refusal = checkPermission(name, args?.action, mode, extra?.authInfo);
+    if (refusal) {
+      console.error(`Refused ${name}${args?.action ? `.${args.action}` : ""}: ${refusal}`);
+      return { content: [{ type: "text", text: `Permission denied: ${refusal}` }], isError: true };
+    }
+    return handler(args, extra);
+  };
+}
+
+/**
+ * Wrap a tool handler so it honours the `output` argument (see structured.ts)
+ */
+function withOutputFormat(name: string, handler: ToolDefinition["handler"]): ToolDefinition["handler"] {
+  return async (args: any, extra: any) => {
+    const { output, ...toolArgs } = args ?? {};
+    const result = await handler(toolArgs, extra);
+    return formatToolResult(name, toolArgs.action, result, output);
+  };
+}
+
+/**
+ * Expose a tool on the MCP server with the output argument, its output schema
+ * (if any) and the permission check
+ */
+function registerTool(server: McpServer, mode: ServerMode, name: string, description: string, schema: z.ZodRawShape, handler: ToolDefinition["handler"]): void {
+  server.registerTool(
+    name,
+    {
+      description,
+      inputSchema: { ...schema, output: outputFormatSchema },
+      outputSchema: TOOL_OUTPUT_SCHEMAS[name],
+    },
+    withPermissionCheck(name, mode, withOutputFormat(name, handler))
+  );
+}
+
+/**
+ * Load all tools for every managed host
+ *
+ * Each tool is registered once with an optional `host` argument that routes the
+ * call to that host's connection. Platform-specific tools are exposed when at
+ * least one host provides them, and refused for hosts that don't.
+ *
+ * Every action is classified as read, mutate or destructive (see permissions.ts)
+ * and refused unless the server mode allows it. Every tool also takes
+ * `output: "text" | "json"`.
+ */
+export function loadTools(server: McpServer, hosts: HostManager, mode: ServerMode = loadServerMode()): void {
+  const hostTools = new Map<string, Map<string, ToolDefinition>>();
+  const toolOrder: string[] = [];
+
+  for (const host of hosts.list()) {
+    if (!host.platform) {
+      throw new Error(`Platform for host ${host.name} has not been detected`);
+    }
+    const tools = collectHostTools(host.executor, host.platform, host.name);
+    hostTools.set(host.name, tools);
+    for (const name of tools.keys()) {
+      if (!toolOrder.includes(name)) toolOrder.push(name);
+    }
+    console.error(`Loaded tools for ${host.name}: ${host.platform.displayName}`);
+  }
+
+  const hostDescription = `Target host (${hosts.names().join(", ")}; default: ${hosts.defaultHost})`;
+
+  for (const name of toolOrder) {
+    const definition = [...hostTools.values()].find(t => t.has(name))!.get(name)!;
+
+    registerTool(
+      server,
+      mode,
+      name,
+      definition.description,
+      {
+        ...definition.schema,
+        host: z.string().optional().describe(hostDescription),
+      },
+      async (args: any, extra: any) => {
+        const { host: hostName, ...toolArgs } = args;
+        let target;
+        try {
+          target = hosts.get(hostName);
+        } catch (error) {
+          // network_test took the address to test as `host` before `host` selected the server
+          const hint = "target" in definition.schema && toolArgs.target === undefined
+            ? `. "host" selects the server to run on; pass the address to test as "target"`
+            : "";
+          return { content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}${hint}` }], isError: true };
+        }
+        const tool = hostTools.get(target.name)?.get(name);
+        if (!tool) {
+          return {
+            content: [{ type: "text", text: `Error: tool "${name}" is not available on host ${target.name} (${target.platform?.displayName ?? "unknown platform"})` }],
+            isError: true,
+          };
+        }
+        return tool.handler(toolArgs, extra);
+      }
+    );
+  }
+
+  // Host management tool works across all hosts and is not routed
+  const guarded = {
+    tool: (name: string, description: string, schema: z.ZodRawShape, handler: ToolDefinition["handler"]) =>
+      registerTool(server, mode, name, description, schema, handler),
+  } as unknown as McpServer;
+  registerHostTools(guarded, hosts);
+
+  console.error(`Server mode: ${mode}`);
 }
 
 /**
  * Count the total number of tools loaded
  */
 export function countTools(platform: Platform): { core: number; platform: number; total: number } {
-  // Core tools: 10 tools
-  const core = 10;
+  // Core tools: 12 tools
+  const core = 12;
 
   // Platform-specific tools count
   const platformCount = platform.getToolModules().length;
@@ -0,0 +1,392 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { SSHExecutor } from "../../platforms/types.js";
+import { dockerName, identifier, plainArgument, safePath, sh } from "../../shell.js";
+
+/**
+ * Compose metadata Docker Compose (v1 and v2) attaches to every container it creates
+ */
+export interface ComposeLabels {
+  project?: string;
+  service?: string;
+  workingDir?: string;
+  configFiles: string[];
+  dependsOn: string[];
+  configHash?: string;
+  oneoff: boolean;
+}
+
+interface ComposeContainer {
+  id: string;
+  name: string;
+  service: string;
+  state: string;
+  health?: string;
+  image: string;
+  startedAt?: string;
+  restartCount: number;
+  env: string[];
+  restartPolicy: string;
+  ports: string[];
+  labels: ComposeLabels;
+}
+
+interface ComposeProject {
+  name: string;
+  workingDir?: string;
+  configFiles: string[];
+  containers: ComposeContainer[];
+}
+
+/**
+ * Difference between a service in the compose file and its running container(s)
+ */
+export interface ComposeDrift {
+  service: string;
+  container?: string;
+  field: string;
+  expected: string;
+  actual: string;
+}
+
+const composeActions = ["projects", "status", "drift", "logs"] as const;
+
+/** Matches the RFC 3339 timestamp `docker logs --timestamps` puts before every line */
+const LOG_TIMESTAMP = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.(\d+))?(Z|[+-]\d{2}:\d{2})\s?(.*)$/;
+
+/**
+ * Parse the depends_on label
+ * Compose v2 writes "db:service_started:false,redis:service_healthy:true";
+ * some older releases wrote a JSON object keyed by service.
+ */
+function parseDependsOn(value: string | undefined): string[] {
+  if (!value) return [];
+  const trimmed = value.trim();
+  if (trimmed.startsWith("{")) {
+    try { return Object.keys(JSON.parse(trimmed)); } catch { return []; }
+  }
+  return trimmed.split(",").map(d => d.split(":")[0].trim()).filter(Boolean);
+}
+
+/**
+ * Read the com.docker.compose.* labels of a container
+ */
+export function parseComposeLabels(labels: Record<string, string> | null | undefined): ComposeLabels {
+  const l = labels || {};
+  const configFiles = (l["com.docker.compose.project.config_files"] || "")
+    .split(",")
+    .map(f => f.trim())
+    .filter(Boolean);
+  return {
+    project: l["com.docker.compose.project"] || undefined,
+    service: l["com.docker.compose.service"] || undefined,
+    workingDir: l["com.docker.compose.project.working_dir"] || undefined,
+    configFiles,
+    dependsOn: parseDependsOn(l["com.docker.compose.depends_on"]),
+    configHash: l["com.docker.compose.config-hash"] || undefined,
+    oneoff: l["com.docker.compose.oneoff"] === "True",
+  };
+}
+
+/**
+ * Published ports of a container as "published:target/protocol"
+ */
+function containerPorts(c: any): string[] {
+  const ports: string[] = [];
+  for (const [cp, bindings] of Object.entries(c.HostConfig?.PortBindings || {})) {
+    const [target, protocol = "tcp"] = cp.split("/");
+    for (const b of (bindings as any[]) || []) {
+      if (b?.HostPort) ports.push(`${b.HostPort}:${target}/${protocol}`);
+    }
+  }
+  return ports.sort();
+}
+
+/**
+ * Group containers by compose project, skipping containers not created by Compose
+ * and one-off `docker compose run` containers
+ */
+export function groupComposeProjects(inspectData: any[]): ComposeProject[] {
+  const projects = new Map<string, ComposeProject>();
+  for (const c of inspectData) {
+    const labels = parseComposeLabels(c.Config?.Labels);
+    if (!labels.project || labels.oneoff) continue;
+
+    let project = projects.get(labels.project);
+    if (!project) {
+      project = { name: labels.project, workingDir: labels.workingDir, configFiles: labels.configFiles, containers: [] };
+      projects.set(labels.project, project);
+    }
+    const policy = c.HostConfig?.RestartPolicy;
+    project.containers.push({
+      id: (c.Id || "").substring(0, 12),
+      name: (c.Name || "").replace(/^\//, ""),
+      service: labels.service || "unknown",
+      state: c.State?.Status || "unknown",
+      health: c.State?.Health?.Status,
+      image: c.Config?.Image || "unknown",
+      startedAt: c.State?.StartedAt,
+      restartCount: c.RestartCount ?? 0,
+      env: c.Config?.Env || [],
+      restartPolicy: policy?.Name ? (policy.MaximumRetryCount ? `${policy.Name}:${policy.MaximumRetryCount}` : policy.Name) : "no",
+      ports: containerPorts(c),
+      labels,
+    });
+  }
+  for (const project of projects.values()) {
+    project.containers.sort((a, b) => a.service.localeCompare(b.service) || a.name.localeCompare(b.name));
+  }
+  return Array.from(projects.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Published ports of a service from `docker compose config --format json`
+ */
+function servicePorts(service: any): string[] {
+  const ports: string[] = [];
+  for (const p of service.ports || []) {
+    if (typeof p === "string") {
+      // Short syntax is normalized to objects by compose config, but accept it anyway
+      const [spec, protocol = "tcp"] = p.split("/");
+      const parts = spec.split(":");
+      if (parts.length >= 2) ports.push(`${parts[parts.length - 2]}:${parts[parts.length - 1]}/${protocol}`);
+    } else if (p?.published) {
+      ports.push(`${p.published}:${p.target}/${p.protocol || "tcp"}`);
+    }
+  }
+  return ports.sort();
+}
+
+/**
+ * Environment of a service as KEY=value pairs (list or map syntax)
+ */
+function serviceEnvironment(service: any): Map<string, string> {
+  const env = new Map<string, string>();
+  const raw = service.environment;
+  if (Array.isArray(raw)) {
+    for (const entry of raw) {
+      const i = String(entry).indexOf("=");
+      if (i > 0) env.set(String(entry).substring(0, i), String(entry).substring(i + 1));
+    }
+  } else if (raw && typeof raw === "object") {
+    for (const [key, value] of Object.entries(raw)) {
+      if (value !== null && value !== undefined) env.set(key, String(value));
+    }
+  }
+  return env;
+}
+
+/**
+ * Compare the resolved compose file with the project's containers
+ *
+ * Checks that every service has a container and that image, published ports,
+ * restart policy and the environment variables set in the file match. Variables
+ * only present in the container (e.g. from the image) are not reported.
+ */
+export function composeDrift(project: ComposeProject, config: any): ComposeDrift[] {
+  const drift: ComposeDrift[] = [];
+  const services: Record<string, any> = config?.services || {};
+
+  for (const [serviceName, service] of Object.entries(services)) {
+    const containers = project.containers.filter(c => c.service === serviceName);
+    if (containers.length === 0) {
+      drift.push({ service: serviceName, field: "container", expected: "created", actual: "missing" });
+      continue;
+    }
+    for (const c of containers) {
+      const add = (field: string, expected: string, actual: string) => {
+        if (expected !== actual) drift.push({ service: serviceName, container: c.name, field, expected, actual });
+      };
+      if (service.image) add("image", service.image, c.image);
+      add("ports", servicePorts(service).join(", ") || "none", c.ports.join(", ") || "none");
+      if (service.restart) add("restart", service.restart, c.restartPolicy);
+
+      const actualEnv = new Map(c.env.map((e) => {
+        const i = e.indexOf("=");
+        return i > 0 ? [e.substring(0, i), e.substring(i + 1)] as [string, string] : [e, ""] as [string, string];
+      }));
+      for (const [key, value] of serviceEnvironment(service)) {
+        add(`env ${key}`, value, actualEnv.has(key) ? actualEnv.get(key)! : "(unset)");
+      }
+    }
+  }
+
+  for (const c of project.containers) {
+    if (!(c.service in services)) {
+      drift.push({ service: c.service, container: c.name, field: "service", expected: "defined in compose file", actual: "orphaned container" });
+    }
+  }
+  return drift;
+}
+
+/**
+ * Sort key for a log timestamp
+ * Docker trims trailing zeros from the fraction, so pad it before comparing as text.
+ */
+function timestampKey(seconds: string, fraction: string | undefined, zone: string): string {
+  const utc = zone === "Z" ? `${seconds}Z` : new Date(`${seconds}${zone}`).toISOString().substring(0, 19) + "Z";
+  return `${utc}.${(fraction || "").padEnd(9, "0")}`;
+}
+
+/**
+ * Merge `docker logs --timestamps` output from several containers into one timeline
+ *
+ * Lines without a timestamp (wrapped output) stay with the line before them.
+ *
+ * @param logs - Log output per label (usually the service name)
+ * @param limit - Keep only the most recent lines after merging
+ */
+export function mergeTimestampedLogs(logs: Array<{ label: string; output: string }>, limit?: number): string[] {
+  const entries: Array<{ key: string; order: number; line: string }> = [];
+  let order = 0;
+  for (const { label, output } of logs) {
+    let key = "";
+    for (const line of output.split("\n")) {
+      if (!line.trim()) continue;
+      const match = line.match(LOG_TIMESTAMP);
+      if (match) {
+        key = timestampKey(match[1], match[2], match[3]);
+        entries.push({ key, order: order++, line: `${match[1]}${match[2] ? `.${match[2].substring(0, 3).padEnd(3, "0")}` : ""} [${label}] ${match[4]}` });
+      } else {
+        entries.push({ key, order: order++, line: `${" ".repeat(23)} [${label}] ${line}` });
+      }
+    }
+  }
+  entries.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : a.order - b.order));
+  const lines = entries.map(e => e.line);
+  return limit !== undefined && lines.length > limit ? lines.slice(-limit) : lines;
+}
+
+/**
+ * Fetch and group all containers created by Compose
+ */
+async function loadComposeProjects(sshExecutor: SSHExecutor): Promise<ComposeProject[]> {
+  const output = await sshExecutor("ids=$(docker ps -aq --filter label=com.docker.compose.project); if [ -n \"$ids\" ]; then docker inspect $ids; else echo '[]'; fi");
+  return groupComposeProjects(JSON.parse(output.trim() || "[]"));
+}
+
+function formatUptime(startedAt: string | undefined): string {
+  if (!startedAt || startedAt.startsWith("0001-")) return "never started";
+  const ms = Date.now() - new Date(startedAt).getTime();
+  if (!Number.isFinite(ms) || ms < 0) return startedAt;
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+export function registerComposeTools(server: McpServer, sshExecutor: SSHExecutor): void {
+  server.tool(
+    "compose",
+    "Docker Compose project ops (containers grouped by com.docker.compose.project). Actions: projects (list projects, working dir, config files, running count), status (per-service state of a project), drift (compose file vs running containers), logs (project logs merged in time order).",
+    {
+      action: z.enum(composeActions).describe("Action"),
+      project: z.string().optional().describe("Compose project name (status/drift/logs)"),
+      service: z.string().optional().describe("Only this service (logs)"),
+      lines: z.number().int().min(1).max(5000).optional().default(100).describe("Lines per container and in the merged result (logs)"),
+      since: z.string().optional().describe("Only logs since, e.g. 30m or 2024-01-01T00:00:00 (logs)"),
+      ...outputFiltersSchema.shape,
+    },
+    async (args) => {
+      try {
+        const projects = await loadComposeProjects(sshExecutor);
+
+        if (args.action === "projects") {
+          if (projects.length === 0) return { content: [{ type: "text", text: "No Compose projects found." }] };
+          let result = `Compose Projects (${projects.length})\n` + "=".repeat(60) + "\n\n";
+          for (const p of projects) {
+            const running = p.containers.filter(c => c.state === "running").length;
+            const services = Array.from(new Set(p.containers.map(c => c.service)));
+            result += `${p.name}: ${running}/${p.containers.length} running\n`;
+            result += `  Working dir: ${p.workingDir || "unknown"}\n`;
+            result += `  Config files: ${p.configFiles.join(", ") || "unknown"}\n`;
+            result += `  Services: ${services.join(", ")}\n\n`;
+          }
+          return { content: [{ type: "text", text: applyFiltersToText(result, args) }] };
+        }
+
+        if (!args.project) return { content: [{ type: "text", text: "Error: project required" }], isError: true };
+        const projectName = identifier(args.project, "project name");
+        const project = projects.find(p => p.name === projectName);
+        if (!project) {
+          const known = projects.map(p => p.name).join(", ") || "none";
+          return { content: [{ type: "text", text: `Compose project "${projectName}" not found. Known projects: ${known}` }], isError: true };
+        }
+
+        switch (args.action) {
+          case "status": {
+            let result = `Compose Project: ${project.name}\n` + "=".repeat(60) + "\n\n";
+            result += `Working dir: ${project.workingDir || "unknown"}\nConfig files: ${project.configFiles.join(", ") || "unknown"}\n\n`;
+            for (const c of project.containers) {
+              const health = c.health ? ` (${c.health})` : "";
+              result += `${c.service}: ${c.state}${health}\n`;
+              result += `  Container: ${c.name} (${c.id})\n  Image: ${c.image}\n`;
+              result += `  Uptime: ${c.state === "running" ? formatUptime(c.startedAt) : "-"}, restarts: ${c.restartCount}\n`;
+              if (c.labels.dependsOn.length) result += `  Depends on: ${c.labels.dependsOn.join(", ")}\n`;
+              result += "\n";
+            }
+            return { content: [{ type: "text", text: applyFiltersToText(result, args) }] };
+          }
+
+          case "drift": {
+            if (project.configFiles.length === 0) {
+              return { content: [{ type: "text", text: `Project "${project.name}" has no config_files label; cannot locate its compose file.` }], isError: true };
+            }
+            const files = project.configFiles.flatMap(f => ["-f", safePath(f)]);
+            const directory = project.workingDir ? ["--project-directory", safePath(project.workingDir)] : [];
+            const output = await sshExecutor(sh`docker compose -p ${project.name} ${directory} ${files} config --format json`);
+            const config = JSON.parse(output);
+            const drift = composeDrift(project, config);
+
+            let result = `Compose Drift: ${project.name}\n` + "=".repeat(60) + "\n\n";
+            result += `Config files: ${project.configFiles.join(", ")}\n\n`;
+            if (drift.length === 0) {
+              result += "No drift: running containers match the compose file.\n";
+            } else {
+              result += `DRIFT (${drift.length}):\n` + "-".repeat(60) + "\n";
+              for (const d of drift) {
+                result += `  ${d.service}${d.container ? ` (${d.container})` : ""} ${d.field}\n`;
+                result += `    compose file: ${d.expected}\n    container:    ${d.actual}\n`;
+              }
+              result += "\nRun `docker compose up -d` in the project directory to apply the file.\n";
+            }
+            return { content: [{ type: "text", text: applyFiltersToText(result, args) }] };
+          }
+
+          case "logs": {
+            const lines = args.lines ?? 100;
+            const since = args.since ? plainArgument(args.since, "since") : undefined;
+            const containers = args.service
+              ? project.containers.filter(c => c.service === args.service)
+              : project.containers;
+            if (containers.length === 0) {
+              return { content: [{ type: "text", text: `Service "${args.service}" not found in project "${project.name}".` }], isError: true };
+            }
+
+            const logs: Array<{ label: string; output: string }> = [];
+            for (const c of containers) {
+              const name = dockerName(c.name);
+              const cmd = since
+                ? sh`docker logs --timestamps --tail ${lines} --since ${since} ${name} 2>&1`
+                : sh`docker logs --timestamps --tail ${lines} ${name} 2>&1`;
+              const multiple = containers.filter(x => x.service === c.service).length > 1;
+              logs.push({ label: multiple ? c.name : c.service, output: await sshExecutor(cmd) });
+            }
+
+            const merged = mergeTimestampedLogs(logs, lines);
+            let result = `Compose Logs: ${project.name} (${containers.length} containers, ${merged.length} lines)\n` + "=".repeat(60) + "\n\n";
+            result += merged.length ? merged.join("\n") + "\n" : "No log output.\n";
+            return { content: [{ type: "text", text: applyFiltersToText(result, args) }] };
+          }
+
+          default:
+            return { content: [{ type: "text", text: `Unknown action: ${args.action}` }], isError: true };
+        }
+      } catch (error) {
+        return { content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    }
+  );
+}
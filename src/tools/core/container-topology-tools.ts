@@ -1,18 +1,23 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFilters, applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { SSHExecutor } from "../../platforms/types.js";
+import { streamingOptions } from "../../progress.js";
+import { dockerName, hostTarget, sh } from "../../shell.js";
+import { parseComposeLabels } from "./compose-tools.js";
 
-type SSHExecutor = (command: string) => Promise<string>;
+/** Budget for traceroute/tracepath, which can wait on many unresponsive hops */
+const TRACEROUTE_TIMEOUT_MS = 120000;
 
 interface ContainerNetwork { name: string; ipAddress: string; gateway: string; macAddress: string; }
 interface ContainerInfo {
   id: string; name: string; networks: ContainerNetwork[]; volumes: string[];
-  dependsOn: string[]; links: string[]; networkMode: string;
+  dependsOn: string[]; links: string[]; networkMode: string; composeProject?: string; composeService?: string;
   ports: Array<{ container: string; host: string; protocol: string }>;
 }
 
 function parseContainerInspect(inspectData: any[]): ContainerInfo[] {
-  return inspectData.map((c) => {
+  const containers = inspectData.map((c): ContainerInfo => {
     const networks: ContainerNetwork[] = [];
     if (c.NetworkSettings?.Networks) {
       for (const [name, info] of Object.entries(c.NetworkSettings.Networks)) {
@@ -26,10 +31,7 @@ function parseContainerInspect(inspectData: any[]): ContainerInfo[] {
         volumes.push(m.Type === "volume" ? (m.Name || m.Source) : m.Source);
       }
     }
-    const dependsOn: string[] = [];
-    if (c.Config?.Labels?.["com.docker.compose.depends_on"]) {
-      try { dependsOn.push(...Object.keys(JSON.parse(c.Config.Labels["com.docker.compose.depends_on"]))); } catch {}
-    }
+    const compose = parseComposeLabels(c.Config?.Labels);
     const links: string[] = c.HostConfig?.Links?.map((l: string) => l.split(":")[0]) || [];
     const ports: Array<{ container: string; host: string; protocol: string }> = [];
     if (c.NetworkSettings?.Ports) {
@@ -43,8 +45,15 @@ function parseContainerInspect(inspectData: any[]): ContainerInfo[] {
         }
       }
     }
-    return { id: c.Id.substring(0, 12), name: c.Name.startsWith("/") ? c.Name.substring(1) : c.Name, networks, volumes, dependsOn, links, networkMode: c.HostConfig?.NetworkMode || "default", ports };
+    return { id: c.Id.substring(0, 12), name: c.Name.startsWith("/") ? c.Name.substring(1) : c.Name, networks, volumes, dependsOn: compose.dependsOn, links, networkMode: c.HostConfig?.NetworkMode || "default", ports, composeProject: compose.project, composeService: compose.service };
   });
+  // depends_on names compose services; resolve them to containers of the same project
+  return containers.map((c) => ({
+    ...c,
+    dependsOn: c.dependsOn.map((service) =>
+      containers.find(x => x.composeProject && x.composeProject === c.composeProject && x.composeService === service)?.name ?? service
+    ),
+  }));
 }
 
 const topologyActions = ["network_topology", "volume_sharing", "dependency_graph", "port_conflicts", "network_test"] as const;
@@ -57,14 +66,14 @@ export function registerContainerTopologyTools(server: McpServer, sshExecutor: S
       action: z.enum(topologyActions).describe("Action"),
       container: z.string().optional().describe("Container"),
       type: z.enum(["ping", "dns", "traceroute", "container"]).optional().describe("Test type"),
-      host: z.string().optional().describe("Target host"),
+      target: z.string().optional().describe("Target host/IP (network_test; formerly host, which now selects the server)"),
       fromContainer: z.string().optional().describe("Source container"),
       port: z.number().optional().describe("Port"),
       dnsServer: z.string().optional().describe("DNS server"),
       count: z.number().optional().default(4).describe("Ping count"),
       ...outputFiltersSchema.shape,
     },
-    async (args) => {
+    async (args, extra) => {
       try {
         switch (args.action) {
           case "network_topology": {
@@ -161,49 +170,57 @@ export function registerContainerTopologyTools(server: McpServer, sshExecutor: S
           }
 
           case "network_test": {
-            if (!args.type || !args.host) return { content: [{ type: "text", text: "Error: type and host required" }], isError: true };
+            if (!args.type || !args.target) return { content: [{ type: "text", text: "Error: type and target required (the address to test is target; host selects the server)" }], isError: true };
+            const target = hostTarget(args.target);
             let result = "";
             switch (args.type) {
               case "ping": {
                 const count = args.count ?? 4;
-                let cmd = applyFilters(`ping -c ${count} ${args.host}`, args);
-                const output = await sshExecutor(cmd);
-                result = `Ping Test\n${"=".repeat(60)}\n\nHost: ${args.host}\n\n${output}`;
+                let cmd = applyFilters(sh`ping -c ${count} ${target}`, args);
+                const output = await sshExecutor(cmd, { timeoutMs: (count + 10) * 1000 });
+                result = `Ping Test\n${"=".repeat(60)}\n\nHost: ${args.target}\n\n${output}`;
                 break;
               }
               case "dns": {
-                result = `DNS Test\n${"=".repeat(60)}\n\nHostname: ${args.host}\n`;
-                let cmd = args.dnsServer ? `nslookup ${args.host} ${args.dnsServer}` : `nslookup ${args.host}`;
+                result = `DNS Test\n${"=".repeat(60)}\n\nHostname: ${args.target}\n`;
+                const dnsServer = args.dnsServer ? hostTarget(args.dnsServer) : undefined;
+                let cmd = dnsServer ? sh`nslookup ${target} ${dnsServer}` : sh`nslookup ${target}`;
                 cmd = applyFilters(cmd, args);
                 try {
                   result += await sshExecutor(cmd);
                 } catch {
-                  cmd = args.dnsServer ? `dig @${args.dnsServer} ${args.host}` : `dig ${args.host}`;
+                  cmd = dnsServer ? sh`dig ${`@${dnsServer}`} ${target}` : sh`dig ${target}`;
                   try { result += await sshExecutor(cmd); }
                   catch { result += "Both nslookup and dig failed.\n"; }
                 }
                 break;
               }
               case "traceroute": {
-                result = `Traceroute\n${"=".repeat(60)}\n\nHost: ${args.host}\n\n`;
+                result = `Traceroute\n${"=".repeat(60)}\n\nHost: ${args.target}\n\n`;
+                // Hops are streamed to the client as they resolve
                 try {
-                  let cmd = applyFilters(`traceroute ${args.host}`, args);
-                  result += await sshExecutor(cmd);
-                } catch {
-                  try { result += await sshExecutor(`tracepath ${args.host}`); }
-                  catch { result += "Both traceroute and tracepath failed.\n"; }
+                  let cmd = applyFilters(sh`traceroute ${target}`, args);
+                  result += await sshExecutor(cmd, streamingOptions(extra, { timeoutMs: TRACEROUTE_TIMEOUT_MS }));
+                } catch (error) {
+                  if (extra?.signal?.aborted) throw error;
+                  try { result += await sshExecutor(sh`tracepath ${target}`, streamingOptions(extra, { timeoutMs: TRACEROUTE_TIMEOUT_MS })); }
+                  catch (fallbackError) {
+                    if (extra?.signal?.aborted) throw fallbackError;
+                    result += "Both traceroute and tracepath failed.\n";
+                  }
                 }
                 break;
               }
               case "container": {
                 if (!args.fromContainer) return { content: [{ type: "text", text: "Error: fromContainer required" }], isError: true };
-                result = `Container Test\n${"=".repeat(60)}\n\nFrom: ${args.fromContainer}\nTo: ${args.host}\n`;
+                const fromContainer = dockerName(args.fromContainer);
+                result = `Container Test\n${"=".repeat(60)}\n\nFrom: ${args.fromContainer}\nTo: ${args.target}\n`;
                 if (args.port) {
-                  let cmd = applyFilters(`docker exec ${args.fromContainer} sh -c "command -v nc >/dev/null 2>&1 && nc -zv ${args.host} ${args.port} 2>&1 || echo 'netcat not available'"`, args);
+                  let cmd = applyFilters(sh`docker exec ${fromContainer} sh -c ${sh`command -v nc >/dev/null 2>&1 && nc -zv ${target} ${args.port} 2>&1 || echo 'netcat not available'`}`, args);
                   const output = await sshExecutor(cmd);
                   result += `Port: ${args.port}\n\n${output}`;
                 } else {
-                  let cmd = applyFilters(`docker exec ${args.fromContainer} ping -c 4 ${args.host}`, args);
+                  let cmd = applyFilters(sh`docker exec ${fromContainer} ping -c 4 ${target}`, args);
                   result += "\n" + await sshExecutor(cmd);
                 }
                 break;
@@ -1,22 +1,526 @@
+import fs from "fs";
+import os from "os";
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFilters, applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { SSHExecutor } from "../../platforms/types.js";
+import { dockerName, identifier, plainArgument, sh } from "../../shell.js";
+import { DockerEvent, getEventWatcher, parseDockerEvents, parseEventWindow } from "../../docker-events.js";
+import { ContainerSummary } from "../../structured.js";
 
-type SSHExecutor = (command: string) => Promise<string>;
+/** Actions that change container state; they require confirm: true */
+const lifecycleActions = ["start", "stop", "restart", "pause", "unpause", "kill", "update_restart"] as const;
+
+type LifecycleAction = typeof lifecycleActions[number];
 
 const dockerActions = [
   "list_containers", "inspect", "logs", "stats", "port",
   "env", "top", "health", "logs_aggregate",
-  "list_networks", "inspect_network", "list_volumes", "inspect_volume", "network_containers"
+  "list_networks", "inspect_network", "list_volumes", "inspect_volume", "network_containers",
+  "image_updates", "events", "exec",
+  ...lifecycleActions,
 ] as const;
 
+/**
+ * Container state as reported before and after a lifecycle action
+ */
+interface ContainerState {
+  name: string;
+  id: string;
+  status: string;
+  restartPolicy: string;
+}
+
+/**
+ * Containers lifecycle actions must never touch
+ *
+ * Read from DOCKER_PROTECTED_CONTAINERS (comma-separated names or IDs, '*' wildcards
+ * allowed). When this server itself runs in a container, its own container is
+ * protected as well, identified by the hostname Docker assigns (the short ID).
+ */
+export function loadProtectedContainers(): string[] {
+  const patterns = (process.env.DOCKER_PROTECTED_CONTAINERS ?? "")
+    .split(",")
+    .map(p => p.trim())
+    .filter(Boolean);
+  if (fs.existsSync("/.dockerenv")) {
+    patterns.push(os.hostname());
+  }
+  return patterns;
+}
+
+/**
+ * Find the protected-list entry that matches a container, if any
+ * Patterns match the container name; plain patterns also match an ID prefix.
+ */
+export function matchProtectedContainer(container: { name: string; id: string }, patterns: string[]): string | null {
+  return patterns.find(pattern => matchesContainerPattern(container, pattern)) ?? null;
+}
+
+function matchesContainerPattern(container: { name: string; id: string }, pattern: string): boolean {
+  if (pattern.includes("*")) {
+    const regex = new RegExp(`^${pattern.split("*").map(p => p.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`);
+    return regex.test(container.name);
+  }
+  return pattern === container.name || (pattern.length >= 12 && container.id.startsWith(pattern));
+}
+
+/**
+ * Commands `exec` may run: a command matches an entry when its words are exactly the entry's words,
+ * or when the entry ends in `*` and the command starts with the words before it
+ */
+export interface ExecPolicy {
+  allow: string[][];
+  /** Extra entries for containers matching a pattern (same syntax as DOCKER_PROTECTED_CONTAINERS) */
+  containers: Array<{ pattern: string; allow: string[][] }>;
+}
+
+/**
+ * Read-only inspection commands allowed in every container unless DOCKER_EXEC_ALLOWLIST replaces them
+ * Programs that change state with some arguments (`date -s`, `hostname NAME`, `ip route del`) are listed
+ * without `*` so only their read-only form matches.
+ */
+const DEFAULT_EXEC_ALLOWLIST = [
+  "cat *", "head *", "ls *", "stat *", "printenv *", "df *", "du *", "free *", "ps *", "id *", "whoami",
+  "uname *", "hostname", "date", "uptime", "ip addr", "ip addr show *", "ip route", "ip route show *",
+  "getent hosts *", "nginx -t",
+];
+
+/**
+ * Programs exec never runs, even when allow-listed: shells, editors, pagers and other
+ * interactive programs (there is no TTY), and commands that delete data or stop processes
+ */
+const REFUSED_EXEC_PROGRAMS = new Set([
+  "sh", "bash", "ash", "dash", "zsh", "fish", "su", "sudo", "login", "python", "python3", "node", "irb",
+  "vi", "vim", "nano", "emacs", "less", "more", "top", "htop", "watch",
+  "rm", "rmdir", "mv", "dd", "shred", "truncate", "mkfs", "fdisk", "chmod", "chown",
+  "kill", "killall", "pkill", "shutdown", "reboot", "halt", "poweroff", "init",
+  // Run programs as another user or in other namespaces
+  "nsenter", "unshare", "chroot", "runuser", "doas", "strace",
+]);
+
+/**
+ * Programs that run another program given as an argument: how to skip their own options
+ * and positional arguments to reach it, and options that take a whole command line instead
+ */
+const EXEC_WRAPPERS: Record<string, { valueOptions: string[]; positionals?: number; assignments?: boolean; refusedOptions?: string[] }> = {
+  env: { valueOptions: ["-u", "--unset", "-C", "--chdir"], assignments: true, refusedOptions: ["-S", "--split-string"] },
+  nice: { valueOptions: ["-n", "--adjustment"] },
+  ionice: { valueOptions: ["-c", "--class", "-n", "--classdata"], refusedOptions: ["-p", "--pid", "-P", "--pgid", "-u", "--uid"] },
+  nohup: { valueOptions: [] },
+  setsid: { valueOptions: [] },
+  stdbuf: { valueOptions: ["-i", "-o", "-e", "--input", "--output", "--error"] },
+  timeout: { valueOptions: ["-s", "--signal", "-k", "--kill-after"], positionals: 1 },
+  flock: { valueOptions: ["-w", "--wait", "--timeout", "-E", "--conflict-exit-code"], positionals: 1, refusedOptions: ["-c", "--command"] },
+  xargs: { valueOptions: ["-a", "--arg-file", "-d", "--delimiter", "-E", "-I", "-L", "--max-lines", "-n", "--max-args", "-P", "--max-procs", "-s", "--max-chars"] },
+  time: { valueOptions: ["-f", "--format", "-o", "--output"] },
+  busybox: { valueOptions: [] },
+};
+
+/** Arguments that make an otherwise harmless program follow forever or write/delete */
+const REFUSED_EXEC_ARGUMENTS: Record<string, string[]> = {
+  tail: ["-f", "-F", "--follow"],
+  find: ["-delete", "-exec", "-execdir", "-ok", "-okdir", "-fprint"],
+  sed: ["-i", "--in-place"],
+};
+
+/** Budget for a single exec; output is also capped by MAX_OUTPUT_BYTES */
+const EXEC_TIMEOUT_MS = 30000;
+
+function parseAllowEntries(entries: string[]): string[][] {
+  return entries.map(e => e.trim().split(/\s+/)).filter(words => words[0]);
+}
+
+/**
+ * Load the exec allow-list
+ *
+ * DOCKER_EXEC_ALLOWLIST (comma-separated, e.g. "cat *,ls *,nginx -t") replaces the default list.
+ * An entry matches exactly unless it ends in `*`, which allows any further arguments.
+ * DOCKER_EXEC_ALLOWLIST_FILE points to JSON of the form
+ * { "default": ["cat *", "ls *"], "containers": { "postgres*": ["pg_isready *"] } }
+ * where container entries are added to the default list for matching containers.
+ */
+export function loadExecPolicy(): ExecPolicy {
+  let allow = process.env.DOCKER_EXEC_ALLOWLIST
+    ? process.env.DOCKER_EXEC_ALLOWLIST.split(",")
+    : DEFAULT_EXEC_ALLOWLIST;
+  const containers: ExecPolicy["containers"] = [];
+
+  const file = process.env.DOCKER_EXEC_ALLOWLIST_FILE;
+  if (file) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(fs.readFileSync(file, "utf-8"));
+    } catch (error) {
+      throw new Error(`Failed to read DOCKER_EXEC_ALLOWLIST_FILE ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (Array.isArray(parsed.default)) allow = parsed.default;
+    for (const [pattern, entries] of Object.entries(parsed.containers ?? {})) {
+      if (Array.isArray(entries)) containers.push({ pattern, allow: parseAllowEntries(entries.map(String)) });
+    }
+  }
+
+  return { allow: parseAllowEntries(allow), containers };
+}
+
+/**
+ * Split a command line into words, honouring single and double quotes
+ * No shell runs inside the container, so pipes, redirects and substitutions are refused
+ * instead of being passed on as literal arguments.
+ */
+export function splitExecCommand(command: string): string[] {
+  const words: string[] = [];
+  let current = "";
+  let inWord = false;
+  let quote: string | null = null;
+  for (const ch of command) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      else current += ch;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+      inWord = true;
+    } else if (/\s/.test(ch)) {
+      if (inWord) words.push(current);
+      current = "";
+      inWord = false;
+    } else if (";&|<>`$\\".includes(ch)) {
+      throw new Error(`Shell syntax is not supported in exec commands (found "${ch}"); run a single program`);
+    } else {
+      current += ch;
+      inWord = true;
+    }
+  }
+  if (quote) throw new Error("Unbalanced quote in exec command");
+  if (inWord) words.push(current);
+  if (words.length === 0) throw new Error("Empty exec command");
+  return words;
+}
+
+/**
+ * Index of the command a wrapper runs (`nice -n 5 cat` -> 3), or null if it runs none
+ */
+function wrappedCommandIndex(wrapper: (typeof EXEC_WRAPPERS)[string], argv: string[]): number | null {
+  let positionals = wrapper.positionals ?? 0;
+  for (let i = 1; i < argv.length; i++) {
+    const word = argv[i];
+    if (word === "--") {
+      i++;
+      while (positionals > 0 && i < argv.length) { i++; positionals--; }
+      return i < argv.length ? i : null;
+    }
+    if (word.startsWith("-") && word !== "-") {
+      if (wrapper.valueOptions.includes(word)) i++;
+      continue;
+    }
+    if (wrapper.assignments && word.includes("=")) continue;
+    if (positionals > 0) {
+      positionals--;
+      continue;
+    }
+    return i;
+  }
+  return null;
+}
+
+/**
+ * Hard refusal of a program or its arguments; wrappers are checked by the command they run
+ */
+function refusedExecCommand(argv: string[]): string | null {
+  const program = argv[0].split("/").pop()!;
+  if (REFUSED_EXEC_PROGRAMS.has(program) || program.startsWith("mkfs.")) {
+    return `"${program}" is interactive or destructive and is never run by exec`;
+  }
+  const refusedArgs = REFUSED_EXEC_ARGUMENTS[program] ?? [];
+  const refusedArg = argv.slice(1).find(a => refusedArgs.includes(a) || (program === "sed" && a.startsWith("-i")));
+  if (refusedArg) {
+    return `"${program} ${refusedArg}" is interactive or destructive and is never run by exec`;
+  }
+
+  const wrapper = EXEC_WRAPPERS[program];
+  if (!wrapper) return null;
+  const refusedOption = argv.slice(1).find(a => wrapper.refusedOptions?.some(o => a === o || a.startsWith(`${o}=`)));
+  if (refusedOption) {
+    return `"${program} ${refusedOption}" takes a command line and is never run by exec`;
+  }
+  const index = wrappedCommandIndex(wrapper, argv);
+  return index === null ? null : refusedExecCommand(argv.slice(index));
+}
+
+/**
+ * Check a command against the hard refusals and the allow-list for a container
+ *
+ * @returns null if allowed, otherwise the reason it was refused
+ */
+export function checkExecCommand(container: { name: string; id: string }, argv: string[], policy: ExecPolicy): string | null {
+  const refusal = refusedExecCommand(argv);
+  if (refusal) return refusal;
+
+  const entries = [
+    ...policy.allow,
+    ...policy.containers.filter(c => matchesContainerPattern(container, c.pattern)).flatMap(c => c.allow),
+  ];
+  const allowed = entries.some(words => {
+    const prefix = words[words.length - 1] === "*";
+    const fixed = prefix ? words.slice(0, -1) : words;
+    return (prefix ? fixed.length <= argv.length : fixed.length === argv.length) && fixed.every((w, i) => argv[i] === w);
+  });
+  if (!allowed) {
+    const list = entries.map(words => words.join(" ")).join(", ") || "none";
+    return `"${argv.join(" ")}" is not in the exec allow-list for ${container.name} (allowed: ${list})`;
+  }
+  return null;
+}
+
+/**
+ * Parse `docker ps --format json` (one JSON object per line)
+ */
+export function parseContainerList(output: string): ContainerSummary[] {
+  const list = (value: unknown) => String(value ?? "").split(",").map(s => s.trim()).filter(Boolean);
+  return output.trim().split("\n").filter(l => l.trim()).map((line) => {
+    const c = JSON.parse(line);
+    return {
+      id: String(c.ID ?? ""),
+      name: String(c.Names ?? ""),
+      image: String(c.Image ?? ""),
+      state: String(c.State ?? ""),
+      status: String(c.Status ?? ""),
+      ports: list(c.Ports),
+      networks: list(c.Networks),
+      ...(c.CreatedAt ? { createdAt: String(c.CreatedAt) } : {}),
+    };
+  });
+}
+
+async function inspectState(sshExecutor: SSHExecutor, container: string): Promise<ContainerState> {
+  const [info] = JSON.parse(await sshExecutor(sh`docker inspect ${container}`));
+  const health = info.State?.Health?.Status;
+  const policy = info.HostConfig?.RestartPolicy;
+  return {
+    name: String(info.Name ?? container).replace(/^\//, ""),
+    id: info.Id ?? "",
+    status: `${info.State?.Status ?? "unknown"}${health ? ` (${health})` : ""}`,
+    restartPolicy: policy?.Name
+      ? `${policy.Name}${policy.MaximumRetryCount ? `:${policy.MaximumRetryCount}` : ""}`
+      : "no",
+  };
+}
+
+function formatState(state: ContainerState): string {
+  return `${state.status}, restart policy: ${state.restartPolicy}`;
+}
+
+/** Unraid's user templates, cross-referenced by image_updates */
+const UNRAID_TEMPLATES_DIR = "/boot/config/plugins/dockerMan/templates-user";
+
+/** Unraid's cached result of its own update check */
+const UNRAID_UPDATE_STATUS_FILE = "/var/lib/docker/unraid-update-status.json";
+
+/**
+ * Update status of one running container
+ */
+interface ImageUpdateStatus {
+  container: string;
+  image: string;
+  ageDays: number | null;
+  outdated: string[];
+  notes: string[];
+}
+
+/**
+ * Add the implicit :latest tag so references match docker's RepoTags
+ */
+function normalizeImageRef(ref: string): string {
+  if (ref.includes("@")) return ref;
+  const lastSegment = ref.split("/").pop() ?? ref;
+  return lastSegment.includes(":") ? ref : `${ref}:latest`;
+}
+
+/**
+ * Digest of the image a tag currently points to in its registry
+ * Tries buildx (handles multi-arch lists) first, then `docker manifest inspect -v`
+ */
+async function registryDigest(sshExecutor: SSHExecutor, ref: string): Promise<string | null> {
+  try {
+    const digest = (await sshExecutor(sh`docker buildx imagetools inspect ${ref} --format '{{.Manifest.Digest}}'`, { timeoutMs: 60000 })).trim();
+    if (digest.startsWith("sha256:")) return digest;
+  } catch {}
+  try {
+    const manifest = JSON.parse(await sshExecutor(sh`docker manifest inspect -v ${ref}`, { timeoutMs: 60000 }));
+    // A list (multi-arch) has no single comparable digest here
+    if (!Array.isArray(manifest) && manifest.Descriptor?.digest) return manifest.Descriptor.digest;
+  } catch {}
+  return null;
+}
+
+/**
+ * Compare each running container's image with the locally pulled tag and, if
+ * requested, with the registry; cross-reference Unraid templates and update status
+ */
+async function checkImageUpdates(
+  sshExecutor: SSHExecutor,
+  options: { container?: string; checkRegistry: boolean }
+): Promise<ImageUpdateStatus[]> {
+  const inspectCmd = options.container
+    ? sh`docker inspect ${dockerName(options.container)}`
+    : `ids=$(docker ps -q); if [ -n "$ids" ]; then docker inspect $ids; else echo '[]'; fi`;
+  const containers: any[] = JSON.parse(await sshExecutor(inspectCmd));
+  if (containers.length === 0) return [];
+
+  // Local images: both the tags containers were created from and the images they run
+  const refs = [...new Set(containers.flatMap(c => [normalizeImageRef(c.Config.Image), c.Image]))];
+  const imagesOutput = await sshExecutor(sh`docker image inspect ${refs} 2>/dev/null || true`);
+  const images: any[] = imagesOutput.trim() ? JSON.parse(imagesOutput) : [];
+  const imageById = new Map(images.map(i => [i.Id, i]));
+  const imageByTag = new Map<string, any>();
+  for (const image of images) {
+    for (const tag of image.RepoTags ?? []) imageByTag.set(tag, image);
+  }
+
+  // Unraid template repositories (my-<container>.xml) and dockerMan's cached status
+  const templateRepos = new Map<string, string>();
+  const templates = await sshExecutor(`grep -H -o '<Repository>[^<]*</Repository>' ${UNRAID_TEMPLATES_DIR}/*.xml 2>/dev/null || true`);
+  for (const line of templates.split("\n")) {
+    const match = line.match(/\/([^/]+)\.xml:<Repository>([^<]*)<\/Repository>/);
+    if (match) templateRepos.set(match[1], match[2].trim());
+  }
+  let unraidStatus: Record<string, { status?: string }> = {};
+  try {
+    const raw = await sshExecutor(`cat ${UNRAID_UPDATE_STATUS_FILE} 2>/dev/null || true`);
+    if (raw.trim()) unraidStatus = JSON.parse(raw);
+  } catch {}
+
+  const registryCache = new Map<string, Promise<string | null>>();
+  const results: ImageUpdateStatus[] = [];
+
+  for (const c of containers) {
+    const name = String(c.Name).replace(/^\//, "");
+    const ref = normalizeImageRef(c.Config.Image);
+    const running = imageById.get(c.Image);
+    const local = imageByTag.get(ref);
+    const status: ImageUpdateStatus = {
+      container: name,
+      image: c.Config.Image,
+      ageDays: running?.Created ? Math.floor((Date.now() - Date.parse(running.Created)) / 86400000) : null,
+      outdated: [],
+      notes: [],
+    };
+
+    if (ref.includes("@")) {
+      status.notes.push("pinned by digest");
+    } else if (!local) {
+      status.notes.push("tag no longer present locally");
+    } else if (local.Id !== c.Image) {
+      status.outdated.push(`newer image pulled for ${ref} - recreate the container to use it`);
+    }
+
+    if (options.checkRegistry && !ref.includes("@")) {
+      if (!registryCache.has(ref)) registryCache.set(ref, registryDigest(sshExecutor, ref));
+      const remote = await registryCache.get(ref)!;
+      if (!remote) {
+        status.notes.push("registry digest unavailable");
+      } else {
+        const localDigests = (running?.RepoDigests ?? []).map((d: string) => d.split("@")[1]);
+        if (!localDigests.includes(remote)) status.outdated.push(`registry has ${remote.substring(0, 19)}`);
+      }
+    }
+
+    const templateRepo = templateRepos.get(`my-${name}`);
+    if (templateRepo !== undefined) {
+      status.notes.push(`template: my-${name}.xml`);
+      if (normalizeImageRef(templateRepo) !== ref) {
+        status.notes.push(`template repository ${templateRepo} differs from running image`);
+      }
+    }
+    if (unraidStatus[ref]?.status === "false") {
+      status.outdated.push("Unraid reports an update available");
+    }
+
+    results.push(status);
+  }
+
+  return results;
+}
+
+function formatImageUpdates(results: ImageUpdateStatus[], checkRegistry: boolean): string {
+  if (results.length === 0) return "No running containers.";
+  const outdated = results.filter(r => r.outdated.length > 0);
+  const current = results.filter(r => r.outdated.length === 0);
+  const describe = (r: ImageUpdateStatus) => {
+    let text = `${r.container}\n  Image: ${r.image}\n  Age: ${r.ageDays === null ? "unknown" : `${r.ageDays}d`}\n`;
+    for (const reason of r.outdated) text += `  Outdated: ${reason}\n`;
+    for (const note of r.notes) text += `  Note: ${note}\n`;
+    return text;
+  };
+
+  let text = `Image Updates (${results.length} containers, registry check: ${checkRegistry ? "on" : "off"}):\n\n`;
+  text += `OUTDATED (${outdated.length}):\n`;
+  text += outdated.length ? outdated.map(describe).join("\n") : "  None\n";
+  text += `\nUP TO DATE (${current.length}):\n`;
+  text += current.length ? current.map(describe).join("\n") : "  None\n";
+  return text;
+}
+
+/** Event types accepted by `docker events --filter type=` */
+const dockerEventTypes = ["container", "image", "network", "volume", "daemon", "plugin", "service", "node", "secret", "config"] as const;
+
+/**
+ * One-line rendering of an event: time, type, action, subject and the useful attributes
+ */
+function formatDockerEvent(event: DockerEvent): string {
+  const time = new Date(event.time * 1000).toISOString().replace("T", " ").substring(0, 19);
+  const details: string[] = [];
+  if (event.detail) details.push(event.detail);
+  if (event.attributes.exitCode !== undefined) details.push(`exit ${event.attributes.exitCode}`);
+  if (event.attributes.signal) details.push(`signal ${event.attributes.signal}`);
+  if (event.type === "network" && event.attributes.container) details.push(`container ${event.attributes.container.substring(0, 12)}`);
+  const subject = event.name || event.id.substring(0, 12);
+  return `${time}  ${event.type.padEnd(9)} ${event.action.padEnd(14)} ${subject}${details.length ? ` (${details.join(", ")})` : ""}`;
+}
+
+function formatDockerEvents(events: DockerEvent[], heading: string, source: string, limit: number): string {
+  let text = `${heading}\nSource: ${source}\n\n`;
+  if (events.length === 0) return text + "No matching events.\n";
+
+  const counts = new Map<string, number>();
+  for (const e of events) counts.set(`${e.type} ${e.action}`, (counts.get(`${e.type} ${e.action}`) ?? 0) + 1);
+  const summary = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([k, n]) => `${k} ${n}`);
+  text += `Summary (${events.length} events): ${summary.join(", ")}\n\n`;
+
+  const shown = events.slice(-limit);
+  if (shown.length < events.length) text += `Showing the ${shown.length} most recent:\n`;
+  return text + shown.map(formatDockerEvent).join("\n") + "\n";
+}
+
+/**
+ * Build the docker command for a lifecycle action on a resolved container
+ */
+function lifecycleCommand(action: LifecycleAction, container: string, args: { timeoutSeconds?: number; signal?: string; restartPolicy?: string }): string {
+  switch (action) {
+    case "stop":
+    case "restart":
+      return args.timeoutSeconds !== undefined
+        ? sh`docker ${action} -t ${args.timeoutSeconds} ${container}`
+        : sh`docker ${action} ${container}`;
+    case "kill":
+      return args.signal ? sh`docker kill --signal ${args.signal} ${container}` : sh`docker kill ${container}`;
+    case "update_restart":
+      return sh`docker update --restart ${args.restartPolicy!} ${container}`;
+    default:
+      return sh`docker ${action} ${container}`;
+  }
+}
+
 export function registerDockerTools(
   server: McpServer,
   sshExecutor: SSHExecutor
 ): void {
+  const protectedContainers = loadProtectedContainers();
+  const execPolicy = loadExecPolicy();
+
   server.tool(
     "docker",
-    "Docker ops. Actions: list_containers, inspect, logs, stats, port, env, top, health, logs_aggregate (search all), list_networks, inspect_network, list_volumes, inspect_volume, network_containers.",
+    "Docker ops. Actions: list_containers, inspect, logs, stats, port, env, top, health, logs_aggregate (search all), list_networks, inspect_network, list_volumes, inspect_volume, network_containers, image_updates (outdated images; checkRegistry queries the registry), events (parsed die/oom/health/pull/network events; filter by eventType, eventAction, container, dockerSince/dockerUntil; recent windows come from a background buffer), exec (run an allow-listed command in a container, e.g. cat, ls, printenv, nginx -t). Lifecycle (need confirm: true): start, stop, restart, pause, unpause, kill, update_restart (set restart policy).",
     {
       action: z.enum(dockerActions).describe("Action"),
       container: z.string().optional().describe("Container"),
@@ -28,7 +532,16 @@ export function registerDockerTools(
       filter: z.string().optional().describe("Filter"),
       dangling: z.boolean().optional().describe("Dangling only"),
       pattern: z.string().optional().describe("Search pattern"),
-      lines: z.number().optional().default(100).describe("Lines/container"),
+      lines: z.number().optional().default(100).describe("Lines/container (events: max events shown)"),
+      eventType: z.enum(dockerEventTypes).optional().describe("Event type (events)"),
+      eventAction: z.string().optional().describe("Comma-separated event actions, e.g. die,oom,health_status (events)"),
+      dockerUntil: z.string().optional().describe("Until (events)"),
+      command: z.string().optional().describe("Command to run in the container, e.g. 'nginx -t' (exec; must be allow-listed)"),
+      checkRegistry: z.boolean().optional().default(false).describe("Compare with registry (image_updates)"),
+      confirm: z.boolean().optional().describe("Confirm lifecycle action"),
+      timeoutSeconds: z.number().int().min(0).max(600).optional().describe("Stop/restart grace period (-t)"),
+      signal: z.string().regex(/^(SIG)?[A-Z0-9]+$/).optional().describe("Kill signal (default: SIGKILL)"),
+      restartPolicy: z.string().regex(/^(no|always|unless-stopped|on-failure(:\d+)?)$/).optional().describe("Restart policy for update_restart"),
       ...outputFiltersSchema.shape,
     },
     async (args) => {
@@ -38,19 +551,18 @@ export function registerDockerTools(
             const all = args.all ?? true;
             const cmd = all ? "docker ps -a --format json" : "docker ps --format json";
             const output = await sshExecutor(cmd);
-            const lines = output.trim().split("\n").filter(l => l.trim());
-            if (lines.length === 0) return { content: [{ type: "text", text: "No containers." }] };
-            const containers = lines.map(l => JSON.parse(l));
+            const containers = parseContainerList(output);
+            if (containers.length === 0) return { content: [{ type: "text", text: "No containers." }], structuredContent: { containers } };
             let formatted = containers.map(c =>
-              `ID: ${c.ID}\nName: ${c.Names}\nImage: ${c.Image}\nStatus: ${c.Status}\nState: ${c.State}\nPorts: ${c.Ports || "none"}\n`
+              `ID: ${c.id}\nName: ${c.name}\nImage: ${c.image}\nStatus: ${c.status}\nState: ${c.state}\nPorts: ${c.ports.join(", ") || "none"}\n`
             ).join("\n---\n\n");
             formatted = applyFiltersToText(formatted, args);
-            return { content: [{ type: "text", text: `Docker Containers:\n\n${formatted}` }] };
+            return { content: [{ type: "text", text: `Docker Containers:\n\n${formatted}` }], structuredContent: { containers } };
           }
 
           case "inspect": {
             if (!args.container) return { content: [{ type: "text", text: "Error: container required" }], isError: true };
-            const output = await sshExecutor(`docker inspect ${args.container}`);
+            const output = await sshExecutor(sh`docker inspect ${dockerName(args.container)}`);
             let formatted = JSON.stringify(JSON.parse(output), null, 2);
             formatted = applyFiltersToText(formatted, args);
             return { content: [{ type: "text", text: `Docker Inspect - ${args.container}:\n\n${formatted}` }] };
@@ -58,9 +570,9 @@ export function registerDockerTools(
 
           case "logs": {
             if (!args.container) return { content: [{ type: "text", text: "Error: container required" }], isError: true };
-            let cmd = `docker logs ${args.container}`;
-            if (args.dockerTail !== undefined) cmd += ` --tail ${args.dockerTail}`;
-            if (args.dockerSince !== undefined) cmd += ` --since ${args.dockerSince}`;
+            let cmd = sh`docker logs ${dockerName(args.container)}`;
+            if (args.dockerTail !== undefined) cmd += sh` --tail ${args.dockerTail}`;
+            if (args.dockerSince !== undefined) cmd += sh` --since ${plainArgument(args.dockerSince, "since")}`;
             cmd += " 2>&1"; // Capture both stdout and stderr
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
@@ -69,7 +581,7 @@ export function registerDockerTools(
 
           case "stats": {
             let cmd = "docker stats --no-stream";
-            if (args.container) cmd += ` ${args.container}`;
+            if (args.container) cmd += sh` ${dockerName(args.container)}`;
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `Docker Stats:\n\n${output}` }] };
@@ -77,21 +589,21 @@ export function registerDockerTools(
 
           case "port": {
             if (!args.container) return { content: [{ type: "text", text: "Error: container required" }], isError: true };
-            let cmd = applyFilters(`docker port ${args.container}`, args);
+            let cmd = applyFilters(sh`docker port ${dockerName(args.container)}`, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `Port Mappings - ${args.container}:\n\n${output.trim() || "None"}` }] };
           }
 
           case "env": {
             if (!args.container) return { content: [{ type: "text", text: "Error: container required" }], isError: true };
-            let cmd = applyFilters(`docker inspect --format='{{range .Config.Env}}{{println .}}{{end}}' ${args.container}`, args);
+            let cmd = applyFilters(sh`docker inspect --format='{{range .Config.Env}}{{println .}}{{end}}' ${dockerName(args.container)}`, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `Env - ${args.container}:\n\n${output.trim() || "None"}` }] };
           }
 
           case "top": {
             if (!args.container) return { content: [{ type: "text", text: "Error: container required" }], isError: true };
-            let cmd = applyFilters(`docker top ${args.container}`, args);
+            let cmd = applyFilters(sh`docker top ${dockerName(args.container)}`, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `Processes - ${args.container}:\n\n${output}` }] };
           }
@@ -113,13 +625,14 @@ export function registerDockerTools(
 
           case "logs_aggregate": {
             if (!args.pattern) return { content: [{ type: "text", text: "Error: pattern required" }], isError: true };
+            const pattern = plainArgument(args.pattern, "pattern");
             const containerList = await sshExecutor("docker ps --format '{{.Names}}'");
             const containers = containerList.trim().split("\n").filter(n => n.trim());
             if (containers.length === 0) return { content: [{ type: "text", text: "No running containers." }] };
             const results: string[] = [];
             for (const container of containers) {
               try {
-                const logCmd = `docker logs --tail ${args.lines ?? 100} ${container} 2>&1 | grep -i '${args.pattern}' || true`;
+                const logCmd = sh`docker logs --tail ${args.lines ?? 100} ${dockerName(container)} 2>&1 | grep -i -e ${pattern} || true`;
                 const logOutput = await sshExecutor(logCmd);
                 if (logOutput.trim()) results.push(`=== ${container} ===\n${logOutput.trim()}\n`);
               } catch { continue; }
@@ -132,7 +645,7 @@ export function registerDockerTools(
 
           case "list_networks": {
             let cmd = "docker network ls";
-            if (args.filter) cmd += ` --filter driver=${args.filter}`;
+            if (args.filter) cmd += sh` --filter driver=${dockerName(args.filter, "network driver")}`;
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `Docker Networks:\n\n${output}` }] };
@@ -140,7 +653,7 @@ export function registerDockerTools(
 
           case "inspect_network": {
             if (!args.network) return { content: [{ type: "text", text: "Error: network required" }], isError: true };
-            const output = await sshExecutor(`docker network inspect ${args.network}`);
+            const output = await sshExecutor(sh`docker network inspect ${dockerName(args.network, "network name")}`);
             let formatted = JSON.stringify(JSON.parse(output), null, 2);
             formatted = applyFiltersToText(formatted, args);
             return { content: [{ type: "text", text: `Network - ${args.network}:\n\n${formatted}` }] };
@@ -157,7 +670,7 @@ export function registerDockerTools(
 
           case "inspect_volume": {
             if (!args.volume) return { content: [{ type: "text", text: "Error: volume required" }], isError: true };
-            const output = await sshExecutor(`docker volume inspect ${args.volume}`);
+            const output = await sshExecutor(sh`docker volume inspect ${dockerName(args.volume, "volume name")}`);
             let formatted = JSON.stringify(JSON.parse(output), null, 2);
             formatted = applyFiltersToText(formatted, args);
             return { content: [{ type: "text", text: `Volume - ${args.volume}:\n\n${formatted}` }] };
@@ -165,11 +678,110 @@ export function registerDockerTools(
 
           case "network_containers": {
             if (!args.network) return { content: [{ type: "text", text: "Error: network required" }], isError: true };
-            let cmd = applyFilters(`docker network inspect ${args.network} --format '{{range $id, $container := .Containers}}{{$id}}: {{$container.Name}} ({{$container.IPv4Address}}){{println}}{{end}}'`, args);
+            let cmd = applyFilters(sh`docker network inspect ${dockerName(args.network, "network name")} --format '{{range $id, $container := .Containers}}{{$id}}: {{$container.Name}} ({{$container.IPv4Address}}){{println}}{{end}}'`, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `Containers on ${args.network}:\n\n${output.trim() || "None"}` }] };
           }
 
+          case "image_updates": {
+            const checkRegistry = args.checkRegistry ?? false;
+            const results = await checkImageUpdates(sshExecutor, { container: args.container, checkRegistry });
+            return { content: [{ type: "text", text: applyFiltersToText(formatImageUpdates(results, checkRegistry), args) }] };
+          }
+
+          case "events": {
+            const sinceArg = plainArgument(args.dockerSince ?? "1h", "since");
+            const untilArg = args.dockerUntil ? plainArgument(args.dockerUntil, "until") : undefined;
+            const container = args.container ? dockerName(args.container) : undefined;
+            const actions = args.eventAction
+              ? args.eventAction.split(",").map(a => identifier(a.trim(), "event action"))
+              : undefined;
+            const limit = args.lines ?? 100;
+            const window = parseEventWindow(sinceArg);
+            const heading = `Docker Events since ${sinceArg}${untilArg ? ` until ${untilArg}` : ""} (UTC)`;
+
+            // Relative windows up to now are answered from the background buffer when it covers them
+            const watcher = getEventWatcher(sshExecutor);
+            if (watcher?.refreshedAt && window !== null && !untilArg && watcher.covers(watcher.refreshedAt - window)) {
+              const events = watcher.query({ since: watcher.refreshedAt - window, type: args.eventType, container, actions });
+              const age = Math.max(0, Math.round(Date.now() / 1000 - watcher.refreshedAt));
+              const source = `in-memory buffer (refreshed ${new Date(watcher.refreshedAt * 1000).toISOString()}, ~${age}s ago)`;
+              return { content: [{ type: "text", text: applyFiltersToText(formatDockerEvents(events, heading, source, limit), args) }] };
+            }
+
+            const filters: string[] = [];
+            if (args.eventType) filters.push("--filter", `type=${args.eventType}`);
+            if (container) filters.push("--filter", `container=${container}`);
+            for (const action of actions ?? []) filters.push("--filter", `event=${action}`);
+            const since = window !== null ? `${window}s` : sinceArg;
+            const until = untilArg ? (parseEventWindow(untilArg) !== null ? `${parseEventWindow(untilArg)}s` : untilArg) : "0s";
+            const output = await sshExecutor(sh`docker events --since ${since} --until ${until} ${filters} --format ${"{{json .}}"}`);
+            const events = parseDockerEvents(output).filter(e => !actions || actions.includes(e.action));
+            return { content: [{ type: "text", text: applyFiltersToText(formatDockerEvents(events, heading, "docker events", limit), args) }] };
+          }
+
+          case "exec": {
+            if (!args.container || !args.command) return { content: [{ type: "text", text: "Error: container and command required" }], isError: true };
+            const target = await inspectState(sshExecutor, dockerName(args.container));
+            if (!target.status.startsWith("running")) {
+              return { content: [{ type: "text", text: `Error: ${target.name} is not running (${target.status})` }], isError: true };
+            }
+            const argv = splitExecCommand(args.command);
+            const refusal = checkExecCommand(target, argv, execPolicy);
+            if (refusal) return { content: [{ type: "text", text: `Refused: ${refusal}` }], isError: true };
+
+            // No -i/-t: exec never attaches a TTY or stdin
+            const cmd = sh`docker exec ${target.name} ${argv} 2>&1; echo "[exit $?]"`;
+            const output = await sshExecutor(cmd, { timeoutMs: EXEC_TIMEOUT_MS });
+            const exitMatch = output.match(/\[exit (\d+)\]\s*$/);
+            const body = exitMatch ? output.slice(0, exitMatch.index).trimEnd() : output.trimEnd();
+            const exitCode = exitMatch ? parseInt(exitMatch[1]) : null;
+            const text = `$ ${argv.join(" ")}  (in ${target.name})\n\n${applyFiltersToText(body, args)}\n\nExit code: ${exitCode ?? "unknown"}`;
+            return { content: [{ type: "text", text }], ...(exitCode ? { isError: true } : {}) };
+          }
+
+          case "start":
+          case "stop":
+          case "restart":
+          case "pause":
+          case "unpause":
+          case "kill":
+          case "update_restart": {
+            if (!args.container) return { content: [{ type: "text", text: "Error: container required" }], isError: true };
+            if (args.action === "update_restart" && !args.restartPolicy) {
+              return { content: [{ type: "text", text: "Error: restartPolicy required" }], isError: true };
+            }
+            const before = await inspectState(sshExecutor, dockerName(args.container));
+
+            const protectedBy = matchProtectedContainer(before, protectedContainers);
+            if (protectedBy) {
+              return {
+                content: [{ type: "text", text: `Refused: ${before.name} is protected (matches "${protectedBy}" in DOCKER_PROTECTED_CONTAINERS)` }],
+                isError: true,
+              };
+            }
+
+            if (args.confirm !== true) {
+              return {
+                content: [{ type: "text", text: `Not executed: ${args.action} ${before.name} requires confirm: true\n\nCurrent: ${formatState(before)}` }],
+                isError: true,
+              };
+            }
+
+            const cmd = lifecycleCommand(args.action, before.name, args);
+            // stop/restart wait for the grace period before killing
+            const output = await sshExecutor(cmd, { timeoutMs: ((args.timeoutSeconds ?? 10) + 30) * 1000 });
+            // Containers started with --rm are gone after stop/kill
+            const after = await inspectState(sshExecutor, before.name).catch(() => null);
+            console.error(`docker ${args.action} ${before.name}: ${before.status} -> ${after?.status ?? "removed"}`);
+
+            let text = `Docker ${args.action} - ${before.name}:\n\n`;
+            text += `Before: ${formatState(before)}\n`;
+            text += `After:  ${after ? formatState(after) : "container no longer exists"}\n`;
+            if (output.trim()) text += `\n${output.trim()}`;
+            return { content: [{ type: "text", text }] };
+          }
+
           default:
             return { content: [{ type: "text", text: `Unknown action: ${args.action}` }], isError: true };
         }
@@ -1,12 +1,21 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
-
-type SSHExecutor = (command: string) => Promise<string>;
+import { identifier, safePath, sh } from "../../shell.js";
+import { HealthReport, SmartDrive } from "../../structured.js";
+import { arrayIssues, formatArrayStatus, parseMdcmd } from "../../mdcmd.js";
+import { readSmartDrives } from "../../smart.js";
+import { SSHExecutor } from "../../platforms/types.js";
 
 enum HealthStatus { OK = "OK", WARNING = "WARNING", CRITICAL = "CRITICAL" }
 interface HealthCheckResult { category: string; status: HealthStatus; details: string; }
 
+function driveTemps(drives: SmartDrive[]): { device: string; temp: number }[] {
+  return drives
+    .filter(d => d.temperatureC !== undefined)
+    .map(d => ({ device: d.device.replace("/dev/", ""), temp: d.temperatureC! }));
+}
+
 const healthActions = ["comprehensive", "common_issues", "threshold_alerts", "compare_baseline", "diagnostic_report", "snapshot"] as const;
 
 export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: SSHExecutor): void {
@@ -31,35 +40,38 @@ export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: S
             const results: HealthCheckResult[] = [];
             // Array (Unraid-specific, but gracefully degrades)
             try {
-              const arrayStatus = await sshExecutor("cat /proc/mdcmd 2>/dev/null || mdcmd status");
-              const isStarted = arrayStatus.includes("mdState=STARTED");
-              const parityMatch = arrayStatus.match(/sbSyncErrs=(\d+)/);
-              const parityErrors = parityMatch ? parseInt(parityMatch[1]) : 0;
+              const array = parseMdcmd(await sshExecutor("cat /proc/mdcmd 2>/dev/null || mdcmd status"));
+              const issues = arrayIssues(array);
               let status = HealthStatus.OK, details = "Array running normally";
-              if (!isStarted) { status = HealthStatus.CRITICAL; details = "Array not started"; }
-              else if (parityErrors > 0) { status = HealthStatus.WARNING; details = `Parity errors: ${parityErrors}`; }
+              if (array.state !== "STARTED") { status = HealthStatus.CRITICAL; details = "Array not started"; }
+              else if (issues.length) {
+                status = issues.some(i => i.severity === "CRITICAL") ? HealthStatus.CRITICAL : HealthStatus.WARNING;
+                details = issues.map(i => i.message).join("; ");
+              }
               results.push({ category: "Array", status, details });
             } catch { results.push({ category: "Array", status: HealthStatus.WARNING, details: "Unable to check" }); }
-            // Temps
+            // Temps and drive health (SMART)
             try {
-              const devices = await sshExecutor("ls -1 /dev/sd? /dev/nvme?n? 2>/dev/null || true");
-              const deviceList = devices.trim().split("\n").filter(d => d.trim());
-              let maxTemp = 0;
-              for (const devicePath of deviceList) {
-                try {
-                  const deviceName = devicePath.replace("/dev/", "");
-                  const isNvme = deviceName.startsWith("nvme");
-                  const smartCmd = isNvme ? `smartctl -A -d nvme ${devicePath} 2>/dev/null | grep -i temperature | head -1` : `smartctl -A -d ata ${devicePath} 2>/dev/null | grep -i temperature_celsius | head -1`;
-                  const tempOutput = await sshExecutor(smartCmd);
-                  const tempMatch = tempOutput.match(/(\d+)\s+(Celsius|C\b)/i);
-                  if (tempMatch) { const temp = parseInt(tempMatch[1]); if (temp > maxTemp) maxTemp = temp; }
-                } catch {}
-              }
+              const drives = await readSmartDrives(sshExecutor);
+              const maxTemp = Math.max(0, ...driveTemps(drives).map(t => t.temp));
               let status = HealthStatus.OK, details = `Max temp: ${maxTemp}°C`;
               if (maxTemp > 60) { status = HealthStatus.CRITICAL; details = `Critical: ${maxTemp}°C`; }
               else if (maxTemp > 50) { status = HealthStatus.WARNING; details = `High: ${maxTemp}°C`; }
               results.push({ category: "Temps", status, details });
-            } catch { results.push({ category: "Temps", status: HealthStatus.WARNING, details: "Unable to check" }); }
+
+              const scored = drives.filter(d => d.health);
+              const unhealthy = scored.filter(d => d.health!.status !== "OK");
+              status = HealthStatus.OK;
+              details = `${scored.length} drives healthy${drives.length > scored.length ? `, ${drives.length - scored.length} not checked (standby)` : ""}`;
+              if (unhealthy.length) {
+                status = unhealthy.some(d => d.health!.status === "CRITICAL") ? HealthStatus.CRITICAL : HealthStatus.WARNING;
+                details = unhealthy.map(d => `${d.device.replace("/dev/", "")} (score ${d.health!.score}): ${d.health!.reasons.join(", ")}`).join("; ");
+              }
+              results.push({ category: "Drives", status, details });
+            } catch {
+              results.push({ category: "Temps", status: HealthStatus.WARNING, details: "Unable to check" });
+              results.push({ category: "Drives", status: HealthStatus.WARNING, details: "Unable to check" });
+            }
             // Disk
             try {
               const dfOutput = await sshExecutor("df -h | grep -E '^/dev/(sd|nvme|md)'");
@@ -107,28 +119,27 @@ export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: S
               results.push({ category: "Resources", status, details });
             } catch { results.push({ category: "Resources", status: HealthStatus.WARNING, details: "Unable to check" }); }
             const summary = results.map(r => `[${r.status}] ${r.category}: ${r.details}`).join("\n");
-            const overall = results.some(r => r.status === HealthStatus.CRITICAL) ? "CRITICAL" : results.some(r => r.status === HealthStatus.WARNING) ? "WARNING" : "OK";
-            return { content: [{ type: "text", text: applyFiltersToText(`=== Health Check ===\n\nOverall: ${overall}\n\n${summary}`, args) }] };
+            const overall = results.some(r => r.status === HealthStatus.CRITICAL) ? HealthStatus.CRITICAL : results.some(r => r.status === HealthStatus.WARNING) ? HealthStatus.WARNING : HealthStatus.OK;
+            const report: HealthReport = { overall, checks: results };
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== Health Check ===\n\nOverall: ${overall}\n\n${summary}`, args) }],
+              structuredContent: { report },
+            };
           }
 
           case "common_issues": {
             const issues: string[] = [];
-            // High temps
+            // High temps and failing drives
             try {
-              const devices = await sshExecutor("ls -1 /dev/sd? /dev/nvme?n? 2>/dev/null || true");
-              for (const devicePath of devices.trim().split("\n").filter(d => d.trim())) {
-                try {
-                  const deviceName = devicePath.replace("/dev/", "");
-                  const isNvme = deviceName.startsWith("nvme");
-                  const smartCmd = isNvme ? `smartctl -A -d nvme ${devicePath} 2>/dev/null | grep -i temperature | head -1` : `smartctl -A -d ata ${devicePath} 2>/dev/null | grep -i temperature_celsius | head -1`;
-                  const tempOutput = await sshExecutor(smartCmd);
-                  const tempMatch = tempOutput.match(/(\d+)\s+(Celsius|C\b)/i);
-                  if (tempMatch) {
-                    const temp = parseInt(tempMatch[1]);
-                    if (temp > 60) issues.push(`[CRITICAL] ${deviceName}: ${temp}°C`);
-                    else if (temp > 50) issues.push(`[HIGH] ${deviceName}: ${temp}°C`);
-                  }
-                } catch {}
+              const drives = await readSmartDrives(sshExecutor);
+              for (const { device, temp } of driveTemps(drives)) {
+                if (temp > 60) issues.push(`[CRITICAL] ${device}: ${temp}°C`);
+                else if (temp > 50) issues.push(`[HIGH] ${device}: ${temp}°C`);
+              }
+              for (const drive of drives) {
+                if (!drive.health || drive.health.status === "OK") continue;
+                const level = drive.health.status === "CRITICAL" ? "CRITICAL" : "HIGH";
+                issues.push(`[${level}] Drive ${drive.device.replace("/dev/", "")} (score ${drive.health.score}): ${drive.health.reasons.join(", ")}`);
               }
             } catch {}
             // Disk space
@@ -143,6 +154,13 @@ export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: S
                 }
               }
             } catch {}
+            // Unraid array (skipped on hosts without the md driver)
+            try {
+              const array = parseMdcmd(await sshExecutor("cat /proc/mdcmd 2>/dev/null || true"));
+              if (array.state) {
+                for (const issue of arrayIssues(array)) issues.push(`[${issue.severity === "CRITICAL" ? "CRITICAL" : "HIGH"}] Array: ${issue.message}`);
+              }
+            } catch {}
             // Container restarts
             try {
               const containersOutput = await sshExecutor("docker ps -a --format '{{.Names}},{{.State}},{{.Status}}'");
@@ -189,19 +207,8 @@ export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: S
             } catch {}
             // Temps
             try {
-              const devices = await sshExecutor("ls -1 /dev/sd? /dev/nvme?n? 2>/dev/null || true");
-              for (const devicePath of devices.trim().split("\n").filter(d => d.trim())) {
-                try {
-                  const deviceName = devicePath.replace("/dev/", "");
-                  const isNvme = deviceName.startsWith("nvme");
-                  const smartCmd = isNvme ? `smartctl -A -d nvme ${devicePath} 2>/dev/null | grep -i temperature | head -1` : `smartctl -A -d ata ${devicePath} 2>/dev/null | grep -i temperature_celsius | head -1`;
-                  const tempOutput = await sshExecutor(smartCmd);
-                  const tempMatch = tempOutput.match(/(\d+)\s+(Celsius|C\b)/i);
-                  if (tempMatch) {
-                    const temp = parseInt(tempMatch[1]);
-                    if (temp > tempThreshold) alerts.push(`Drive ${deviceName} ${temp}°C > ${tempThreshold}°C`);
-                  }
-                } catch {}
+              for (const { device, temp } of driveTemps(await readSmartDrives(sshExecutor))) {
+                if (temp > tempThreshold) alerts.push(`Drive ${device} ${temp}°C > ${tempThreshold}°C`);
               }
             } catch {}
             const header = `=== Threshold Alerts ===\n\nThresholds: CPU ${cpuThreshold}%, Mem ${memThreshold}%, Disk ${diskThreshold}%, Temp ${tempThreshold}°C\n\n`;
@@ -210,7 +217,7 @@ export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: S
           }
 
           case "compare_baseline": {
-            const baselineFile = args.baselineFile ?? "/tmp/unraid-baseline.json";
+            const baselineFile = safePath(args.baselineFile ?? "/tmp/unraid-baseline.json");
             const currentState: any = { timestamp: new Date().toISOString() };
             try {
               const containersOutput = await sshExecutor("docker ps -a --format '{{.Names}}'");
@@ -225,12 +232,11 @@ export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: S
             } catch { currentState.rootDiskPercent = 0; }
             let baseline: any = null;
             try {
-              const baselineJson = await sshExecutor(`cat ${baselineFile}`);
+              const baselineJson = await sshExecutor(sh`cat ${baselineFile}`);
               baseline = JSON.parse(baselineJson);
             } catch {
               try {
-                const escapedJson = JSON.stringify(currentState, null, 2).replace(/'/g, "'\"'\"'");
-                await sshExecutor(`echo '${escapedJson}' > ${baselineFile}`);
+                await sshExecutor(sh`printf '%s\n' ${JSON.stringify(currentState, null, 2)} > ${baselineFile}`);
                 return { content: [{ type: "text", text: applyFiltersToText(`=== Baseline ===\n\nNo baseline found. Saved current state to ${baselineFile}\n\n${JSON.stringify(currentState, null, 2)}`, args) }] };
               } catch (e) { throw new Error(`Failed to save baseline: ${e}`); }
             }
@@ -253,7 +259,7 @@ export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: S
               report += isMarkdown ? `**Uptime:** ${uptime}\n\n` : `Uptime: ${uptime}\n`;
             } catch {}
             try {
-              const arrayStatus = await sshExecutor("cat /proc/mdcmd 2>/dev/null || mdcmd status");
+              const arrayStatus = formatArrayStatus(parseMdcmd(await sshExecutor("cat /proc/mdcmd 2>/dev/null || mdcmd status")));
               report += isMarkdown ? `## Array\n\n\`\`\`\n${arrayStatus}\n\`\`\`\n\n` : `--- Array ---\n\n${arrayStatus}\n\n`;
             } catch {}
             try {
@@ -299,10 +305,9 @@ export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: S
             try { snapshot.uptime = await sshExecutor("uptime"); } catch { snapshot.uptime = "Unknown"; }
             let savedPath = "";
             if (args.name) {
-              const filename = `/tmp/snapshot-${args.name}-${Date.now()}.json`;
+              const filename = `/tmp/snapshot-${identifier(args.name, "snapshot name")}-${Date.now()}.json`;
               try {
-                const escapedJson = JSON.stringify(snapshot, null, 2).replace(/'/g, "'\"'\"'");
-                await sshExecutor(`echo '${escapedJson}' > ${filename}`);
+                await sshExecutor(sh`printf '%s\n' ${JSON.stringify(snapshot, null, 2)} > ${filename}`);
                 savedPath = filename;
               } catch {}
             }
@@ -9,3 +9,5 @@ export { registerPerformanceTools } from "./performance-tools.js";
 export { registerVMTools } from "./vm-tools.js";
 export { registerContainerTopologyTools } from "./container-topology-tools.js";
 export { registerHealthDiagnosticsTools } from "./health-diagnostics-tools.js";
+export { registerComposeTools } from "./compose-tools.js";
+export { registerSmartTools } from "./smart-tools.js";
@@ -1,11 +1,37 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFilters, applyFiltersToText, outputFiltersSchema } from "../../filters.js";
-
-type SSHExecutor = (command: string) => Promise<string>;
+import { ProcessInfo } from "../../structured.js";
+import { SSHExecutor } from "../../platforms/types.js";
 
 const monitoringActions = ["ps", "process_tree", "top", "iostat", "network_connections"] as const;
 
+/**
+ * Parse `ps aux` rows (USER PID %CPU %MEM VSZ RSS TTY STAT START TIME COMMAND)
+ * The header and any line that is not a process row are skipped.
+ */
+export function parseProcessList(output: string): ProcessInfo[] {
+  const processes: ProcessInfo[] = [];
+  for (const line of output.split("\n")) {
+    const m = line.trim().match(/^(\S+)\s+(\d+)\s+([\d.]+)\s+([\d.]+)\s+(\d+)\s+(\d+)\s+(\S+)\s+(\S+)\s+(\S+)\s+(\S+)\s+(.*)$/);
+    if (!m) continue;
+    processes.push({
+      user: m[1],
+      pid: parseInt(m[2]),
+      cpuPercent: parseFloat(m[3]),
+      memPercent: parseFloat(m[4]),
+      vszKb: parseInt(m[5]),
+      rssKb: parseInt(m[6]),
+      tty: m[7],
+      stat: m[8],
+      start: m[9],
+      time: m[10],
+      command: m[11],
+    });
+  }
+  return processes;
+}
+
 export function registerMonitoringTools(
   server: McpServer,
   sshExecutor: SSHExecutor
@@ -31,7 +57,10 @@ export function registerMonitoringTools(
             cmd += ` | head -n ${count + 1}`;  // +1 for header row
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
-            return { content: [{ type: "text", text: `Process List${args.sortBy ? ` (by ${args.sortBy})` : ""}:\n\n${output}` }] };
+            return {
+              content: [{ type: "text", text: `Process List${args.sortBy ? ` (by ${args.sortBy})` : ""}:\n\n${output}` }],
+              structuredContent: { processes: parseProcessList(output) },
+            };
           }
 
           case "process_tree": {
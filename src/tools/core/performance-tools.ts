@@ -1,8 +1,8 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
-
-type SSHExecutor = (command: string) => Promise<string>;
+import { SSHExecutor } from "../../platforms/types.js";
+import { streamingOptions } from "../../progress.js";
 
 const performanceActions = ["bottleneck", "bandwidth", "track_metric"] as const;
 
@@ -17,12 +17,12 @@ export function registerPerformanceTools(server: McpServer, sshExecutor: SSHExec
       intervalSeconds: z.number().int().positive().optional().default(5).describe("Interval"),
       ...outputFiltersSchema.shape,
     },
-    async (args) => {
+    async (args, extra) => {
       try {
         switch (args.action) {
           case "bottleneck": {
             const cmd = `top -b -n 2 -d 1 | grep "Cpu(s)" | tail -1 && if command -v iostat >/dev/null 2>&1; then iostat -x 1 2 | tail -n +4 | awk 'NF'; else echo "iostat not available"; fi && cat /proc/net/dev && uptime && free -m && ps aux --sort=-%cpu | head -15`;
-            const output = await sshExecutor(cmd);
+            const output = await sshExecutor(cmd, { timeoutMs: 30000 });
             const lines = output.split("\n");
             let analysis = "Bottleneck Analysis:\n\n=== RAW METRICS ===\n\n" + output + "\n\n=== ANALYSIS ===\n\n";
             let bottleneck = "None detected";
@@ -64,7 +64,9 @@ export function registerPerformanceTools(server: McpServer, sshExecutor: SSHExec
             } else {
               cmd = `for i in $(seq 1 ${samples}); do timestamp=$(date '+%Y-%m-%d %H:%M:%S'); disk=$(df -h / | awk 'NR==2{print $5}' | cut -d'%' -f1); echo "$timestamp,$disk"; [ $i -lt ${samples} ] && sleep ${interval}; done`;
             }
-            const output = await sshExecutor(cmd);
+            // Sampling runs for the full duration; allow one extra interval plus slack.
+            // Each sample is streamed to the client as it is taken.
+            const output = await sshExecutor(cmd, streamingOptions(extra, { timeoutMs: (duration + interval + 15) * 1000 }, samples));
             return { content: [{ type: "text", text: applyFiltersToText(`Metric: ${args.metric}\nDuration: ${duration}s, Interval: ${interval}s\n\nTimestamp,Value\n${output}`, args) }] };
           }
 
@@ -1,8 +1,12 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { SSHExecutor } from "../../platforms/types.js";
+import { streamingOptions } from "../../progress.js";
+import { dockerName, identifier, safePath, sh } from "../../shell.js";
 
-type SSHExecutor = (command: string) => Promise<string>;
+/** Budget for du/find walks over large trees such as /mnt/user */
+const DISK_SCAN_TIMEOUT_MS = 10 * 60 * 1000;
 
 const resourceActions = ["dangling", "hogs", "disk_analyzer", "docker_df", "zombies", "io_profile"] as const;
 
@@ -20,7 +24,7 @@ export function registerResourceManagementTools(server: McpServer, sshExecutor:
       duration: z.number().optional().default(5).describe("Duration (s)"),
       ...outputFiltersSchema.shape,
     },
-    async (args) => {
+    async (args, extra) => {
       try {
         switch (args.action) {
           case "dangling": {
@@ -37,7 +41,7 @@ export function registerResourceManagementTools(server: McpServer, sshExecutor:
             for (const net of allNetworks) {
               if (!["bridge", "host", "none"].includes(net.Name)) {
                 try {
-                  const inspect = await sshExecutor(`docker network inspect ${net.Name} --format json`);
+                  const inspect = await sshExecutor(sh`docker network inspect ${dockerName(net.Name, "network name")} --format json`);
                   const data = JSON.parse(inspect);
                   if (data[0] && Object.keys(data[0].Containers || {}).length === 0) unusedNetworks.push(net);
                 } catch {}
@@ -81,25 +85,25 @@ export function registerResourceManagementTools(server: McpServer, sshExecutor:
           }
 
           case "disk_analyzer": {
-            const path = args.path || "/mnt/user";
+            const path = safePath(args.path || "/mnt/user");
             const depth = args.depth || 2;
-            const minSize = args.minSize || "1G";
+            const minSize = identifier(args.minSize || "1G", "minSize");
             let report = `DISK ANALYSIS: ${path}\n${"=".repeat(70)}\n\n`;
-            const du = await sshExecutor(`du -h "${path}" --max-depth=${depth} 2>/dev/null | sort -hr | head -20`);
+            const du = await sshExecutor(sh`du -h ${path} --max-depth=${depth} 2>/dev/null | sort -hr | head -20`, { timeoutMs: DISK_SCAN_TIMEOUT_MS });
             report += `LARGEST DIRS (depth ${depth}):\n${"-".repeat(70)}\n${du}\n\n`;
             try {
-              const find = await sshExecutor(`find "${path}" -type f -size +${minSize} -exec ls -lh {} \\; 2>/dev/null | awk '{print $5 "\\t" $9}' | sort -hr | head -20`);
+              const find = await sshExecutor(sh`find ${path} -type f -size ${`+${minSize}`} -exec ls -lh {} \\; 2>/dev/null | awk '{print $5 "\\t" $9}' | sort -hr | head -20`, { timeoutMs: DISK_SCAN_TIMEOUT_MS });
               report += `LARGEST FILES (>${minSize}):\n${"-".repeat(70)}\n${find.trim() ? "SIZE\tPATH\n" + find : "None found."}\n\n`;
             } catch { report += "LARGEST FILES: Unable to search\n\n"; }
             try {
-              const df = await sshExecutor(`df -h "${path}"`);
+              const df = await sshExecutor(sh`df -h ${path}`);
               report += `FILESYSTEM:\n${"-".repeat(70)}\n${df}`;
             } catch {}
             return { content: [{ type: "text", text: applyFiltersToText(report, args) }] };
           }
 
           case "docker_df": {
-            const output = await sshExecutor("docker system df -v");
+            const output = await sshExecutor("docker system df -v", { timeoutMs: 60000 });
             let report = `DOCKER DISK USAGE\n${"=".repeat(70)}\n\n${output}`;
             return { content: [{ type: "text", text: applyFiltersToText(report, args) }] };
           }
@@ -127,7 +131,7 @@ export function registerResourceManagementTools(server: McpServer, sshExecutor:
           case "io_profile": {
             const duration = args.duration || 5;
             let report = `I/O PROFILE (${duration}s)\n${"=".repeat(70)}\n\n`;
-            const stats = await sshExecutor(`timeout ${duration + 1} docker stats --no-stream --format 'table {{.Name}}\\t{{.BlockIO}}\\t{{.NetIO}}\\t{{.CPUPerc}}\\t{{.MemPerc}}'`);
+            const stats = await sshExecutor(`timeout ${duration + 1} docker stats --no-stream --format 'table {{.Name}}\\t{{.BlockIO}}\\t{{.NetIO}}\\t{{.CPUPerc}}\\t{{.MemPerc}}'`, streamingOptions(extra, { timeoutMs: (duration + 15) * 1000 }));
             report += `CONTAINER I/O:\n${"-".repeat(70)}\n${stats}\n\n`;
             try {
               const iostat = await sshExecutor("iostat -x 1 2 | tail -n +4");
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { safePath, sh } from "../../shell.js";
 
 type SSHExecutor = (command: string) => Promise<string>;
 
@@ -39,7 +40,8 @@ export function registerSecurityTools(server: McpServer, sshExecutor: SSHExecuto
           case "cert_expiry": {
             let cmd: string;
             if (args.certPath) {
-              cmd = `if [ ! -f "${args.certPath}" ]; then echo "Not found: ${args.certPath}"; exit 1; fi; echo "=== Certificate: ${args.certPath} ==="; openssl x509 -in "${args.certPath}" -noout -enddate 2>/dev/null || echo "Failed to parse"; openssl x509 -in "${args.certPath}" -noout -subject 2>/dev/null || echo "Failed to get subject"`;
+              const certPath = safePath(args.certPath);
+              cmd = sh`if [ ! -f ${certPath} ]; then echo ${`Not found: ${certPath}`}; exit 1; fi; echo ${`=== Certificate: ${certPath} ===`}; openssl x509 -in ${certPath} -noout -enddate 2>/dev/null || echo "Failed to parse"; openssl x509 -in ${certPath} -noout -subject 2>/dev/null || echo "Failed to get subject"`;
             } else {
               cmd = `echo "=== SSL Certificate Check ==="; echo ""; found=0; for pattern in /etc/ssl/certs/*.crt /etc/pki/tls/certs/*.crt /etc/nginx/ssl/*.crt; do for cert in $pattern; do if [ -f "$cert" ]; then found=1; echo "Certificate: $cert"; expiry=$(openssl x509 -in "$cert" -noout -enddate 2>/dev/null | cut -d= -f2); if [ -n "$expiry" ]; then echo "  Expires: $expiry"; expiry_epoch=$(date -d "$expiry" +%s 2>/dev/null); now_epoch=$(date +%s); if [ -n "$expiry_epoch" ]; then days_left=$(( ($expiry_epoch - $now_epoch) / 86400 )); echo "  Days left: $days_left"; [ $days_left -lt 30 ] && echo "  WARNING: Expires soon!"; fi; fi; echo ""; fi; done; done; [ $found -eq 0 ] && echo "No certificates found in common locations."`;
             }
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { SSHExecutor } from "../../platforms/types.js";
+import { formatSmartDrive, formatSmartSummary, readSmartDrive, readSmartDrives } from "../../smart.js";
+import { SmartHistory, formatSmartTrends, loadSmartHistory, smartTrend } from "../../smart-history.js";
+import { SmartDrive, SmartTrend } from "../../structured.js";
+
+const smartActions = ["summary", "drive", "history"] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Add the drives to the history; a data dir that cannot be written must not fail the call
+ */
+function recordHistory(history: SmartHistory, drives: SmartDrive[], host: string): void {
+  try {
+    history.record(drives, host);
+  } catch (error) {
+    console.error(`Could not record SMART history in ${history.dir}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * @param host Name of the host the executor runs on, which keys device paths in the history
+ */
+export function registerSmartTools(server: McpServer, sshExecutor: SSHExecutor, host = "default"): void {
+  server.tool(
+    "smart",
+    "Drive health from smartctl --json (any Linux host with smartmontools 7+; sleeping drives are not woken). Actions: summary (every drive with health score and reasons), drive (one drive in detail), history (SMART changes over time per drive serial, degradation findings and endurance projections).",
+    {
+      action: z.enum(smartActions).describe("Action"),
+      device: z.string().optional().describe("Device, e.g. sda or nvme0n1 (drive, history)"),
+      days: z.number().int().min(1).max(3650).optional().default(30).describe("Window in days (history)"),
+      ...outputFiltersSchema.shape,
+    },
+    async (args) => {
+      try {
+        switch (args.action) {
+          case "summary": {
+            const drives = await readSmartDrives(sshExecutor);
+            recordHistory(loadSmartHistory(), drives, host);
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== SMART Summary ===\n\n${formatSmartSummary(drives)}`, args) }],
+              structuredContent: { drives },
+            };
+          }
+
+          case "drive": {
+            if (!args.device) return { content: [{ type: "text", text: "Error: device required" }], isError: true };
+            const drive = await readSmartDrive(sshExecutor, args.device);
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== SMART - ${args.device} ===\n\n${formatSmartDrive(drive)}`, args) }],
+              structuredContent: { drives: [drive] },
+            };
+          }
+
+          case "history": {
+            const windowDays = args.days ?? 30;
+            const history = loadSmartHistory();
+            const drives = await readSmartDrives(sshExecutor);
+            recordHistory(history, drives, host);
+
+            // Drives in standby have no serial in their output; use the one last seen at that device on this host
+            const wanted = args.device ? `/dev/${args.device.replace(/^\/dev\//, "")}` : undefined;
+            const serials = new Set<string>();
+            for (const drive of drives) {
+              if (wanted && drive.device !== wanted) continue;
+              const serial = drive.serial ?? history.serialForDevice(host, drive.device);
+              if (serial) serials.add(serial);
+            }
+
+            const since = Date.now() - windowDays * DAY_MS;
+            const trends = [...serials]
+              .map(serial => smartTrend(serial, history.samples(serial, since)))
+              .filter((t): t is SmartTrend => t !== null);
+            return {
+              content: [{ type: "text", text: applyFiltersToText(`=== SMART History ===\n\n${formatSmartTrends(trends, windowDays)}`, args) }],
+              structuredContent: { trends },
+            };
+          }
+
+          default:
+            return { content: [{ type: "text", text: `Unknown action: ${args.action}` }], isError: true };
+        }
+      } catch (error) {
+        return { content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    }
+  );
+}
@@ -1,8 +1,8 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { applyFilters, outputFiltersSchema } from "../../filters.js";
-
-type SSHExecutor = (command: string) => Promise<string>;
+import { SSHExecutor } from "../../platforms/types.js";
+import { plainArgument, safePath, sh } from "../../shell.js";
 
 const systemActions = ["list_files", "read_file", "find_files", "disk_usage", "system_info"] as const;
 
@@ -26,7 +26,8 @@ export function registerSystemTools(
         switch (args.action) {
           case "list_files": {
             if (!args.path) return { content: [{ type: "text", text: "Error: path required" }], isError: true };
-            let cmd = args.long ? `ls -lah "${args.path}"` : `ls "${args.path}"`;
+            const path = safePath(args.path);
+            let cmd = args.long ? sh`ls -lah ${path}` : sh`ls ${path}`;
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: output }] };
@@ -35,7 +36,8 @@ export function registerSystemTools(
           case "read_file": {
             if (!args.path) return { content: [{ type: "text", text: "Error: path required" }], isError: true };
             const maxLines = args.maxLines ?? 1000;
-            let cmd = maxLines > 0 ? `head -n ${maxLines} "${args.path}"` : `cat "${args.path}"`;
+            const path = safePath(args.path);
+            let cmd = maxLines > 0 ? sh`head -n ${maxLines} ${path}` : sh`cat ${path}`;
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
             const lineCount = output.split("\n").length;
@@ -48,9 +50,9 @@ export function registerSystemTools(
 
           case "find_files": {
             if (!args.path || !args.pattern) return { content: [{ type: "text", text: "Error: path and pattern required" }], isError: true };
-            let cmd = `find "${args.path}" -name "${args.pattern}" -type f 2>/dev/null`;
+            let cmd = sh`find ${safePath(args.path)} -name ${plainArgument(args.pattern, "pattern")} -type f 2>/dev/null`;
             cmd = applyFilters(cmd, args);
-            const output = await sshExecutor(cmd);
+            const output = await sshExecutor(cmd, { timeoutMs: 120000 });
             if (!output?.trim()) return { content: [{ type: "text", text: `No files matching "${args.pattern}" in ${args.path}` }] };
             const files = output.trim().split("\n");
             let result = output;
@@ -61,8 +63,8 @@ export function registerSystemTools(
           }
 
           case "disk_usage": {
-            const path = args.path ?? "/";
-            let cmd = applyFilters(`df -h "${path}"`, args);
+            const path = safePath(args.path ?? "/");
+            let cmd = applyFilters(sh`df -h ${path}`, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: output }] };
           }
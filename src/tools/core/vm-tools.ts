@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFilters, outputFiltersSchema } from "../../filters.js";
+import { sh, vmName } from "../../shell.js";
 
 type SSHExecutor = (command: string) => Promise<string>;
 
@@ -30,19 +31,20 @@ export function registerVMTools(
 
           case "info": {
             if (!args.vm) return { content: [{ type: "text", text: "Error: vm required" }], isError: true };
-            let cmd = applyFilters(`virsh dominfo ${args.vm}`, args);
+            let cmd = applyFilters(sh`virsh dominfo ${vmName(args.vm)}`, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `VM Info - ${args.vm}:\n\n${output}` }] };
           }
 
           case "vnc": {
             if (!args.vm) return { content: [{ type: "text", text: "Error: vm required" }], isError: true };
-            let cmd = applyFilters(`virsh vncdisplay ${args.vm}`, args);
+            const vm = vmName(args.vm);
+            let cmd = applyFilters(sh`virsh vncdisplay ${vm}`, args);
             const output = await sshExecutor(cmd);
             const result = output.trim();
             if (!result) {
               try {
-                const xmlOutput = await sshExecutor(`virsh dumpxml ${args.vm} | grep -A 5 "<graphics"`);
+                const xmlOutput = await sshExecutor(sh`virsh dumpxml ${vm} | grep -A 5 "<graphics"`);
                 return { content: [{ type: "text", text: `VNC - ${args.vm}:\n\nNo VNC active. Config:\n${xmlOutput}` }] };
               } catch {
                 return { content: [{ type: "text", text: `VNC - ${args.vm}:\n\nNo VNC configured or VM not running.` }] };
@@ -54,7 +56,7 @@ export function registerVMTools(
           case "logs": {
             const lines = args.lines ?? 100;
             if (args.vm) {
-              let cmd = applyFilters(`tail -n ${lines} /var/log/libvirt/qemu/${args.vm}.log`, args);
+              let cmd = applyFilters(sh`tail -n ${lines} ${`/var/log/libvirt/qemu/${vmName(args.vm)}.log`}`, args);
               const output = await sshExecutor(cmd);
               return { content: [{ type: "text", text: `Logs - ${args.vm} (${lines} lines):\n\n${output}` }] };
             } else {
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { HostManager, ManagedHost } from "../host-manager.js";
+
+const hostActions = ["list", "circuit_status", "circuit_reset"] as const;
+
+function formatCircuit(host: ManagedHost): string {
+  const cb = host.manager.getCircuitBreakerStatus();
+  let text = `${host.name}: ${cb.state.toUpperCase()}\n`;
+  text += `  Failures: ${cb.consecutiveFailures}/${cb.failureThreshold}\n`;
+  text += `  Cooldown: ${cb.cooldownMs}ms\n`;
+  if (cb.openedAt) text += `  Opened: ${cb.openedAt}\n`;
+  if (cb.nextRetryAt) text += `  Next retry: ${cb.nextRetryAt}\n`;
+  if (cb.lastError) text += `  Last error: ${cb.lastError}\n`;
+  return text;
+}
+
+/**
+ * Server-level tool for the managed hosts themselves (connections, circuit breakers)
+ * Registered once rather than per host, since it reports on all of them
+ */
+export function registerHostTools(server: McpServer, hosts: HostManager): void {
+  server.tool(
+    "hosts",
+    "Managed SSH hosts. Actions: list (hosts/platforms/connection), circuit_status (circuit breaker state), circuit_reset (probe now and close breaker).",
+    {
+      action: z.enum(hostActions).describe("Action"),
+      host: z.string().optional().describe("Host (default: all for list/status, default host for reset)"),
+    },
+    async (args) => {
+      try {
+        const selected = args.host ? [hosts.get(args.host)] : hosts.list();
+
+        switch (args.action) {
+          case "list": {
+            const text = selected.map(h => {
+              const marker = h.name === hosts.defaultHost ? " (default)" : "";
+              return `${h.name}${marker}\n  Address: ${h.manager.getHostAddress()}\n  Platform: ${h.platform?.displayName ?? "unknown"}\n  Connected: ${h.manager.isConnected()}\n  Circuit: ${h.manager.getCircuitBreakerStatus().state}\n`;
+            }).join("\n");
+            return { content: [{ type: "text", text: `Hosts:\n\n${text}` }] };
+          }
+
+          case "circuit_status": {
+            const text = selected.map(formatCircuit).join("\n");
+            return { content: [{ type: "text", text: `Circuit Breakers:\n\n${text}` }] };
+          }
+
+          case "circuit_reset": {
+            const host = hosts.get(args.host);
+            await host.manager.resetCircuitBreaker();
+            return { content: [{ type: "text", text: `Circuit breaker reset:\n\n${formatCircuit(host)}` }] };
+          }
+
+          default:
+            return { content: [{ type: "text", text: `Unknown action: ${args.action}` }], isError: true };
+        }
+      } catch (error) {
+        return { content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    }
+  );
+}